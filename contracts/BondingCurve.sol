@@ -5,23 +5,31 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import "./interfaces/IUniswapV2Factory.sol";
 import "./interfaces/IUniswapV2Router02.sol";
 import "./interfaces/IUniswapV2Pair.sol";
+import "./interfaces/IBondingCurveStrategy.sol";
 
 interface IStonkToken is IERC20 {
-    function addLiquidityPool(address pool) external;
+    function onGraduation(address pair) external;
 }
 
 contract BondingCurve is Ownable, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
+    // Per-launch curve parameters, checked against the factory's bounds
+    struct LaunchConfig {
+        uint256 graduationThreshold; // Asset balance that triggers graduation
+        uint256 assetRate; // Normalises the curve constant for the asset
+        uint256 curveConstant; // K, the curve scale before normalisation
+        uint256 totalSupply; // Token supply, all of which starts on the curve
+    }
+
     // Constants
-    uint256 public constant K = 3_000_000_000_000; // Bonding curve constant
     uint256 public constant PRECISION = 1e18;
     uint256 public constant BASIS_POINTS = 10000;
     uint256 public constant MIN_LIQUIDITY = 1e18; // 1 token (adjust as needed)
-    uint256 public constant MIN_ASSET_LIQUIDITY = 1e6; // 1 USDC (6 decimals, adjust as needed)
 
     // State variables
     IERC20 public assetToken; // The token used for buying/selling (e.g., USDC)
@@ -30,8 +38,22 @@ contract BondingCurve is Ownable, ReentrancyGuard {
     IStonkToken public stonkToken;
     uint256 public graduationThreshold;
     uint256 public assetRate; // Added assetRate for K normalization
+    uint256 public immutable curveConstant;
+    uint256 public immutable launchSupply; // Tokens on the curve at launch
+    uint256 public immutable minAssetLiquidity; // In the asset's own units
     bool public isGraduated;
 
+    // Tokens held for sale. Sellers deposit before calling, and only the
+    // balance above this is priced, so a taxed transfer sells what arrived.
+    uint256 public tokenReserve;
+
+    // Quote asset backing the tokens sold. Buyers deposit before calling,
+    // and a buy may only spend the balance above this.
+    uint256 public assetReserve;
+
+    // Shape of the price curve
+    IBondingCurveStrategy public immutable curveStrategy;
+
     // Fee management
     uint256 public feeBasisPoints;
     address public treasury;
@@ -49,8 +71,13 @@ contract BondingCurve is Ownable, ReentrancyGuard {
         uint256 proceeds,
         uint256 fee
     );
-    event TokenGraduated(address indexed token, address indexed pair);
-    event LiquidityAdded(uint256 tokenAmount, uint256 assetAmount);
+    event GraduationCompleted(
+        address indexed token,
+        address indexed pair,
+        uint256 liquidity, // LP tokens minted to this curve
+        uint256 pairTokenReserve,
+        uint256 pairAssetReserve
+    );
     event TokenAddressSet(address indexed token);
     event FeeCollected(
         address indexed treasury,
@@ -73,23 +100,29 @@ contract BondingCurve is Ownable, ReentrancyGuard {
         address _uniswapFactory,
         address _uniswapRouter,
         address _stonkToken,
-        uint256 _graduationThreshold,
-        uint256 _assetRate,
+        LaunchConfig memory _launchConfig,
+        uint256 _minAssetLiquidity,
         uint256 _feeBasisPoints,
-        address _treasury
+        address _treasury,
+        address _curveStrategy
     ) Ownable(msg.sender) {
         assetToken = IERC20(_assetToken);
         uniswapFactory = IUniswapV2Factory(_uniswapFactory);
         uniswapRouter = IUniswapV2Router02(_uniswapRouter);
-        graduationThreshold = _graduationThreshold;
-        assetRate = _assetRate;
+        graduationThreshold = _launchConfig.graduationThreshold;
+        assetRate = _launchConfig.assetRate;
+        curveConstant = _launchConfig.curveConstant;
+        launchSupply = _launchConfig.totalSupply;
+        minAssetLiquidity = _minAssetLiquidity;
         feeBasisPoints = _feeBasisPoints;
         treasury = _treasury;
+        curveStrategy = IBondingCurveStrategy(_curveStrategy);
         isGraduated = false;
 
         // Set token address if provided
         if (_stonkToken != address(0)) {
             stonkToken = IStonkToken(_stonkToken);
+            tokenReserve = stonkToken.balanceOf(address(this));
         }
     }
 
@@ -98,64 +131,162 @@ contract BondingCurve is Ownable, ReentrancyGuard {
             revert TokenAlreadySet();
         }
         stonkToken = IStonkToken(_tokenAddress);
+        tokenReserve = stonkToken.balanceOf(address(this));
         emit TokenAddressSet(_tokenAddress);
     }
 
     function calculatePurchasePrice(
         uint256 tokenAmount
     ) public view returns (uint256) {
-        uint256 currentSupply = stonkToken.balanceOf(address(this));
-        uint256 newSupply = currentSupply - tokenAmount;
-
-        // Match live project's calculation exactly
-        uint256 k = ((K * 10000) / assetRate);
-        uint256 currentPrice = (k * PRECISION) / currentSupply;
-        uint256 newPrice = (k * PRECISION) / newSupply;
-
-        // Calculate average price for the purchase
-        uint256 avgPrice = (currentPrice + newPrice) / 2;
-        uint256 price = (avgPrice * tokenAmount) / PRECISION;
+        return
+            _calculatePurchasePrice(tokenAmount, _tokensSold(tokenReserve));
+    }
 
-        return price;
+    // Inverse of calculatePurchasePrice: tokens bought by assetAmountIn after the fee
+    function calculatePurchaseAmount(
+        uint256 assetAmountIn
+    ) public view returns (uint256) {
+        uint256 currentSupply = tokenReserve;
+        if (currentSupply <= MIN_LIQUIDITY) return 0;
+
+        uint256 reserve = launchSupply;
+        uint256 scale = _curveScale();
+        uint256 sold = reserve - currentSupply;
+        uint256 cost = (assetAmountIn * BASIS_POINTS) /
+            (BASIS_POINTS + feeBasisPoints);
+
+        // The strategy rounds down, so the result never costs more than assetAmountIn
+        uint256 tokenAmount = curveStrategy.soldForCost(
+            curveStrategy.cumulativeCost(sold, reserve, scale) + cost,
+            reserve,
+            scale
+        ) - sold;
+
+        // Never quote past the reserve kept back for graduation
+        return Math.min(tokenAmount, currentSupply - MIN_LIQUIDITY);
     }
 
     function calculateSaleProceeds(
         uint256 tokenAmount
     ) public view returns (uint256) {
-        uint256 currentSupply = stonkToken.balanceOf(address(this));
-        uint256 newSupply = currentSupply + tokenAmount;
+        return
+            _calculateSaleProceeds(tokenAmount, _tokensSold(tokenReserve));
+    }
+
+    // Inverse of calculateSaleProceeds: tokens to sell for assetAmountOut after the fee
+    function calculateSaleAmount(
+        uint256 assetAmountOut
+    ) public view returns (uint256) {
+        return
+            _calculateSaleAmount(assetAmountOut, _tokensSold(tokenReserve));
+    }
+
+    // Tokens the curve has sold, given its reserve before the trade.
+    // Burnt tokens stay counted as sold, so burning never moves the price.
+    function _tokensSold(
+        uint256 currentSupply
+    ) internal view returns (uint256) {
+        return launchSupply - currentSupply;
+    }
 
-        // Match live project's calculation exactly
-        uint256 k = ((K * 10000) / assetRate);
-        uint256 currentPrice = (k * PRECISION) / currentSupply;
-        uint256 newPrice = (k * PRECISION) / newSupply;
+    function _curveScale() internal view returns (uint256) {
+        return (curveConstant * 10000) / assetRate;
+    }
+
+    // Exact integral of the price over the tokens bought
+    function _calculatePurchasePrice(
+        uint256 tokenAmount,
+        uint256 sold
+    ) internal view returns (uint256) {
+        uint256 reserve = launchSupply;
+        uint256 scale = _curveScale();
+        return
+            curveStrategy.cumulativeCost(sold + tokenAmount, reserve, scale) -
+            curveStrategy.cumulativeCost(sold, reserve, scale);
+    }
+
+    // Exact integral of the price over the tokens sold back
+    function _calculateSaleProceeds(
+        uint256 tokenAmount,
+        uint256 sold
+    ) internal view returns (uint256) {
+        if (tokenAmount > sold) revert InvalidAmount();
+
+        uint256 reserve = launchSupply;
+        uint256 scale = _curveScale();
+        return
+            curveStrategy.cumulativeCost(sold, reserve, scale) -
+            curveStrategy.cumulativeCost(sold - tokenAmount, reserve, scale);
+    }
+
+    function _calculateSaleAmount(
+        uint256 assetAmountOut,
+        uint256 sold
+    ) internal view returns (uint256) {
+        if (assetAmountOut == 0) return 0;
+
+        uint256 reserve = launchSupply;
+        uint256 scale = _curveScale();
+        uint256 proceeds = Math.mulDiv(
+            assetAmountOut,
+            BASIS_POINTS,
+            BASIS_POINTS - feeBasisPoints,
+            Math.Rounding.Ceil
+        );
 
-        // Calculate average price for the sale
-        uint256 avgPrice = (currentPrice + newPrice) / 2;
-        uint256 proceeds = (avgPrice * tokenAmount) / PRECISION;
+        uint256 soldCost = curveStrategy.cumulativeCost(sold, reserve, scale);
+        if (proceeds > soldCost) revert InsufficientAssetBalance();
 
-        return proceeds;
+        // Selling down to the largest position costing at most soldCost - proceeds
+        // always raises at least proceeds
+        return
+            sold -
+            curveStrategy.soldForCost(soldCost - proceeds, reserve, scale);
     }
 
+    // Returns the fee taken on top of the price, so the router can report it
     function buyTokens(
         address to,
         uint256 tokenAmount,
         uint256 maxAssetAmount
-    ) external nonReentrant {
+    ) external nonReentrant returns (uint256 fee) {
+        return _buyTokens(to, tokenAmount, maxAssetAmount);
+    }
+
+    // Exact-input buy: spend up to assetAmountIn (fee included) for as many tokens as it buys
+    function buyTokensExactIn(
+        address to,
+        uint256 assetAmountIn,
+        uint256 minTokensOut
+    ) external nonReentrant returns (uint256 tokenAmount, uint256 fee) {
+        tokenAmount = calculatePurchaseAmount(assetAmountIn);
+        if (tokenAmount < minTokensOut) revert SlippageTooHigh();
+
+        fee = _buyTokens(to, tokenAmount, assetAmountIn);
+    }
+
+    function _buyTokens(
+        address to,
+        uint256 tokenAmount,
+        uint256 maxAssetAmount
+    ) internal returns (uint256 fee) {
         if (isGraduated) revert AlreadyGraduated();
         if (tokenAmount == 0) revert InvalidAmount();
 
         uint256 assetAmount = calculatePurchasePrice(tokenAmount);
         uint256 currentFeeBasisPoints = feeBasisPoints;
-        uint256 fee = currentFeeBasisPoints > 0
+        fee = currentFeeBasisPoints > 0
             ? (assetAmount * currentFeeBasisPoints) / BASIS_POINTS
             : 0;
         uint256 totalAssetAmount = assetAmount + fee;
 
         if (totalAssetAmount > maxAssetAmount) revert SlippageTooHigh();
+        if (maxAssetAmount > _depositedAsset()) {
+            revert InsufficientAssetBalance();
+        }
 
         // Check minimum reserve requirements
-        uint256 currentTokenBalance = stonkToken.balanceOf(address(this));
+        uint256 currentTokenBalance = tokenReserve;
         uint256 currentAssetBalance = assetToken.balanceOf(address(this));
 
         // Ensure we maintain minimum liquidity for Uniswap graduation
@@ -164,7 +295,7 @@ contract BondingCurve is Ownable, ReentrancyGuard {
         }
 
         // Ensure we maintain minimum asset liquidity for Uniswap graduation
-        if (currentAssetBalance + totalAssetAmount < MIN_ASSET_LIQUIDITY) {
+        if (currentAssetBalance + totalAssetAmount < minAssetLiquidity) {
             revert InsufficientAssetBalance();
         }
 
@@ -176,6 +307,8 @@ contract BondingCurve is Ownable, ReentrancyGuard {
         }
 
         // Transfer tokens to user
+        tokenReserve = currentTokenBalance - tokenAmount;
+        assetReserve += assetAmount;
         stonkToken.transfer(to, tokenAmount);
         emit TokensPurchased(to, tokenAmount, assetAmount, fee);
 
@@ -192,24 +325,32 @@ contract BondingCurve is Ownable, ReentrancyGuard {
         }
     }
 
+    // Sells tokenAmount out of the tokens deposited since the last trade and
+    // returns the fee withheld from the proceeds. The caller deposits first
+    // and passes what arrived, net of any transfer tax.
     function sellTokens(
         address to,
         uint256 tokenAmount,
         uint256 minAssetAmount
-    ) external nonReentrant {
+    ) external nonReentrant returns (uint256 fee) {
         if (isGraduated) revert AlreadyGraduated();
         if (tokenAmount == 0) revert InvalidAmount();
+        if (tokenAmount > _deposited()) revert InsufficientTokenBalance();
 
-        uint256 assetAmount = calculateSaleProceeds(tokenAmount);
+        uint256 assetAmount = _calculateSaleProceeds(
+            tokenAmount,
+            _tokensSold(tokenReserve)
+        );
         uint256 currentFeeBasisPoints = feeBasisPoints;
-        uint256 fee = currentFeeBasisPoints > 0
+        fee = currentFeeBasisPoints > 0
             ? (assetAmount * currentFeeBasisPoints) / BASIS_POINTS
             : 0;
         uint256 netAssetAmount = assetAmount - fee;
 
         if (netAssetAmount < minAssetAmount) revert SlippageTooHigh();
+        tokenReserve += tokenAmount;
+        assetReserve -= assetAmount;
 
-        // Project tokens are already in this contract (router sent them)
         // Transfer USDC to user
         assetToken.safeTransfer(to, netAssetAmount);
         // Transfer fee to treasury
@@ -220,6 +361,54 @@ contract BondingCurve is Ownable, ReentrancyGuard {
         emit TokensSold(to, tokenAmount, netAssetAmount, fee);
     }
 
+    // Exact-output sell: pays exactly assetAmountOut out of maxTokensIn
+    // deposited since the last trade, and refunds the ones it does not use
+    function sellTokensExactOut(
+        address to,
+        uint256 assetAmountOut,
+        uint256 maxTokensIn
+    ) external nonReentrant returns (uint256 tokenAmount, uint256 fee) {
+        if (isGraduated) revert AlreadyGraduated();
+        if (assetAmountOut == 0) revert InvalidAmount();
+        if (maxTokensIn > _deposited()) revert InsufficientTokenBalance();
+
+        uint256 sold = _tokensSold(tokenReserve);
+        tokenAmount = _calculateSaleAmount(assetAmountOut, sold);
+        if (tokenAmount > maxTokensIn) revert SlippageTooHigh();
+
+        uint256 assetAmount = _calculateSaleProceeds(tokenAmount, sold);
+        fee = (assetAmount * feeBasisPoints) / BASIS_POINTS;
+        if (assetAmount > assetReserve) revert InsufficientAssetBalance();
+        tokenReserve += tokenAmount;
+        assetReserve -= assetAmountOut + fee;
+
+        // Transfer exactly the requested USDC to user; rounding surplus stays in reserves
+        assetToken.safeTransfer(to, assetAmountOut);
+        // Transfer fee to treasury
+        if (fee > 0) {
+            assetToken.safeTransfer(treasury, fee);
+            emit FeeCollected(treasury, fee, "sell");
+        }
+
+        // Refund unused project tokens to user
+        uint256 unusedTokens = maxTokensIn - tokenAmount;
+        if (unusedTokens > 0) {
+            stonkToken.transfer(to, unusedTokens);
+        }
+
+        emit TokensSold(to, tokenAmount, assetAmountOut, fee);
+    }
+
+    // Tokens received above the reserve, net of any transfer tax
+    function _deposited() internal view returns (uint256) {
+        return stonkToken.balanceOf(address(this)) - tokenReserve;
+    }
+
+    // Quote asset received above the reserve
+    function _depositedAsset() internal view returns (uint256) {
+        return assetToken.balanceOf(address(this)) - assetReserve;
+    }
+
     // Internal function to handle graduation
     function _graduate() internal {
         if (isGraduated) return;
@@ -238,9 +427,14 @@ contract BondingCurve is Ownable, ReentrancyGuard {
             );
         }
 
+        // The token registers the pair as a pool, so it is taxed like the
+        // curve and the migration below, between two pools, is not
+        stonkToken.onGraduation(pair);
+
         // Add liquidity to Uniswap from bonding curve reserves
         uint256 tokenBalance = stonkToken.balanceOf(address(this));
         uint256 assetBalance = assetToken.balanceOf(address(this));
+        uint256 liquidity;
 
         if (tokenBalance > 0 && assetBalance > 0) {
             // Approve Uniswap router
@@ -248,7 +442,7 @@ contract BondingCurve is Ownable, ReentrancyGuard {
             assetToken.approve(address(uniswapRouter), assetBalance);
 
             // Add liquidity to Uniswap
-            uniswapRouter.addLiquidity(
+            (, , liquidity) = uniswapRouter.addLiquidity(
                 address(stonkToken),
                 address(assetToken),
                 tokenBalance,
@@ -258,18 +452,27 @@ contract BondingCurve is Ownable, ReentrancyGuard {
                 address(this),
                 block.timestamp + 15 minutes
             );
-
-            emit LiquidityAdded(tokenBalance, assetBalance);
         }
+        tokenReserve = stonkToken.balanceOf(address(this));
+        assetReserve = assetToken.balanceOf(address(this));
 
-        emit TokenGraduated(address(stonkToken), pair);
+        emit GraduationCompleted(
+            address(stonkToken),
+            pair,
+            liquidity,
+            stonkToken.balanceOf(pair),
+            assetToken.balanceOf(pair)
+        );
     }
 
     // View functions
     function getCurrentPrice() public view returns (uint256) {
-        uint256 currentSupply = stonkToken.balanceOf(address(this));
-        uint256 k = ((K * 10000) / assetRate);
-        return (k * PRECISION) / currentSupply;
+        return
+            curveStrategy.spotPrice(
+                _tokensSold(tokenReserve),
+                launchSupply,
+                _curveScale()
+            );
     }
 
     function getGraduationStatus() public view returns (bool) {
@@ -280,6 +483,16 @@ contract BondingCurve is Ownable, ReentrancyGuard {
         return graduationThreshold;
     }
 
+    function getLaunchConfig() external view returns (LaunchConfig memory) {
+        return
+            LaunchConfig({
+                graduationThreshold: graduationThreshold,
+                assetRate: assetRate,
+                curveConstant: curveConstant,
+                totalSupply: launchSupply
+            });
+    }
+
     // Fee calculation view functions
     function calculateBuyFee(
         uint256 tokenAmount
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./BondingCurve.sol";
+
+// Holds the BondingCurve creation code so the factory stays under the contract size limit
+contract BondingCurveDeployer {
+    function deployBondingCurve(
+        address assetToken,
+        address uniswapFactory,
+        address uniswapRouter,
+        BondingCurve.LaunchConfig calldata launchConfig,
+        uint256 minAssetLiquidity,
+        uint256 feeBasisPoints,
+        address treasury,
+        address curveStrategy
+    ) external returns (address) {
+        BondingCurve bondingCurve = new BondingCurve(
+            assetToken,
+            uniswapFactory,
+            uniswapRouter,
+            address(0),
+            launchConfig,
+            minAssetLiquidity,
+            feeBasisPoints,
+            treasury,
+            curveStrategy
+        );
+        // Caller (the factory) wires the token in via setTokenAddress
+        bondingCurve.transferOwnership(msg.sender);
+        return address(bondingCurve);
+    }
+}
@@ -0,0 +1,287 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {BondingCurve as BondingCurveContract} from "./BondingCurve.sol";
+import {StonkTradingRouter} from "./StonkTradingRouter.sol";
+import {IStonkToken} from "./interfaces/IStonkToken.sol";
+import {TokenTransferLibrary} from "./libraries/TokenTransferLibrary.sol";
+
+// Resting buy-below and sell-above orders. Funds are escrowed when an order is
+// placed, and any keeper may fill it through the router once the market is
+// open and the quoted price satisfies the limit, earning the order's bounty.
+contract LimitOrderBook is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using TokenTransferLibrary for IERC20;
+
+    StonkTradingRouter public immutable router;
+
+    enum TimeInForce {
+        GOOD_TILL_CANCEL,
+        DAY // Expires at the token's market close on the day it was placed
+    }
+
+    enum OrderStatus {
+        NONE,
+        OPEN,
+        FILLED,
+        CANCELLED
+    }
+
+    // limitAmount is the most quote asset a buy spends or the least a sell
+    // receives for tokenAmount, fees included and the bounty excluded. Buys
+    // escrow limitAmount plus bounty; sells escrow the tokens and pay the
+    // bounty out of the proceeds.
+    struct LimitOrder {
+        address owner;
+        address token;
+        bool isBuy;
+        uint256 tokenAmount;
+        uint256 limitAmount;
+        uint256 bounty; // Quote asset paid to the keeper that fills
+        uint256 expiry; // 0 for good-till-cancel
+        OrderStatus status;
+    }
+
+    uint256 public nextOrderId;
+
+    mapping(uint256 => LimitOrder) private _orders;
+
+    event OrderPlaced(
+        uint256 indexed orderId,
+        address indexed owner,
+        address indexed tokenAddress,
+        bool isBuy,
+        uint256 tokenAmount,
+        uint256 limitAmount,
+        uint256 bounty,
+        uint256 expiry
+    );
+
+    event OrderFilled(
+        uint256 indexed orderId,
+        address indexed keeper,
+        uint256 assetAmount,
+        uint256 bounty
+    );
+
+    event OrderCancelled(uint256 indexed orderId, address indexed by);
+
+    error InvalidAmount();
+    error TokenNotFound();
+    error NoSessionToday();
+    error OrderNotOpen();
+    error OrderExpired();
+    error LimitNotReached();
+    error NotOrderOwner();
+    error MarketClosed();
+
+    constructor(address _router) {
+        router = StonkTradingRouter(payable(_router));
+    }
+
+    // Escrow and rest an order; returns its id
+    function placeOrder(
+        address tokenAddress,
+        bool isBuy,
+        uint256 tokenAmount,
+        uint256 limitAmount,
+        uint256 bounty,
+        TimeInForce timeInForce
+    ) external nonReentrant returns (uint256 orderId) {
+        if (tokenAmount == 0 || (isBuy && limitAmount == 0)) {
+            revert InvalidAmount();
+        }
+        if (router.getBondingCurveAddress(tokenAddress) == address(0)) {
+            revert TokenNotFound();
+        }
+
+        uint256 expiry;
+        if (timeInForce == TimeInForce.DAY) {
+            // Before the open or during the session, never after the close
+            expiry = IStonkToken(tokenAddress).getMarketCloseTime();
+            if (expiry <= block.timestamp) revert NoSessionToday();
+        }
+
+        if (isBuy) {
+            _quoteAsset(tokenAddress).safeTransferFrom(
+                msg.sender,
+                address(this),
+                limitAmount + bounty
+            );
+        } else {
+            tokenAmount = IERC20(tokenAddress).pullFrom(
+                msg.sender,
+                tokenAmount
+            );
+        }
+
+        orderId = nextOrderId++;
+        _orders[orderId] = LimitOrder({
+            owner: msg.sender,
+            token: tokenAddress,
+            isBuy: isBuy,
+            tokenAmount: tokenAmount,
+            limitAmount: limitAmount,
+            bounty: bounty,
+            expiry: expiry,
+            status: OrderStatus.OPEN
+        });
+
+        emit OrderPlaced(
+            orderId,
+            msg.sender,
+            tokenAddress,
+            isBuy,
+            tokenAmount,
+            limitAmount,
+            bounty,
+            expiry
+        );
+    }
+
+    // Trade the order through the router and pay the caller its bounty
+    function fillOrder(
+        uint256 orderId
+    ) external nonReentrant returns (uint256 assetAmount) {
+        LimitOrder storage order = _orders[orderId];
+        if (order.status != OrderStatus.OPEN) revert OrderNotOpen();
+        if (_isExpired(order)) revert OrderExpired();
+        if (!IStonkToken(order.token).isMarketOpen()) revert MarketClosed();
+        if (!_limitReached(order, quoteOrder(orderId))) {
+            revert LimitNotReached();
+        }
+        order.status = OrderStatus.FILLED;
+
+        IERC20 token = IERC20(order.token);
+        IERC20 asset = _quoteAsset(order.token);
+        uint256 assetBalance = asset.balanceOf(address(this));
+
+        if (order.isBuy) {
+            uint256 tokenBalance = token.balanceOf(address(this));
+            asset.forceApprove(address(router), order.limitAmount);
+            router.buyTokens(
+                order.token,
+                order.tokenAmount,
+                order.limitAmount,
+                block.timestamp
+            );
+            assetAmount = assetBalance - asset.balanceOf(address(this));
+
+            token.safeTransfer(
+                order.owner,
+                token.balanceOf(address(this)) - tokenBalance
+            );
+            if (order.limitAmount > assetAmount) {
+                asset.safeTransfer(
+                    order.owner,
+                    order.limitAmount - assetAmount
+                );
+            }
+        } else {
+            token.forceApprove(address(router), order.tokenAmount);
+            router.sellTokens(
+                order.token,
+                order.tokenAmount,
+                order.limitAmount + order.bounty,
+                block.timestamp
+            );
+            assetAmount = asset.balanceOf(address(this)) - assetBalance;
+
+            asset.safeTransfer(order.owner, assetAmount - order.bounty);
+        }
+
+        if (order.bounty > 0) {
+            asset.safeTransfer(msg.sender, order.bounty);
+        }
+
+        emit OrderFilled(orderId, msg.sender, assetAmount, order.bounty);
+    }
+
+    // Return the escrow to the owner. Only the owner may cancel a live order;
+    // anyone may clear one that has expired.
+    function cancelOrder(uint256 orderId) external nonReentrant {
+        LimitOrder storage order = _orders[orderId];
+        if (order.status != OrderStatus.OPEN) revert OrderNotOpen();
+        if (msg.sender != order.owner && !_isExpired(order)) {
+            revert NotOrderOwner();
+        }
+        order.status = OrderStatus.CANCELLED;
+
+        if (order.isBuy) {
+            _quoteAsset(order.token).safeTransfer(
+                order.owner,
+                order.limitAmount + order.bounty
+            );
+        } else {
+            IERC20(order.token).safeTransfer(order.owner, order.tokenAmount);
+        }
+
+        emit OrderCancelled(orderId, msg.sender);
+    }
+
+    // View functions
+    function getOrder(
+        uint256 orderId
+    ) external view returns (LimitOrder memory) {
+        return _orders[orderId];
+    }
+
+    // Quote asset a fill would cost or raise right now, venue fees and the
+    // sell tax included
+    function quoteOrder(
+        uint256 orderId
+    ) public view returns (uint256 assetAmount) {
+        LimitOrder storage order = _orders[orderId];
+
+        if (order.isBuy) {
+            if (router.isTokenGraduated(order.token)) {
+                return router.calculateBuyPrice(order.token, order.tokenAmount);
+            }
+            (uint256 price, uint256 fee) = _bondingCurve(order.token)
+                .calculateBuyFee(order.tokenAmount);
+            return price + fee;
+        }
+
+        return router.calculateNetSellProceeds(order.token, order.tokenAmount);
+    }
+
+    // Whether fillOrder would go through now, for keepers to poll
+    function canFill(uint256 orderId) external view returns (bool) {
+        LimitOrder storage order = _orders[orderId];
+        return
+            order.status == OrderStatus.OPEN &&
+            !_isExpired(order) &&
+            IStonkToken(order.token).isMarketOpen() &&
+            _limitReached(order, quoteOrder(orderId));
+    }
+
+    function _limitReached(
+        LimitOrder storage order,
+        uint256 assetAmount
+    ) internal view returns (bool) {
+        return
+            order.isBuy
+                ? assetAmount <= order.limitAmount
+                : assetAmount >= order.limitAmount + order.bounty;
+    }
+
+    function _isExpired(
+        LimitOrder storage order
+    ) internal view returns (bool) {
+        return order.expiry != 0 && block.timestamp >= order.expiry;
+    }
+
+    function _quoteAsset(address tokenAddress) internal view returns (IERC20) {
+        return IERC20(router.getQuoteAsset(tokenAddress));
+    }
+
+    function _bondingCurve(
+        address tokenAddress
+    ) internal view returns (BondingCurveContract) {
+        return
+            BondingCurveContract(router.getBondingCurveAddress(tokenAddress));
+    }
+}
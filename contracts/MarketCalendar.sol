@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./interfaces/IMarketCalendar.sol";
+
+/**
+ * @dev Governed registry of unscheduled market closures and session overrides.
+ * StonkTokens consult it on top of the rule-based TradingDaysLibrary calendar,
+ * so closures like national days of mourning can be added after deployment.
+ * Ownership is expected to sit with governance or a timelock.
+ */
+contract MarketCalendar is IMarketCalendar, Ownable {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    uint256 private constant SECONDS_PER_DAY = 86400;
+    uint16 private constant MINUTES_PER_DAY = 24 * 60;
+
+    struct SessionOverride {
+        uint16 openMinute;
+        uint16 closeMinute;
+    }
+
+    mapping(uint256 => string) private _closureReasons;
+    mapping(uint256 => SessionOverride) private _sessionOverrides;
+    EnumerableSet.UintSet private _closureDates;
+    EnumerableSet.UintSet private _sessionOverrideDates;
+
+    error InvalidDate();
+    error InvalidSession();
+    error ArraysLengthMismatch();
+    error ClosureNotScheduled();
+    error SessionOverrideNotSet();
+
+    constructor(address owner_) Ownable(owner_) {}
+
+    function scheduleClosure(
+        uint256 date,
+        string calldata reason
+    ) external override onlyOwner {
+        _scheduleClosure(date, reason);
+    }
+
+    function scheduleClosures(
+        uint256[] calldata dates,
+        string[] calldata reasons
+    ) external override onlyOwner {
+        if (dates.length != reasons.length) revert ArraysLengthMismatch();
+
+        for (uint256 i = 0; i < dates.length; i++) {
+            _scheduleClosure(dates[i], reasons[i]);
+        }
+    }
+
+    function cancelClosure(uint256 date) external override onlyOwner {
+        if (!_closureDates.remove(date)) revert ClosureNotScheduled();
+        delete _closureReasons[date];
+        emit ClosureCancelled(date);
+    }
+
+    function setSessionOverride(
+        uint256 date,
+        uint16 openMinute,
+        uint16 closeMinute
+    ) external override onlyOwner {
+        _validateDate(date);
+        if (openMinute >= closeMinute || closeMinute > MINUTES_PER_DAY) {
+            revert InvalidSession();
+        }
+
+        _sessionOverrideDates.add(date);
+        _sessionOverrides[date] = SessionOverride(openMinute, closeMinute);
+        emit SessionOverrideSet(date, openMinute, closeMinute);
+    }
+
+    function clearSessionOverride(uint256 date) external override onlyOwner {
+        if (!_sessionOverrideDates.remove(date)) revert SessionOverrideNotSet();
+        delete _sessionOverrides[date];
+        emit SessionOverrideCleared(date);
+    }
+
+    function isClosed(
+        uint256 easternTime
+    ) external view override returns (bool) {
+        return _closureDates.contains(_toDate(easternTime));
+    }
+
+    function getClosureReason(
+        uint256 easternTime
+    ) external view override returns (string memory) {
+        return _closureReasons[_toDate(easternTime)];
+    }
+
+    function getSessionOverride(
+        uint256 easternTime
+    )
+        external
+        view
+        override
+        returns (bool hasOverride, uint16 openMinute, uint16 closeMinute)
+    {
+        uint256 date = _toDate(easternTime);
+        if (!_sessionOverrideDates.contains(date)) {
+            return (false, 0, 0);
+        }
+
+        SessionOverride memory session = _sessionOverrides[date];
+        return (true, session.openMinute, session.closeMinute);
+    }
+
+    function getScheduledClosures()
+        external
+        view
+        override
+        returns (uint256[] memory)
+    {
+        return _closureDates.values();
+    }
+
+    function getSessionOverrideDates()
+        external
+        view
+        override
+        returns (uint256[] memory)
+    {
+        return _sessionOverrideDates.values();
+    }
+
+    function _scheduleClosure(uint256 date, string calldata reason) internal {
+        _validateDate(date);
+        _closureDates.add(date);
+        _closureReasons[date] = reason;
+        emit ClosureScheduled(date, reason);
+    }
+
+    function _validateDate(uint256 date) internal pure {
+        if (date == 0 || date % SECONDS_PER_DAY != 0) revert InvalidDate();
+    }
+
+    function _toDate(uint256 easternTime) internal pure returns (uint256) {
+        return easternTime - (easternTime % SECONDS_PER_DAY);
+    }
+}
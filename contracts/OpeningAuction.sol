@@ -0,0 +1,769 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {BondingCurve as BondingCurveContract} from "./BondingCurve.sol";
+import {StonkTradingRouter} from "./StonkTradingRouter.sol";
+import {IStonkToken} from "./interfaces/IStonkToken.sol";
+import {TokenTransferLibrary} from "./libraries/TokenTransferLibrary.sol";
+
+// Escrows buy and sell intents while the market is closed and clears each
+// token's book at a single uniform price once the market opens. Intents whose
+// limit price the reference price meets are matched; only the imbalance
+// between the two matched sides trades through the router, the rest is
+// crossed internally at the same price. The clearing price never passes the
+// limit of a matched intent, whoever triggers the clearing. Intents match
+// against the reference price recorded while the market was closed, which a
+// trade in the clearing transaction cannot move; once a token has graduated,
+// the oracle's TWAP at clearing is used instead.
+contract OpeningAuction is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using TokenTransferLibrary for IERC20;
+
+    uint256 public constant PRECISION = 1e18;
+
+    // Accounts per auction, which bounds the work done at clearing
+    uint256 public constant MAX_PARTICIPANTS = 100;
+
+    // Smallest intent per side, in the factory's reference units ($100), so
+    // that filling the participant list ties up real funds
+    uint256 public constant MIN_INTENT_VALUE = 100e6;
+
+    // Bisection steps when solving for the uniform price
+    uint256 private constant SEARCH_ITERATIONS = 64;
+
+    StonkTradingRouter public immutable router;
+
+    // Each side's proceeds are shared pro rata to what its matched intents
+    // escrowed. Unmatched intents are refunded in full.
+    struct Auction {
+        uint256 totalAssetIn; // Escrowed by buyers
+        uint256 totalTokensIn; // Escrowed by sellers
+        uint256 matchedAssetIn;
+        uint256 matchedTokensIn;
+        uint256 buyerTokens;
+        uint256 buyerAssetRefund;
+        uint256 sellerAsset;
+        uint256 sellerTokenRefund;
+        uint256 referencePrice; // Last recorded while closed, or the TWAP
+        uint256 clearingPrice; // Asset per token, scaled by PRECISION
+        uint256 claimedAssetIn; // Matched escrow already claimed
+        uint256 claimedTokensIn;
+        bool cleared;
+    }
+
+    // Limits are asset per token, scaled by PRECISION: the most a buyer pays
+    // and the least a seller accepts
+    struct Intent {
+        uint256 assetIn;
+        uint256 tokensIn;
+        uint256 buyLimit;
+        uint256 sellLimit;
+        bool listed;
+    }
+
+    // Auction currently collecting intents for each token
+    mapping(address => uint256) public currentAuctionId;
+
+    mapping(address => mapping(uint256 => Auction)) private _auctions;
+    mapping(address => mapping(uint256 => mapping(address => Intent)))
+        private _intents;
+    mapping(address => mapping(uint256 => address[])) private _participants;
+
+    event BuyIntentSubmitted(
+        address indexed tokenAddress,
+        uint256 indexed auctionId,
+        address indexed buyer,
+        uint256 assetAmount,
+        uint256 limitPrice
+    );
+
+    event SellIntentSubmitted(
+        address indexed tokenAddress,
+        uint256 indexed auctionId,
+        address indexed seller,
+        uint256 tokenAmount,
+        uint256 limitPrice
+    );
+
+    event IntentCancelled(
+        address indexed tokenAddress,
+        uint256 indexed auctionId,
+        address indexed account,
+        uint256 assetAmount,
+        uint256 tokenAmount
+    );
+
+    event AuctionCleared(
+        address indexed tokenAddress,
+        uint256 indexed auctionId,
+        uint256 clearingPrice,
+        uint256 matchedAssetIn,
+        uint256 matchedTokensIn,
+        uint256 buyerTokens,
+        uint256 sellerAsset
+    );
+
+    event Claimed(
+        address indexed tokenAddress,
+        uint256 indexed auctionId,
+        address indexed account,
+        uint256 tokenAmount,
+        uint256 assetAmount
+    );
+
+    error InvalidAmount();
+    error TokenNotFound();
+    error MarketOpen();
+    error MarketClosed();
+    error AuctionNotCleared();
+    error NothingToCancel();
+    error NothingToClaim();
+    error AuctionFull();
+    error IntentTooSmall();
+
+    constructor(address _router) {
+        router = StonkTradingRouter(payable(_router));
+    }
+
+    // Escrow assetAmount to buy tokenAddress at the next open, paying at most
+    // limitPrice. The limit applies to everything the caller has escrowed on
+    // the buy side of this auction.
+    function submitBuy(
+        address tokenAddress,
+        uint256 assetAmount,
+        uint256 limitPrice
+    ) external nonReentrant {
+        if (assetAmount == 0) revert InvalidAmount();
+        _requireMarketClosed(tokenAddress);
+
+        uint256 auctionId = currentAuctionId[tokenAddress];
+        _quoteAsset(tokenAddress).safeTransferFrom(
+            msg.sender,
+            address(this),
+            assetAmount
+        );
+
+        Intent storage intent = _listIntent(tokenAddress, auctionId);
+        intent.assetIn += assetAmount;
+        intent.buyLimit = limitPrice;
+        if (intent.assetIn < minIntentAmount(tokenAddress)) {
+            revert IntentTooSmall();
+        }
+        Auction storage auction = _auctions[tokenAddress][auctionId];
+        auction.totalAssetIn += assetAmount;
+        auction.referencePrice = _getReferencePrice(tokenAddress);
+
+        emit BuyIntentSubmitted(
+            tokenAddress,
+            auctionId,
+            msg.sender,
+            assetAmount,
+            limitPrice
+        );
+    }
+
+    // Escrow tokenAmount to sell at the next open for at least limitPrice
+    function submitSell(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 limitPrice
+    ) external nonReentrant {
+        if (tokenAmount == 0) revert InvalidAmount();
+        _requireMarketClosed(tokenAddress);
+
+        uint256 auctionId = currentAuctionId[tokenAddress];
+        uint256 received = IERC20(tokenAddress).pullFrom(
+            msg.sender,
+            tokenAmount
+        );
+
+        Intent storage intent = _listIntent(tokenAddress, auctionId);
+        intent.tokensIn += received;
+        intent.sellLimit = limitPrice;
+        Auction storage auction = _auctions[tokenAddress][auctionId];
+        auction.totalTokensIn += received;
+        auction.referencePrice = _getReferencePrice(tokenAddress);
+        if (
+            (intent.tokensIn * auction.referencePrice) / PRECISION <
+            minIntentAmount(tokenAddress)
+        ) {
+            revert IntentTooSmall();
+        }
+
+        emit SellIntentSubmitted(
+            tokenAddress,
+            auctionId,
+            msg.sender,
+            received,
+            limitPrice
+        );
+    }
+
+    // Withdraw both sides of the caller's intent; intents lock once the market opens
+    function cancel(address tokenAddress) external nonReentrant {
+        _requireMarketClosed(tokenAddress);
+
+        uint256 auctionId = currentAuctionId[tokenAddress];
+        Intent storage intent = _intents[tokenAddress][auctionId][msg.sender];
+        uint256 assetIn = intent.assetIn;
+        uint256 tokensIn = intent.tokensIn;
+        if (assetIn == 0 && tokensIn == 0) revert NothingToCancel();
+
+        // Both sides are withdrawn, so the account frees its place
+        delete _intents[tokenAddress][auctionId][msg.sender];
+        _delist(tokenAddress, auctionId);
+        Auction storage auction = _auctions[tokenAddress][auctionId];
+        auction.totalAssetIn -= assetIn;
+        auction.totalTokensIn -= tokensIn;
+
+        if (assetIn > 0) {
+            _quoteAsset(tokenAddress).safeTransfer(msg.sender, assetIn);
+        }
+        if (tokensIn > 0) {
+            IERC20(tokenAddress).safeTransfer(msg.sender, tokensIn);
+        }
+
+        emit IntentCancelled(
+            tokenAddress,
+            auctionId,
+            msg.sender,
+            assetIn,
+            tokensIn
+        );
+    }
+
+    // Clear the pending book and announce the open on the token. Callable by
+    // anyone once the market is open; the first call of the session does the work.
+    function clearAuction(address tokenAddress) external nonReentrant {
+        _clearAuction(tokenAddress);
+    }
+
+    // Collect the caller's share of a cleared auction, clearing it first if needed
+    function claim(
+        address tokenAddress,
+        uint256 auctionId
+    ) external nonReentrant {
+        if (
+            auctionId == currentAuctionId[tokenAddress] &&
+            IStonkToken(tokenAddress).isMarketOpen()
+        ) {
+            _clearAuction(tokenAddress);
+        }
+
+        Auction storage auction = _auctions[tokenAddress][auctionId];
+        if (!auction.cleared) revert AuctionNotCleared();
+
+        Intent memory intent = _intents[tokenAddress][auctionId][msg.sender];
+        if (intent.assetIn == 0 && intent.tokensIn == 0) {
+            revert NothingToClaim();
+        }
+        delete _intents[tokenAddress][auctionId][msg.sender];
+
+        // Shares are cumulative, so the last claimer of a side collects its
+        // rounding dust and the contract keeps nothing
+        uint256 tokenAmount;
+        uint256 assetAmount;
+        if (intent.assetIn > 0) {
+            if (intent.buyLimit >= auction.referencePrice) {
+                uint256 claimed = auction.claimedAssetIn;
+                tokenAmount += _share(
+                    auction.buyerTokens,
+                    claimed,
+                    intent.assetIn,
+                    auction.matchedAssetIn
+                );
+                assetAmount += _share(
+                    auction.buyerAssetRefund,
+                    claimed,
+                    intent.assetIn,
+                    auction.matchedAssetIn
+                );
+                auction.claimedAssetIn = claimed + intent.assetIn;
+            } else {
+                assetAmount += intent.assetIn;
+            }
+        }
+        if (intent.tokensIn > 0) {
+            if (intent.sellLimit <= auction.referencePrice) {
+                uint256 claimed = auction.claimedTokensIn;
+                assetAmount += _share(
+                    auction.sellerAsset,
+                    claimed,
+                    intent.tokensIn,
+                    auction.matchedTokensIn
+                );
+                tokenAmount += _share(
+                    auction.sellerTokenRefund,
+                    claimed,
+                    intent.tokensIn,
+                    auction.matchedTokensIn
+                );
+                auction.claimedTokensIn = claimed + intent.tokensIn;
+            } else {
+                tokenAmount += intent.tokensIn;
+            }
+        }
+
+        if (tokenAmount > 0) {
+            IERC20(tokenAddress).safeTransfer(msg.sender, tokenAmount);
+        }
+        if (assetAmount > 0) {
+            _quoteAsset(tokenAddress).safeTransfer(msg.sender, assetAmount);
+        }
+
+        emit Claimed(
+            tokenAddress,
+            auctionId,
+            msg.sender,
+            tokenAmount,
+            assetAmount
+        );
+    }
+
+    // View functions
+    function getAuction(
+        address tokenAddress,
+        uint256 auctionId
+    ) external view returns (Auction memory) {
+        return _auctions[tokenAddress][auctionId];
+    }
+
+    function getIntent(
+        address tokenAddress,
+        uint256 auctionId,
+        address account
+    ) external view returns (Intent memory) {
+        return _intents[tokenAddress][auctionId][account];
+    }
+
+    // Smallest intent per side, in the token's quote asset
+    function minIntentAmount(
+        address tokenAddress
+    ) public view returns (uint256) {
+        return
+            router.factory().toQuoteAssetUnits(
+                router.getQuoteAsset(tokenAddress),
+                MIN_INTENT_VALUE
+            );
+    }
+
+    function getParticipants(
+        address tokenAddress,
+        uint256 auctionId
+    ) external view returns (address[] memory) {
+        return _participants[tokenAddress][auctionId];
+    }
+
+    function _clearAuction(address tokenAddress) internal {
+        IStonkToken token = IStonkToken(tokenAddress);
+        if (!token.isMarketOpen()) revert MarketClosed();
+
+        uint256 auctionId = currentAuctionId[tokenAddress];
+        Auction storage auction = _auctions[tokenAddress][auctionId];
+
+        if (auction.totalAssetIn > 0 || auction.totalTokensIn > 0) {
+            (uint256 buyCap, uint256 sellFloor) = _match(
+                tokenAddress,
+                auctionId,
+                auction
+            );
+            _settle(tokenAddress, auction, buyCap, sellFloor);
+            auction.cleared = true;
+            currentAuctionId[tokenAddress] = auctionId + 1;
+
+            emit AuctionCleared(
+                tokenAddress,
+                auctionId,
+                auction.clearingPrice,
+                auction.matchedAssetIn,
+                auction.matchedTokensIn,
+                auction.buyerTokens,
+                auction.sellerAsset
+            );
+        }
+
+        token.openMarket();
+    }
+
+    // Match every intent whose limit the reference price meets. Returns the
+    // lowest matched buy limit and the highest matched sell limit, which
+    // bound the clearing price.
+    function _match(
+        address tokenAddress,
+        uint256 auctionId,
+        Auction storage auction
+    ) internal returns (uint256 buyCap, uint256 sellFloor) {
+        uint256 referencePrice = auction.referencePrice;
+        if (router.isTokenGraduated(tokenAddress)) {
+            try router.getReferencePrice(tokenAddress) returns (
+                uint256 price
+            ) {
+                referencePrice = price;
+            } catch {}
+        }
+        auction.referencePrice = referencePrice;
+        buyCap = type(uint256).max;
+
+        uint256 matchedAssetIn;
+        uint256 matchedTokensIn;
+        address[] storage participants = _participants[tokenAddress][
+            auctionId
+        ];
+        for (uint256 i = 0; i < participants.length; i++) {
+            Intent storage intent = _intents[tokenAddress][auctionId][
+                participants[i]
+            ];
+            if (intent.assetIn > 0 && intent.buyLimit >= referencePrice) {
+                matchedAssetIn += intent.assetIn;
+                if (intent.buyLimit < buyCap) buyCap = intent.buyLimit;
+            }
+            if (intent.tokensIn > 0 && intent.sellLimit <= referencePrice) {
+                matchedTokensIn += intent.tokensIn;
+                if (intent.sellLimit > sellFloor) sellFloor = intent.sellLimit;
+            }
+        }
+        auction.matchedAssetIn = matchedAssetIn;
+        auction.matchedTokensIn = matchedTokensIn;
+    }
+
+    // Trade the imbalance through the router so that buyers and sellers share
+    // one price. Falls back to crossing at the reference price when the venue
+    // cannot fill within the matched limits.
+    function _settle(
+        address tokenAddress,
+        Auction storage auction,
+        uint256 buyCap,
+        uint256 sellFloor
+    ) internal {
+        bool filled = auction.matchedAssetIn * PRECISION >
+            auction.matchedTokensIn * auction.referencePrice
+            ? _settleNetBuy(tokenAddress, auction, buyCap, sellFloor)
+            : _settleNetSell(tokenAddress, auction, buyCap, sellFloor);
+        if (!filled) _cross(auction);
+    }
+
+    // Sellers are paid from the buyers' escrow, the rest buys on the venue
+    function _settleNetBuy(
+        address tokenAddress,
+        Auction storage auction,
+        uint256 buyCap,
+        uint256 sellFloor
+    ) internal returns (bool) {
+        uint256 assetIn = auction.matchedAssetIn;
+        uint256 tokensIn = auction.matchedTokensIn;
+
+        // Leave sellers at least their floor, and buy enough that buyers pay
+        // no more than their cap
+        uint256 assetToVenue = _solveNetBuy(tokenAddress, assetIn, tokensIn);
+        uint256 maxAssetToVenue = assetIn - (tokensIn * sellFloor) / PRECISION;
+        if (assetToVenue > maxAssetToVenue) assetToVenue = maxAssetToVenue;
+        uint256 minTokensOut = (assetToVenue * PRECISION) / buyCap;
+        if (tokensIn > 0) {
+            uint256 tokensNeeded = (assetIn * PRECISION) / buyCap;
+            minTokensOut = tokensNeeded > tokensIn
+                ? tokensNeeded - tokensIn
+                : 0;
+        }
+
+        (bool filled, uint256 tokensBought, uint256 assetSpent) = _buyFromVenue(
+            tokenAddress,
+            assetToVenue,
+            minTokensOut
+        );
+        if (!filled) return false;
+
+        auction.buyerTokens = tokensIn + tokensBought;
+        if (tokensIn > 0) {
+            auction.sellerAsset = assetIn - assetSpent;
+        } else {
+            auction.buyerAssetRefund = assetIn - assetSpent;
+        }
+        if (auction.buyerTokens > 0) {
+            auction.clearingPrice =
+                ((assetIn - auction.buyerAssetRefund) * PRECISION) /
+                auction.buyerTokens;
+        }
+        return true;
+    }
+
+    // Buyers take part of the sellers' escrow, the rest sells on the venue
+    function _settleNetSell(
+        address tokenAddress,
+        Auction storage auction,
+        uint256 buyCap,
+        uint256 sellFloor
+    ) internal returns (bool) {
+        uint256 assetIn = auction.matchedAssetIn;
+        uint256 tokensIn = auction.matchedTokensIn;
+
+        // Leave buyers enough tokens to pay no more than their cap, and sell
+        // for enough that sellers receive at least their floor
+        uint256 tokensToVenue = _solveNetSell(tokenAddress, assetIn, tokensIn);
+        uint256 maxTokensToVenue = tokensIn - (assetIn * PRECISION) / buyCap;
+        if (tokensToVenue > maxTokensToVenue) tokensToVenue = maxTokensToVenue;
+        uint256 minAssetOut = (tokensToVenue * sellFloor) / PRECISION;
+        if (assetIn > 0) {
+            uint256 assetNeeded = (tokensIn * sellFloor) / PRECISION;
+            minAssetOut = assetNeeded > assetIn ? assetNeeded - assetIn : 0;
+        }
+
+        (bool filled, uint256 assetReceived) = _sellToVenue(
+            tokenAddress,
+            tokensToVenue,
+            minAssetOut
+        );
+        if (!filled) return false;
+
+        auction.sellerAsset = assetIn + assetReceived;
+        if (assetIn > 0) {
+            auction.buyerTokens = tokensIn - tokensToVenue;
+        } else {
+            auction.sellerTokenRefund = tokensIn - tokensToVenue;
+        }
+        uint256 tokensSold = tokensIn - auction.sellerTokenRefund;
+        if (tokensSold > 0) {
+            auction.clearingPrice =
+                (auction.sellerAsset * PRECISION) /
+                tokensSold;
+        }
+        return true;
+    }
+
+    // Cross the matched sides at the reference price without the venue and
+    // refund what the other side cannot take
+    function _cross(Auction storage auction) internal {
+        uint256 assetIn = auction.matchedAssetIn;
+        uint256 tokensIn = auction.matchedTokensIn;
+        uint256 price = auction.referencePrice;
+
+        uint256 tokensCrossed;
+        if (price > 0) {
+            tokensCrossed = (assetIn * PRECISION) / price;
+            if (tokensCrossed > tokensIn) tokensCrossed = tokensIn;
+        }
+        uint256 assetCrossed = (tokensCrossed * price) / PRECISION;
+
+        auction.buyerTokens = tokensCrossed;
+        auction.buyerAssetRefund = assetIn - assetCrossed;
+        auction.sellerAsset = assetCrossed;
+        auction.sellerTokenRefund = tokensIn - tokensCrossed;
+        auction.clearingPrice = price;
+    }
+
+    // Largest venue spend that still pays sellers at least the venue's average price:
+    // (assetIn - cost(x)) / tokensIn >= cost(x) / tokensBought(x)
+    function _solveNetBuy(
+        address tokenAddress,
+        uint256 assetIn,
+        uint256 tokensIn
+    ) internal view returns (uint256) {
+        if (tokensIn == 0) return assetIn;
+
+        uint256 low = 0;
+        uint256 high = assetIn;
+        for (uint256 i = 0; i < SEARCH_ITERATIONS && low < high; i++) {
+            uint256 mid = (low + high + 1) / 2;
+            (uint256 tokensOut, uint256 assetCost) = _quoteBuy(
+                tokenAddress,
+                mid
+            );
+            if ((assetIn - assetCost) * tokensOut >= tokensIn * assetCost) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+
+    // Largest venue sale that still charges buyers no more than the venue's average price:
+    // assetIn / (tokensIn - x) <= proceeds(x) / x
+    function _solveNetSell(
+        address tokenAddress,
+        uint256 assetIn,
+        uint256 tokensIn
+    ) internal view returns (uint256) {
+        if (assetIn == 0) return tokensIn;
+
+        uint256 low = 0;
+        uint256 high = tokensIn;
+        for (uint256 i = 0; i < SEARCH_ITERATIONS && low < high; i++) {
+            uint256 mid = (low + high + 1) / 2;
+            if (
+                router.calculateNetSellProceeds(tokenAddress, mid) *
+                    (tokensIn - mid) >=
+                assetIn * mid
+            ) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+
+    // Buys through the router, so the trade is taxed, reported and checked
+    // against the token's price bands like any other. Returns false when the
+    // router cannot fill at minTokensOut.
+    function _buyFromVenue(
+        address tokenAddress,
+        uint256 assetAmount,
+        uint256 minTokensOut
+    ) internal returns (bool filled, uint256 tokensBought, uint256 assetSpent) {
+        if (assetAmount == 0) return (false, 0, 0);
+
+        IERC20 token = IERC20(tokenAddress);
+        IERC20 assetToken = _quoteAsset(tokenAddress);
+        uint256 tokenBalance = token.balanceOf(address(this));
+        uint256 assetBalance = assetToken.balanceOf(address(this));
+
+        assetToken.forceApprove(address(router), assetAmount);
+        try
+            router.buyTokensExactIn(
+                tokenAddress,
+                assetAmount,
+                minTokensOut,
+                block.timestamp
+            )
+        {} catch {
+            assetToken.forceApprove(address(router), 0);
+            return (false, 0, 0);
+        }
+
+        tokensBought = token.balanceOf(address(this)) - tokenBalance;
+        assetSpent = assetBalance - assetToken.balanceOf(address(this));
+        filled = true;
+    }
+
+    // Sells through the router; returns false when it cannot pay minAssetOut
+    function _sellToVenue(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 minAssetOut
+    ) internal returns (bool filled, uint256 assetReceived) {
+        if (tokenAmount == 0) return (false, 0);
+
+        IERC20 token = IERC20(tokenAddress);
+        IERC20 assetToken = _quoteAsset(tokenAddress);
+        uint256 assetBalance = assetToken.balanceOf(address(this));
+
+        token.forceApprove(address(router), tokenAmount);
+        try
+            router.sellTokens(
+                tokenAddress,
+                tokenAmount,
+                minAssetOut,
+                block.timestamp
+            )
+        {} catch {
+            token.forceApprove(address(router), 0);
+            return (false, 0);
+        }
+
+        assetReceived = assetToken.balanceOf(address(this)) - assetBalance;
+        filled = true;
+    }
+
+    // Tokens bought with up to assetAmount, net of the buy tax, and what they
+    // actually cost, fees included. The curve refunds whatever its rounded
+    // purchase does not use.
+    function _quoteBuy(
+        address tokenAddress,
+        uint256 assetAmount
+    ) internal view returns (uint256 tokensOut, uint256 assetCost) {
+        if (router.isTokenGraduated(tokenAddress)) {
+            return (
+                router.calculateBuyAmount(tokenAddress, assetAmount),
+                assetAmount
+            );
+        }
+
+        BondingCurveContract curve = BondingCurveContract(
+            _getBondingCurve(tokenAddress)
+        );
+        tokensOut = curve.calculatePurchaseAmount(assetAmount);
+        if (tokensOut > 0) {
+            (uint256 price, uint256 fee) = curve.calculateBuyFee(tokensOut);
+            assetCost = price + fee;
+            tokensOut -= router.calculateTax(tokenAddress, tokensOut, true);
+        }
+    }
+
+    // The oracle's TWAP once graduated when an oracle is set, else the spot
+    // price of the venue
+    function _getReferencePrice(
+        address tokenAddress
+    ) internal view returns (uint256) {
+        try router.getReferencePrice(tokenAddress) returns (uint256 price) {
+            return price;
+        } catch {
+            return router.getSpotPrice(tokenAddress);
+        }
+    }
+
+    function _quoteAsset(address tokenAddress) internal view returns (IERC20) {
+        return IERC20(router.getQuoteAsset(tokenAddress));
+    }
+
+    function _getBondingCurve(
+        address tokenAddress
+    ) internal view returns (address bondingCurveAddr) {
+        bondingCurveAddr = router.getBondingCurveAddress(tokenAddress);
+        if (bondingCurveAddr == address(0)) revert TokenNotFound();
+    }
+
+    function _requireMarketClosed(address tokenAddress) internal view {
+        if (router.getBondingCurveAddress(tokenAddress) == address(0)) {
+            revert TokenNotFound();
+        }
+        if (IStonkToken(tokenAddress).isMarketOpen()) revert MarketOpen();
+    }
+
+    // The caller's intent, adding the caller to the auction's participants
+    function _listIntent(
+        address tokenAddress,
+        uint256 auctionId
+    ) internal returns (Intent storage intent) {
+        intent = _intents[tokenAddress][auctionId][msg.sender];
+        if (!intent.listed) {
+            address[] storage participants = _participants[tokenAddress][
+                auctionId
+            ];
+            if (participants.length >= MAX_PARTICIPANTS) revert AuctionFull();
+            participants.push(msg.sender);
+            intent.listed = true;
+        }
+    }
+
+    // Drop the caller from the auction's participants
+    function _delist(address tokenAddress, uint256 auctionId) internal {
+        address[] storage participants = _participants[tokenAddress][
+            auctionId
+        ];
+        uint256 last = participants.length - 1;
+        for (uint256 i = 0; i <= last; i++) {
+            if (participants[i] == msg.sender) {
+                participants[i] = participants[last];
+                participants.pop();
+                return;
+            }
+        }
+    }
+
+    // Part of total owed to weight, given the weight already claimed
+    function _share(
+        uint256 total,
+        uint256 claimed,
+        uint256 weight,
+        uint256 totalWeight
+    ) internal pure returns (uint256) {
+        return
+            (total * (claimed + weight)) /
+            totalWeight -
+            (total * claimed) /
+            totalWeight;
+    }
+}
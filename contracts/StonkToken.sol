@@ -2,19 +2,24 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "./interfaces/IStonkToken.sol";
+import "./interfaces/IMarketCalendar.sol";
+import "./interfaces/IMarketCircuitBreaker.sol";
 import "./libraries/TradingDaysLibrary.sol";
 
-contract StonkToken is ERC20, IStonkToken, Ownable {
+contract StonkToken is ERC20, ERC20Permit, IStonkToken, Ownable {
     using EnumerableSet for EnumerableSet.AddressSet;
     using SafeERC20 for IERC20;
     using TradingDaysLibrary for uint256;
 
     uint256 internal constant BP_DENOM = 10000;
+    // Cap on a project tax plus its extended hours surcharge
+    uint256 public constant MAX_TAX_BASIS_POINTS = 2500;
 
     // Token State Variables
     bool internal _tokenHasTax;
@@ -24,10 +29,43 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
     uint16 public projectSellTaxBasisPoints;
     uint16 public swapThresholdBasisPoints;
 
+    // Charged on top of the project taxes during pre-market and post-market
+    uint16 public override extendedHoursBuySurchargeBasisPoints;
+    uint16 public override extendedHoursSellSurchargeBasisPoints;
+
     address public projectTaxRecipient;
     uint128 public projectTaxPendingSwap;
     address public vault;
 
+    // Shared registry of ad-hoc closures and session overrides, optional
+    IMarketCalendar public immutable override marketCalendar;
+
+    // Which transfers are held to market hours
+    MarketHoursEnforcement public override marketHoursEnforcement;
+
+    // Allow transfers during pre-market and post-market sessions
+    bool public override extendedHoursTradingEnabled;
+
+    // Eastern Time midnight of the last session announced with MarketOpened
+    uint256 private _lastOpenedDay;
+
+    // Router allowed to report trade prices to the circuit breaker, optional
+    address public immutable override tradingRouter;
+
+    // Market-wide halts, held by the deploying factory, optional
+    IMarketCircuitBreaker public immutable override marketCircuitBreaker;
+
+    // Limit-up/limit-down band around the reference price, 0 disables halts
+    uint16 public override luldBandBasisPoints;
+    uint32 public override haltDuration = 5 minutes;
+    uint64 public override haltedUntil;
+
+    // Rolled forward to the latest trade price at most once per reference window
+    uint256 public override referencePrice;
+    uint64 private _referencePriceTimestamp;
+
+    uint256 internal constant LULD_REFERENCE_WINDOW = 5 minutes;
+
     // Mappings
     EnumerableSet.AddressSet private _liquidityPools;
     EnumerableSet.AddressSet private _exemptFromTimelock;
@@ -38,13 +76,20 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
     error MarketClosedForHoliday(string holiday);
     error MarketClosedForWeekend();
     error MarketClosedAfterHours();
+    error MarketHalted(uint256 haltedUntil);
+    error OnlyTradingRouter();
+    error InvalidBandWidth();
+    error NotHalted();
+    error HaltNotExpired();
     error TransferFailed();
     error CannotWithdrawThisToken();
     error LiquidityPoolCannotBeAddressZero();
     error LiquidityPoolMustBeAContractAddress();
+    error OnlyVault();
+    error TaxTooHigh();
 
-    modifier onlyDuringMarketHours() {
-        // _checkMarketHours(_msgSender());
+    modifier onlyDuringMarketHours(address from, address to) {
+        _checkMarketHours(from, to);
         _;
     }
 
@@ -54,18 +99,40 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
         string memory symbol_,
         uint256 totalSupply_,
         address vault_,
-        TaxParameters memory taxParams_
-    ) ERC20(name_, symbol_) Ownable(owner_) {
+        TaxParameters memory taxParams_,
+        address marketCalendar_,
+        MarketHoursEnforcement marketHoursEnforcement_,
+        address tradingRouter_,
+        address marketCircuitBreaker_
+    ) ERC20(name_, symbol_) ERC20Permit(name_) Ownable(owner_) {
         vault = vault_;
+        marketCalendar = IMarketCalendar(marketCalendar_);
+        marketHoursEnforcement = marketHoursEnforcement_;
+        tradingRouter = tradingRouter_;
+        marketCircuitBreaker = IMarketCircuitBreaker(marketCircuitBreaker_);
 
         _tokenHasTax = _processTaxParams(taxParams_);
         swapThresholdBasisPoints = taxParams_.taxSwapThresholdBasisPoints;
         projectTaxRecipient = taxParams_.projectTaxRecipient;
 
+        // A contract vault is the bonding curve, which trades like any pool
+        if (vault_.code.length > 0) {
+            _liquidityPools.add(vault_);
+            emit LiquidityPoolAdded(vault_);
+        }
+
         _mint(vault_, totalSupply_);
         _autoSwapInProgress = false;
     }
 
+    function _updateTokenHasTax() internal {
+        _tokenHasTax =
+            projectBuyTaxBasisPoints > 0 ||
+            projectSellTaxBasisPoints > 0 ||
+            extendedHoursBuySurchargeBasisPoints > 0 ||
+            extendedHoursSellSurchargeBasisPoints > 0;
+    }
+
     function _processTaxParams(
         TaxParameters memory taxParams_
     ) internal returns (bool tokenHasTax_) {
@@ -75,15 +142,35 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
         ) {
             return false;
         } else {
+            _checkTaxRates(
+                taxParams_.projectBuyTaxBasisPoints,
+                taxParams_.projectSellTaxBasisPoints,
+                0,
+                0
+            );
             projectBuyTaxBasisPoints = taxParams_.projectBuyTaxBasisPoints;
             projectSellTaxBasisPoints = taxParams_.projectSellTaxBasisPoints;
             return true;
         }
     }
 
-    function _checkMarketHours(address account) internal view {
+    function _checkMarketHours(address from, address to) internal view {
+        MarketHoursEnforcement mode = marketHoursEnforcement;
+        if (mode == MarketHoursEnforcement.OFF) {
+            return;
+        }
+
+        // Wallet to wallet transfers stay open when only trades are enforced
+        if (
+            mode == MarketHoursEnforcement.TRANSFERS_ONLY_TO_FROM_POOLS &&
+            !_isTradingVenue(from) &&
+            !_isTradingVenue(to)
+        ) {
+            return;
+        }
+
         // Skip timelock check for exempt addresses
-        if (_exemptFromTimelock.contains(account)) {
+        if (_exemptFromTimelock.contains(_msgSender())) {
             return;
         }
 
@@ -95,13 +182,40 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
             revert MarketClosedForWeekend();
         } else if (state == MarketState.AFTER_HOURS) {
             revert MarketClosedAfterHours();
+        } else if (state == MarketState.HALTED) {
+            revert MarketHalted(_getHaltedUntil());
+        } else if (
+            _isExtendedSession(state) && !extendedHoursTradingEnabled
+        ) {
+            revert MarketClosedAfterHours();
         }
     }
 
+    function _isExtendedSession(
+        MarketState state
+    ) internal pure returns (bool) {
+        return
+            state == MarketState.PRE_MARKET ||
+            state == MarketState.POST_MARKET;
+    }
+
+    // Liquidity pools and the vault, which is the bonding curve for factory tokens
+    function _isTradingVenue(address account) internal view returns (bool) {
+        return account == vault || _liquidityPools.contains(account);
+    }
+
     function getMarketState() public view override returns (MarketState) {
+        // A circuit breaker halt outlasts the session it started in
+        if (block.timestamp < _getHaltedUntil()) {
+            return MarketState.HALTED;
+        }
+
         uint256 easternTime = TradingDaysLibrary.getEasternTime();
 
-        if (TradingDaysLibrary.isHoliday(easternTime)) {
+        if (
+            TradingDaysLibrary.isHoliday(easternTime) ||
+            _isCalendarClosure(easternTime)
+        ) {
             return MarketState.HOLIDAY;
         }
 
@@ -109,19 +223,250 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
             return MarketState.WEEKEND;
         }
 
-        if (!TradingDaysLibrary.isCoreTradingHours(easternTime)) {
-            return MarketState.AFTER_HOURS;
+        (uint256 openMinute, uint256 closeMinute) = _getSession(easternTime);
+        uint256 minuteOfDay = TradingDaysLibrary.getMinuteOfDay(easternTime);
+
+        if (minuteOfDay < openMinute) {
+            return
+                minuteOfDay >= TradingDaysLibrary.PRE_MARKET_OPEN_MINUTE
+                    ? MarketState.PRE_MARKET
+                    : MarketState.AFTER_HOURS;
+        }
+
+        if (minuteOfDay >= closeMinute) {
+            return
+                minuteOfDay < TradingDaysLibrary.POST_MARKET_CLOSE_MINUTE
+                    ? MarketState.POST_MARKET
+                    : MarketState.AFTER_HOURS;
+        }
+
+        if (closeMinute < TradingDaysLibrary.REGULAR_CLOSE_MINUTE) {
+            return MarketState.EARLY_CLOSE;
         }
 
         return MarketState.OPEN;
     }
 
     function getCurrentHoliday() public view override returns (string memory) {
+        uint256 easternTime = TradingDaysLibrary.getEasternTime();
+
+        // Rule-based holidays take precedence over ad-hoc closures
+        if (
+            !TradingDaysLibrary.isHoliday(easternTime) &&
+            _isCalendarClosure(easternTime)
+        ) {
+            return marketCalendar.getClosureReason(easternTime);
+        }
+
         return TradingDaysLibrary.getCurrentHoliday();
     }
 
     function isMarketOpen() public view override returns (bool) {
-        return getMarketState() == MarketState.OPEN;
+        MarketState state = getMarketState();
+        return state == MarketState.OPEN || state == MarketState.EARLY_CLOSE;
+    }
+
+    function isExtendedSession() public view override returns (bool) {
+        return _isExtendedSession(getMarketState());
+    }
+
+    // Announce the session; only the first call of each trading day emits
+    function openMarket() external override {
+        if (!isMarketOpen()) {
+            return;
+        }
+
+        uint256 today = TradingDaysLibrary.getStartOfDay(
+            TradingDaysLibrary.getEasternTime()
+        );
+        if (today == _lastOpenedDay) {
+            return;
+        }
+
+        _lastOpenedDay = today;
+        emit MarketOpened(_msgSender());
+    }
+
+    // Unix timestamp of today's scheduled close, 0 if the market does not open today
+    function getMarketCloseTime() public view override returns (uint256) {
+        uint256 easternTime = TradingDaysLibrary.getEasternTime();
+        if (
+            TradingDaysLibrary.isHoliday(easternTime) ||
+            TradingDaysLibrary.isWeekend(easternTime) ||
+            _isCalendarClosure(easternTime)
+        ) {
+            return 0;
+        }
+
+        (, uint256 closeMinute) = _getSession(easternTime);
+
+        // Convert back from Eastern Time using the current UTC offset
+        return
+            TradingDaysLibrary.getStartOfDay(easternTime) +
+            closeMinute *
+            60 +
+            (block.timestamp - easternTime);
+    }
+
+    function _isCalendarClosure(
+        uint256 easternTime
+    ) internal view returns (bool) {
+        return
+            address(marketCalendar) != address(0) &&
+            marketCalendar.isClosed(easternTime);
+    }
+
+    // Session hours for the day: a calendar override if scheduled, otherwise the NYSE rules
+    function _getSession(
+        uint256 easternTime
+    ) internal view returns (uint256 openMinute, uint256 closeMinute) {
+        if (address(marketCalendar) != address(0)) {
+            (
+                bool hasOverride,
+                uint16 overrideOpen,
+                uint16 overrideClose
+            ) = marketCalendar.getSessionOverride(easternTime);
+            if (hasOverride) {
+                return (overrideOpen, overrideClose);
+            }
+        }
+
+        return TradingDaysLibrary.getSessionMinutes(easternTime);
+    }
+
+    function setMarketHoursEnforcement(
+        MarketHoursEnforcement mode
+    ) external override onlyOwner {
+        MarketHoursEnforcement oldMode = marketHoursEnforcement;
+        marketHoursEnforcement = mode;
+        emit MarketHoursEnforcementUpdated(oldMode, mode);
+    }
+
+    // A full tax would block every pool transfer, so the total stays capped
+    function _checkTaxRates(
+        uint256 buyTax,
+        uint256 sellTax,
+        uint256 buySurcharge,
+        uint256 sellSurcharge
+    ) internal pure {
+        if (
+            buyTax + buySurcharge > MAX_TAX_BASIS_POINTS ||
+            sellTax + sellSurcharge > MAX_TAX_BASIS_POINTS
+        ) {
+            revert TaxTooHigh();
+        }
+    }
+
+    function setExtendedHoursTrading(bool enabled) external override onlyOwner {
+        extendedHoursTradingEnabled = enabled;
+        emit ExtendedHoursTradingUpdated(enabled);
+    }
+
+    function setExtendedHoursSurcharges(
+        uint16 buySurcharge,
+        uint16 sellSurcharge
+    ) external override onlyOwner {
+        _checkTaxRates(
+            projectBuyTaxBasisPoints,
+            projectSellTaxBasisPoints,
+            buySurcharge,
+            sellSurcharge
+        );
+        uint16 oldBuySurcharge = extendedHoursBuySurchargeBasisPoints;
+        uint16 oldSellSurcharge = extendedHoursSellSurchargeBasisPoints;
+
+        extendedHoursBuySurchargeBasisPoints = buySurcharge;
+        extendedHoursSellSurchargeBasisPoints = sellSurcharge;
+        _updateTokenHasTax();
+
+        emit ExtendedHoursSurchargesChanged(
+            oldBuySurcharge,
+            buySurcharge,
+            oldSellSurcharge,
+            sellSurcharge
+        );
+    }
+
+    // Limit-up/limit-down circuit breaker
+    function setCircuitBreaker(
+        uint16 bandBasisPoints,
+        uint32 haltDuration_
+    ) external override onlyOwner {
+        if (bandBasisPoints > BP_DENOM) revert InvalidBandWidth();
+        luldBandBasisPoints = bandBasisPoints;
+        haltDuration = haltDuration_;
+        emit CircuitBreakerUpdated(bandBasisPoints, haltDuration_);
+    }
+
+    // Called by the trading router after each trade with the venue's new price
+    function recordTradePrice(uint256 price) external override {
+        if (_msgSender() != tradingRouter) revert OnlyTradingRouter();
+
+        uint64 currentHalt = haltedUntil;
+        if (block.timestamp < currentHalt) {
+            return;
+        }
+        if (currentHalt != 0) {
+            // First trade after the halt ran out
+            haltedUntil = 0;
+            emit TradingResumed(referencePrice);
+        }
+
+        uint256 band = luldBandBasisPoints;
+        if (band == 0 || price == 0) {
+            return;
+        }
+
+        uint256 currentReference = referencePrice;
+        if (currentReference != 0) {
+            uint256 limit = (currentReference * band) / BP_DENOM;
+            if (
+                price > currentReference + limit ||
+                price + limit < currentReference
+            ) {
+                uint64 until = uint64(block.timestamp) + haltDuration;
+                haltedUntil = until;
+                _setReferencePrice(price);
+                emit TradingHalted(price, currentReference, until);
+                return;
+            }
+            if (
+                block.timestamp <
+                _referencePriceTimestamp + LULD_REFERENCE_WINDOW
+            ) {
+                return;
+            }
+        }
+
+        _setReferencePrice(price);
+    }
+
+    // Lift a halt early, or announce one that has run out
+    function resumeTrading() external override {
+        uint64 currentHalt = haltedUntil;
+        if (currentHalt == 0) revert NotHalted();
+        if (block.timestamp < currentHalt && _msgSender() != owner()) {
+            revert HaltNotExpired();
+        }
+
+        haltedUntil = 0;
+        emit TradingResumed(referencePrice);
+    }
+
+    // Later of this token's halt and the market-wide halt
+    function _getHaltedUntil() internal view returns (uint256) {
+        uint256 tokenHalt = haltedUntil;
+        if (address(marketCircuitBreaker) == address(0)) {
+            return tokenHalt;
+        }
+
+        uint256 marketHalt = marketCircuitBreaker.marketHaltedUntil();
+        return marketHalt > tokenHalt ? marketHalt : tokenHalt;
+    }
+
+    function _setReferencePrice(uint256 price) internal {
+        referencePrice = price;
+        _referencePriceTimestamp = uint64(block.timestamp);
     }
 
     // Timelock exemption functions
@@ -164,6 +509,17 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
         emit LiquidityPoolAdded(pool);
     }
 
+    // Called by the bonding curve vault when it graduates, before it migrates
+    // its reserves. Registers the Uniswap pair as a taxed pool.
+    function onGraduation(address pair) external override {
+        if (_msgSender() != vault) revert OnlyVault();
+        if (pair.code.length == 0) {
+            revert LiquidityPoolMustBeAContractAddress();
+        }
+
+        if (_liquidityPools.add(pair)) emit LiquidityPoolAdded(pair);
+    }
+
     function removeLiquidityPool(address pool) external override onlyOwner {
         _liquidityPools.remove(pool);
         emit LiquidityPoolRemoved(pool);
@@ -196,11 +552,18 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
         uint16 newBuyTax,
         uint16 newSellTax
     ) external override onlyOwner {
+        _checkTaxRates(
+            newBuyTax,
+            newSellTax,
+            extendedHoursBuySurchargeBasisPoints,
+            extendedHoursSellSurchargeBasisPoints
+        );
         uint16 oldBuyTax = projectBuyTaxBasisPoints;
         uint16 oldSellTax = projectSellTaxBasisPoints;
 
         projectBuyTaxBasisPoints = newBuyTax;
         projectSellTaxBasisPoints = newSellTax;
+        _updateTokenHasTax();
 
         emit ProjectTaxBasisPointsChanged(
             oldBuyTax,
@@ -222,7 +585,12 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
     function transfer(
         address to,
         uint256 amount
-    ) public override(ERC20, IERC20) onlyDuringMarketHours returns (bool) {
+    )
+        public
+        override(ERC20, IERC20)
+        onlyDuringMarketHours(_msgSender(), to)
+        returns (bool)
+    {
         address owner = _msgSender();
         _transferWithTax(
             owner,
@@ -237,7 +605,12 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
         address from,
         address to,
         uint256 amount
-    ) public override(ERC20, IERC20) onlyDuringMarketHours returns (bool) {
+    )
+        public
+        override(ERC20, IERC20)
+        onlyDuringMarketHours(from, to)
+        returns (bool)
+    {
         address spender = _msgSender();
         _spendAllowance(from, spender, amount);
         _transferWithTax(
@@ -280,16 +653,21 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
             bool isToLiquidityPool = isLiquidityPool(to);
             bool isFromLiquidityPool = isLiquidityPool(from);
 
+            // Moving liquidity between pools, as graduation does, is no trade
+            if (isToLiquidityPool && isFromLiquidityPool) {
+                return amountLessTax;
+            }
+
             // On sell (to liquidity pool)
-            if (isToLiquidityPool && projectSellTaxBasisPoints > 0) {
-                uint256 projectTax = (sentAmount * projectSellTaxBasisPoints) /
+            if (isToLiquidityPool) {
+                uint256 projectTax = (sentAmount * totalSellTaxBasisPoints()) /
                     BP_DENOM;
                 projectTaxPendingSwap += uint128(projectTax);
                 tax += projectTax;
             }
             // On buy (from liquidity pool)
-            else if (isFromLiquidityPool && projectBuyTaxBasisPoints > 0) {
-                uint256 projectTax = (sentAmount * projectBuyTaxBasisPoints) /
+            else if (isFromLiquidityPool) {
+                uint256 projectTax = (sentAmount * totalBuyTaxBasisPoints()) /
                     BP_DENOM;
                 projectTaxPendingSwap += uint128(projectTax);
                 tax += projectTax;
@@ -344,11 +722,22 @@ contract StonkToken is ERC20, IStonkToken, Ownable {
     }
 
     // View functions for tax information
+    // Include the extended hours surcharge while a pre-market or post-market session is running
     function totalBuyTaxBasisPoints() public view override returns (uint256) {
+        if (isExtendedSession()) {
+            return
+                uint256(projectBuyTaxBasisPoints) +
+                extendedHoursBuySurchargeBasisPoints;
+        }
         return projectBuyTaxBasisPoints;
     }
 
     function totalSellTaxBasisPoints() public view override returns (uint256) {
+        if (isExtendedSession()) {
+            return
+                uint256(projectSellTaxBasisPoints) +
+                extendedHoursSellSurchargeBasisPoints;
+        }
         return projectSellTaxBasisPoints;
     }
 
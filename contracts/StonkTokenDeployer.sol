@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./StonkToken.sol";
+import "./interfaces/IStonkToken.sol";
+
+// Holds the StonkToken creation code so the factory stays under the contract size limit
+contract StonkTokenDeployer {
+    function deployToken(
+        address owner,
+        string calldata name,
+        string calldata symbol,
+        uint256 totalSupply,
+        address vault,
+        IStonkToken.TaxParameters calldata taxParams,
+        address marketCalendar,
+        IStonkToken.MarketHoursEnforcement marketHoursEnforcement,
+        address tradingRouter,
+        address marketCircuitBreaker
+    ) external returns (address) {
+        return
+            address(
+                new StonkToken(
+                    owner,
+                    name,
+                    symbol,
+                    totalSupply,
+                    vault,
+                    taxParams,
+                    marketCalendar,
+                    marketHoursEnforcement,
+                    tradingRouter,
+                    marketCircuitBreaker
+                )
+            );
+    }
+}
@@ -3,19 +3,24 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "./StonkToken.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import {BondingCurve as BondingCurveContract} from "./BondingCurve.sol";
+import {StonkTokenDeployer} from "./StonkTokenDeployer.sol";
+import {BondingCurveDeployer} from "./BondingCurveDeployer.sol";
 import "./interfaces/IUniswapV2Factory.sol";
 import "./interfaces/IUniswapV2Router02.sol";
 import "./interfaces/IStonkToken.sol";
+import "./interfaces/IMarketCircuitBreaker.sol";
+import "./libraries/TradingDaysLibrary.sol";
 import "./StonkTradingRouter.sol";
 
-contract StonkTokenFactory is Ownable {
+contract StonkTokenFactory is Ownable, IMarketCircuitBreaker {
     // Public treasury address and fee price
     address public treasury;
     uint256 public feePrice;
 
-    // Global supply for all tokens deployed through factory
+    // Supply for tokens deployed with the default launch config
     uint256 public globalTokenSupply;
 
     // Bonding curve trading fee (in basis points, e.g., 100 = 1%)
@@ -27,15 +32,62 @@ contract StonkTokenFactory is Ownable {
     // Uniswap addresses
     IUniswapV2Factory public immutable uniswapFactory;
     IUniswapV2Router02 public immutable uniswapRouter;
-    IERC20 public immutable assetToken; // e.g., USDC
+    IERC20 public immutable assetToken; // Default quote asset, e.g., USDC
 
     // Router for unified trading
     StonkTradingRouter public tradingRouter;
 
-    // Bonding curve parameters
+    // Shared closure registry handed to every new token, optional
+    address public marketCalendar;
+
+    // Market hours enforcement for new tokens; token owners can change it later
+    IStonkToken.MarketHoursEnforcement public marketHoursEnforcement =
+        IStonkToken.MarketHoursEnforcement.TRANSFERS_ONLY_TO_FROM_POOLS;
+
+    // Market-wide halt consulted by every token this factory deploys
+    address public override haltGuardian;
+    MarketHaltLevel public override marketHaltLevel;
+    uint256 public override marketHaltedUntil;
+
+    // Index-drop rule: the sum of the constituents' prices against the level
+    // the halt guardian recorded after the previous session's close
+    address[] private _indexConstituents;
+    uint256 public indexReferenceLevel;
+    MarketHaltLevel private _highestLevelToday; // Each level fires once per reference
+
+    // Price curve shapes creators can pick from; address(0) at deploy picks the default
+    address public defaultCurveStrategy;
+    mapping(address => bool) public isCurveStrategyApproved;
+
+    // Quote assets creators can pair against; address(0) at deploy picks assetToken
+    struct QuoteAsset {
+        bool allowed;
+        uint8 decimals;
+        uint256 assetRate; // Reference value of one whole unit, ASSET_RATE = $1
+    }
+    mapping(address => QuoteAsset) public quoteAssets;
+
+    // Range creators can pick launch configs from; both start at the defaults below
+    BondingCurveContract.LaunchConfig public minLaunchConfig;
+    BondingCurveContract.LaunchConfig public maxLaunchConfig;
+
+    // Deployers holding the token and bonding curve creation code
+    StonkTokenDeployer public immutable tokenDeployer;
+    BondingCurveDeployer public immutable bondingCurveDeployer;
+
+    // Default bonding curve parameters
     uint256 public constant BONDING_CURVE_K = 3_000_000_000_000;
     uint256 public constant GRADUATION_THRESHOLD = 100_000 * 1e6; // e.g., 100k USDC
     uint256 public constant ASSET_RATE = 10000; // Added asset rate for K normalization
+    uint256 public constant REFERENCE_UNIT = 1e6; // Launch configs are priced in a $1, 6-decimal asset
+    uint256 public constant MIN_ASSET_LIQUIDITY = REFERENCE_UNIT; // Kept on a curve for graduation
+
+    // Market-wide circuit breaker thresholds
+    uint256 public constant LEVEL_1_DROP_BASIS_POINTS = 700;
+    uint256 public constant LEVEL_2_DROP_BASIS_POINTS = 1300;
+    uint256 public constant LEVEL_3_DROP_BASIS_POINTS = 2000;
+    uint256 public constant MARKET_HALT_DURATION = 15 minutes;
+    uint256 public constant MAX_INDEX_CONSTITUENTS = 20;
 
     event TokenDeployed(
         address indexed tokenAddress,
@@ -79,6 +131,32 @@ contract StonkTokenFactory is Ownable {
         address indexed oldRouter,
         address indexed newRouter
     );
+    event MarketCalendarUpdated(
+        address indexed oldCalendar,
+        address indexed newCalendar
+    );
+    event DefaultCurveStrategyUpdated(
+        address indexed oldStrategy,
+        address indexed newStrategy
+    );
+    event CurveStrategyApprovalUpdated(
+        address indexed strategy,
+        bool approved
+    );
+    event QuoteAssetUpdated(
+        address indexed asset,
+        bool allowed,
+        uint8 decimals,
+        uint256 assetRate
+    );
+    event LaunchConfigBoundsUpdated(
+        BondingCurveContract.LaunchConfig minConfig,
+        BondingCurveContract.LaunchConfig maxConfig
+    );
+    event MarketHoursEnforcementUpdated(
+        IStonkToken.MarketHoursEnforcement oldMode,
+        IStonkToken.MarketHoursEnforcement newMode
+    );
 
     // Custom errors for gas efficiency
     error ContractPaused();
@@ -87,20 +165,50 @@ contract StonkTokenFactory is Ownable {
     error FeeTooHigh();
     error ArraysLengthMismatch();
     error TokenNotFound();
+    error NotHaltGuardian();
+    error InvalidHaltLevel();
+    error TooManyIndexConstituents();
+    error NoIndexConstituents();
+    error IndexReferenceNotSet();
+    error TradingRouterNotSet();
+    error MarketSessionOpen();
+    error CurveStrategyNotApproved();
+    error QuoteAssetNotAllowed();
+    error InvalidQuoteAsset();
+    error InvalidLaunchConfigBounds();
+    error GraduationThresholdOutOfBounds();
+    error AssetRateOutOfBounds();
+    error CurveConstantOutOfBounds();
+    error SupplyOutOfBounds();
 
     modifier whenNotPaused() {
         if (paused) revert ContractPaused();
         _;
     }
 
+    modifier onlyHaltGuardian() {
+        if (msg.sender != haltGuardian && msg.sender != owner()) {
+            revert NotHaltGuardian();
+        }
+        _;
+    }
+
     constructor(
         address _treasury,
         uint256 _feePrice,
         address _uniswapFactory,
         address _uniswapRouter,
         address _assetToken,
-        uint256 _bondingCurveFeeBasisPoints
+        uint256 _bondingCurveFeeBasisPoints,
+        address _tokenDeployer,
+        address _bondingCurveDeployer,
+        address _defaultCurveStrategy
     ) Ownable(msg.sender) {
+        if (
+            _tokenDeployer == address(0) ||
+            _bondingCurveDeployer == address(0) ||
+            _defaultCurveStrategy == address(0)
+        ) revert ZeroAddress();
         treasury = _treasury;
         feePrice = _feePrice;
         globalTokenSupply = 1_000_000_000 * 10 ** 18; // Fixed 1 billion supply with 18 decimals
@@ -108,6 +216,18 @@ contract StonkTokenFactory is Ownable {
         uniswapFactory = IUniswapV2Factory(_uniswapFactory);
         uniswapRouter = IUniswapV2Router02(_uniswapRouter);
         assetToken = IERC20(_assetToken);
+        tokenDeployer = StonkTokenDeployer(_tokenDeployer);
+        bondingCurveDeployer = BondingCurveDeployer(_bondingCurveDeployer);
+        defaultCurveStrategy = _defaultCurveStrategy;
+        isCurveStrategyApproved[_defaultCurveStrategy] = true;
+        _setQuoteAsset(
+            _assetToken,
+            true,
+            IERC20Metadata(_assetToken).decimals(),
+            ASSET_RATE
+        );
+        minLaunchConfig = getDefaultLaunchConfig();
+        maxLaunchConfig = minLaunchConfig;
         paused = false;
     }
 
@@ -135,10 +255,141 @@ contract StonkTokenFactory is Ownable {
 
     function setTradingRouter(address _tradingRouter) external onlyOwner {
         require(_tradingRouter != address(0), "Router cannot be zero address");
-        tradingRouter = StonkTradingRouter(_tradingRouter);
+        tradingRouter = StonkTradingRouter(payable(_tradingRouter));
         emit TradingRouterUpdated(address(0), _tradingRouter);
     }
 
+    // Only affects tokens deployed afterwards; existing tokens keep their calendar
+    function setMarketCalendar(address _marketCalendar) external onlyOwner {
+        address oldCalendar = marketCalendar;
+        marketCalendar = _marketCalendar;
+        emit MarketCalendarUpdated(oldCalendar, _marketCalendar);
+    }
+
+    function setMarketHoursEnforcement(
+        IStonkToken.MarketHoursEnforcement _marketHoursEnforcement
+    ) external onlyOwner {
+        IStonkToken.MarketHoursEnforcement oldMode = marketHoursEnforcement;
+        marketHoursEnforcement = _marketHoursEnforcement;
+        emit MarketHoursEnforcementUpdated(oldMode, _marketHoursEnforcement);
+    }
+
+    // The default stays approved for as long as it is the default
+    function setDefaultCurveStrategy(address _strategy) external onlyOwner {
+        if (_strategy == address(0)) revert ZeroAddress();
+        address oldStrategy = defaultCurveStrategy;
+        defaultCurveStrategy = _strategy;
+        if (!isCurveStrategyApproved[_strategy]) {
+            isCurveStrategyApproved[_strategy] = true;
+            emit CurveStrategyApprovalUpdated(_strategy, true);
+        }
+        emit DefaultCurveStrategyUpdated(oldStrategy, _strategy);
+    }
+
+    // Existing bonding curves keep their strategy when it is revoked
+    function setCurveStrategyApproved(
+        address _strategy,
+        bool _approved
+    ) external onlyOwner {
+        if (_strategy == address(0)) revert ZeroAddress();
+        if (!_approved && _strategy == defaultCurveStrategy) {
+            revert CurveStrategyNotApproved();
+        }
+        isCurveStrategyApproved[_strategy] = _approved;
+        emit CurveStrategyApprovalUpdated(_strategy, _approved);
+    }
+
+    // Disallowing an asset only stops new launches; existing tokens keep trading against it
+    function setQuoteAsset(
+        address _asset,
+        bool _allowed,
+        uint8 _decimals,
+        uint256 _assetRate
+    ) external onlyOwner {
+        if (!_allowed && _asset == address(assetToken)) {
+            revert InvalidQuoteAsset();
+        }
+        _setQuoteAsset(_asset, _allowed, _decimals, _assetRate);
+    }
+
+    function _setQuoteAsset(
+        address _asset,
+        bool _allowed,
+        uint8 _decimals,
+        uint256 _assetRate
+    ) internal {
+        if (_asset == address(0)) revert ZeroAddress();
+        if (_assetRate == 0 || _decimals > 36) revert InvalidQuoteAsset();
+        quoteAssets[_asset] = QuoteAsset(_allowed, _decimals, _assetRate);
+        emit QuoteAssetUpdated(_asset, _allowed, _decimals, _assetRate);
+    }
+
+    // Reference units (see REFERENCE_UNIT) to units of `asset`
+    function toQuoteAssetUnits(
+        address asset,
+        uint256 referenceAmount
+    ) public view returns (uint256) {
+        QuoteAsset memory quote = quoteAssets[asset];
+        if (quote.assetRate == 0) revert InvalidQuoteAsset();
+        return
+            Math.mulDiv(
+                referenceAmount,
+                ASSET_RATE * 10 ** quote.decimals,
+                quote.assetRate * REFERENCE_UNIT
+            );
+    }
+
+    // Units of `asset` to reference units
+    function toReferenceUnits(
+        address asset,
+        uint256 assetAmount
+    ) public view returns (uint256) {
+        QuoteAsset memory quote = quoteAssets[asset];
+        if (quote.assetRate == 0) revert InvalidQuoteAsset();
+        return
+            Math.mulDiv(
+                assetAmount,
+                quote.assetRate * REFERENCE_UNIT,
+                ASSET_RATE * 10 ** quote.decimals
+            );
+    }
+
+    // deployToken keeps using the default config wherever the bounds are set
+    function setLaunchConfigBounds(
+        BondingCurveContract.LaunchConfig calldata _minConfig,
+        BondingCurveContract.LaunchConfig calldata _maxConfig
+    ) external onlyOwner {
+        if (
+            _minConfig.graduationThreshold == 0 ||
+            _minConfig.assetRate == 0 ||
+            _minConfig.curveConstant == 0 ||
+            // The curve keeps back 1 token for graduation
+            _minConfig.totalSupply <= 1e18 ||
+            _minConfig.graduationThreshold > _maxConfig.graduationThreshold ||
+            _minConfig.assetRate > _maxConfig.assetRate ||
+            _minConfig.curveConstant > _maxConfig.curveConstant ||
+            _minConfig.totalSupply > _maxConfig.totalSupply
+        ) revert InvalidLaunchConfigBounds();
+
+        minLaunchConfig = _minConfig;
+        maxLaunchConfig = _maxConfig;
+        emit LaunchConfigBoundsUpdated(_minConfig, _maxConfig);
+    }
+
+    function getDefaultLaunchConfig()
+        public
+        view
+        returns (BondingCurveContract.LaunchConfig memory)
+    {
+        return
+            BondingCurveContract.LaunchConfig({
+                graduationThreshold: GRADUATION_THRESHOLD,
+                assetRate: ASSET_RATE,
+                curveConstant: BONDING_CURVE_K,
+                totalSupply: globalTokenSupply
+            });
+    }
+
     function pause() external onlyOwner {
         paused = true;
         emit Paused(msg.sender);
@@ -171,13 +422,118 @@ contract StonkTokenFactory is Ownable {
         address projectTaxRecipient,
         uint16 projectBuyTaxBasisPoints,
         uint16 projectSellTaxBasisPoints,
-        uint16 taxSwapThresholdBasisPoints
+        uint16 taxSwapThresholdBasisPoints,
+        address curveStrategy,
+        address quoteAsset
+    )
+        external
+        payable
+        whenNotPaused
+        returns (address tokenAddress, address bondingCurveAddress)
+    {
+        return
+            _deployToken(
+                name,
+                symbol,
+                _createTaxParameters(
+                    projectTaxRecipient,
+                    projectBuyTaxBasisPoints,
+                    projectSellTaxBasisPoints,
+                    taxSwapThresholdBasisPoints
+                ),
+                curveStrategy,
+                quoteAsset,
+                getDefaultLaunchConfig()
+            );
+    }
+
+    // deployToken with a launch config inside the owner's bounds
+    function deployTokenWithParams(
+        string calldata name,
+        string calldata symbol,
+        address projectTaxRecipient,
+        uint16 projectBuyTaxBasisPoints,
+        uint16 projectSellTaxBasisPoints,
+        uint16 taxSwapThresholdBasisPoints,
+        address curveStrategy,
+        address quoteAsset,
+        BondingCurveContract.LaunchConfig calldata launchConfig
     )
         external
         payable
         whenNotPaused
         returns (address tokenAddress, address bondingCurveAddress)
     {
+        _validateLaunchConfig(launchConfig);
+        return
+            _deployToken(
+                name,
+                symbol,
+                _createTaxParameters(
+                    projectTaxRecipient,
+                    projectBuyTaxBasisPoints,
+                    projectSellTaxBasisPoints,
+                    taxSwapThresholdBasisPoints
+                ),
+                curveStrategy,
+                quoteAsset,
+                launchConfig
+            );
+    }
+
+    function _validateLaunchConfig(
+        BondingCurveContract.LaunchConfig calldata config
+    ) internal view {
+        BondingCurveContract.LaunchConfig memory minConfig = minLaunchConfig;
+        BondingCurveContract.LaunchConfig memory maxConfig = maxLaunchConfig;
+
+        if (
+            config.graduationThreshold < minConfig.graduationThreshold ||
+            config.graduationThreshold > maxConfig.graduationThreshold
+        ) revert GraduationThresholdOutOfBounds();
+        if (
+            config.assetRate < minConfig.assetRate ||
+            config.assetRate > maxConfig.assetRate
+        ) revert AssetRateOutOfBounds();
+        if (
+            config.curveConstant < minConfig.curveConstant ||
+            config.curveConstant > maxConfig.curveConstant
+        ) revert CurveConstantOutOfBounds();
+        if (
+            config.totalSupply < minConfig.totalSupply ||
+            config.totalSupply > maxConfig.totalSupply
+        ) revert SupplyOutOfBounds();
+    }
+
+    function _deployToken(
+        string calldata name,
+        string calldata symbol,
+        IStonkToken.TaxParameters memory taxParameters,
+        address curveStrategy,
+        address quoteAsset,
+        BondingCurveContract.LaunchConfig memory launchConfig
+    ) internal returns (address, address) {
+        if (curveStrategy == address(0)) {
+            curveStrategy = defaultCurveStrategy;
+        } else if (!isCurveStrategyApproved[curveStrategy]) {
+            revert CurveStrategyNotApproved();
+        }
+        if (quoteAsset == address(0)) {
+            quoteAsset = address(assetToken);
+        } else if (!quoteAssets[quoteAsset].allowed) {
+            revert QuoteAssetNotAllowed();
+        }
+
+        // The curve prices in its quote asset's own units
+        launchConfig.graduationThreshold = toQuoteAssetUnits(
+            quoteAsset,
+            launchConfig.graduationThreshold
+        );
+        launchConfig.curveConstant = toQuoteAssetUnits(
+            quoteAsset,
+            launchConfig.curveConstant
+        );
+
         // Check fee payment and send to treasury
         require(msg.value >= feePrice, "Insufficient fee");
         payable(treasury).transfer(feePrice);
@@ -188,33 +544,28 @@ contract StonkTokenFactory is Ownable {
         }
 
         // Deploy bonding curve and token in sequence
-        address bondingCurveAddr = address(
-            new BondingCurveContract(
-                address(assetToken),
-                address(uniswapFactory),
-                address(uniswapRouter),
-                address(0),
-                GRADUATION_THRESHOLD,
-                ASSET_RATE,
-                bondingCurveFeeBasisPoints,
-                treasury
-            )
+        address bondingCurveAddr = bondingCurveDeployer.deployBondingCurve(
+            quoteAsset,
+            address(uniswapFactory),
+            address(uniswapRouter),
+            launchConfig,
+            toQuoteAssetUnits(quoteAsset, MIN_ASSET_LIQUIDITY),
+            bondingCurveFeeBasisPoints,
+            treasury,
+            curveStrategy
         );
 
-        address tokenAddr = address(
-            new StonkToken(
-                msg.sender,
-                name,
-                symbol,
-                globalTokenSupply,
-                bondingCurveAddr,
-                _createTaxParameters(
-                    projectTaxRecipient,
-                    projectBuyTaxBasisPoints,
-                    projectSellTaxBasisPoints,
-                    taxSwapThresholdBasisPoints
-                )
-            )
+        address tokenAddr = tokenDeployer.deployToken(
+            msg.sender,
+            name,
+            symbol,
+            launchConfig.totalSupply,
+            bondingCurveAddr,
+            taxParameters,
+            marketCalendar,
+            marketHoursEnforcement,
+            address(tradingRouter),
+            address(this)
         );
 
         // Set the token address in the bonding curve
@@ -230,7 +581,7 @@ contract StonkTokenFactory is Ownable {
             bondingCurveAddr,
             name,
             symbol,
-            globalTokenSupply,
+            launchConfig.totalSupply,
             msg.sender,
             feePrice
         );
@@ -238,6 +589,157 @@ contract StonkTokenFactory is Ownable {
         return (tokenAddr, bondingCurveAddr);
     }
 
+    // Market-wide circuit breaker
+    function setHaltGuardian(address guardian) external override onlyOwner {
+        address oldGuardian = haltGuardian;
+        haltGuardian = guardian;
+        emit HaltGuardianUpdated(oldGuardian, guardian);
+    }
+
+    function triggerMarketHalt(
+        MarketHaltLevel level
+    ) external override onlyHaltGuardian {
+        if (level == MarketHaltLevel.NONE) revert InvalidHaltLevel();
+        _haltMarket(level);
+    }
+
+    // Lift the halt before it runs out
+    function resumeMarket() external override onlyHaltGuardian {
+        marketHaltLevel = MarketHaltLevel.NONE;
+        marketHaltedUntil = 0;
+        emit MarketWideHaltLifted(msg.sender);
+    }
+
+    // Tokens must be registered with the trading router; resets the reference level
+    function setIndexConstituents(
+        address[] calldata tokens
+    ) external override onlyOwner {
+        if (address(tradingRouter) == address(0)) revert TradingRouterNotSet();
+        if (tokens.length > MAX_INDEX_CONSTITUENTS) {
+            revert TooManyIndexConstituents();
+        }
+        for (uint256 i = 0; i < tokens.length; i++) {
+            if (tradingRouter.getBondingCurveAddress(tokens[i]) == address(0)) {
+                revert TokenNotFound();
+            }
+        }
+
+        _indexConstituents = tokens;
+        indexReferenceLevel = 0;
+        emit IndexConstituentsUpdated(tokens);
+    }
+
+    function getIndexConstituents()
+        external
+        view
+        override
+        returns (address[] memory)
+    {
+        return _indexConstituents;
+    }
+
+    // Sum of the constituents' router reference prices, in reference units.
+    // Graduated constituents read the oracle's TWAP; one that has too little
+    // history yet counts at its spot price.
+    function getIndexLevel() public view override returns (uint256 level) {
+        uint256 length = _indexConstituents.length;
+        if (length == 0) revert NoIndexConstituents();
+
+        for (uint256 i = 0; i < length; i++) {
+            address token = _indexConstituents[i];
+            level += toReferenceUnits(
+                tradingRouter.getQuoteAsset(token),
+                _getReferencePrice(token)
+            );
+        }
+    }
+
+    function _getReferencePrice(
+        address tokenAddress
+    ) internal view returns (uint256) {
+        try tradingRouter.getReferencePrice(tokenAddress) returns (
+            uint256 price
+        ) {
+            return price;
+        } catch {
+            return tradingRouter.getSpotPrice(tokenAddress);
+        }
+    }
+
+    // The guardian records the reference outside core trading hours, after
+    // the previous session's close, when the constituents cannot trade
+    function recordIndexReference() external override onlyHaltGuardian {
+        uint256 easternTime = TradingDaysLibrary.getEasternTime();
+        if (TradingDaysLibrary.isCoreTradingHours(easternTime)) {
+            revert MarketSessionOpen();
+        }
+
+        uint256 level = getIndexLevel();
+        indexReferenceLevel = level;
+        _highestLevelToday = MarketHaltLevel.NONE;
+        emit IndexReferenceLevelUpdated(level);
+    }
+
+    // Halts the market when the index has fallen from the recorded reference
+    // past a level that has not fired yet. Curve prices move with a single
+    // trade, so only the guardian or owner may run the check.
+    function checkIndexDrop()
+        external
+        override
+        onlyHaltGuardian
+        returns (MarketHaltLevel triggered)
+    {
+        uint256 referenceLevel = indexReferenceLevel;
+        if (referenceLevel == 0) revert IndexReferenceNotSet();
+
+        uint256 level = getIndexLevel();
+        if (level >= referenceLevel) {
+            return MarketHaltLevel.NONE;
+        }
+
+        uint256 drop = ((referenceLevel - level) * 10000) / referenceLevel;
+        if (drop >= LEVEL_3_DROP_BASIS_POINTS) {
+            triggered = MarketHaltLevel.LEVEL_3;
+        } else if (drop >= LEVEL_2_DROP_BASIS_POINTS) {
+            triggered = MarketHaltLevel.LEVEL_2;
+        } else if (drop >= LEVEL_1_DROP_BASIS_POINTS) {
+            triggered = MarketHaltLevel.LEVEL_1;
+        }
+
+        if (triggered <= _highestLevelToday) {
+            return MarketHaltLevel.NONE;
+        }
+
+        _highestLevelToday = triggered;
+        _haltMarket(triggered);
+    }
+
+    // Levels 1 and 2 halt for 15 minutes, level 3 until the end of the day in Eastern Time
+    function _haltMarket(MarketHaltLevel level) internal {
+        uint256 haltedUntil = block.timestamp + MARKET_HALT_DURATION;
+        if (level == MarketHaltLevel.LEVEL_3) {
+            uint256 easternTime = TradingDaysLibrary.getEasternTime();
+            haltedUntil =
+                TradingDaysLibrary.getStartOfDay(easternTime) +
+                1 days +
+                (block.timestamp - easternTime);
+        }
+
+        // Never shorten or downgrade a halt that is already running
+        if (block.timestamp < marketHaltedUntil) {
+            if (haltedUntil < marketHaltedUntil) {
+                haltedUntil = marketHaltedUntil;
+            }
+            if (level < marketHaltLevel) {
+                level = marketHaltLevel;
+            }
+        }
+
+        marketHaltLevel = level;
+        marketHaltedUntil = haltedUntil;
+        emit MarketWideHaltTriggered(level, haltedUntil, msg.sender);
+    }
+
     // Essential view functions only
     function getFactoryInfo()
         external
@@ -4,55 +4,148 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "./StonkTokenFactory.sol";
 import {BondingCurve as BondingCurveContract} from "./BondingCurve.sol";
 import "./interfaces/IUniswapV2Router02.sol";
 import "./interfaces/IUniswapV2Factory.sol";
+import "./interfaces/IUniswapV2Pair.sol";
+import "./interfaces/IWETH.sol";
+import "./interfaces/ISignatureTransfer.sol";
+import {ITwapOracle} from "./interfaces/ITwapOracle.sol";
+import {IStonkToken} from "./interfaces/IStonkToken.sol";
 
-contract StonkTradingRouter is Ownable, ReentrancyGuard {
+contract StonkTradingRouter is Ownable, ReentrancyGuard, EIP712, Nonces {
     using SafeERC20 for IERC20;
 
     StonkTokenFactory public factory;
     IUniswapV2Router02 public uniswapRouter;
     IUniswapV2Factory public uniswapFactory;
-    IERC20 public assetToken;
+    IERC20 public assetToken; // The factory's default quote asset
+    IWETH public immutable weth; // Uniswap router's WETH, for the ETH trading path
+
+    // TWAP source for graduated tokens' reference prices, fed after every trade
+    ITwapOracle public priceOracle;
+
+    // Window getReferencePrice averages over after graduation
+    uint32 public constant REFERENCE_PRICE_WINDOW = 30 minutes;
+
+    // Uniswap's Permit2, deployed at the same address on every chain
+    ISignatureTransfer public constant PERMIT2 =
+        ISignatureTransfer(0x000000000022D473030F116dDEE9F6B43aC78BA3);
 
     // Token registration - minimal storage for subgraph
     mapping(address => address) public bondingCurveAddress; // token => bonding curve
+    mapping(address => address) public quoteAsset; // token => asset it trades against
 
     // Emergency pause mechanism
     bool public paused;
 
-    // Events with comprehensive indexing for DAPP
-    event TokenGraduated(
-        address indexed tokenAddress,
-        address indexed uniswapPair,
-        uint256 tokenBalance,
-        uint256 assetBalance
-    );
+    // EIP-2612 permit for the router, signed over the asset being spent
+    struct PermitSignature {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    // EIP-712 order a trader signs for any relayer to execute. limitAmount is
+    // the most quote asset a buy spends or the least a sell receives, and
+    // relayerFee is paid in the quote asset on top
+    struct Order {
+        address trader;
+        address token;
+        bool isBuy;
+        uint256 tokenAmount;
+        uint256 limitAmount;
+        uint256 relayerFee;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    // Outcome of one call in a multicall batch
+    struct CallResult {
+        bool success;
+        bytes returnData; // Return value, or revert data when success is false
+    }
+
+    bytes32 public constant ORDER_TYPEHASH =
+        keccak256(
+            "Order(address trader,address token,bool isBuy,uint256 tokenAmount,"
+            "uint256 limitAmount,uint256 relayerFee,uint256 nonce,"
+            "uint256 deadline)"
+        );
+
+    // Balances read before a trade, so its event reports what actually moved
+    struct TradeSnapshot {
+        uint256 tokens; // Token held by the payer and recipient
+        uint256 assets; // Quote asset held by the payer and recipient
+        uint256 taxPending; // The token's projectTaxPendingSwap
+    }
+
+    // Events with comprehensive indexing for DAPP. Graduation is reported
+    // by the bonding curve's GraduationCompleted.
 
+    // Trade amounts are measured, not quoted. fee is the bonding curve fee
+    // (Uniswap's LP fee stays in the pair), tax the tokens the token's
+    // transfer tax withheld, and priceAfter getSpotPrice after the trade.
     event TokensPurchased(
         address indexed tokenAddress,
         address indexed buyer,
-        uint256 indexed tokenAmount,
-        uint256 assetAmount,
+        uint256 tokenAmount, // Received by the buyer, net of tax
+        uint256 assetAmount, // Spent, fee included
+        uint256 fee,
+        uint256 tax,
+        uint256 priceAfter,
         bool isBondingCurve
     );
 
     event TokensSold(
         address indexed tokenAddress,
         address indexed seller,
-        uint256 indexed tokenAmount,
-        uint256 assetAmount,
+        uint256 tokenAmount, // Taken from the seller, tax included
+        uint256 assetAmount, // Received, net of the fee
+        uint256 fee,
+        uint256 tax,
+        uint256 priceAfter,
         bool isBondingCurve
     );
 
+    // Summary of a swapTokensForTokens route; each leg also emits its own
+    // TokensSold and TokensPurchased
+    event TokensSwapped(
+        address indexed trader,
+        address indexed tokenIn,
+        address indexed tokenOut,
+        uint256 amountIn,
+        uint256 assetAmount,
+        uint256 amountOut
+    );
+
     event TokenRegistered(
         address indexed tokenAddress,
         address indexed bondingCurveAddress
     );
 
+    event OrderExecuted(
+        bytes32 indexed orderHash,
+        address indexed trader,
+        address indexed relayer,
+        uint256 nonce,
+        uint256 relayerFee
+    );
+
+    event PriceOracleUpdated(address indexed oracle);
+
+    event CallFailed(uint256 indexed index, bytes reason);
+
     event RouterPaused(address indexed by);
     event RouterUnpaused(address indexed by);
 
@@ -64,6 +157,14 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
     error AlreadyGraduated();
     error NotGraduated();
     error OnlyFactory();
+    error MarketHalted();
+    error InsufficientETH();
+    error OnlyWETH();
+    error InvalidPermitToken();
+    error InvalidSignature();
+    error PriceOracleNotSet();
+    error InvalidSwapPath();
+    error SlippageTooHigh();
 
     modifier whenNotPaused() {
         if (paused) revert ContractPaused();
@@ -75,14 +176,26 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
         address _uniswapRouter,
         address _uniswapFactory,
         address _assetToken
-    ) Ownable(msg.sender) {
+    ) Ownable(msg.sender) EIP712("StonkTradingRouter", "1") {
         factory = StonkTokenFactory(_factory);
         uniswapRouter = IUniswapV2Router02(_uniswapRouter);
         uniswapFactory = IUniswapV2Factory(_uniswapFactory);
         assetToken = IERC20(_assetToken);
+        weth = IWETH(uniswapRouter.WETH());
         paused = false;
     }
 
+    // Only WETH unwrapping pays ETH in
+    receive() external payable {
+        if (msg.sender != address(weth)) revert OnlyWETH();
+    }
+
+    // Zero stops feeding and reading the oracle
+    function setPriceOracle(address oracle) external onlyOwner {
+        priceOracle = ITwapOracle(oracle);
+        emit PriceOracleUpdated(oracle);
+    }
+
     // Emergency pause functions
     function pause() external onlyOwner {
         paused = true;
@@ -101,6 +214,9 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
     ) external {
         if (msg.sender != address(factory)) revert OnlyFactory();
         bondingCurveAddress[tokenAddress] = bondingCurveAddr;
+        quoteAsset[tokenAddress] = address(
+            BondingCurveContract(bondingCurveAddr).assetToken()
+        );
         emit TokenRegistered(tokenAddress, bondingCurveAddr);
     }
 
@@ -110,42 +226,233 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
         uint256 tokenAmount,
         uint256 maxAssetAmount,
         uint256 deadline
-    ) external nonReentrant whenNotPaused returns (uint256 tokensReceived) {
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        return
+            _buyTokens(
+                tokenAddress,
+                tokenAmount,
+                maxAssetAmount,
+                deadline,
+                msg.sender,
+                msg.sender
+            );
+    }
+
+    // buyTokens after an EIP-2612 permit on the quote asset, in one transaction
+    function buyWithPermit(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 maxAssetAmount,
+        uint256 deadline,
+        PermitSignature calldata permit
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        _permit(address(_quoteAsset(tokenAddress)), permit);
+        return
+            _buyTokens(
+                tokenAddress,
+                tokenAmount,
+                maxAssetAmount,
+                deadline,
+                msg.sender,
+                msg.sender
+            );
+    }
+
+    // buyTokens funded by a Permit2 signature transfer of maxAssetAmount
+    function buyWithPermit2(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 maxAssetAmount,
+        uint256 deadline,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        _permit2Transfer(
+            address(_quoteAsset(tokenAddress)),
+            maxAssetAmount,
+            permit,
+            signature
+        );
+        return
+            _buyTokens(
+                tokenAddress,
+                tokenAmount,
+                maxAssetAmount,
+                deadline,
+                address(this),
+                msg.sender
+            );
+    }
+
+    // payer funds the trade, or is the router when a Permit2 transfer already
+    // did; recipient gets the tokens and any refund
+    function _buyTokens(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 maxAssetAmount,
+        uint256 deadline,
+        address payer,
+        address recipient
+    ) internal returns (uint256 tokensReceived) {
         if (deadline < block.timestamp) revert DeadlinePassed();
         if (tokenAmount == 0) revert InvalidAmount();
+        _requireNotHalted(tokenAddress);
 
         bool graduated = _isTokenGraduated(tokenAddress);
+        TradeSnapshot memory before = _snapshot(tokenAddress, payer, recipient);
+        uint256 fee;
 
         if (graduated) {
             // Buy through Uniswap
-            tokensReceived = _buyFromUniswap(
+            _buyFromUniswap(
                 tokenAddress,
                 tokenAmount,
                 maxAssetAmount,
-                deadline
-            );
-            emit TokensPurchased(
-                tokenAddress,
-                msg.sender,
-                tokensReceived,
-                maxAssetAmount,
-                false
+                deadline,
+                payer,
+                recipient
             );
         } else {
             // Buy through bonding curve
-            tokensReceived = _buyFromBondingCurve(
+            fee = _buyFromBondingCurve(
                 tokenAddress,
                 tokenAmount,
-                maxAssetAmount
+                maxAssetAmount,
+                payer,
+                recipient
+            );
+        }
+
+        tokensReceived = _emitPurchase(
+            tokenAddress,
+            payer,
+            recipient,
+            before,
+            fee,
+            !graduated
+        );
+    }
+
+    // Executes a trader's signed order. Any relayer may submit it and is paid
+    // relayerFee from the trader, who needs no ETH but must have approved the
+    // router for the quote asset (and for the token on sells)
+    function executeOrder(
+        Order calldata order,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused returns (uint256 amount) {
+        bytes32 orderHash = hashOrder(order);
+        if (ECDSA.recover(orderHash, signature) != order.trader) {
+            revert InvalidSignature();
+        }
+        _useCheckedNonce(order.trader, order.nonce);
+
+        if (order.isBuy) {
+            amount = _buyTokens(
+                order.token,
+                order.tokenAmount,
+                order.limitAmount,
+                order.deadline,
+                order.trader,
+                order.trader
             );
-            emit TokensPurchased(
+        } else {
+            amount = _sellTokens(
+                order.token,
+                order.tokenAmount,
+                order.limitAmount,
+                order.deadline,
+                order.trader,
+                order.trader
+            );
+        }
+
+        if (order.relayerFee > 0) {
+            _quoteAsset(order.token).safeTransferFrom(
+                order.trader,
+                msg.sender,
+                order.relayerFee
+            );
+        }
+
+        emit OrderExecuted(
+            orderHash,
+            order.trader,
+            msg.sender,
+            order.nonce,
+            order.relayerFee
+        );
+    }
+
+    // EIP-712 digest the trader signs for an order
+    function hashOrder(Order calldata order) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(ORDER_TYPEHASH, order)));
+    }
+
+    // Exact-input buy: spend exactly assetAmountIn for at least minTokensOut
+    function buyTokensExactIn(
+        address tokenAddress,
+        uint256 assetAmountIn,
+        uint256 minTokensOut,
+        uint256 deadline
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        return
+            _buyTokensExactIn(
                 tokenAddress,
+                assetAmountIn,
+                minTokensOut,
+                deadline,
                 msg.sender,
-                tokensReceived,
-                maxAssetAmount,
-                true
+                msg.sender
+            );
+    }
+
+    function _buyTokensExactIn(
+        address tokenAddress,
+        uint256 assetAmountIn,
+        uint256 minTokensOut,
+        uint256 deadline,
+        address payer,
+        address recipient
+    ) internal returns (uint256 tokensReceived) {
+        if (deadline < block.timestamp) revert DeadlinePassed();
+        if (assetAmountIn == 0) revert InvalidAmount();
+        _requireNotHalted(tokenAddress);
+
+        bool graduated = _isTokenGraduated(tokenAddress);
+        TradeSnapshot memory before = _snapshot(tokenAddress, payer, recipient);
+        uint256 fee;
+
+        if (graduated) {
+            // Buy through Uniswap
+            _buyFromUniswapExactIn(
+                tokenAddress,
+                assetAmountIn,
+                minTokensOut,
+                deadline,
+                payer,
+                recipient
+            );
+        } else {
+            // Buy through bonding curve
+            fee = _buyFromBondingCurveExactIn(
+                tokenAddress,
+                assetAmountIn,
+                minTokensOut,
+                payer,
+                recipient
             );
         }
+
+        tokensReceived = _emitPurchase(
+            tokenAddress,
+            payer,
+            recipient,
+            before,
+            fee,
+            !graduated
+        );
+        // The venue checked what it sent; the buyer gets that less the tax
+        if (tokensReceived < minTokensOut) revert SlippageTooHigh();
     }
 
     // Unified sell function that routes to appropriate mechanism
@@ -154,42 +461,371 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
         uint256 tokenAmount,
         uint256 minAssetAmount,
         uint256 deadline
-    ) external nonReentrant whenNotPaused returns (uint256 assetsReceived) {
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        return
+            _sellTokens(
+                tokenAddress,
+                tokenAmount,
+                minAssetAmount,
+                deadline,
+                msg.sender,
+                msg.sender
+            );
+    }
+
+    // sellTokens after an EIP-2612 permit on the token, in one transaction
+    function sellWithPermit(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 minAssetAmount,
+        uint256 deadline,
+        PermitSignature calldata permit
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        _permit(tokenAddress, permit);
+        return
+            _sellTokens(
+                tokenAddress,
+                tokenAmount,
+                minAssetAmount,
+                deadline,
+                msg.sender,
+                msg.sender
+            );
+    }
+
+    // sellTokens funded by a Permit2 signature transfer of tokenAmount
+    function sellWithPermit2(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 minAssetAmount,
+        uint256 deadline,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused returns (uint256) {
+        _permit2Transfer(tokenAddress, tokenAmount, permit, signature);
+        return
+            _sellTokens(
+                tokenAddress,
+                tokenAmount,
+                minAssetAmount,
+                deadline,
+                address(this),
+                msg.sender
+            );
+    }
+
+    function _sellTokens(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 minAssetAmount,
+        uint256 deadline,
+        address payer,
+        address recipient
+    ) internal returns (uint256 assetsReceived) {
         if (deadline < block.timestamp) revert DeadlinePassed();
         if (tokenAmount == 0) revert InvalidAmount();
+        _requireNotHalted(tokenAddress);
 
         bool graduated = _isTokenGraduated(tokenAddress);
+        TradeSnapshot memory before = _snapshot(tokenAddress, payer, recipient);
+        uint256 fee;
 
         if (graduated) {
             // Sell through Uniswap
-            assetsReceived = _sellToUniswap(
+            _sellToUniswap(
                 tokenAddress,
                 tokenAmount,
                 minAssetAmount,
-                deadline
+                deadline,
+                payer,
+                recipient
             );
-            emit TokensSold(
+        } else {
+            // Sell through bonding curve
+            fee = _sellToBondingCurve(
                 tokenAddress,
-                msg.sender,
                 tokenAmount,
-                assetsReceived,
-                false
+                minAssetAmount,
+                payer,
+                recipient
+            );
+        }
+
+        assetsReceived = _emitSale(
+            tokenAddress,
+            payer,
+            recipient,
+            before,
+            fee,
+            !graduated
+        );
+    }
+
+    // Exact-output sell: receive exactly assetAmountOut for at most maxTokensIn
+    function sellTokensExactOut(
+        address tokenAddress,
+        uint256 assetAmountOut,
+        uint256 maxTokensIn,
+        uint256 deadline
+    ) external nonReentrant whenNotPaused returns (uint256 tokensSold) {
+        if (deadline < block.timestamp) revert DeadlinePassed();
+        if (assetAmountOut == 0 || maxTokensIn == 0) revert InvalidAmount();
+        _requireNotHalted(tokenAddress);
+
+        bool graduated = _isTokenGraduated(tokenAddress);
+        TradeSnapshot memory before = _snapshot(
+            tokenAddress,
+            msg.sender,
+            msg.sender
+        );
+        uint256 fee;
+
+        if (graduated) {
+            // Sell through Uniswap
+            _sellToUniswapExactOut(
+                tokenAddress,
+                assetAmountOut,
+                maxTokensIn,
+                deadline
             );
         } else {
             // Sell through bonding curve
-            assetsReceived = _sellToBondingCurve(
+            fee = _sellToBondingCurveExactOut(
+                tokenAddress,
+                assetAmountOut,
+                maxTokensIn
+            );
+        }
+
+        // Unused tokens are refunded, so the seller's balance says what sold
+        tokensSold =
+            before.tokens -
+            IERC20(tokenAddress).balanceOf(msg.sender);
+        _emitSale(
+            tokenAddress,
+            msg.sender,
+            msg.sender,
+            before,
+            fee,
+            !graduated
+        );
+    }
+
+    // Exact-output buy paid in ETH. msg.value caps the cost and the unused ETH is
+    // refunded. The ETH is wrapped and, unless the token is quoted in WETH, swapped
+    // into its quote asset through the WETH pair first.
+    function buyTokensWithETH(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 deadline
+    )
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+        returns (uint256 tokensReceived)
+    {
+        if (deadline < block.timestamp) revert DeadlinePassed();
+        if (tokenAmount == 0 || msg.value == 0) revert InvalidAmount();
+        _requireNotHalted(tokenAddress);
+
+        weth.deposit{value: msg.value}();
+
+        bool graduated = _isTokenGraduated(tokenAddress);
+        TradeSnapshot memory before = _snapshot(
+            tokenAddress,
+            msg.sender,
+            msg.sender
+        );
+        uint256 assetAmount;
+        uint256 wethSpent;
+        uint256 fee;
+
+        if (graduated) {
+            // Buy through Uniswap, routing WETH -> quote asset -> token
+            (assetAmount, wethSpent) = _buyFromUniswapWithWETH(
                 tokenAddress,
                 tokenAmount,
-                minAssetAmount
+                deadline
             );
-            emit TokensSold(
+        } else {
+            // Swap WETH into the quote asset, then buy from the bonding curve
+            (assetAmount, wethSpent, fee) = _buyFromBondingCurveWithWETH(
                 tokenAddress,
+                tokenAmount,
+                deadline
+            );
+        }
+
+        // Unwrap and refund the ETH the buy did not use
+        uint256 unusedETH = msg.value - wethSpent;
+        if (unusedETH > 0) {
+            weth.withdraw(unusedETH);
+            Address.sendValue(payable(msg.sender), unusedETH);
+        }
+
+        // The quote asset came from WETH, not the buyer's balance
+        tokensReceived =
+            IERC20(tokenAddress).balanceOf(msg.sender) -
+            before.tokens;
+        emit TokensPurchased(
+            tokenAddress,
+            msg.sender,
+            tokensReceived,
+            assetAmount,
+            fee,
+            IStonkToken(tokenAddress).projectTaxPendingSwap() -
+                before.taxPending,
+            getSpotPrice(tokenAddress),
+            !graduated
+        );
+
+        _recordTradePrice(tokenAddress);
+    }
+
+    // Sell tokenAmount for at least minETHAmount, unwrapped and sent as ETH
+    function sellTokensForETH(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 minETHAmount,
+        uint256 deadline
+    ) external nonReentrant whenNotPaused returns (uint256 ethReceived) {
+        if (deadline < block.timestamp) revert DeadlinePassed();
+        if (tokenAmount == 0) revert InvalidAmount();
+        _requireNotHalted(tokenAddress);
+
+        bool graduated = _isTokenGraduated(tokenAddress);
+        TradeSnapshot memory before = _snapshot(
+            tokenAddress,
+            msg.sender,
+            msg.sender
+        );
+        IERC20 asset = _quoteAsset(tokenAddress);
+        bool quotedInWETH = address(asset) == address(weth);
+        uint256 assetBalance = asset.balanceOf(address(this));
+        uint256 fee;
+
+        // Sell into the router, then swap the proceeds into WETH
+        if (graduated) {
+            _sellToUniswap(
+                tokenAddress,
+                tokenAmount,
+                quotedInWETH ? minETHAmount : 0,
+                deadline,
                 msg.sender,
+                address(this)
+            );
+        } else {
+            fee = _sellToBondingCurve(
+                tokenAddress,
                 tokenAmount,
-                assetsReceived,
-                true
+                quotedInWETH ? minETHAmount : 0,
+                msg.sender,
+                address(this)
             );
         }
+        uint256 assetAmount = asset.balanceOf(address(this)) - assetBalance;
+
+        if (quotedInWETH) {
+            ethReceived = assetAmount;
+        } else {
+            asset.approve(address(uniswapRouter), assetAmount);
+            ethReceived = uniswapRouter.swapExactTokensForTokens(
+                assetAmount,
+                minETHAmount,
+                _pathToWETH(address(0), address(asset)),
+                address(this),
+                deadline
+            )[1];
+        }
+
+        weth.withdraw(ethReceived);
+        Address.sendValue(payable(msg.sender), ethReceived);
+
+        // The proceeds left as ETH, not through the seller's balance
+        emit TokensSold(
+            tokenAddress,
+            msg.sender,
+            before.tokens - IERC20(tokenAddress).balanceOf(msg.sender),
+            assetAmount,
+            fee,
+            IStonkToken(tokenAddress).projectTaxPendingSwap() -
+                before.taxPending,
+            getSpotPrice(tokenAddress),
+            !graduated
+        );
+
+        _recordTradePrice(tokenAddress);
+    }
+
+    // Sell amountIn of tokenIn and spend the proceeds on tokenOut, each leg on
+    // its token's current venue. Both tokens must share a quote asset, and only
+    // the final output is checked, against minAmountOut.
+    function swapTokensForTokens(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external nonReentrant whenNotPaused returns (uint256 amountOut) {
+        _swapAsset(tokenIn, tokenOut);
+
+        // Sell leg: the proceeds stay in the router for the buy leg
+        uint256 assetAmount = _sellTokens(
+            tokenIn,
+            amountIn,
+            0,
+            deadline,
+            msg.sender,
+            address(this)
+        );
+
+        // Buy leg: spends every unit the sell raised
+        amountOut = _buyTokensExactIn(
+            tokenOut,
+            assetAmount,
+            minAmountOut,
+            deadline,
+            address(this),
+            msg.sender
+        );
+
+        emit TokensSwapped(
+            msg.sender,
+            tokenIn,
+            tokenOut,
+            amountIn,
+            assetAmount,
+            amountOut
+        );
+    }
+
+    // Run several router calls in one transaction, each as if the caller had
+    // sent it directly. With allowFailure a reverting call is reported in its
+    // result and the rest still run; without it the whole batch reverts with
+    // that call's error. Every call keeps its own nonReentrant and pause
+    // checks. Not payable, so ETH trades cannot be batched.
+    function multicall(
+        bytes[] calldata data,
+        bool allowFailure
+    ) external whenNotPaused returns (CallResult[] memory results) {
+        results = new CallResult[](data.length);
+        for (uint256 i = 0; i < data.length; i++) {
+            if (!allowFailure) {
+                results[i].returnData = Address.functionDelegateCall(
+                    address(this),
+                    data[i]
+                );
+                results[i].success = true;
+                continue;
+            }
+
+            (results[i].success, results[i].returnData) = address(this)
+                .delegatecall(data[i]);
+            if (!results[i].success) {
+                emit CallFailed(i, results[i].returnData);
+            }
+        }
     }
 
     // Calculate buy price (works for both mechanisms)
@@ -199,8 +835,9 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
     ) external view returns (uint256 assetAmount) {
         if (_isTokenGraduated(tokenAddress)) {
             // Calculate Uniswap price
+            IERC20 asset = _quoteAsset(tokenAddress);
             address[] memory path = new address[](2);
-            path[0] = address(assetToken);
+            path[0] = address(asset);
             path[1] = tokenAddress;
 
             uint256[] memory amounts = uniswapRouter.getAmountsIn(
@@ -217,16 +854,47 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
         }
     }
 
-    // Calculate sell proceeds (works for both mechanisms)
+    // Calculate tokens received for an exact asset input, net of the buy tax
+    // (works for both mechanisms)
+    function calculateBuyAmount(
+        address tokenAddress,
+        uint256 assetAmountIn
+    ) public view returns (uint256 tokenAmount) {
+        if (_isTokenGraduated(tokenAddress)) {
+            // Calculate Uniswap output
+            IERC20 asset = _quoteAsset(tokenAddress);
+            address[] memory path = new address[](2);
+            path[0] = address(asset);
+            path[1] = tokenAddress;
+
+            uint256[] memory amounts = uniswapRouter.getAmountsOut(
+                assetAmountIn,
+                path
+            );
+            tokenAmount = amounts[1];
+        } else {
+            // Calculate bonding curve output (net of the curve fee)
+            address bondingCurveAddr = bondingCurveAddress[tokenAddress];
+            if (bondingCurveAddr == address(0)) revert TokenNotFound();
+            tokenAmount = BondingCurveContract(bondingCurveAddr)
+                .calculatePurchaseAmount(assetAmountIn);
+        }
+        tokenAmount -= calculateTax(tokenAddress, tokenAmount, true);
+    }
+
+    // Calculate sell proceeds for the tokens left after the sell tax (works
+    // for both mechanisms)
     function calculateSellProceeds(
         address tokenAddress,
         uint256 tokenAmount
-    ) external view returns (uint256 assetAmount) {
+    ) public view returns (uint256 assetAmount) {
+        tokenAmount -= calculateTax(tokenAddress, tokenAmount, false);
         if (_isTokenGraduated(tokenAddress)) {
             // Calculate Uniswap price
+            IERC20 asset = _quoteAsset(tokenAddress);
             address[] memory path = new address[](2);
             path[0] = tokenAddress;
-            path[1] = address(assetToken);
+            path[1] = address(asset);
 
             uint256[] memory amounts = uniswapRouter.getAmountsOut(
                 tokenAmount,
@@ -242,6 +910,100 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
         }
     }
 
+    // Quote asset sellTokens pays for tokenAmount: the sell tax and the
+    // bonding curve fee both come off (works for both mechanisms)
+    function calculateNetSellProceeds(
+        address tokenAddress,
+        uint256 tokenAmount
+    ) external view returns (uint256 assetAmount) {
+        if (_isTokenGraduated(tokenAddress)) {
+            return calculateSellProceeds(tokenAddress, tokenAmount);
+        }
+        address bondingCurveAddr = bondingCurveAddress[tokenAddress];
+        if (bondingCurveAddr == address(0)) revert TokenNotFound();
+        tokenAmount -= calculateTax(tokenAddress, tokenAmount, false);
+        (uint256 proceeds, uint256 fee) = BondingCurveContract(
+            bondingCurveAddr
+        ).calculateSellFee(tokenAmount);
+        return proceeds - fee;
+    }
+
+    // Calculate tokens needed for an exact asset output, sell tax included
+    // (works for both mechanisms)
+    function calculateSellAmount(
+        address tokenAddress,
+        uint256 assetAmountOut
+    ) external view returns (uint256 tokenAmount) {
+        if (_isTokenGraduated(tokenAddress)) {
+            // Calculate Uniswap input
+            IERC20 asset = _quoteAsset(tokenAddress);
+            address[] memory path = new address[](2);
+            path[0] = tokenAddress;
+            path[1] = address(asset);
+
+            uint256[] memory amounts = uniswapRouter.getAmountsIn(
+                assetAmountOut,
+                path
+            );
+            tokenAmount = amounts[0];
+        } else {
+            // Calculate bonding curve input (gross of the curve fee)
+            address bondingCurveAddr = bondingCurveAddress[tokenAddress];
+            if (bondingCurveAddr == address(0)) revert TokenNotFound();
+            tokenAmount = BondingCurveContract(bondingCurveAddr)
+                .calculateSaleAmount(assetAmountOut);
+        }
+        tokenAmount = _withSellTax(tokenAddress, tokenAmount);
+    }
+
+    // Quote swapTokensForTokens: the quote asset the sell leg raises, net of
+    // the curve fee and sell tax, and the tokenOut it buys net of buy tax
+    function calculateSwapAmount(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn
+    ) external view returns (uint256 assetAmount, uint256 amountOut) {
+        IERC20 asset = _swapAsset(tokenIn, tokenOut);
+        amountIn -= calculateTax(tokenIn, amountIn, false);
+
+        if (_isTokenGraduated(tokenIn)) {
+            address[] memory path = new address[](2);
+            path[0] = tokenIn;
+            path[1] = address(asset);
+            assetAmount = uniswapRouter.getAmountsOut(amountIn, path)[1];
+        } else {
+            (uint256 proceeds, uint256 fee) = BondingCurveContract(
+                bondingCurveAddress[tokenIn]
+            ).calculateSellFee(amountIn);
+            assetAmount = proceeds - fee;
+        }
+
+        amountOut = calculateBuyAmount(tokenOut, assetAmount);
+    }
+
+    // Tokens the token's transfer tax withholds from a trade of tokenAmount
+    // at its current venue. Buys deliver tokenAmount less this, and sells
+    // hand the venue tokenAmount less this.
+    function calculateTax(
+        address tokenAddress,
+        uint256 tokenAmount,
+        bool isBuy
+    ) public view returns (uint256) {
+        IStonkToken token = IStonkToken(tokenAddress);
+        address venue = _isTokenGraduated(tokenAddress)
+            ? uniswapFactory.getPair(
+                tokenAddress,
+                address(_quoteAsset(tokenAddress))
+            )
+            : bondingCurveAddress[tokenAddress];
+        if (!token.isLiquidityPool(venue)) return 0;
+
+        uint256 taxBasisPoints = isBuy
+            ? token.totalBuyTaxBasisPoints()
+            : token.totalSellTaxBasisPoints();
+        return (tokenAmount * taxBasisPoints) / 10000;
+    }
+
     // Get token trading state
     function getTokenTradingState(
         address tokenAddress
@@ -257,7 +1019,7 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
             // Query the actual Uniswap pair address
             pairAddress = uniswapFactory.getPair(
                 tokenAddress,
-                address(assetToken)
+                address(_quoteAsset(tokenAddress))
             );
         }
 
@@ -277,156 +1039,594 @@ contract StonkTradingRouter is Ownable, ReentrancyGuard {
         return bondingCurveAddress[tokenAddress];
     }
 
+    function getQuoteAsset(
+        address tokenAddress
+    ) external view returns (address) {
+        return address(_quoteAsset(tokenAddress));
+    }
+
+    // Asset per token scaled by 1e18, from the curve or the pair reserves
+    // Manipulation-resistant price in the same units as getSpotPrice: the
+    // bonding curve price before graduation, the oracle's TWAP after it
+    function getReferencePrice(
+        address tokenAddress
+    ) external view returns (uint256) {
+        if (!_isTokenGraduated(tokenAddress)) {
+            return
+                BondingCurveContract(bondingCurveAddress[tokenAddress])
+                    .getCurrentPrice();
+        }
+        if (address(priceOracle) == address(0)) revert PriceOracleNotSet();
+        return priceOracle.consult(tokenAddress, REFERENCE_PRICE_WINDOW);
+    }
+
+    function getSpotPrice(address tokenAddress) public view returns (uint256) {
+        if (!_isTokenGraduated(tokenAddress)) {
+            return
+                BondingCurveContract(bondingCurveAddress[tokenAddress])
+                    .getCurrentPrice();
+        }
+
+        address pair = uniswapFactory.getPair(
+            tokenAddress,
+            address(_quoteAsset(tokenAddress))
+        );
+        if (pair == address(0)) return 0;
+
+        (uint112 reserve0, uint112 reserve1, ) = IUniswapV2Pair(pair)
+            .getReserves();
+        (uint256 tokenReserve, uint256 assetReserve) = IUniswapV2Pair(pair)
+            .token0() == tokenAddress
+            ? (uint256(reserve0), uint256(reserve1))
+            : (uint256(reserve1), uint256(reserve0));
+        if (tokenReserve == 0) return 0;
+        return (assetReserve * 1e18) / tokenReserve;
+    }
+
     // Internal functions for actual trading
     function _buyFromBondingCurve(
         address tokenAddress,
         uint256 tokenAmount,
-        uint256 maxAssetAmount
-    ) internal returns (uint256 tokensReceived) {
+        uint256 maxAssetAmount,
+        address payer,
+        address recipient
+    ) internal returns (uint256 fee) {
         address bondingCurveAddr = bondingCurveAddress[tokenAddress];
         if (bondingCurveAddr == address(0)) revert TokenNotFound();
 
-        // Transfer USDC from user to bonding curve
-        assetToken.safeTransferFrom(
-            msg.sender,
+        // Transfer the quote asset from user to bonding curve
+        _pay(
+            _quoteAsset(tokenAddress),
+            payer,
             bondingCurveAddr,
             maxAssetAmount
         );
 
         // Call buyTokens on bonding curve, which will send tokens to user
-        BondingCurveContract(bondingCurveAddr).buyTokens(
-            msg.sender,
+        fee = BondingCurveContract(bondingCurveAddr).buyTokens(
+            recipient,
             tokenAmount,
             maxAssetAmount
         );
+    }
 
-        tokensReceived = tokenAmount;
+    function _buyFromBondingCurveExactIn(
+        address tokenAddress,
+        uint256 assetAmountIn,
+        uint256 minTokensOut,
+        address payer,
+        address recipient
+    ) internal returns (uint256 fee) {
+        address bondingCurveAddr = bondingCurveAddress[tokenAddress];
+        if (bondingCurveAddr == address(0)) revert TokenNotFound();
 
-        // Check if bonding curve graduated and update router state
-        _checkAndUpdateGraduationStatus(tokenAddress);
+        // Transfer the quote asset from user to bonding curve
+        _pay(
+            _quoteAsset(tokenAddress),
+            payer,
+            bondingCurveAddr,
+            assetAmountIn
+        );
+
+        // Bonding curve solves for the token amount and refunds any dust
+        (, fee) = BondingCurveContract(bondingCurveAddr).buyTokensExactIn(
+            recipient,
+            assetAmountIn,
+            minTokensOut
+        );
     }
 
     function _sellToBondingCurve(
         address tokenAddress,
         uint256 tokenAmount,
-        uint256 minAssetAmount
-    ) internal returns (uint256 assetsReceived) {
+        uint256 minAssetAmount,
+        address payer,
+        address recipient
+    ) internal returns (uint256 fee) {
         address bondingCurveAddr = bondingCurveAddress[tokenAddress];
         if (bondingCurveAddr == address(0)) revert TokenNotFound();
 
         // Transfer project tokens from user to bonding curve
-        IERC20(tokenAddress).safeTransferFrom(
-            msg.sender,
+        uint256 received = _depositTo(
+            IERC20(tokenAddress),
+            payer,
             bondingCurveAddr,
             tokenAmount
         );
 
-        // Call sellTokens on bonding curve, which will send USDC to user
-        BondingCurveContract(bondingCurveAddr).sellTokens(
-            msg.sender,
-            tokenAmount,
+        // The curve sells what arrived after any tax and sends USDC to user
+        fee = BondingCurveContract(bondingCurveAddr).sellTokens(
+            recipient,
+            received,
             minAssetAmount
         );
+    }
 
-        // Get actual amount received
-        assetsReceived = assetToken.balanceOf(msg.sender);
+    function _sellToBondingCurveExactOut(
+        address tokenAddress,
+        uint256 assetAmountOut,
+        uint256 maxTokensIn
+    ) internal returns (uint256 fee) {
+        address bondingCurveAddr = bondingCurveAddress[tokenAddress];
+        if (bondingCurveAddr == address(0)) revert TokenNotFound();
 
-        // Check if bonding curve graduated and update router state
-        _checkAndUpdateGraduationStatus(tokenAddress);
+        // Deposit only what the sale needs once taxed, since the curve's
+        // refund of the rest would be taxed again
+        uint256 tokensIn = _withSellTax(
+            tokenAddress,
+            BondingCurveContract(bondingCurveAddr).calculateSaleAmount(
+                assetAmountOut
+            )
+        );
+        if (tokensIn > maxTokensIn) revert SlippageTooHigh();
+        tokensIn = _depositTo(
+            IERC20(tokenAddress),
+            msg.sender,
+            bondingCurveAddr,
+            tokensIn
+        );
+
+        // Bonding curve pays exactly assetAmountOut
+        (, fee) = BondingCurveContract(bondingCurveAddr).sellTokensExactOut(
+            msg.sender,
+            assetAmountOut,
+            tokensIn
+        );
     }
 
     function _buyFromUniswap(
         address tokenAddress,
         uint256 tokenAmount,
         uint256 maxAssetAmount,
-        uint256 deadline
-    ) internal returns (uint256 tokensReceived) {
+        uint256 deadline,
+        address payer,
+        address recipient
+    ) internal {
+        IERC20 asset = _quoteAsset(tokenAddress);
         address[] memory path = new address[](2);
-        path[0] = address(assetToken);
+        path[0] = address(asset);
         path[1] = tokenAddress;
 
-        // Transfer USDC from user to router
-        assetToken.safeTransferFrom(msg.sender, address(this), maxAssetAmount);
+        // Transfer the quote asset from user to router
+        _pay(asset, payer, address(this), maxAssetAmount);
 
-        // Approve USDC to Uniswap router
-        assetToken.approve(address(uniswapRouter), maxAssetAmount);
+        // Approve the quote asset to Uniswap router
+        asset.approve(address(uniswapRouter), maxAssetAmount);
 
         // Execute swap through Uniswap
         uint256[] memory amounts = uniswapRouter.swapTokensForExactTokens(
             tokenAmount,
             maxAssetAmount,
             path,
-            msg.sender,
+            recipient,
             deadline
         );
 
-        tokensReceived = amounts[1];
-
-        // Refund excess USDC to user
+        // Refund excess quote asset to user
         uint256 excessAmount = maxAssetAmount - amounts[0];
         if (excessAmount > 0) {
-            assetToken.safeTransfer(msg.sender, excessAmount);
+            asset.safeTransfer(recipient, excessAmount);
         }
     }
 
+    function _buyFromUniswapExactIn(
+        address tokenAddress,
+        uint256 assetAmountIn,
+        uint256 minTokensOut,
+        uint256 deadline,
+        address payer,
+        address recipient
+    ) internal {
+        IERC20 asset = _quoteAsset(tokenAddress);
+        address[] memory path = new address[](2);
+        path[0] = address(asset);
+        path[1] = tokenAddress;
+
+        // Transfer the quote asset from user to router
+        _pay(asset, payer, address(this), assetAmountIn);
+
+        // Approve the quote asset to Uniswap router
+        asset.approve(address(uniswapRouter), assetAmountIn);
+
+        // Execute swap through Uniswap; minTokensOut applies after tax
+        uniswapRouter.swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            assetAmountIn,
+            minTokensOut,
+            path,
+            recipient,
+            deadline
+        );
+    }
+
     function _sellToUniswap(
         address tokenAddress,
         uint256 tokenAmount,
         uint256 minAssetAmount,
+        uint256 deadline,
+        address payer,
+        address recipient
+    ) internal {
+        IERC20 asset = _quoteAsset(tokenAddress);
+        address[] memory path = new address[](2);
+        path[0] = tokenAddress;
+        path[1] = address(asset);
+
+        // Transfer tokens from user to router
+        _pay(IERC20(tokenAddress), payer, address(this), tokenAmount);
+
+        // Approve tokens to Uniswap router
+        IERC20(tokenAddress).approve(address(uniswapRouter), tokenAmount);
+
+        // Execute swap through Uniswap, which prices what reaches the pair
+        uniswapRouter.swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            tokenAmount,
+            minAssetAmount,
+            path,
+            recipient,
+            deadline
+        );
+    }
+
+    function _sellToUniswapExactOut(
+        address tokenAddress,
+        uint256 assetAmountOut,
+        uint256 maxTokensIn,
         uint256 deadline
-    ) internal returns (uint256 assetsReceived) {
+    ) internal {
+        IERC20 asset = _quoteAsset(tokenAddress);
         address[] memory path = new address[](2);
         path[0] = tokenAddress;
-        path[1] = address(assetToken);
+        path[1] = address(asset);
+
+        // Uniswap has no exact-output swap for taxed tokens, so sell exactly
+        // enough that what reaches the pair buys assetAmountOut
+        uint256 tokensIn = _withSellTax(
+            tokenAddress,
+            uniswapRouter.getAmountsIn(assetAmountOut, path)[0]
+        );
+        if (tokensIn > maxTokensIn) revert SlippageTooHigh();
 
         // Transfer tokens from user to router
         IERC20(tokenAddress).safeTransferFrom(
             msg.sender,
             address(this),
-            tokenAmount
+            tokensIn
         );
 
         // Approve tokens to Uniswap router
-        IERC20(tokenAddress).approve(address(uniswapRouter), tokenAmount);
+        IERC20(tokenAddress).approve(address(uniswapRouter), tokensIn);
 
         // Execute swap through Uniswap
-        uint256[] memory amounts = uniswapRouter.swapExactTokensForTokens(
+        uniswapRouter.swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            tokensIn,
+            assetAmountOut,
+            path,
+            msg.sender,
+            deadline
+        );
+    }
+
+    // Returns the quote asset paid for the tokens and the WETH it took
+    function _buyFromUniswapWithWETH(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 deadline
+    ) internal returns (uint256 assetAmount, uint256 wethSpent) {
+        address[] memory path = _pathFromWETH(
+            address(_quoteAsset(tokenAddress)),
+            tokenAddress
+        );
+
+        weth.approve(address(uniswapRouter), msg.value);
+        uint256[] memory amounts = uniswapRouter.swapTokensForExactTokens(
             tokenAmount,
-            minAssetAmount,
+            msg.value,
             path,
             msg.sender,
             deadline
         );
 
-        assetsReceived = amounts[1];
+        wethSpent = amounts[0];
+        assetAmount = amounts[amounts.length - 2];
     }
 
-    function _checkAndUpdateGraduationStatus(address tokenAddress) internal {
+    function _buyFromBondingCurveWithWETH(
+        address tokenAddress,
+        uint256 tokenAmount,
+        uint256 deadline
+    )
+        internal
+        returns (uint256 assetAmount, uint256 wethSpent, uint256 fee)
+    {
         address bondingCurveAddr = bondingCurveAddress[tokenAddress];
         if (bondingCurveAddr == address(0)) revert TokenNotFound();
+        address asset = address(_quoteAsset(tokenAddress));
 
-        bool graduated = BondingCurveContract(bondingCurveAddr)
-            .getGraduationStatus();
-        if (graduated) {
-            // Create Uniswap pair if it doesn't exist
-            address pair = uniswapFactory.getPair(
-                tokenAddress,
-                address(assetToken)
-            );
-            if (pair == address(0)) {
-                pair = uniswapFactory.createPair(
-                    tokenAddress,
-                    address(assetToken)
-                );
-            }
+        // Fund the curve with exactly the price plus fee, so it has nothing to refund
+        uint256 price;
+        (price, fee) = BondingCurveContract(bondingCurveAddr).calculateBuyFee(
+            tokenAmount
+        );
+        assetAmount = price + fee;
 
-            emit TokenGraduated(
-                tokenAddress,
-                pair,
-                0, // tokenBalance - not needed for this event
-                0 // assetBalance - not needed for this event
+        if (asset == address(weth)) {
+            if (assetAmount > msg.value) revert InsufficientETH();
+            IERC20(asset).safeTransfer(bondingCurveAddr, assetAmount);
+            wethSpent = assetAmount;
+        } else {
+            weth.approve(address(uniswapRouter), msg.value);
+            wethSpent = uniswapRouter.swapTokensForExactTokens(
+                assetAmount,
+                msg.value,
+                _pathFromWETH(asset, address(0)),
+                bondingCurveAddr,
+                deadline
+            )[0];
+        }
+
+        BondingCurveContract(bondingCurveAddr).buyTokens(
+            msg.sender,
+            tokenAmount,
+            assetAmount
+        );
+    }
+
+    // WETH -> asset -> token, skipping the asset hop for WETH-quoted tokens and
+    // the token hop when tokenAddress is zero
+    function _pathFromWETH(
+        address asset,
+        address tokenAddress
+    ) internal view returns (address[] memory path) {
+        bool viaAsset = asset != address(weth);
+        bool toToken = tokenAddress != address(0);
+        path = new address[](
+            1 + (viaAsset ? 1 : 0) + (toToken ? 1 : 0)
+        );
+        path[0] = address(weth);
+        if (viaAsset) path[1] = asset;
+        if (toToken) path[path.length - 1] = tokenAddress;
+    }
+
+    // The reverse of _pathFromWETH
+    function _pathToWETH(
+        address tokenAddress,
+        address asset
+    ) internal view returns (address[] memory path) {
+        address[] memory reversed = _pathFromWETH(asset, tokenAddress);
+        path = new address[](reversed.length);
+        for (uint256 i = 0; i < reversed.length; i++) {
+            path[i] = reversed[reversed.length - 1 - i];
+        }
+    }
+
+    // Moves amount from payer, or from the router's own balance when it is the payer
+    function _pay(
+        IERC20 token,
+        address payer,
+        address recipient,
+        uint256 amount
+    ) internal {
+        if (payer != address(this)) {
+            token.safeTransferFrom(payer, recipient, amount);
+        } else if (recipient != address(this)) {
+            token.safeTransfer(recipient, amount);
+        }
+    }
+
+    // _pay to a bonding curve, returning what arrived net of any tax
+    function _depositTo(
+        IERC20 token,
+        address payer,
+        address curve,
+        uint256 amount
+    ) internal returns (uint256 received) {
+        uint256 balance = token.balanceOf(curve);
+        _pay(token, payer, curve, amount);
+        received = token.balanceOf(curve) - balance;
+    }
+
+    function _permit(address token, PermitSignature calldata permit) internal {
+        IERC20Permit(token).permit(
+            msg.sender,
+            address(this),
+            permit.value,
+            permit.deadline,
+            permit.v,
+            permit.r,
+            permit.s
+        );
+    }
+
+    // Pulls amount of token from the signer into the router
+    function _permit2Transfer(
+        address token,
+        uint256 amount,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) internal {
+        if (permit.permitted.token != token) revert InvalidPermitToken();
+        PERMIT2.permitTransferFrom(
+            permit,
+            ISignatureTransfer.SignatureTransferDetails({
+                to: address(this),
+                requestedAmount: amount
+            }),
+            msg.sender,
+            signature
+        );
+    }
+
+    function _snapshot(
+        address tokenAddress,
+        address payer,
+        address recipient
+    ) internal view returns (TradeSnapshot memory snapshot) {
+        snapshot.tokens = _held(IERC20(tokenAddress), payer, recipient);
+        snapshot.assets = _held(_quoteAsset(tokenAddress), payer, recipient);
+        snapshot.taxPending = IStonkToken(tokenAddress).projectTaxPendingSwap();
+    }
+
+    // Emits TokensPurchased for what moved since before; returns the tokens
+    // the recipient received
+    function _emitPurchase(
+        address tokenAddress,
+        address payer,
+        address recipient,
+        TradeSnapshot memory before,
+        uint256 fee,
+        bool isBondingCurve
+    ) internal returns (uint256 tokensReceived) {
+        TradeSnapshot memory settled = _snapshot(
+            tokenAddress,
+            payer,
+            recipient
+        );
+        tokensReceived = settled.tokens - before.tokens;
+
+        emit TokensPurchased(
+            tokenAddress,
+            recipient,
+            tokensReceived,
+            before.assets - settled.assets,
+            fee,
+            settled.taxPending - before.taxPending,
+            getSpotPrice(tokenAddress),
+            isBondingCurve
+        );
+
+        _recordTradePrice(tokenAddress);
+    }
+
+    // Emits TokensSold for what moved since before; returns the quote asset
+    // the recipient received. The seller is the payer, or the recipient when
+    // the router fronted the tokens.
+    function _emitSale(
+        address tokenAddress,
+        address payer,
+        address recipient,
+        TradeSnapshot memory before,
+        uint256 fee,
+        bool isBondingCurve
+    ) internal returns (uint256 assetsReceived) {
+        TradeSnapshot memory settled = _snapshot(
+            tokenAddress,
+            payer,
+            recipient
+        );
+        assetsReceived = settled.assets - before.assets;
+
+        emit TokensSold(
+            tokenAddress,
+            payer == address(this) ? recipient : payer,
+            before.tokens - settled.tokens,
+            assetsReceived,
+            fee,
+            settled.taxPending - before.taxPending,
+            getSpotPrice(tokenAddress),
+            isBondingCurve
+        );
+
+        _recordTradePrice(tokenAddress);
+    }
+
+    // Balance held between payer and recipient, counted once when they are the
+    // same account, so refunds are netted wherever they are sent
+    function _held(
+        IERC20 token,
+        address payer,
+        address recipient
+    ) internal view returns (uint256 balance) {
+        balance = token.balanceOf(payer);
+        if (recipient != payer) balance += token.balanceOf(recipient);
+    }
+
+    // Tokens to send so that tokenAmount reaches the venue after the sell
+    // tax, rounded up
+    function _withSellTax(
+        address tokenAddress,
+        uint256 tokenAmount
+    ) internal view returns (uint256) {
+        // The tax on 10000 tokens is the rate in basis points
+        uint256 taxBasisPoints = calculateTax(tokenAddress, 10000, false);
+        return
+            Math.mulDiv(
+                tokenAmount,
+                10000,
+                10000 - taxBasisPoints,
+                Math.Rounding.Ceil
             );
+    }
+
+    function _quoteAsset(address tokenAddress) internal view returns (IERC20) {
+        address asset = quoteAsset[tokenAddress];
+        if (asset == address(0)) revert TokenNotFound();
+        return IERC20(asset);
+    }
+
+    // The quote asset both legs of a token-to-token swap settle in
+    function _swapAsset(
+        address tokenIn,
+        address tokenOut
+    ) internal view returns (IERC20 asset) {
+        asset = _quoteAsset(tokenIn);
+        if (
+            tokenIn == tokenOut ||
+            address(_quoteAsset(tokenOut)) != address(asset)
+        ) {
+            revert InvalidSwapPath();
+        }
+    }
+
+    // Covers both the token's own circuit breaker and market-wide halts, whatever
+    // the token's enforcement mode and whether the Uniswap pair is a registered pool
+    function _requireNotHalted(address tokenAddress) internal view {
+        if (
+            IStonkToken(tokenAddress).getMarketState() ==
+            IStonkToken.MarketState.HALTED
+        ) {
+            revert MarketHalted();
+        }
+    }
+
+    // Feed the venue's post-trade price to the TWAP oracle and the token's
+    // circuit breaker
+    function _recordTradePrice(address tokenAddress) internal {
+        if (
+            address(priceOracle) != address(0) &&
+            _isTokenGraduated(tokenAddress)
+        ) {
+            priceOracle.update(tokenAddress);
         }
+
+        IStonkToken token = IStonkToken(tokenAddress);
+        if (
+            token.tradingRouter() != address(this) ||
+            token.luldBandBasisPoints() == 0
+        ) {
+            return;
+        }
+
+        token.recordTradePrice(getSpotPrice(tokenAddress));
     }
 
     function _isTokenGraduated(
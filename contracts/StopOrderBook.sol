@@ -0,0 +1,248 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {StonkTradingRouter} from "./StonkTradingRouter.sol";
+import {TokenTransferLibrary} from "./libraries/TokenTransferLibrary.sol";
+
+// Protective sell orders. Tokens are escrowed when an order is placed; once
+// the reference price crosses the trigger, any keeper sells them through the
+// router's sellTokens path and earns the order's bounty. Triggers read the
+// router's getReferencePrice: the oracle's Uniswap TWAP after graduation, but
+// the bonding curve price before it, which a single trade can move. A fill
+// therefore waits for a block after the trigger, so one transaction cannot
+// push the price through a stop, sell the order and restore the price.
+contract StopOrderBook is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+    using TokenTransferLibrary for IERC20;
+
+    uint256 public constant BASIS_POINTS = 10000;
+
+    StonkTradingRouter public immutable router;
+
+    enum StopType {
+        STOP_LOSS, // Triggers at or below triggerPrice
+        TAKE_PROFIT // Triggers at or above triggerPrice
+    }
+
+    enum OrderStatus {
+        NONE,
+        OPEN,
+        TRIGGERED,
+        FILLED,
+        CANCELLED
+    }
+
+    // limitAmount makes a stop-limit order: once triggered it only fills for
+    // at least that much quote asset, bounty excluded. A market stop (0) gets
+    // its limit when it triggers: the tokens' value at the reference price,
+    // less maxSlippageBasisPoints.
+    struct StopOrder {
+        address owner;
+        address token;
+        StopType stopType;
+        uint256 tokenAmount;
+        uint256 triggerPrice; // Asset per token, scaled by 1e18
+        uint256 limitAmount;
+        uint256 maxSlippageBasisPoints;
+        uint256 bounty; // Quote asset paid to the keeper that fills
+        uint256 triggerBlock; // Fills only in a later block
+        OrderStatus status;
+    }
+
+    uint256 public nextOrderId;
+
+    mapping(uint256 => StopOrder) private _orders;
+
+    event StopOrderPlaced(
+        uint256 indexed orderId,
+        address indexed owner,
+        address indexed tokenAddress,
+        StopType stopType,
+        uint256 tokenAmount,
+        uint256 triggerPrice,
+        uint256 limitAmount,
+        uint256 maxSlippageBasisPoints,
+        uint256 bounty
+    );
+
+    event StopOrderTriggered(
+        uint256 indexed orderId,
+        address indexed keeper,
+        uint256 referencePrice
+    );
+
+    event StopOrderFilled(
+        uint256 indexed orderId,
+        address indexed keeper,
+        uint256 assetAmount,
+        uint256 bounty
+    );
+
+    event StopOrderCancelled(uint256 indexed orderId);
+
+    error InvalidAmount();
+    error TokenNotFound();
+    error OrderNotOpen();
+    error NotTriggered();
+    error LimitNotReached();
+    error NotOrderOwner();
+    error TriggeredThisBlock();
+
+    constructor(address _router) {
+        router = StonkTradingRouter(payable(_router));
+    }
+
+    // Escrow tokenAmount behind a stop; returns the order id
+    function placeOrder(
+        address tokenAddress,
+        StopType stopType,
+        uint256 tokenAmount,
+        uint256 triggerPrice,
+        uint256 limitAmount,
+        uint256 maxSlippageBasisPoints,
+        uint256 bounty
+    ) external nonReentrant returns (uint256 orderId) {
+        if (tokenAmount == 0 || triggerPrice == 0) revert InvalidAmount();
+        if (maxSlippageBasisPoints >= BASIS_POINTS) revert InvalidAmount();
+        if (router.getBondingCurveAddress(tokenAddress) == address(0)) {
+            revert TokenNotFound();
+        }
+
+        tokenAmount = IERC20(tokenAddress).pullFrom(msg.sender, tokenAmount);
+
+        orderId = nextOrderId++;
+        _orders[orderId] = StopOrder({
+            owner: msg.sender,
+            token: tokenAddress,
+            stopType: stopType,
+            tokenAmount: tokenAmount,
+            triggerPrice: triggerPrice,
+            limitAmount: limitAmount,
+            maxSlippageBasisPoints: maxSlippageBasisPoints,
+            bounty: bounty,
+            triggerBlock: 0,
+            status: OrderStatus.OPEN
+        });
+
+        emit StopOrderPlaced(
+            orderId,
+            msg.sender,
+            tokenAddress,
+            stopType,
+            tokenAmount,
+            triggerPrice,
+            limitAmount,
+            maxSlippageBasisPoints,
+            bounty
+        );
+    }
+
+    // Arm an order whose trigger the reference price has crossed. A triggered
+    // order stays armed even if the price moves back.
+    function triggerOrder(uint256 orderId) external nonReentrant {
+        _triggerOrder(orderId);
+    }
+
+    // Sell an order triggered in an earlier block and pay the caller its
+    // bounty
+    function fillOrder(
+        uint256 orderId
+    ) external nonReentrant returns (uint256 assetAmount) {
+        StopOrder storage order = _orders[orderId];
+        if (order.status == OrderStatus.OPEN) revert NotTriggered();
+        if (order.status != OrderStatus.TRIGGERED) revert OrderNotOpen();
+        if (block.number <= order.triggerBlock) revert TriggeredThisBlock();
+
+        uint256 minAssetAmount = order.limitAmount + order.bounty;
+        if (
+            router.calculateNetSellProceeds(order.token, order.tokenAmount) <
+            minAssetAmount
+        ) {
+            revert LimitNotReached();
+        }
+        order.status = OrderStatus.FILLED;
+
+        IERC20 asset = IERC20(router.getQuoteAsset(order.token));
+        uint256 assetBalance = asset.balanceOf(address(this));
+
+        IERC20(order.token).forceApprove(address(router), order.tokenAmount);
+        router.sellTokens(
+            order.token,
+            order.tokenAmount,
+            minAssetAmount,
+            block.timestamp
+        );
+        assetAmount = asset.balanceOf(address(this)) - assetBalance;
+
+        asset.safeTransfer(order.owner, assetAmount - order.bounty);
+        if (order.bounty > 0) {
+            asset.safeTransfer(msg.sender, order.bounty);
+        }
+
+        emit StopOrderFilled(orderId, msg.sender, assetAmount, order.bounty);
+    }
+
+    // Return the escrowed tokens; open and triggered orders can be cancelled
+    function cancelOrder(uint256 orderId) external nonReentrant {
+        StopOrder storage order = _orders[orderId];
+        if (
+            order.status != OrderStatus.OPEN &&
+            order.status != OrderStatus.TRIGGERED
+        ) {
+            revert OrderNotOpen();
+        }
+        if (msg.sender != order.owner) revert NotOrderOwner();
+        order.status = OrderStatus.CANCELLED;
+
+        IERC20(order.token).safeTransfer(order.owner, order.tokenAmount);
+
+        emit StopOrderCancelled(orderId);
+    }
+
+    // View functions
+    function getOrder(
+        uint256 orderId
+    ) external view returns (StopOrder memory) {
+        return _orders[orderId];
+    }
+
+    // Whether the reference price has crossed an open order's trigger. False
+    // while the oracle has too little history to give one.
+    function isTriggerable(uint256 orderId) public view returns (bool) {
+        StopOrder storage order = _orders[orderId];
+        if (order.status != OrderStatus.OPEN) return false;
+
+        try router.getReferencePrice(order.token) returns (uint256 price) {
+            return
+                order.stopType == StopType.STOP_LOSS
+                    ? price <= order.triggerPrice
+                    : price >= order.triggerPrice;
+        } catch {
+            return false;
+        }
+    }
+
+    function _triggerOrder(uint256 orderId) internal {
+        StopOrder storage order = _orders[orderId];
+        if (order.status != OrderStatus.OPEN) revert OrderNotOpen();
+        if (!isTriggerable(orderId)) revert NotTriggered();
+
+        order.status = OrderStatus.TRIGGERED;
+        order.triggerBlock = block.number;
+
+        uint256 referencePrice = router.getReferencePrice(order.token);
+        if (order.limitAmount == 0) {
+            order.limitAmount =
+                (order.tokenAmount *
+                    referencePrice *
+                    (BASIS_POINTS - order.maxSlippageBasisPoints)) /
+                BASIS_POINTS /
+                1e18;
+        }
+
+        emit StopOrderTriggered(orderId, msg.sender, referencePrice);
+    }
+}
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import {StonkTradingRouter} from "./StonkTradingRouter.sol";
+import {ITwapOracle} from "./interfaces/ITwapOracle.sol";
+import "./interfaces/IUniswapV2Pair.sol";
+
+// Keeps a ring of cumulative price observations for each graduated token's
+// Uniswap pair. The router records one after every trade and anyone may add
+// more; consult averages from the newest observation that covers the window.
+contract UniswapTwapOracle is ITwapOracle {
+    uint256 public constant PRECISION = 1e18;
+
+    // With observations at least MIN_OBSERVATION_INTERVAL apart, the ring
+    // covers at least four hours
+    uint256 public constant OBSERVATION_CARDINALITY = 48;
+    uint32 public constant MIN_OBSERVATION_INTERVAL = 5 minutes;
+
+    StonkTradingRouter public immutable router;
+
+    struct Observation {
+        uint32 timestamp;
+        uint256 priceCumulative; // Token price in the asset, UQ112x112 seconds
+    }
+
+    // Observations ever recorded per token; the newest is at (count - 1) % OBSERVATION_CARDINALITY
+    mapping(address => uint256) public observationCount;
+
+    mapping(address => Observation[OBSERVATION_CARDINALITY])
+        private _observations;
+
+    error NotGraduated();
+    error InvalidWindow();
+    error InsufficientHistory();
+
+    constructor(address _router) {
+        router = StonkTradingRouter(payable(_router));
+    }
+
+    function update(
+        address tokenAddress
+    ) external override returns (bool recorded) {
+        IUniswapV2Pair pair = _getPair(tokenAddress);
+        Observation[OBSERVATION_CARDINALITY]
+            storage observations = _observations[tokenAddress];
+        uint256 count = observationCount[tokenAddress];
+        uint32 timestamp = uint32(block.timestamp);
+
+        if (count > 0) {
+            uint32 elapsed;
+            unchecked {
+                elapsed =
+                    timestamp -
+                    observations[(count - 1) % OBSERVATION_CARDINALITY]
+                        .timestamp;
+            }
+            if (elapsed < MIN_OBSERVATION_INTERVAL) return false;
+        }
+
+        uint256 priceCumulative = _currentCumulative(pair, tokenAddress);
+        observations[count % OBSERVATION_CARDINALITY] = Observation({
+            timestamp: timestamp,
+            priceCumulative: priceCumulative
+        });
+        observationCount[tokenAddress] = count + 1;
+
+        emit ObservationRecorded(tokenAddress, timestamp, priceCumulative);
+        return true;
+    }
+
+    // Averages from the newest observation at least window seconds old, so the
+    // period covered can run past window by up to the gap between observations
+    function consult(
+        address tokenAddress,
+        uint32 window
+    ) external view override returns (uint256 price) {
+        if (window == 0) revert InvalidWindow();
+        IUniswapV2Pair pair = _getPair(tokenAddress);
+        Observation[OBSERVATION_CARDINALITY]
+            storage observations = _observations[tokenAddress];
+        uint256 count = observationCount[tokenAddress];
+        uint256 oldest = count > OBSERVATION_CARDINALITY
+            ? count - OBSERVATION_CARDINALITY
+            : 0;
+        uint32 timestamp = uint32(block.timestamp);
+        uint256 priceCumulative = _currentCumulative(pair, tokenAddress);
+
+        for (uint256 i = count; i > oldest; i--) {
+            Observation memory observation = observations[
+                (i - 1) % OBSERVATION_CARDINALITY
+            ];
+            uint32 elapsed;
+            uint256 growth;
+            unchecked {
+                // Both counters are meant to wrap, as in UniswapV2OracleLibrary
+                elapsed = timestamp - observation.timestamp;
+                growth = priceCumulative - observation.priceCumulative;
+            }
+            if (elapsed >= window) {
+                return Math.mulDiv(growth / elapsed, PRECISION, 2 ** 112);
+            }
+        }
+        revert InsufficientHistory();
+    }
+
+    // The token's cumulative price as of this block, accruing the time since
+    // the pair's last update at its current reserves
+    function _currentCumulative(
+        IUniswapV2Pair pair,
+        address tokenAddress
+    ) internal view returns (uint256 priceCumulative) {
+        bool tokenIsToken0 = pair.token0() == tokenAddress;
+        priceCumulative = tokenIsToken0
+            ? pair.price0CumulativeLast()
+            : pair.price1CumulativeLast();
+
+        (uint112 reserve0, uint112 reserve1, uint32 lastUpdate) = pair
+            .getReserves();
+        uint32 timestamp = uint32(block.timestamp);
+        if (lastUpdate != timestamp && reserve0 != 0 && reserve1 != 0) {
+            unchecked {
+                uint32 elapsed = timestamp - lastUpdate;
+                priceCumulative += tokenIsToken0
+                    ? ((uint256(reserve1) << 112) / reserve0) * elapsed
+                    : ((uint256(reserve0) << 112) / reserve1) * elapsed;
+            }
+        }
+    }
+
+    function _getPair(
+        address tokenAddress
+    ) internal view returns (IUniswapV2Pair) {
+        if (!router.isTokenGraduated(tokenAddress)) revert NotGraduated();
+        return
+            IUniswapV2Pair(
+                router.uniswapFactory().getPair(
+                    tokenAddress,
+                    router.getQuoteAsset(tokenAddress)
+                )
+            );
+    }
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CurveStrategy.sol";
+
+// x * y = k against virtual reserves of `scale` asset and `reserve` tokens.
+// Buying the first `sold` tokens costs scale * sold / (reserve - sold), so the
+// price starts at scale / reserve and grows with the square of the tokens sold.
+contract ConstantProductCurve is CurveStrategy {
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public pure override returns (uint256) {
+        return Math.mulDiv(scale, sold, reserve - sold);
+    }
+
+    // Closed form: the largest sold with scale * sold <= cost * (reserve - sold)
+    function soldForCost(
+        uint256 cost,
+        uint256 reserve,
+        uint256 scale
+    ) public pure override returns (uint256) {
+        return Math.mulDiv(cost, reserve, scale + cost);
+    }
+
+    function spotPrice(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) external pure override returns (uint256) {
+        uint256 remaining = reserve - sold;
+        return Math.mulDiv(Math.mulDiv(scale, reserve, remaining), WAD, remaining);
+    }
+}
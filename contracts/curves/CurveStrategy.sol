@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "../interfaces/IBondingCurveStrategy.sol";
+
+// Shared inverse for curve shapes without a closed form one
+abstract contract CurveStrategy is IBondingCurveStrategy {
+    uint256 internal constant WAD = 1e18;
+
+    // Bisection steps, which leaves the inverse within reserve / 2^48 tokens
+    uint256 internal constant SEARCH_ITERATIONS = 48;
+
+    error InvalidCurveParameters();
+
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public view virtual override returns (uint256);
+
+    // Bisects over [0, reserve]; `low` always costs at most `cost`
+    function soldForCost(
+        uint256 cost,
+        uint256 reserve,
+        uint256 scale
+    ) public view virtual override returns (uint256) {
+        uint256 low = 0;
+        uint256 high = reserve;
+        for (uint256 i = 0; i < SEARCH_ITERATIONS && low < high; i++) {
+            uint256 mid = low + (high - low + 1) / 2;
+            if (cumulativeCost(mid, reserve, scale) <= cost) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+
+    // Steps a closed form inverse back until its rounded cost fits. `price` is
+    // the spot price at the estimate, so one step usually covers the overshoot.
+    function _fitToCost(
+        uint256 sold,
+        uint256 cost,
+        uint256 reserve,
+        uint256 scale,
+        uint256 price
+    ) internal view returns (uint256) {
+        uint256 spent = cumulativeCost(sold, reserve, scale);
+        while (spent > cost) {
+            uint256 step = Math.mulDiv(spent - cost, WAD, price + 1) + 1;
+            sold = sold > step ? sold - step : 0;
+            spent = cumulativeCost(sold, reserve, scale);
+        }
+        return sold;
+    }
+}
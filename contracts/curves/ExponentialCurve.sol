@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CurveStrategy.sol";
+import "../libraries/FixedPointMathLibrary.sol";
+
+// Price starts at scale / reserve and grows by e^growth over the whole reserve
+contract ExponentialCurve is CurveStrategy {
+    uint256 public constant MAX_GROWTH = 100e18;
+
+    uint256 public immutable growth; // WAD
+
+    constructor(uint256 _growth) {
+        if (_growth == 0 || _growth > MAX_GROWTH) {
+            revert InvalidCurveParameters();
+        }
+        growth = _growth;
+    }
+
+    // scale * (e^(growth * u) - 1) / growth for u = sold / reserve
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public view override returns (uint256) {
+        uint256 exponential = FixedPointMathLibrary.expWad(
+            int256(Math.mulDiv(growth, sold, reserve))
+        );
+        return Math.mulDiv(scale, exponential - WAD, growth);
+    }
+
+    // Closed form: u = ln(1 + cost * growth / scale) / growth, capped at the
+    // whole reserve
+    function soldForCost(
+        uint256 cost,
+        uint256 reserve,
+        uint256 scale
+    ) public view override returns (uint256) {
+        int256 logarithm = FixedPointMathLibrary.lnWad(
+            WAD + Math.mulDiv(cost, growth, scale)
+        );
+        uint256 sold = Math.min(
+            Math.mulDiv(uint256(logarithm), reserve, growth),
+            reserve
+        );
+        return
+            _fitToCost(
+                sold,
+                cost,
+                reserve,
+                scale,
+                spotPrice(sold, reserve, scale)
+            );
+    }
+
+    function spotPrice(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public view override returns (uint256) {
+        uint256 exponential = FixedPointMathLibrary.expWad(
+            int256(Math.mulDiv(growth, sold, reserve))
+        );
+        return Math.mulDiv(scale, exponential, reserve);
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CurveStrategy.sol";
+import "../libraries/FixedPointMathLibrary.sol";
+
+// The launch curve: price K / supply, where supply is the reserve the curve
+// still holds. Starts at scale / reserve like the other shapes and grows
+// with the inverse of the tokens left.
+contract HyperbolicCurve is CurveStrategy {
+    // scale * ln(reserve / (reserve - sold))
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public pure override returns (uint256) {
+        int256 logarithm = FixedPointMathLibrary.lnWad(
+            Math.mulDiv(reserve, WAD, reserve - sold)
+        );
+        return Math.mulDiv(scale, uint256(logarithm), WAD);
+    }
+
+    // Closed form: reserve * (1 - e^(-cost / scale)), keeping at least one
+    // token in the reserve
+    function soldForCost(
+        uint256 cost,
+        uint256 reserve,
+        uint256 scale
+    ) public view override returns (uint256) {
+        uint256 exponential = FixedPointMathLibrary.expWad(
+            -int256(Math.mulDiv(cost, WAD, scale))
+        );
+        uint256 remaining = Math.mulDiv(
+            reserve,
+            exponential,
+            WAD,
+            Math.Rounding.Ceil
+        );
+        if (remaining == 0) remaining = 1;
+
+        return
+            _fitToCost(
+                reserve - remaining,
+                cost,
+                reserve,
+                scale,
+                spotPrice(reserve - remaining, reserve, scale)
+            );
+    }
+
+    function spotPrice(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public pure override returns (uint256) {
+        return Math.mulDiv(scale, WAD, reserve - sold);
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CurveStrategy.sol";
+
+// Price rises in a straight line from scale / reserve, reaching
+// (1 + slope) times the starting price once the whole reserve is sold
+contract LinearCurve is CurveStrategy {
+    uint256 public immutable slope; // WAD
+
+    constructor(uint256 _slope) {
+        slope = _slope;
+    }
+
+    // scale * (u + slope * u^2 / 2) for u = sold / reserve
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public view override returns (uint256) {
+        uint256 base = Math.mulDiv(scale, sold, reserve);
+        return
+            base + Math.mulDiv(base, Math.mulDiv(slope, sold, reserve), 2 * WAD);
+    }
+
+    function spotPrice(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) external view override returns (uint256) {
+        return
+            Math.mulDiv(
+                scale,
+                WAD + Math.mulDiv(slope, sold, reserve),
+                reserve
+            );
+    }
+}
@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CurveStrategy.sol";
+
+// Price multiplier interpolated linearly between breakpoints and held flat after
+// the last one. Breakpoints are WAD shares of the reserve starting at 0, and each
+// multiplier scales the starting price scale / reserve.
+contract PiecewiseLinearCurve is CurveStrategy {
+    uint256 public constant MAX_SEGMENTS = 16;
+
+    uint256[] private _breakpoints;
+    uint256[] private _multipliers;
+
+    constructor(uint256[] memory breakpoints, uint256[] memory multipliers) {
+        uint256 length = breakpoints.length;
+        if (
+            length == 0 ||
+            length > MAX_SEGMENTS ||
+            length != multipliers.length ||
+            breakpoints[0] != 0
+        ) {
+            revert InvalidCurveParameters();
+        }
+        for (uint256 i = 0; i < length; i++) {
+            if (multipliers[i] == 0) revert InvalidCurveParameters();
+            if (i > 0 && breakpoints[i] <= breakpoints[i - 1]) {
+                revert InvalidCurveParameters();
+            }
+        }
+        if (breakpoints[length - 1] > WAD) revert InvalidCurveParameters();
+
+        _breakpoints = breakpoints;
+        _multipliers = multipliers;
+    }
+
+    function getSegments()
+        external
+        view
+        returns (uint256[] memory breakpoints, uint256[] memory multipliers)
+    {
+        return (_breakpoints, _multipliers);
+    }
+
+    // Sum of trapezoids under the multiplier, which is exact for straight segments
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public view override returns (uint256) {
+        uint256 share = Math.mulDiv(sold, WAD, reserve);
+        uint256 length = _breakpoints.length;
+        uint256 area;
+
+        for (uint256 i = 0; i < length; i++) {
+            uint256 start = _breakpoints[i];
+            if (share <= start) break;
+
+            uint256 end = i + 1 < length ? _breakpoints[i + 1] : WAD;
+            if (share < end) end = share;
+            area +=
+                (end - start) *
+                (_multipliers[i] + _multiplierAt(end, i));
+        }
+
+        return Math.mulDiv(scale, area, 2 * WAD * WAD);
+    }
+
+    function spotPrice(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) external view override returns (uint256) {
+        uint256 share = Math.mulDiv(sold, WAD, reserve);
+        uint256 segment = _breakpoints.length - 1;
+        while (_breakpoints[segment] > share) segment--;
+
+        return Math.mulDiv(scale, _multiplierAt(share, segment), reserve);
+    }
+
+    // Multiplier at `share`, which lies in segment `i`
+    function _multiplierAt(
+        uint256 share,
+        uint256 i
+    ) internal view returns (uint256) {
+        if (i + 1 >= _breakpoints.length) return _multipliers[i];
+
+        uint256 start = _breakpoints[i];
+        uint256 end = _breakpoints[i + 1];
+        uint256 from = _multipliers[i];
+        uint256 to = _multipliers[i + 1];
+        return
+            to >= from
+                ? from + Math.mulDiv(to - from, share - start, end - start)
+                : from - Math.mulDiv(from - to, share - start, end - start);
+    }
+}
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./CurveStrategy.sol";
+import "../libraries/FixedPointMathLibrary.sol";
+
+// Price starts near scale / reserve and climbs along a logistic curve to
+// (1 + height) times that, centred on `midpoint` of the reserve sold
+contract SigmoidCurve is CurveStrategy {
+    uint256 public constant MAX_STEEPNESS = 100e18;
+
+    uint256 public immutable height; // WAD
+    uint256 public immutable steepness; // WAD
+    uint256 public immutable midpoint; // WAD share of the reserve
+
+    constructor(uint256 _height, uint256 _steepness, uint256 _midpoint) {
+        if (
+            _steepness == 0 ||
+            _steepness > MAX_STEEPNESS ||
+            _midpoint > WAD
+        ) {
+            revert InvalidCurveParameters();
+        }
+        height = _height;
+        steepness = _steepness;
+        midpoint = _midpoint;
+    }
+
+    // scale * u + scale * height * (softplus(z(u)) - softplus(z(0))) / steepness,
+    // where z(u) = steepness * (u - midpoint)
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) public view override returns (uint256) {
+        int256 start = _softplus(_logit(0, reserve));
+        int256 end = _softplus(_logit(sold, reserve));
+        // The rounded softplus can dip by a wei; the true integral never does
+        uint256 rise = end > start ? uint256(end - start) : 0;
+
+        return
+            Math.mulDiv(scale, sold, reserve) +
+            Math.mulDiv(Math.mulDiv(scale, height, WAD), rise, steepness);
+    }
+
+    function spotPrice(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) external view override returns (uint256) {
+        // 1 / (1 + e^-z)
+        uint256 sigmoid = Math.mulDiv(
+            WAD,
+            WAD,
+            WAD + FixedPointMathLibrary.expWad(-_logit(sold, reserve))
+        );
+        return
+            Math.mulDiv(scale, WAD + Math.mulDiv(height, sigmoid, WAD), reserve);
+    }
+
+    function _logit(
+        uint256 sold,
+        uint256 reserve
+    ) internal view returns (int256) {
+        return
+            int256(Math.mulDiv(steepness, sold, reserve)) -
+            int256(Math.mulDiv(steepness, midpoint, WAD));
+    }
+
+    // ln(1 + e^z), written so e^z never overflows
+    function _softplus(int256 z) internal pure returns (int256) {
+        int256 magnitude = z > 0 ? z : -z;
+        int256 tail = FixedPointMathLibrary.lnWad(
+            WAD + FixedPointMathLibrary.expWad(-magnitude)
+        );
+        return z > 0 ? z + tail : tail;
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Price curve shape for a BondingCurve. `sold` is the number of tokens the curve
+// has sold out of its starting `reserve`, and `scale` is the curve constant
+// (K normalised by the asset rate) in asset units.
+//
+// The curve charges cumulativeCost(sold + amount) - cumulativeCost(sold) to buy and
+// pays the same difference back to sell, so any sequence of trades that ends where
+// it started nets the trader nothing before fees.
+interface IBondingCurveStrategy {
+    // Integral of the spot price from 0 to `sold`, rounded down
+    function cumulativeCost(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) external view returns (uint256);
+
+    // Largest `sold` whose cumulative cost does not exceed `cost`, to within
+    // the strategy's rounding; never one that costs more
+    function soldForCost(
+        uint256 cost,
+        uint256 reserve,
+        uint256 scale
+    ) external view returns (uint256);
+
+    // Asset units per 1e18 tokens at `sold`
+    function spotPrice(
+        uint256 sold,
+        uint256 reserve,
+        uint256 scale
+    ) external view returns (uint256);
+}
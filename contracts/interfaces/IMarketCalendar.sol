@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IMarketCalendar {
+    // Dates are Eastern Time midnights, encoded as if they were UTC
+    event ClosureScheduled(uint256 indexed date, string reason);
+    event ClosureCancelled(uint256 indexed date);
+    event SessionOverrideSet(
+        uint256 indexed date,
+        uint16 openMinute,
+        uint16 closeMinute
+    );
+    event SessionOverrideCleared(uint256 indexed date);
+
+    // Closure management
+    function scheduleClosure(uint256 date, string calldata reason) external;
+
+    function scheduleClosures(
+        uint256[] calldata dates,
+        string[] calldata reasons
+    ) external;
+
+    function cancelClosure(uint256 date) external;
+
+    // Session overrides, in minutes after midnight ET
+    function setSessionOverride(
+        uint256 date,
+        uint16 openMinute,
+        uint16 closeMinute
+    ) external;
+
+    function clearSessionOverride(uint256 date) external;
+
+    // Lookups by Eastern Time timestamp
+    function isClosed(uint256 easternTime) external view returns (bool);
+
+    function getClosureReason(
+        uint256 easternTime
+    ) external view returns (string memory);
+
+    function getSessionOverride(
+        uint256 easternTime
+    )
+        external
+        view
+        returns (bool hasOverride, uint16 openMinute, uint16 closeMinute);
+
+    function getScheduledClosures() external view returns (uint256[] memory);
+
+    function getSessionOverrideDates() external view returns (uint256[] memory);
+}
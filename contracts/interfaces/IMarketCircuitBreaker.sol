@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Market-wide halt shared by every token a factory deploys, modelled on the
+// NYSE level 1/2/3 circuit breakers
+interface IMarketCircuitBreaker {
+    enum MarketHaltLevel {
+        NONE,
+        LEVEL_1, // 7% index drop, 15 minute halt
+        LEVEL_2, // 13% index drop, 15 minute halt
+        LEVEL_3 // 20% index drop, halted for the rest of the day
+    }
+
+    event MarketWideHaltTriggered(
+        MarketHaltLevel level,
+        uint256 haltedUntil,
+        address indexed triggeredBy
+    );
+    event MarketWideHaltLifted(address indexed liftedBy);
+    event HaltGuardianUpdated(
+        address indexed oldGuardian,
+        address indexed newGuardian
+    );
+    event IndexConstituentsUpdated(address[] tokens);
+    event IndexReferenceLevelUpdated(uint256 referenceLevel);
+
+    // Level of the latest halt, kept after it runs out
+    function marketHaltLevel() external view returns (MarketHaltLevel);
+
+    // Unix timestamp the current halt ends; trading resumes automatically afterwards
+    function marketHaltedUntil() external view returns (uint256);
+
+    function haltGuardian() external view returns (address);
+
+    function setHaltGuardian(address guardian) external;
+
+    function triggerMarketHalt(MarketHaltLevel level) external;
+
+    function resumeMarket() external;
+
+    // Index-drop rule
+    function setIndexConstituents(address[] calldata tokens) external;
+
+    function getIndexConstituents() external view returns (address[] memory);
+
+    function getIndexLevel() external view returns (uint256);
+
+    function recordIndexReference() external;
+
+    function checkIndexDrop() external returns (MarketHaltLevel);
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// The SignatureTransfer half of Uniswap's Permit2, trimmed to single-token transfers
+interface ISignatureTransfer {
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce; // Unordered; any unused nonce works
+        uint256 deadline;
+    }
+
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+
+    function nonceBitmap(
+        address owner,
+        uint256 wordPosition
+    ) external view returns (uint256);
+
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+}
@@ -2,6 +2,8 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./IMarketCalendar.sol";
+import "./IMarketCircuitBreaker.sol";
 
 interface IStonkToken is IERC20 {
     struct TaxParameters {
@@ -15,12 +17,40 @@ interface IStonkToken is IERC20 {
         HOLIDAY,
         WEEKEND,
         AFTER_HOURS,
-        OPEN
+        OPEN,
+        EARLY_CLOSE, // Open, but the session ends at 1:00 PM ET
+        PRE_MARKET, // Extended session from 4:00 AM ET until the open
+        POST_MARKET, // Extended session from the close until 8:00 PM ET
+        HALTED // Trading paused by the limit-up/limit-down circuit breaker
+    }
+
+    enum MarketHoursEnforcement {
+        OFF, // Transfers are allowed around the clock
+        TRANSFERS_ONLY_TO_FROM_POOLS, // Only trades against a pool or the vault follow market hours
+        ALL_TRANSFERS // Every transfer follows market hours
     }
 
     // Events
     event MarketClosed(MarketState state, string reason);
     event MarketOpened(address indexed firstTrader);
+    event MarketHoursEnforcementUpdated(
+        MarketHoursEnforcement oldMode,
+        MarketHoursEnforcement newMode
+    );
+    event ExtendedHoursTradingUpdated(bool enabled);
+    event ExtendedHoursSurchargesChanged(
+        uint16 oldBuySurcharge,
+        uint16 newBuySurcharge,
+        uint16 oldSellSurcharge,
+        uint16 newSellSurcharge
+    );
+    event CircuitBreakerUpdated(uint16 bandBasisPoints, uint32 haltDuration);
+    event TradingHalted(
+        uint256 price,
+        uint256 referencePrice,
+        uint256 haltedUntil
+    );
+    event TradingResumed(uint256 referencePrice);
     event TimelockExemptionAdded(address indexed account);
     event TimelockExemptionRemoved(address indexed account);
     event ProjectTaxRecipientUpdated(address indexed newRecipient);
@@ -41,6 +71,66 @@ interface IStonkToken is IERC20 {
 
     function isMarketOpen() external view returns (bool);
 
+    function getMarketCloseTime() external view returns (uint256);
+
+    function openMarket() external;
+
+    function marketCalendar() external view returns (IMarketCalendar);
+
+    function marketHoursEnforcement()
+        external
+        view
+        returns (MarketHoursEnforcement);
+
+    function setMarketHoursEnforcement(MarketHoursEnforcement mode) external;
+
+    // Extended hours functions
+    function isExtendedSession() external view returns (bool);
+
+    function extendedHoursTradingEnabled() external view returns (bool);
+
+    function setExtendedHoursTrading(bool enabled) external;
+
+    function extendedHoursBuySurchargeBasisPoints()
+        external
+        view
+        returns (uint16);
+
+    function extendedHoursSellSurchargeBasisPoints()
+        external
+        view
+        returns (uint16);
+
+    function setExtendedHoursSurcharges(
+        uint16 buySurcharge,
+        uint16 sellSurcharge
+    ) external;
+
+    // Limit-up/limit-down circuit breaker functions
+    function tradingRouter() external view returns (address);
+
+    function luldBandBasisPoints() external view returns (uint16);
+
+    function haltDuration() external view returns (uint32);
+
+    function haltedUntil() external view returns (uint64);
+
+    function referencePrice() external view returns (uint256);
+
+    function marketCircuitBreaker()
+        external
+        view
+        returns (IMarketCircuitBreaker);
+
+    function setCircuitBreaker(
+        uint16 bandBasisPoints,
+        uint32 haltDuration
+    ) external;
+
+    function recordTradePrice(uint256 price) external;
+
+    function resumeTrading() external;
+
     // Timelock exemption functions
     function addTimelockExemption(address account) external;
 
@@ -59,6 +149,9 @@ interface IStonkToken is IERC20 {
 
     function getLiquidityPools() external view returns (address[] memory);
 
+    // Graduation hook, called by the bonding curve vault
+    function onGraduation(address pair) external;
+
     // Tax management functions
     function setProjectTaxRecipient(address recipient) external;
 
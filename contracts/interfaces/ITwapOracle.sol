@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Time-weighted prices for graduated tokens, read from their Uniswap pairs
+interface ITwapOracle {
+    event ObservationRecorded(
+        address indexed tokenAddress,
+        uint32 timestamp,
+        uint256 priceCumulative
+    );
+
+    // Record the pair's cumulative price; a no-op within the minimum interval
+    // of the previous observation
+    function update(address tokenAddress) external returns (bool recorded);
+
+    // Average price over at least the last window seconds, in asset per token
+    // scaled by 1e18 like the router's getSpotPrice
+    function consult(
+        address tokenAddress,
+        uint32 window
+    ) external view returns (uint256 price);
+}
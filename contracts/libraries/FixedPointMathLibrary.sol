@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+// exp and ln on 18-decimal fixed point numbers, for the curve strategies
+library FixedPointMathLibrary {
+    uint256 internal constant WAD = 1e18;
+    int256 private constant LN_2 = 693147180559945309; // ln(2) in WAD
+
+    // Largest input before 2^n * WAD overflows
+    int256 private constant MAX_EXP_INPUT = 130e18;
+
+    error ExpOverflow();
+    error LnUndefined();
+
+    // e^x, with x in WAD. Splits x into n*ln(2) + r and sums the Taylor series of e^r.
+    function expWad(int256 x) internal pure returns (uint256) {
+        if (x > MAX_EXP_INPUT) revert ExpOverflow();
+        if (x < -MAX_EXP_INPUT) return 0;
+
+        int256 n = x / LN_2;
+        int256 r = x - n * LN_2;
+        if (r < 0) {
+            n -= 1;
+            r += LN_2;
+        }
+
+        uint256 term = WAD;
+        uint256 sum = WAD;
+        for (uint256 i = 1; i < 32; i++) {
+            term = (term * uint256(r)) / (i * WAD);
+            if (term == 0) break;
+            sum += term;
+        }
+
+        return n >= 0 ? sum << uint256(n) : sum >> uint256(-n);
+    }
+
+    // ln(x), with x in WAD. Takes the integer part of log2 from the bit length and
+    // the fractional bits by repeated squaring.
+    function lnWad(uint256 x) internal pure returns (int256) {
+        if (x == 0) revert LnUndefined();
+        if (x < WAD) return -lnWad((WAD * WAD) / x);
+
+        uint256 n = Math.log2(x / WAD);
+        uint256 y = x >> n;
+        int256 log2 = int256(n) * int256(WAD);
+
+        for (uint256 bit = WAD / 2; bit > 0; bit /= 2) {
+            y = (y * y) / WAD;
+            if (y >= 2 * WAD) {
+                log2 += int256(bit);
+                y /= 2;
+            }
+        }
+
+        return (log2 * LN_2) / int256(WAD);
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+library TokenTransferLibrary {
+    using SafeERC20 for IERC20;
+
+    // Pull amount from `from` and return the balance delta, so tokens that
+    // tax transfers are credited with what actually arrived
+    function pullFrom(
+        IERC20 token,
+        address from,
+        uint256 amount
+    ) internal returns (uint256 received) {
+        uint256 balance = token.balanceOf(address(this));
+        token.safeTransferFrom(from, address(this), amount);
+        received = token.balanceOf(address(this)) - balance;
+    }
+}
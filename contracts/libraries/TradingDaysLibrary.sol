@@ -2,7 +2,21 @@
 pragma solidity ^0.8.20;
 
 library TradingDaysLibrary {
-    // NYSE holidays (simplified version - in production you'd want a more comprehensive system)
+    // Rule-based NYSE holidays. Ad-hoc closures are not covered here.
+    enum Holiday {
+        NONE,
+        NEW_YEARS_DAY,
+        MLK_DAY,
+        PRESIDENTS_DAY,
+        GOOD_FRIDAY,
+        MEMORIAL_DAY,
+        JUNETEENTH,
+        INDEPENDENCE_DAY,
+        LABOR_DAY,
+        THANKSGIVING,
+        CHRISTMAS_DAY
+    }
+
     uint256 private constant SECONDS_PER_DAY = 86400;
     uint256 private constant SECONDS_PER_HOUR = 3600;
     uint256 private constant SECONDS_PER_MINUTE = 60;
@@ -13,6 +27,20 @@ library TradingDaysLibrary {
     uint256 private constant MARKET_CLOSE_HOUR = 16;
     uint256 private constant MARKET_CLOSE_MINUTE = 0;
 
+    // Half-day sessions close at 1:00 PM ET
+    uint256 private constant EARLY_CLOSE_HOUR = 13;
+
+    // Regular session close in minutes after midnight ET
+    uint256 internal constant REGULAR_CLOSE_MINUTE =
+        MARKET_CLOSE_HOUR * 60 + MARKET_CLOSE_MINUTE;
+
+    // Extended sessions: pre-market from 4:00 AM ET, post-market until 8:00 PM ET
+    uint256 internal constant PRE_MARKET_OPEN_MINUTE = 4 * 60;
+    uint256 internal constant POST_MARKET_CLOSE_MINUTE = 20 * 60;
+
+    // Juneteenth became an NYSE holiday in 2022
+    uint256 private constant JUNETEENTH_FIRST_YEAR = 2022;
+
     // DST offset (4 hours during DST, 5 hours during standard time)
     uint256 private constant DST_OFFSET = 4 * SECONDS_PER_HOUR;
     uint256 private constant STANDARD_OFFSET = 5 * SECONDS_PER_HOUR;
@@ -44,21 +72,17 @@ library TradingDaysLibrary {
         uint256 march1 = timestampFromDate(year, 3, 1);
         uint256 dayOfWeek = getDayOfWeek(march1);
 
-        // Find second Sunday: if March 1 is Sunday (0), second Sunday is 14th
-        // Otherwise, it's 14 - dayOfWeek + (7 if dayOfWeek > 0)
-        uint256 secondSunday;
-        if (dayOfWeek == 0) {
-            secondSunday = 14;
-        } else {
-            secondSunday = 14 - dayOfWeek + 7;
-        }
+        // Second Sunday: the 8th if March 1 is a Sunday (0), otherwise 15 - dayOfWeek
+        uint256 secondSunday = dayOfWeek == 0 ? 8 : 15 - dayOfWeek;
 
+        // 2 AM EST, expressed in UTC
         return
             march1 +
             (secondSunday - 1) *
             SECONDS_PER_DAY +
             2 *
-            SECONDS_PER_HOUR;
+            SECONDS_PER_HOUR +
+            STANDARD_OFFSET;
     }
 
     /**
@@ -72,28 +96,99 @@ library TradingDaysLibrary {
         // Find first Sunday
         uint256 firstSunday = dayOfWeek == 0 ? 1 : 8 - dayOfWeek;
 
+        // 2 AM EDT, expressed in UTC
         return
-            nov1 + (firstSunday - 1) * SECONDS_PER_DAY + 2 * SECONDS_PER_HOUR;
+            nov1 +
+            (firstSunday - 1) *
+            SECONDS_PER_DAY +
+            2 *
+            SECONDS_PER_HOUR +
+            DST_OFFSET;
     }
 
     /**
-     * @dev Check if current time is within core trading hours (9:30 AM - 4:00 PM ET)
+     * @dev Check if current time is within core trading hours (9:30 AM - 4:00 PM ET,
+     * or 1:00 PM ET on early close days)
      */
     function isCoreTradingHours(
         uint256 easternTime
     ) internal pure returns (bool) {
-        uint256 hour = getHour(easternTime);
-        uint256 minute = getMinute(easternTime);
+        (uint256 openMinute, uint256 closeMinute) = getSessionMinutes(
+            easternTime
+        );
+        return isWithinSession(easternTime, openMinute, closeMinute);
+    }
 
-        if (hour < MARKET_OPEN_HOUR || hour >= MARKET_CLOSE_HOUR) {
-            return false;
-        }
+    /**
+     * @dev Rule-based session for the day, in minutes after midnight ET
+     */
+    function getSessionMinutes(
+        uint256 easternTime
+    ) internal pure returns (uint256 openMinute, uint256 closeMinute) {
+        openMinute = MARKET_OPEN_HOUR * 60 + MARKET_OPEN_MINUTE;
+        closeMinute =
+            getMarketCloseHour(easternTime) *
+            60 +
+            MARKET_CLOSE_MINUTE;
+    }
 
-        if (hour == MARKET_OPEN_HOUR && minute < MARKET_OPEN_MINUTE) {
+    function isWithinSession(
+        uint256 easternTime,
+        uint256 openMinute,
+        uint256 closeMinute
+    ) internal pure returns (bool) {
+        uint256 minuteOfDay = getMinuteOfDay(easternTime);
+        return minuteOfDay >= openMinute && minuteOfDay < closeMinute;
+    }
+
+    function getMinuteOfDay(
+        uint256 easternTime
+    ) internal pure returns (uint256) {
+        return getHour(easternTime) * 60 + getMinute(easternTime);
+    }
+
+    /**
+     * @dev Check if the day is an NYSE half-day: the day before Independence Day,
+     * the day after Thanksgiving and Christmas Eve, when they are trading days
+     */
+    function isEarlyClose(uint256 easternTime) internal pure returns (bool) {
+        if (isWeekend(easternTime) || isHoliday(easternTime)) {
             return false;
         }
 
-        return true;
+        (uint256 year, uint256 month, uint256 day) = timestampToDate(
+            easternTime
+        );
+
+        if (month == 7 && day == 3) return true;
+        if (month == 12 && day == 24) return true;
+        // Black Friday
+        if (month == 11 && day > 1 && isFourthThursday(year, month, day - 1))
+            return true;
+
+        return false;
+    }
+
+    function getMarketCloseHour(
+        uint256 easternTime
+    ) internal pure returns (uint256) {
+        return isEarlyClose(easternTime) ? EARLY_CLOSE_HOUR : MARKET_CLOSE_HOUR;
+    }
+
+    /**
+     * @dev Eastern Time timestamp of the close on the given day
+     */
+    function getMarketCloseTime(
+        uint256 easternTime
+    ) internal pure returns (uint256) {
+        (, uint256 closeMinute) = getSessionMinutes(easternTime);
+        return getStartOfDay(easternTime) + closeMinute * SECONDS_PER_MINUTE;
+    }
+
+    function getStartOfDay(
+        uint256 easternTime
+    ) internal pure returns (uint256) {
+        return easternTime - (easternTime % SECONDS_PER_DAY);
     }
 
     /**
@@ -105,64 +200,139 @@ library TradingDaysLibrary {
     }
 
     /**
-     * @dev Check if current day is a NYSE holiday (simplified version)
+     * @dev Check if current day is a NYSE holiday, including observed dates
      */
     function isHoliday(uint256 easternTime) internal pure returns (bool) {
+        (Holiday holiday, ) = getHoliday(easternTime);
+        return holiday != Holiday.NONE;
+    }
+
+    /**
+     * @dev Resolve the NYSE holiday for a day, if any.
+     * Fixed-date holidays falling on a Saturday are observed the Friday before and
+     * those on a Sunday the Monday after. New Year's Day is never observed on the
+     * prior Friday (NYSE stays open on December 31). The calendar date itself is
+     * still reported so weekend holidays surface with their name.
+     */
+    function getHoliday(
+        uint256 easternTime
+    ) internal pure returns (Holiday holiday, bool observed) {
         (uint256 year, uint256 month, uint256 day) = timestampToDate(
             easternTime
         );
+        uint256 dayOfWeek = getDayOfWeek(easternTime);
 
-        // New Year's Day
-        if (month == 1 && day == 1) return true;
-
-        // Independence Day
-        if (month == 7 && day == 4) return true;
+        // Fixed-date holidays on their calendar date
+        if (month == 1 && day == 1) return (Holiday.NEW_YEARS_DAY, false);
+        if (month == 6 && day == 19 && year >= JUNETEENTH_FIRST_YEAR)
+            return (Holiday.JUNETEENTH, false);
+        if (month == 7 && day == 4) return (Holiday.INDEPENDENCE_DAY, false);
+        if (month == 12 && day == 25) return (Holiday.CHRISTMAS_DAY, false);
+
+        // Saturday holidays observed on Friday
+        if (dayOfWeek == 5) {
+            if (month == 6 && day == 18 && year >= JUNETEENTH_FIRST_YEAR)
+                return (Holiday.JUNETEENTH, true);
+            if (month == 7 && day == 3)
+                return (Holiday.INDEPENDENCE_DAY, true);
+            if (month == 12 && day == 24) return (Holiday.CHRISTMAS_DAY, true);
+            if (isGoodFriday(year, month, day))
+                return (Holiday.GOOD_FRIDAY, false);
+        }
 
-        // Christmas Day
-        if (month == 12 && day == 25) return true;
+        // Sunday holidays observed on Monday
+        if (dayOfWeek == 1) {
+            if (month == 1 && day == 2) return (Holiday.NEW_YEARS_DAY, true);
+            if (month == 6 && day == 20 && year >= JUNETEENTH_FIRST_YEAR)
+                return (Holiday.JUNETEENTH, true);
+            if (month == 7 && day == 5)
+                return (Holiday.INDEPENDENCE_DAY, true);
+            if (month == 12 && day == 26) return (Holiday.CHRISTMAS_DAY, true);
+        }
 
         // Martin Luther King Jr. Day (third Monday in January)
-        if (month == 1 && isThirdMonday(year, month, day)) return true;
+        if (month == 1 && isThirdMonday(year, month, day))
+            return (Holiday.MLK_DAY, false);
 
         // Presidents Day (third Monday in February)
-        if (month == 2 && isThirdMonday(year, month, day)) return true;
+        if (month == 2 && isThirdMonday(year, month, day))
+            return (Holiday.PRESIDENTS_DAY, false);
 
         // Memorial Day (last Monday in May)
-        if (month == 5 && isLastMonday(year, month, day)) return true;
+        if (month == 5 && isLastMonday(year, month, day))
+            return (Holiday.MEMORIAL_DAY, false);
 
         // Labor Day (first Monday in September)
-        if (month == 9 && isFirstMonday(year, month, day)) return true;
+        if (month == 9 && isFirstMonday(year, month, day))
+            return (Holiday.LABOR_DAY, false);
 
         // Thanksgiving (fourth Thursday in November)
-        if (month == 11 && isFourthThursday(year, month, day)) return true;
+        if (month == 11 && isFourthThursday(year, month, day))
+            return (Holiday.THANKSGIVING, false);
 
-        return false;
+        return (Holiday.NONE, false);
     }
 
     /**
-     * @dev Get current holiday name (simplified version)
+     * @dev Get current holiday name, suffixed with " (Observed)" on observed dates
      */
     function getCurrentHoliday() internal view returns (string memory) {
-        uint256 easternTime = getEasternTime();
-        (uint256 year, uint256 month, uint256 day) = timestampToDate(
-            easternTime
-        );
-
-        if (month == 1 && day == 1) return "New Year's Day";
-        if (month == 7 && day == 4) return "Independence Day";
-        if (month == 12 && day == 25) return "Christmas Day";
-        if (month == 1 && isThirdMonday(year, month, day))
-            return "Martin Luther King Jr. Day";
-        if (month == 2 && isThirdMonday(year, month, day))
-            return "Presidents Day";
-        if (month == 5 && isLastMonday(year, month, day)) return "Memorial Day";
-        if (month == 9 && isFirstMonday(year, month, day)) return "Labor Day";
-        if (month == 11 && isFourthThursday(year, month, day))
-            return "Thanksgiving";
+        (Holiday holiday, bool observed) = getHoliday(getEasternTime());
+        return getHolidayName(holiday, observed);
+    }
 
+    function getHolidayName(
+        Holiday holiday,
+        bool observed
+    ) internal pure returns (string memory) {
+        if (observed) {
+            return string.concat(getHolidayName(holiday, false), " (Observed)");
+        }
+        if (holiday == Holiday.NEW_YEARS_DAY) return "New Year's Day";
+        if (holiday == Holiday.MLK_DAY) return "Martin Luther King Jr. Day";
+        if (holiday == Holiday.PRESIDENTS_DAY) return "Presidents Day";
+        if (holiday == Holiday.GOOD_FRIDAY) return "Good Friday";
+        if (holiday == Holiday.MEMORIAL_DAY) return "Memorial Day";
+        if (holiday == Holiday.JUNETEENTH) return "Juneteenth";
+        if (holiday == Holiday.INDEPENDENCE_DAY) return "Independence Day";
+        if (holiday == Holiday.LABOR_DAY) return "Labor Day";
+        if (holiday == Holiday.THANKSGIVING) return "Thanksgiving";
+        if (holiday == Holiday.CHRISTMAS_DAY) return "Christmas Day";
         return "Not a Holiday";
     }
 
+    /**
+     * @dev Easter Sunday for a Gregorian year (anonymous Gregorian computus)
+     */
+    function getEasterDate(
+        uint256 year
+    ) internal pure returns (uint256 month, uint256 day) {
+        uint256 a = year % 19;
+        uint256 b = year / 100;
+        uint256 c = year % 100;
+        uint256 f = (b + 8) / 25;
+        uint256 g = (b - f + 1) / 3;
+        uint256 h = (19 * a + b - b / 4 - g + 15) % 30;
+        uint256 l = (32 + 2 * (b % 4) + 2 * (c / 4) - h - (c % 4)) % 7;
+        uint256 m = (a + 11 * h + 22 * l) / 451;
+        month = (h + l + 114 - 7 * m) / 31;
+        day = ((h + l + 114 - 7 * m) % 31) + 1;
+    }
+
+    function isGoodFriday(
+        uint256 year,
+        uint256 month,
+        uint256 day
+    ) internal pure returns (bool) {
+        if (month != 3 && month != 4) return false;
+        (uint256 easterMonth, uint256 easterDay) = getEasterDate(year);
+        // Good Friday is two days before Easter Sunday
+        if (easterDay > 2) {
+            return month == easterMonth && day == easterDay - 2;
+        }
+        return month == 3 && day == 29 + easterDay;
+    }
+
     // Helper functions for date calculations
     function isThirdMonday(
         uint256 year,
@@ -239,6 +409,15 @@ library TradingDaysLibrary {
             }
             year -= 1;
         }
+        // The 365.25-day estimate can also land a year early around January 1st
+        while (
+            secondsAccountedFor +
+                (isLeapYear(year) ? 31622400 : 31536000) <=
+            timestamp
+        ) {
+            secondsAccountedFor += isLeapYear(year) ? 31622400 : 31536000;
+            year += 1;
+        }
         return year;
     }
 
@@ -290,16 +469,9 @@ library TradingDaysLibrary {
         uint256 month,
         uint256 day
     ) internal pure returns (uint256) {
-        uint256 timestamp = 0;
-
-        // Add years
-        for (uint256 i = 1970; i < year; i++) {
-            if (isLeapYear(i)) {
-                timestamp += 31622400; // 366 days
-            } else {
-                timestamp += 31536000; // 365 days
-            }
-        }
+        // Add years, counting leap days in closed form like timestampToDate
+        uint256 timestamp = 31536000 * (year - 1970); // 365 days per year
+        timestamp += (leapYearsBefore(year) - leapYearsBefore(1970)) * 86400;
 
         // Add months
         uint256[12] memory monthDays = [
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Stands in for StonkTradingRouter where a test needs to set token prices directly
+contract MockReferencePriceRouter {
+    mapping(address => uint256) public getSpotPrice;
+    mapping(address => address) public getQuoteAsset;
+    mapping(address => uint256) private _referencePrices;
+
+    error InsufficientHistory();
+
+    function setReferencePrice(address tokenAddress, uint256 price) external {
+        _referencePrices[tokenAddress] = price;
+    }
+
+    function setSpotPrice(address tokenAddress, uint256 price) external {
+        getSpotPrice[tokenAddress] = price;
+    }
+
+    function setQuoteAsset(address tokenAddress, address asset) external {
+        getQuoteAsset[tokenAddress] = asset;
+    }
+
+    // Reverts like the oracle while a token has no reference price set
+    function getReferencePrice(
+        address tokenAddress
+    ) external view returns (uint256) {
+        uint256 price = _referencePrices[tokenAddress];
+        if (price == 0) revert InsufficientHistory();
+        return price;
+    }
+
+    // Any priced token counts as registered
+    function getBondingCurveAddress(
+        address tokenAddress
+    ) external view returns (address) {
+        return
+            _referencePrices[tokenAddress] > 0 || getSpotPrice[tokenAddress] > 0
+                ? address(this)
+                : address(0);
+    }
+}
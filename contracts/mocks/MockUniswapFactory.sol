@@ -1,8 +1,18 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "./MockUniswapPair.sol";
+
 contract MockUniswapFactory {
     mapping(address => mapping(address => address)) public pairs;
+    address[] public allPairs;
+
+    event PairCreated(
+        address indexed token0,
+        address indexed token1,
+        address pair,
+        uint
+    );
 
     function createPair(
         address tokenA,
@@ -15,18 +25,16 @@ contract MockUniswapFactory {
         require(token0 != address(0), "UniswapV2: ZERO_ADDRESS");
         require(pairs[token0][token1] == address(0), "UniswapV2: PAIR_EXISTS");
 
-        // Create a mock pair address
-        pair = address(
-            uint160(
-                uint256(
-                    keccak256(abi.encodePacked(token0, token1, block.timestamp))
-                )
-            )
-        );
+        // Deploy a working constant product pair so swaps can be tested
+        MockUniswapPair newPair = new MockUniswapPair();
+        newPair.initialize(token0, token1);
+        pair = address(newPair);
+
         pairs[token0][token1] = pair;
         pairs[token1][token0] = pair;
+        allPairs.push(pair);
 
-        return pair;
+        emit PairCreated(token0, token1, pair, allPairs.length);
     }
 
     function getPair(
@@ -35,4 +43,8 @@ contract MockUniswapFactory {
     ) external view returns (address pair) {
         return pairs[tokenA][tokenB];
     }
+
+    function allPairsLength() external view returns (uint) {
+        return allPairs.length;
+    }
 }
@@ -2,14 +2,29 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./MockUniswapFactory.sol";
+import "./MockUniswapPair.sol";
 
+// Trimmed-down UniswapV2Router02 that trades against MockUniswapPair
 contract MockUniswapRouter {
     address public immutable factory;
+    address public WETH;
+
+    modifier ensure(uint deadline) {
+        require(deadline >= block.timestamp, "UniswapV2Router: EXPIRED");
+        _;
+    }
 
     constructor(address _factory) {
         factory = _factory;
     }
 
+    // The real router fixes WETH at construction; tests set it before deploying
+    // anything that reads it
+    function setWETH(address _weth) external {
+        WETH = _weth;
+    }
+
     function addLiquidity(
         address tokenA,
         address tokenB,
@@ -19,11 +34,245 @@ contract MockUniswapRouter {
         uint amountBMin,
         address to,
         uint deadline
-    ) external returns (uint amountA, uint amountB, uint liquidity) {
-        // Mock implementation - just transfer tokens
-        IERC20(tokenA).transferFrom(msg.sender, address(this), amountADesired);
-        IERC20(tokenB).transferFrom(msg.sender, address(this), amountBDesired);
+    )
+        external
+        ensure(deadline)
+        returns (uint amountA, uint amountB, uint liquidity)
+    {
+        address pair = MockUniswapFactory(factory).getPair(tokenA, tokenB);
+        if (pair == address(0)) {
+            pair = MockUniswapFactory(factory).createPair(tokenA, tokenB);
+        }
+
+        (uint reserveA, uint reserveB) = getReserves(tokenA, tokenB);
+        if (reserveA == 0 && reserveB == 0) {
+            (amountA, amountB) = (amountADesired, amountBDesired);
+        } else {
+            uint amountBOptimal = quote(amountADesired, reserveA, reserveB);
+            if (amountBOptimal <= amountBDesired) {
+                require(
+                    amountBOptimal >= amountBMin,
+                    "UniswapV2Router: INSUFFICIENT_B_AMOUNT"
+                );
+                (amountA, amountB) = (amountADesired, amountBOptimal);
+            } else {
+                uint amountAOptimal = quote(amountBDesired, reserveB, reserveA);
+                require(
+                    amountAOptimal >= amountAMin,
+                    "UniswapV2Router: INSUFFICIENT_A_AMOUNT"
+                );
+                (amountA, amountB) = (amountAOptimal, amountBDesired);
+            }
+        }
+
+        IERC20(tokenA).transferFrom(msg.sender, pair, amountA);
+        IERC20(tokenB).transferFrom(msg.sender, pair, amountB);
+        liquidity = MockUniswapPair(pair).mint(to);
+    }
+
+    function swapExactTokensForTokens(
+        uint amountIn,
+        uint amountOutMin,
+        address[] calldata path,
+        address to,
+        uint deadline
+    ) external ensure(deadline) returns (uint[] memory amounts) {
+        amounts = getAmountsOut(amountIn, path);
+        require(
+            amounts[amounts.length - 1] >= amountOutMin,
+            "UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT"
+        );
+        IERC20(path[0]).transferFrom(
+            msg.sender,
+            _pairFor(path[0], path[1]),
+            amounts[0]
+        );
+        _swap(amounts, path, to);
+    }
+
+    function swapTokensForExactTokens(
+        uint amountOut,
+        uint amountInMax,
+        address[] calldata path,
+        address to,
+        uint deadline
+    ) external ensure(deadline) returns (uint[] memory amounts) {
+        amounts = getAmountsIn(amountOut, path);
+        require(
+            amounts[0] <= amountInMax,
+            "UniswapV2Router: EXCESSIVE_INPUT_AMOUNT"
+        );
+        IERC20(path[0]).transferFrom(
+            msg.sender,
+            _pairFor(path[0], path[1]),
+            amounts[0]
+        );
+        _swap(amounts, path, to);
+    }
+
+    // Prices what actually reached each pair, for tokens that tax transfers
+    function swapExactTokensForTokensSupportingFeeOnTransferTokens(
+        uint amountIn,
+        uint amountOutMin,
+        address[] calldata path,
+        address to,
+        uint deadline
+    ) external ensure(deadline) {
+        IERC20(path[0]).transferFrom(
+            msg.sender,
+            _pairFor(path[0], path[1]),
+            amountIn
+        );
+        IERC20 output = IERC20(path[path.length - 1]);
+        uint balanceBefore = output.balanceOf(to);
+        _swapSupportingFeeOnTransferTokens(path, to);
+        require(
+            output.balanceOf(to) - balanceBefore >= amountOutMin,
+            "UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT"
+        );
+    }
 
-        return (amountADesired, amountBDesired, amountADesired);
+    function quote(
+        uint amountA,
+        uint reserveA,
+        uint reserveB
+    ) public pure returns (uint amountB) {
+        require(amountA > 0, "UniswapV2Library: INSUFFICIENT_AMOUNT");
+        require(
+            reserveA > 0 && reserveB > 0,
+            "UniswapV2Library: INSUFFICIENT_LIQUIDITY"
+        );
+        amountB = (amountA * reserveB) / reserveA;
+    }
+
+    function getAmountOut(
+        uint amountIn,
+        uint reserveIn,
+        uint reserveOut
+    ) public pure returns (uint amountOut) {
+        require(amountIn > 0, "UniswapV2Library: INSUFFICIENT_INPUT_AMOUNT");
+        require(
+            reserveIn > 0 && reserveOut > 0,
+            "UniswapV2Library: INSUFFICIENT_LIQUIDITY"
+        );
+        uint amountInWithFee = amountIn * 997;
+        amountOut =
+            (amountInWithFee * reserveOut) /
+            (reserveIn * 1000 + amountInWithFee);
+    }
+
+    function getAmountIn(
+        uint amountOut,
+        uint reserveIn,
+        uint reserveOut
+    ) public pure returns (uint amountIn) {
+        require(amountOut > 0, "UniswapV2Library: INSUFFICIENT_OUTPUT_AMOUNT");
+        require(
+            reserveIn > 0 && reserveOut > amountOut,
+            "UniswapV2Library: INSUFFICIENT_LIQUIDITY"
+        );
+        amountIn =
+            (reserveIn * amountOut * 1000) /
+            ((reserveOut - amountOut) * 997) +
+            1;
+    }
+
+    function getAmountsOut(
+        uint amountIn,
+        address[] memory path
+    ) public view returns (uint[] memory amounts) {
+        require(path.length >= 2, "UniswapV2Library: INVALID_PATH");
+        amounts = new uint[](path.length);
+        amounts[0] = amountIn;
+        for (uint i; i < path.length - 1; i++) {
+            (uint reserveIn, uint reserveOut) = getReserves(
+                path[i],
+                path[i + 1]
+            );
+            amounts[i + 1] = getAmountOut(amounts[i], reserveIn, reserveOut);
+        }
+    }
+
+    function getAmountsIn(
+        uint amountOut,
+        address[] memory path
+    ) public view returns (uint[] memory amounts) {
+        require(path.length >= 2, "UniswapV2Library: INVALID_PATH");
+        amounts = new uint[](path.length);
+        amounts[amounts.length - 1] = amountOut;
+        for (uint i = path.length - 1; i > 0; i--) {
+            (uint reserveIn, uint reserveOut) = getReserves(
+                path[i - 1],
+                path[i]
+            );
+            amounts[i - 1] = getAmountIn(amounts[i], reserveIn, reserveOut);
+        }
+    }
+
+    function getReserves(
+        address tokenA,
+        address tokenB
+    ) public view returns (uint reserveA, uint reserveB) {
+        address pair = MockUniswapFactory(factory).getPair(tokenA, tokenB);
+        if (pair == address(0)) return (0, 0);
+        (uint reserve0, uint reserve1, ) = MockUniswapPair(pair).getReserves();
+        (reserveA, reserveB) = tokenA == MockUniswapPair(pair).token0()
+            ? (reserve0, reserve1)
+            : (reserve1, reserve0);
+    }
+
+    function _swap(
+        uint[] memory amounts,
+        address[] memory path,
+        address _to
+    ) internal {
+        for (uint i; i < path.length - 1; i++) {
+            (address input, address output) = (path[i], path[i + 1]);
+            uint amountOut = amounts[i + 1];
+            (uint amount0Out, uint amount1Out) = input ==
+                MockUniswapPair(_pairFor(input, output)).token0()
+                ? (uint(0), amountOut)
+                : (amountOut, uint(0));
+            address to = i < path.length - 2
+                ? _pairFor(output, path[i + 2])
+                : _to;
+            MockUniswapPair(_pairFor(input, output)).swap(
+                amount0Out,
+                amount1Out,
+                to,
+                new bytes(0)
+            );
+        }
+    }
+
+    function _swapSupportingFeeOnTransferTokens(
+        address[] memory path,
+        address _to
+    ) internal {
+        for (uint i; i < path.length - 1; i++) {
+            (address input, address output) = (path[i], path[i + 1]);
+            MockUniswapPair pair = MockUniswapPair(_pairFor(input, output));
+            (uint reserveIn, uint reserveOut) = getReserves(input, output);
+            uint amountOut = getAmountOut(
+                IERC20(input).balanceOf(address(pair)) - reserveIn,
+                reserveIn,
+                reserveOut
+            );
+            (uint amount0Out, uint amount1Out) = input == pair.token0()
+                ? (uint(0), amountOut)
+                : (amountOut, uint(0));
+            address to = i < path.length - 2
+                ? _pairFor(output, path[i + 2])
+                : _to;
+            pair.swap(amount0Out, amount1Out, to, new bytes(0));
+        }
+    }
+
+    function _pairFor(
+        address tokenA,
+        address tokenB
+    ) internal view returns (address pair) {
+        pair = MockUniswapFactory(factory).getPair(tokenA, tokenB);
+        require(pair != address(0), "UniswapV2Library: PAIR_NOT_FOUND");
     }
 }
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../libraries/TradingDaysLibrary.sol";
+
+// Exposes TradingDaysLibrary internals for calendar tests
+contract TradingDaysLibraryHarness {
+    function getHoliday(
+        uint256 easternTime
+    ) external pure returns (TradingDaysLibrary.Holiday, bool) {
+        return TradingDaysLibrary.getHoliday(easternTime);
+    }
+
+    function getHolidayName(
+        uint256 easternTime
+    ) external pure returns (string memory) {
+        (TradingDaysLibrary.Holiday holiday, bool observed) = TradingDaysLibrary
+            .getHoliday(easternTime);
+        return TradingDaysLibrary.getHolidayName(holiday, observed);
+    }
+
+    function getEasterDate(
+        uint256 year
+    ) external pure returns (uint256 month, uint256 day) {
+        return TradingDaysLibrary.getEasterDate(year);
+    }
+
+    function getDSTStart(uint256 year) external pure returns (uint256) {
+        return TradingDaysLibrary.getDSTStart(year);
+    }
+
+    function getDSTEnd(uint256 year) external pure returns (uint256) {
+        return TradingDaysLibrary.getDSTEnd(year);
+    }
+
+    function isEarlyClose(uint256 easternTime) external pure returns (bool) {
+        return TradingDaysLibrary.isEarlyClose(easternTime);
+    }
+
+    function areEarlyCloses(
+        uint256[] calldata easternTimes
+    ) external pure returns (bool[] memory earlyCloses) {
+        earlyCloses = new bool[](easternTimes.length);
+        for (uint256 i = 0; i < easternTimes.length; i++) {
+            earlyCloses[i] = TradingDaysLibrary.isEarlyClose(easternTimes[i]);
+        }
+    }
+
+    function isCoreTradingHours(
+        uint256 easternTime
+    ) external pure returns (bool) {
+        return TradingDaysLibrary.isCoreTradingHours(easternTime);
+    }
+
+    function getMarketCloseTime(
+        uint256 easternTime
+    ) external pure returns (uint256) {
+        return TradingDaysLibrary.getMarketCloseTime(easternTime);
+    }
+
+    // Holiday ids and observed flags for consecutive days starting at startTime
+    function getHolidays(
+        uint256 startTime,
+        uint256 numDays
+    )
+        external
+        pure
+        returns (
+            TradingDaysLibrary.Holiday[] memory holidays,
+            bool[] memory observed
+        )
+    {
+        holidays = new TradingDaysLibrary.Holiday[](numDays);
+        observed = new bool[](numDays);
+
+        for (uint256 i = 0; i < numDays; i++) {
+            (holidays[i], observed[i]) = TradingDaysLibrary.getHoliday(
+                startTime + i * 86400
+            );
+        }
+    }
+}
@@ -0,0 +1,120 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { getAddress, recoverAddress } from "ethers";
+import { StonkTradingRouter__factory } from "../typechain-types";
+import { parseSignedOrder, SignedOrder, StonkSigner } from "../sdk";
+
+export interface RelayerOptions {
+  // Smallest relayerFee accepted, in quote asset units
+  minRelayerFee?: bigint;
+}
+
+// A serialized order is well under this
+const MAX_BODY_BYTES = 16 * 1024;
+
+// Rejected before submission, reported to the client as a 400
+class OrderRejected extends Error {}
+
+// Request body over MAX_BODY_BYTES, reported to the client as a 413
+class BodyTooLarge extends Error {}
+
+/**
+ * HTTP relayer for signed orders. POST /orders takes a serialized SignedOrder,
+ * checks it against the chain and submits executeOrder from `relayer`,
+ * answering with the transaction hash once it is mined. Orders are submitted
+ * one at a time so the relayer's own nonce never races.
+ */
+export function createRelayerServer(
+  routerAddress: string,
+  relayer: StonkSigner,
+  { minRelayerFee = 0n }: RelayerOptions = {}
+): Server {
+  const router = StonkTradingRouter__factory.connect(routerAddress, relayer);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function checkOrder({ order, signature }: SignedOrder) {
+    if (order.relayerFee < minRelayerFee) {
+      throw new OrderRejected(`Relayer fee below ${minRelayerFee}`);
+    }
+    const signer = recoverAddress(await router.hashOrder(order), signature);
+    if (signer !== getAddress(order.trader)) {
+      throw new OrderRejected("Signature does not match trader");
+    }
+    const nonce = await router.nonces(order.trader);
+    if (order.nonce !== nonce) {
+      throw new OrderRejected(`Expected nonce ${nonce}`);
+    }
+    // Simulate, so a failing order costs the relayer no gas
+    try {
+      await router.executeOrder.staticCall(order, signature);
+    } catch (error) {
+      throw new OrderRejected((error as Error).message);
+    }
+  }
+
+  async function relay(signedOrder: SignedOrder): Promise<string> {
+    await checkOrder(signedOrder);
+    const tx = await router.executeOrder(
+      signedOrder.order,
+      signedOrder.signature
+    );
+    await tx.wait();
+    return tx.hash;
+  }
+
+  async function handle(request: IncomingMessage, response: ServerResponse) {
+    if (request.method === "GET" && request.url === "/health") {
+      return send(response, 200, {
+        relayer: await relayer.getAddress(),
+        router: routerAddress,
+      });
+    }
+    if (request.method !== "POST" || request.url !== "/orders") {
+      return send(response, 404, { error: "Not found" });
+    }
+
+    let signedOrder: SignedOrder;
+    try {
+      signedOrder = parseSignedOrder(await readBody(request));
+    } catch (error) {
+      const status = error instanceof BodyTooLarge ? 413 : 400;
+      return send(response, status, { error: (error as Error).message });
+    }
+
+    const result = queue.then(() => relay(signedOrder));
+    queue = result.catch(() => undefined);
+    try {
+      send(response, 200, { hash: await result });
+    } catch (error) {
+      const status = error instanceof OrderRejected ? 400 : 500;
+      send(response, status, { error: (error as Error).message });
+    }
+  }
+
+  return createServer((request, response) => {
+    handle(request, response).catch((error) =>
+      send(response, 500, { error: (error as Error).message })
+    );
+  });
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      // Past the cap the rest is drained unread, so the 413 still gets out
+      if (size > MAX_BODY_BYTES) {
+        return reject(new BodyTooLarge(`Body over ${MAX_BODY_BYTES} bytes`));
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+function send(response: ServerResponse, status: number, body: object) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { PermitSignature, signPermit } from "../sdk";
 
 async function main() {
   const [user] = await ethers.getSigners();
@@ -156,24 +157,44 @@ async function main() {
     process.exit(1);
   }
 
-  // Approve EVILUSDC if needed
-  const allowance = await evilUSDC.allowance(user.address, routerAddress);
-  if (allowance < maxAssetAmount) {
-    console.log("\n🔑 Approving EVILUSDC...");
-    const approveTx = await evilUSDC.approve(routerAddress, maxAssetAmount);
-    await approveTx.wait();
-    console.log("✅ Approval successful");
+  // Sign a permit when EVILUSDC supports EIP-2612, otherwise approve if needed
+  let permit: PermitSignature | undefined;
+  try {
+    permit = await signPermit(
+      user,
+      evilUSDCAddress,
+      routerAddress,
+      maxAssetAmount,
+      BigInt(deadline)
+    );
+    console.log("\n🔑 Signed EVILUSDC permit");
+  } catch {
+    const allowance = await evilUSDC.allowance(user.address, routerAddress);
+    if (allowance < maxAssetAmount) {
+      console.log("\n🔑 Approving EVILUSDC...");
+      const approveTx = await evilUSDC.approve(routerAddress, maxAssetAmount);
+      await approveTx.wait();
+      console.log("✅ Approval successful");
+    }
   }
 
   // Buy tokens through router
   console.log("\n🔄 Executing purchase through router...");
   try {
-    const buyTx = await router.buyTokens(
-      tokenAddress,
-      tokenAmount,
-      maxAssetAmount,
-      deadline
-    );
+    const buyTx = permit
+      ? await router.buyWithPermit(
+          tokenAddress,
+          tokenAmount,
+          maxAssetAmount,
+          deadline,
+          permit
+        )
+      : await router.buyTokens(
+          tokenAddress,
+          tokenAmount,
+          maxAssetAmount,
+          deadline
+        );
 
     const receipt = await buyTx.wait();
     console.log("✅ Purchase successful!");
@@ -64,6 +64,33 @@ async function main() {
   console.log("Uniswap Router:", UNISWAP_ROUTER);
   console.log("EVILUSDC Address:", evilUSDCAddress);
 
+  // Deploy the deployers that hold the token and bonding curve bytecode
+  console.log("\n📦 Deploying StonkTokenDeployer and BondingCurveDeployer...");
+  const StonkTokenDeployer = await ethers.getContractFactory(
+    "StonkTokenDeployer"
+  );
+  const tokenDeployer = await StonkTokenDeployer.deploy();
+  await tokenDeployer.waitForDeployment();
+  const tokenDeployerAddress = await tokenDeployer.getAddress();
+
+  const BondingCurveDeployer = await ethers.getContractFactory(
+    "BondingCurveDeployer"
+  );
+  const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+  await bondingCurveDeployer.waitForDeployment();
+  const bondingCurveDeployerAddress = await bondingCurveDeployer.getAddress();
+
+  console.log("StonkTokenDeployer:", tokenDeployerAddress);
+  console.log("BondingCurveDeployer:", bondingCurveDeployerAddress);
+
+  // Default price curve for new tokens; more shapes can be approved later
+  console.log("\n📈 Deploying HyperbolicCurve...");
+  const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+  const curveStrategy = await HyperbolicCurve.deploy();
+  await curveStrategy.waitForDeployment();
+  const curveStrategyAddress = await curveStrategy.getAddress();
+  console.log("HyperbolicCurve:", curveStrategyAddress);
+
   // Deploy the factory contract
   console.log("\n📦 Deploying StonkTokenFactory...");
   const StonkTokenFactory = await ethers.getContractFactory(
@@ -76,7 +103,10 @@ async function main() {
     UNISWAP_FACTORY,
     UNISWAP_ROUTER,
     evilUSDCAddress,
-    BONDING_CURVE_FEE_BASIS_POINTS
+    BONDING_CURVE_FEE_BASIS_POINTS,
+    tokenDeployerAddress,
+    bondingCurveDeployerAddress,
+    curveStrategyAddress
   );
 
   await factoryInstance.waitForDeployment();
@@ -110,6 +140,56 @@ async function main() {
   await setRouterTx.wait();
   console.log("✅ Router set in factory successfully!");
 
+  // Deploy the shared market calendar for ad-hoc closures
+  console.log("\n📅 Deploying MarketCalendar...");
+  const MarketCalendar = await ethers.getContractFactory("MarketCalendar");
+  const calendarInstance = await MarketCalendar.deploy(deployer.address);
+  await calendarInstance.waitForDeployment();
+  const calendarAddress = await calendarInstance.getAddress();
+  const setCalendarTx = await factoryInstance.setMarketCalendar(
+    calendarAddress
+  );
+  await setCalendarTx.wait();
+  console.log("✅ MarketCalendar deployed and set in factory:", calendarAddress);
+
+  // Deploy the opening auction next to the router
+  console.log("\n🔔 Deploying OpeningAuction...");
+  const OpeningAuction = await ethers.getContractFactory("OpeningAuction");
+  const auctionInstance = await OpeningAuction.deploy(routerAddress);
+  await auctionInstance.waitForDeployment();
+  const auctionAddress = await auctionInstance.getAddress();
+  console.log("✅ OpeningAuction deployed successfully:", auctionAddress);
+
+  // Deploy the limit order book next to the router
+  console.log("\n📒 Deploying LimitOrderBook...");
+  const LimitOrderBook = await ethers.getContractFactory("LimitOrderBook");
+  const orderBookInstance = await LimitOrderBook.deploy(routerAddress);
+  await orderBookInstance.waitForDeployment();
+  const orderBookAddress = await orderBookInstance.getAddress();
+  console.log("✅ LimitOrderBook deployed successfully:", orderBookAddress);
+
+  // Deploy the stop order book next to the router
+  console.log("\n🛑 Deploying StopOrderBook...");
+  const StopOrderBook = await ethers.getContractFactory("StopOrderBook");
+  const stopBookInstance = await StopOrderBook.deploy(routerAddress);
+  await stopBookInstance.waitForDeployment();
+  const stopBookAddress = await stopBookInstance.getAddress();
+  console.log("✅ StopOrderBook deployed successfully:", stopBookAddress);
+
+  // Deploy the TWAP oracle and hand it to the router
+  console.log("\n📈 Deploying UniswapTwapOracle...");
+  const UniswapTwapOracle = await ethers.getContractFactory(
+    "UniswapTwapOracle"
+  );
+  const oracleInstance = await UniswapTwapOracle.deploy(routerAddress);
+  await oracleInstance.waitForDeployment();
+  const oracleAddress = await oracleInstance.getAddress();
+  console.log("✅ UniswapTwapOracle deployed successfully:", oracleAddress);
+
+  const setOracleTx = await routerInstance.setPriceOracle(oracleAddress);
+  await setOracleTx.wait();
+  console.log("✅ Router price oracle set");
+
   // Verify the setup
   console.log("\n🔍 Verifying deployment...");
   const factoryInfo = await factoryInstance.getFactoryInfo();
@@ -125,6 +205,10 @@ async function main() {
   console.log("Factory → Router: Will register tokens automatically");
   console.log("Router → Factory: References factory for token info");
   console.log("Router → Uniswap: Handles post-graduation trading");
+  console.log("Router → Oracle: Records Uniswap prices for reference TWAPs");
+  console.log("Auction → Router: Clears queued orders on the same venues");
+  console.log("Order Book → Router: Fills resting limit orders for keepers");
+  console.log("Stop Book → Router: Sells triggered stops for keepers");
 
   console.log("\n📊 Gas Optimizations Applied:");
   console.log("✅ Removed deployedTokens array (saves ~50K gas/token)");
@@ -152,6 +236,11 @@ async function main() {
     evilUSDC: evilUSDCAddress,
     factory: factoryAddress,
     router: routerAddress,
+    twapOracle: oracleAddress,
+    openingAuction: auctionAddress,
+    limitOrderBook: orderBookAddress,
+    stopOrderBook: stopBookAddress,
+    defaultCurveStrategy: curveStrategyAddress,
     deploymentTime: new Date().toISOString(),
     gasOptimizations: {
       removedDeployedTokensArray: true,
@@ -67,6 +67,10 @@ async function main() {
   const projectBuyTaxBasisPoints = 500; // 5%
   const projectSellTaxBasisPoints = 500; // 5%
   const taxSwapThresholdBasisPoints = 1000; // 10%
+  // Approved curve strategy, or the factory default
+  const curveStrategy = process.env.CURVE_STRATEGY || ethers.ZeroAddress;
+  // Allowlisted quote asset, or the factory's asset token
+  const quoteAsset = process.env.QUOTE_ASSET || ethers.ZeroAddress;
 
   // Get deployment fee
   const deploymentFee = await factory.feePrice();
@@ -84,6 +88,8 @@ async function main() {
   console.log("Buy Tax:", projectBuyTaxBasisPoints / 100, "%");
   console.log("Sell Tax:", projectSellTaxBasisPoints / 100, "%");
   console.log("Swap Threshold:", taxSwapThresholdBasisPoints / 100, "%");
+  console.log("Curve Strategy:", curveStrategy);
+  console.log("Quote Asset:", quoteAsset);
   console.log("Deployment Fee:", ethers.formatEther(deploymentFee), "ETH");
 
   // Deploy the token (updated function signature)
@@ -94,6 +100,8 @@ async function main() {
     projectBuyTaxBasisPoints,
     projectSellTaxBasisPoints,
     taxSwapThresholdBasisPoints,
+    curveStrategy,
+    quoteAsset,
     { value: deploymentFee }
   );
 
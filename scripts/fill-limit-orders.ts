@@ -0,0 +1,53 @@
+import { ethers } from "hardhat";
+
+// Keeper pass over a LimitOrderBook: fills every open order whose limit the
+// current price satisfies, collecting each order's bounty
+async function main() {
+  const [keeper] = await ethers.getSigners();
+
+  const orderBookAddress = process.env.ORDER_BOOK_ADDRESS;
+
+  if (!orderBookAddress) {
+    console.error("❌ Please provide ORDER_BOOK_ADDRESS");
+    process.exit(1);
+  }
+
+  const book = await ethers.getContractAt("LimitOrderBook", orderBookAddress);
+  const nextOrderId = await book.nextOrderId();
+  console.log(
+    "🔎 Checking",
+    nextOrderId.toString(),
+    "orders as",
+    keeper.address
+  );
+
+  let filled = 0;
+  for (let orderId = 0n; orderId < nextOrderId; orderId++) {
+    if (!(await book.canFill(orderId))) continue;
+
+    try {
+      const tx = await book.connect(keeper).fillOrder(orderId);
+      await tx.wait();
+      const order = await book.getOrder(orderId);
+      console.log(
+        `✅ Filled order ${orderId} (${order.isBuy ? "buy" : "sell"}),`,
+        "bounty:",
+        order.bounty.toString()
+      );
+      filled++;
+    } catch (error) {
+      // Another keeper may have filled it first
+      console.log(`⚠️ Order ${orderId} failed:`, (error as Error).message);
+    }
+  }
+
+  console.log(`\n🎉 Filled ${filled} orders`);
+}
+
+// Run the script
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Keeper failed:", error);
+    process.exit(1);
+  });
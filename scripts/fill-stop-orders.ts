@@ -0,0 +1,91 @@
+import { ethers } from "hardhat";
+
+// Keeper pass over a StopOrderBook: records a TWAP observation for every
+// graduated token with open stops, triggers each order whose trigger has been
+// crossed and fills the orders triggered in an earlier block
+async function main() {
+  const [keeper] = await ethers.getSigners();
+
+  const stopBookAddress = process.env.STOP_BOOK_ADDRESS;
+
+  if (!stopBookAddress) {
+    console.error("❌ Please provide STOP_BOOK_ADDRESS");
+    process.exit(1);
+  }
+
+  const book = await ethers.getContractAt("StopOrderBook", stopBookAddress);
+  const router = await ethers.getContractAt(
+    "StonkTradingRouter",
+    await book.router()
+  );
+  const nextOrderId = await book.nextOrderId();
+  console.log(
+    "🔎 Checking",
+    nextOrderId.toString(),
+    "orders as",
+    keeper.address
+  );
+
+  // Mirrors StopOrderBook.OrderStatus
+  const OPEN = 1n;
+  const TRIGGERED = 2n;
+
+  const orderIds: bigint[] = [];
+  const graduatedTokens = new Set<string>();
+  for (let orderId = 0n; orderId < nextOrderId; orderId++) {
+    const order = await book.getOrder(orderId);
+    if (order.status !== OPEN && order.status !== TRIGGERED) continue;
+    orderIds.push(orderId);
+    if (await router.isTokenGraduated(order.token)) {
+      graduatedTokens.add(order.token);
+    }
+  }
+
+  // Quiet pairs only move their TWAP when someone records an observation
+  const oracleAddress = await router.priceOracle();
+  if (oracleAddress !== ethers.ZeroAddress) {
+    const oracle = await ethers.getContractAt(
+      "UniswapTwapOracle",
+      oracleAddress
+    );
+    for (const token of graduatedTokens) {
+      await (await oracle.connect(keeper).update(token)).wait();
+    }
+  }
+
+  let filled = 0;
+  for (const orderId of orderIds) {
+    const order = await book.getOrder(orderId);
+    if (order.status === OPEN) {
+      // A stop fills in a later block than its trigger, so the next pass sells it
+      if (await book.isTriggerable(orderId)) {
+        await (await book.connect(keeper).triggerOrder(orderId)).wait();
+        console.log(`🎯 Triggered stop ${orderId}`);
+      }
+      continue;
+    }
+
+    try {
+      const tx = await book.connect(keeper).fillOrder(orderId);
+      await tx.wait();
+      console.log(
+        `✅ Filled stop ${orderId}, bounty:`,
+        order.bounty.toString()
+      );
+      filled++;
+    } catch (error) {
+      // Stop-limits stay triggered until their limit is met
+      console.log(`⚠️ Stop ${orderId} not filled:`, (error as Error).message);
+    }
+  }
+
+  console.log(`\n🎉 Filled ${filled} stops`);
+}
+
+// Run the script
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Keeper failed:", error);
+    process.exit(1);
+  });
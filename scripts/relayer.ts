@@ -0,0 +1,35 @@
+import { ethers } from "hardhat";
+import { createRelayerServer } from "../relayer/server";
+
+// Relays signed orders to StonkTradingRouter.executeOrder, paying the gas from
+// the first hardhat account, e.g. against a local node:
+//   npx hardhat node
+//   ROUTER_ADDRESS=0x... npx hardhat run scripts/relayer.ts --network localhost
+async function main() {
+  const [relayer] = await ethers.getSigners();
+
+  const routerAddress = process.env.ROUTER_ADDRESS;
+  const port = Number(process.env.RELAYER_PORT ?? 8546);
+  const minRelayerFee = BigInt(process.env.MIN_RELAYER_FEE ?? 0);
+
+  if (!routerAddress) {
+    console.error("❌ Please provide ROUTER_ADDRESS");
+    process.exit(1);
+  }
+
+  const server = createRelayerServer(routerAddress, relayer, {
+    minRelayerFee,
+  });
+  server.listen(port, () => {
+    console.log("🚀 Relayer listening on port", port);
+    console.log("Router:", routerAddress);
+    console.log("Relayer account:", relayer.address);
+    console.log("Minimum relayer fee:", minRelayerFee.toString());
+  });
+}
+
+// Run the script; the server keeps the process alive
+main().catch((error) => {
+  console.error("❌ Relayer failed:", error);
+  process.exit(1);
+});
@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { signPermit } from "../sdk";
 
 async function main() {
   const [user] = await ethers.getSigners();
@@ -163,23 +164,25 @@ async function main() {
   );
   console.log("Trading Mechanism:", graduated ? "Uniswap" : "Bonding Curve");
 
-  // Approve tokens if needed
-  const allowance = await token.allowance(user.address, routerAddress);
-  if (allowance < tokenAmount) {
-    console.log("\n🔑 Approving tokens...");
-    const approveTx = await token.approve(routerAddress, tokenAmount);
-    await approveTx.wait();
-    console.log("✅ Approval successful");
-  }
+  // Sign a permit so approval and sale go in one transaction
+  console.log("\n🔑 Signing token permit...");
+  const permit = await signPermit(
+    user,
+    tokenAddress,
+    routerAddress,
+    tokenAmount,
+    BigInt(deadline)
+  );
 
   // Sell tokens through router
   console.log("\n🔄 Executing sale through router...");
   try {
-    const sellTx = await router.sellTokens(
+    const sellTx = await router.sellWithPermit(
       tokenAddress,
       tokenAmount,
       minAssetAmount,
-      deadline
+      deadline,
+      permit
     );
 
     const receipt = await sellTx.wait();
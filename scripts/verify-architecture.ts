@@ -4,14 +4,14 @@ async function main() {
   console.log("🔍 Verifying StonkToken Architecture...");
   console.log("=====================================");
 
-  const [deployer, user1, user2] = await ethers.getSigners();
+  const [deployer] = await ethers.getSigners();
 
   // Deploy mock contracts for testing
   console.log("\n📦 Deploying test contracts...");
 
   // Deploy mock USDC
-  const MockUSDC = await ethers.getContractFactory("MockUSDC");
-  const mockUSDC = await MockUSDC.deploy();
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const mockUSDC = await MockERC20.deploy("Mock USDC", "USDC", 6);
   await mockUSDC.waitForDeployment();
 
   // Deploy mock Uniswap contracts
@@ -24,9 +24,26 @@ async function main() {
   const MockUniswapRouter = await ethers.getContractFactory(
     "MockUniswapRouter"
   );
-  const mockUniswapRouter = await MockUniswapRouter.deploy();
+  const mockUniswapRouter = await MockUniswapRouter.deploy(
+    await mockUniswapFactory.getAddress()
+  );
   await mockUniswapRouter.waitForDeployment();
 
+  // Deploy the token and bonding curve deployers and the default curve
+  const StonkTokenDeployer = await ethers.getContractFactory(
+    "StonkTokenDeployer"
+  );
+  const tokenDeployer = await StonkTokenDeployer.deploy();
+  await tokenDeployer.waitForDeployment();
+  const BondingCurveDeployer = await ethers.getContractFactory(
+    "BondingCurveDeployer"
+  );
+  const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+  await bondingCurveDeployer.waitForDeployment();
+  const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+  const curveStrategy = await HyperbolicCurve.deploy();
+  await curveStrategy.waitForDeployment();
+
   // Deploy factory
   const StonkTokenFactory = await ethers.getContractFactory(
     "StonkTokenFactory"
@@ -37,8 +54,10 @@ async function main() {
     await mockUniswapFactory.getAddress(),
     await mockUniswapRouter.getAddress(),
     await mockUSDC.getAddress(),
-    ethers.parseEther("1000000"), // global supply
-    300 // 3% bonding curve fee
+    300, // 3% bonding curve fee
+    await tokenDeployer.getAddress(),
+    await bondingCurveDeployer.getAddress(),
+    await curveStrategy.getAddress()
   );
   await factory.waitForDeployment();
 
@@ -67,8 +86,7 @@ async function main() {
   console.log("Global Supply:", ethers.formatEther(factoryInfo[2]));
   console.log("Bonding Curve Fee:", factoryInfo[3], "basis points");
   console.log("Paused:", factoryInfo[4]);
-  console.log("Deployed Tokens Count:", factoryInfo[5].toString());
-  console.log("Trading Router:", factoryInfo[6]);
+  console.log("Trading Router:", factoryInfo[5]);
 
   // Test 2: Deploy a token
   console.log("\n🧪 Test 2: Token Deployment");
@@ -79,6 +97,8 @@ async function main() {
     500, // 5% buy tax
     500, // 5% sell tax
     1000, // 10% swap threshold
+    ethers.ZeroAddress, // Default curve strategy
+    ethers.ZeroAddress, // Default quote asset
     { value: ethers.parseEther("0.1") }
   );
   const deployReceipt = await deployTx.wait();
@@ -96,51 +116,37 @@ async function main() {
 
     // Test 3: Router Token Info
     console.log("\n🧪 Test 3: Router Token Info");
-    const tokenInfo = await router.getTokenInfo(tokenAddress);
-    console.log("Graduated:", tokenInfo[0]);
-    console.log("Bonding Curve:", tokenInfo[1]);
-    console.log("Uniswap Pair:", tokenInfo[2]);
-    console.log("Current Price:", tokenInfo[3].toString());
-    console.log("Graduation Threshold:", tokenInfo[4].toString());
-
-    // Test 4: Factory Token Info
-    console.log("\n🧪 Test 4: Factory Token Info");
-    const factoryTokenInfo = await factory.getTokenInfoWithMetadata(
-      tokenAddress
+    const tradingState = await router.getTokenTradingState(tokenAddress);
+    console.log("Graduated:", tradingState[0]);
+    console.log("Bonding Curve:", tradingState[1]);
+    console.log("Uniswap Pair:", tradingState[2]);
+    console.log(
+      "Current Price:",
+      (await router.getSpotPrice(tokenAddress)).toString()
+    );
+
+    // Test 4: Bonding Curve Info
+    console.log("\n🧪 Test 4: Bonding Curve Info");
+    const bondingCurve = await ethers.getContractAt(
+      "BondingCurve",
+      bondingCurveAddress
+    );
+    const token = await ethers.getContractAt("StonkToken", tokenAddress);
+    console.log("Total Supply:", ethers.formatEther(await token.totalSupply()));
+    console.log("Curve Strategy:", await bondingCurve.curveStrategy());
+    console.log(
+      "Graduation Threshold:",
+      (await bondingCurve.getGraduationThreshold()).toString()
     );
-    console.log("Token Info:", factoryTokenInfo[0]);
-    console.log("Total Supply:", ethers.formatEther(factoryTokenInfo[1]));
-    console.log("Current Price:", factoryTokenInfo[2].toString());
-    console.log("Is Graduated:", factoryTokenInfo[3]);
-
-    // Test 5: Batch Token Info
-    console.log("\n🧪 Test 5: Batch Token Info");
-    const batchInfo = await factory.getMultipleTokenInfo([tokenAddress]);
-    console.log("Batch Token Infos:", batchInfo[0].length);
-    console.log("Batch Total Supplies:", batchInfo[1].length);
-
-    // Test 6: Pagination
-    console.log("\n🧪 Test 6: Pagination");
-    const paginatedTokens = await factory.getDeployedTokensPaginated(0, 10);
-    console.log("Total Count:", paginatedTokens[1].toString());
-    console.log("Tokens in Page:", paginatedTokens[0].length);
-
-    // Test 7: Router Batch Info
-    console.log("\n🧪 Test 7: Router Batch Info");
-    const routerBatchInfo = await router.getMultipleTokenInfo([tokenAddress]);
-    console.log("Graduated Status:", routerBatchInfo[0]);
-    console.log("Bonding Curves:", routerBatchInfo[1]);
-    console.log("Uniswap Pairs:", routerBatchInfo[2]);
-    console.log("Current Prices:", routerBatchInfo[3]);
-
-    // Test 8: Pause/Unpause
-    console.log("\n🧪 Test 8: Pause/Unpause");
+
+    // Test 5: Pause/Unpause
+    console.log("\n🧪 Test 5: Pause/Unpause");
     await router.pause();
     console.log("Router Paused:", await router.paused());
     await router.unpause();
     console.log("Router Unpaused:", await router.paused());
 
-    // Test 9: Factory Pause/Unpause
+    // Test 6: Factory Pause/Unpause
     await factory.pause();
     console.log("Factory Paused:", await factory.paused());
     await factory.unpause();
@@ -149,9 +155,9 @@ async function main() {
     console.log("❌ TokenDeployed event not found");
   }
 
-  // Test 10: Deploy multiple tokens for batch testing
-  console.log("\n🧪 Test 10: Multiple Token Deployment");
-  const tokenAddresses = [];
+  // Test 7: Deploy multiple tokens for batch testing
+  console.log("\n🧪 Test 7: Multiple Token Deployment");
+  const tokenAddresses: string[] = [];
 
   for (let i = 0; i < 3; i++) {
     const tx = await factory.deployToken(
@@ -161,6 +167,8 @@ async function main() {
       500,
       500,
       1000,
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
       { value: ethers.parseEther("0.1") }
     );
     const receipt = await tx.wait();
@@ -174,14 +182,14 @@ async function main() {
 
   console.log("Deployed tokens:", tokenAddresses.length);
 
-  // Test 11: Batch operations
-  console.log("\n🧪 Test 11: Batch Operations");
-  const batchTokenInfo = await factory.getMultipleTokenInfo(tokenAddresses);
-  console.log("Batch Token Infos:", batchTokenInfo[0].length);
-  console.log("Batch Total Supplies:", batchTokenInfo[1].length);
-
-  const batchRouterInfo = await router.getMultipleTokenInfo(tokenAddresses);
-  console.log("Batch Router Infos:", batchRouterInfo[0].length);
+  // Test 8: Batch operations
+  console.log("\n🧪 Test 8: Batch Operations");
+  const batchRouterInfo = await Promise.all(
+    tokenAddresses.map((tokenAddress) =>
+      router.getTokenTradingState(tokenAddress)
+    )
+  );
+  console.log("Batch Router Infos:", batchRouterInfo.length);
 
   console.log("\n🎉 Architecture Verification Complete!");
   console.log("=====================================");
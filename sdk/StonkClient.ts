@@ -0,0 +1,441 @@
+import {
+  ContractTransactionResponse,
+  Interface,
+  Log,
+  LogDescription,
+  ZeroAddress,
+} from "ethers";
+import {
+  BondingCurve__factory,
+  IERC20,
+  IERC20__factory,
+  StonkToken__factory,
+  StonkTokenFactory,
+  StonkTokenFactory__factory,
+  StonkTradingRouter,
+  StonkTradingRouter__factory,
+} from "../typechain-types";
+import {
+  TokensPurchasedEvent,
+  TokensSoldEvent,
+} from "../typechain-types/contracts/StonkTradingRouter";
+import {
+  BuyQuote,
+  BuyResult,
+  DeployTokenParams,
+  DeployTokenResult,
+  SellQuote,
+  SellResult,
+  StonkClientAddresses,
+  StonkClientOptions,
+  StonkSigner,
+  TokenState,
+  TradeOptions,
+} from "./types";
+
+export const BASIS_POINTS = 10000n;
+export const DEFAULT_SLIPPAGE_BASIS_POINTS = 500; // 5%
+export const DEFAULT_DEADLINE_SECONDS = 300; // 5 minutes
+
+/**
+ * Typed client for the Stonk trading stack. Wraps the router, factory and
+ * bonding curves so callers don't have to hand-roll approvals, slippage
+ * bounds, deadlines and event decoding for every trade.
+ */
+export class StonkClient {
+  readonly router: StonkTradingRouter;
+  readonly factory: StonkTokenFactory;
+
+  private readonly slippageBasisPoints: number;
+  private readonly deadlineSeconds: number;
+  private readonly quoteAssets = new Map<string, IERC20>();
+
+  constructor(
+    readonly signer: StonkSigner,
+    addresses: StonkClientAddresses,
+    options: StonkClientOptions = {}
+  ) {
+    this.router = StonkTradingRouter__factory.connect(addresses.router, signer);
+    this.factory = StonkTokenFactory__factory.connect(
+      addresses.factory,
+      signer
+    );
+    this.slippageBasisPoints =
+      options.slippageBasisPoints ?? DEFAULT_SLIPPAGE_BASIS_POINTS;
+    this.deadlineSeconds = options.deadlineSeconds ?? DEFAULT_DEADLINE_SECONDS;
+  }
+
+  // Build a client from the router alone, resolving the factory on-chain
+  static async fromRouter(
+    signer: StonkSigner,
+    routerAddress: string,
+    options: StonkClientOptions = {}
+  ): Promise<StonkClient> {
+    const router = StonkTradingRouter__factory.connect(routerAddress, signer);
+    const factory = await router.factory();
+    return new StonkClient(
+      signer,
+      { router: routerAddress, factory },
+      options
+    );
+  }
+
+  // Asset the token is quoted in, fixed when the token is deployed
+  async getAssetToken(tokenAddress: string): Promise<IERC20> {
+    let assetToken = this.quoteAssets.get(tokenAddress);
+    if (!assetToken) {
+      assetToken = IERC20__factory.connect(
+        await this.router.getQuoteAsset(tokenAddress),
+        this.signer
+      );
+      this.quoteAssets.set(tokenAddress, assetToken);
+    }
+    return assetToken;
+  }
+
+  // State
+
+  async getTokenState(tokenAddress: string): Promise<TokenState> {
+    const [graduated, bondingCurve, uniswapPair] =
+      await this.router.getTokenTradingState(tokenAddress);
+    const token = StonkToken__factory.connect(tokenAddress, this.signer);
+
+    const state: TokenState = {
+      tokenAddress,
+      graduated,
+      bondingCurve,
+      uniswapPair,
+      marketState: Number(await token.getMarketState()),
+      marketCloseTime: await token.getMarketCloseTime(),
+      marketHoursEnforcement: Number(await token.marketHoursEnforcement()),
+      haltedUntil: await token.haltedUntil(),
+    };
+
+    if (!graduated) {
+      const curve = BondingCurve__factory.connect(bondingCurve, this.signer);
+      const assetToken = await this.getAssetToken(tokenAddress);
+      state.currentPrice = await curve.getCurrentPrice();
+      state.assetReserve = await assetToken.balanceOf(bondingCurve);
+      state.graduationThreshold = await curve.getGraduationThreshold();
+    }
+
+    return state;
+  }
+
+  // Quotes
+
+  async quoteBuy(tokenAddress: string, tokenAmount: bigint): Promise<BuyQuote> {
+    const [graduated, bondingCurve] = await this.router.getTokenTradingState(
+      tokenAddress
+    );
+    // The venue sends tokenAmount; the buyer receives it less the tax
+    const tax = await this.router.calculateTax(tokenAddress, tokenAmount, true);
+
+    if (graduated) {
+      const assetAmount = await this.router.calculateBuyPrice(
+        tokenAddress,
+        tokenAmount
+      );
+      return {
+        tokenAmount,
+        assetAmount,
+        fee: 0n,
+        totalAssetAmount: assetAmount,
+        tax,
+        isBondingCurve: false,
+      };
+    }
+
+    const curve = BondingCurve__factory.connect(bondingCurve, this.signer);
+    const [assetAmount, fee] = await curve.calculateBuyFee(tokenAmount);
+    return {
+      tokenAmount,
+      assetAmount,
+      fee,
+      totalAssetAmount: assetAmount + fee,
+      tax,
+      isBondingCurve: true,
+    };
+  }
+
+  // Tokens received for spending exactly assetAmountIn (fees included)
+  async quoteBuyExactIn(
+    tokenAddress: string,
+    assetAmountIn: bigint
+  ): Promise<bigint> {
+    return this.router.calculateBuyAmount(tokenAddress, assetAmountIn);
+  }
+
+  async quoteSell(
+    tokenAddress: string,
+    tokenAmount: bigint
+  ): Promise<SellQuote> {
+    const [graduated, bondingCurve] = await this.router.getTokenTradingState(
+      tokenAddress
+    );
+    // Only what reaches the venue after the tax is priced
+    const tax = await this.router.calculateTax(
+      tokenAddress,
+      tokenAmount,
+      false
+    );
+
+    if (graduated) {
+      const assetAmount = await this.router.calculateSellProceeds(
+        tokenAddress,
+        tokenAmount
+      );
+      return {
+        tokenAmount,
+        assetAmount,
+        fee: 0n,
+        netAssetAmount: assetAmount,
+        tax,
+        isBondingCurve: false,
+      };
+    }
+
+    const curve = BondingCurve__factory.connect(bondingCurve, this.signer);
+    const [assetAmount, fee] = await curve.calculateSellFee(tokenAmount - tax);
+    return {
+      tokenAmount,
+      assetAmount,
+      fee,
+      netAssetAmount: assetAmount - fee,
+      tax,
+      isBondingCurve: true,
+    };
+  }
+
+  // Tokens needed to receive exactly assetAmountOut (fees included)
+  async quoteSellExactOut(
+    tokenAddress: string,
+    assetAmountOut: bigint
+  ): Promise<bigint> {
+    return this.router.calculateSellAmount(tokenAddress, assetAmountOut);
+  }
+
+  // Trading
+
+  async buy(
+    tokenAddress: string,
+    tokenAmount: bigint,
+    options: TradeOptions = {}
+  ): Promise<BuyResult> {
+    const quote = await this.quoteBuy(tokenAddress, tokenAmount);
+    const maxAssetAmount = this.withSlippageUp(
+      quote.totalAssetAmount,
+      options.slippageBasisPoints
+    );
+    const deadline = options.deadline ?? (await this.defaultDeadline());
+
+    const assetToken = await this.getAssetToken(tokenAddress);
+    await this.ensureAllowance(assetToken, maxAssetAmount);
+
+    const tx = await this.router.buyTokens(
+      tokenAddress,
+      tokenAmount,
+      maxAssetAmount,
+      deadline
+    );
+    return this.waitForTrade<TokensPurchasedEvent.OutputObject>(
+      tx,
+      "TokensPurchased"
+    );
+  }
+
+  async buyExactIn(
+    tokenAddress: string,
+    assetAmountIn: bigint,
+    options: TradeOptions = {}
+  ): Promise<BuyResult> {
+    const expectedTokens = await this.quoteBuyExactIn(
+      tokenAddress,
+      assetAmountIn
+    );
+    const minTokensOut = this.withSlippageDown(
+      expectedTokens,
+      options.slippageBasisPoints
+    );
+    const deadline = options.deadline ?? (await this.defaultDeadline());
+
+    const assetToken = await this.getAssetToken(tokenAddress);
+    await this.ensureAllowance(assetToken, assetAmountIn);
+
+    const tx = await this.router.buyTokensExactIn(
+      tokenAddress,
+      assetAmountIn,
+      minTokensOut,
+      deadline
+    );
+    return this.waitForTrade<TokensPurchasedEvent.OutputObject>(
+      tx,
+      "TokensPurchased"
+    );
+  }
+
+  async sell(
+    tokenAddress: string,
+    tokenAmount: bigint,
+    options: TradeOptions = {}
+  ): Promise<SellResult> {
+    const quote = await this.quoteSell(tokenAddress, tokenAmount);
+    const minAssetAmount = this.withSlippageDown(
+      quote.netAssetAmount,
+      options.slippageBasisPoints
+    );
+    const deadline = options.deadline ?? (await this.defaultDeadline());
+
+    const token = IERC20__factory.connect(tokenAddress, this.signer);
+    await this.ensureAllowance(token, tokenAmount);
+
+    const tx = await this.router.sellTokens(
+      tokenAddress,
+      tokenAmount,
+      minAssetAmount,
+      deadline
+    );
+    return this.waitForTrade<TokensSoldEvent.OutputObject>(tx, "TokensSold");
+  }
+
+  async sellExactOut(
+    tokenAddress: string,
+    assetAmountOut: bigint,
+    options: TradeOptions = {}
+  ): Promise<SellResult> {
+    const expectedTokens = await this.quoteSellExactOut(
+      tokenAddress,
+      assetAmountOut
+    );
+    const maxTokensIn = this.withSlippageUp(
+      expectedTokens,
+      options.slippageBasisPoints
+    );
+    const deadline = options.deadline ?? (await this.defaultDeadline());
+
+    const token = IERC20__factory.connect(tokenAddress, this.signer);
+    await this.ensureAllowance(token, maxTokensIn);
+
+    const tx = await this.router.sellTokensExactOut(
+      tokenAddress,
+      assetAmountOut,
+      maxTokensIn,
+      deadline
+    );
+    return this.waitForTrade<TokensSoldEvent.OutputObject>(tx, "TokensSold");
+  }
+
+  // Deployment
+
+  async deployToken(params: DeployTokenParams): Promise<DeployTokenResult> {
+    const deploymentFee = await this.factory.feePrice();
+    const args = [
+      params.name,
+      params.symbol,
+      params.projectTaxRecipient,
+      params.projectBuyTaxBasisPoints,
+      params.projectSellTaxBasisPoints,
+      params.taxSwapThresholdBasisPoints,
+      params.curveStrategy ?? ZeroAddress,
+      params.quoteAsset ?? ZeroAddress,
+    ] as const;
+    const tx = params.launchConfig
+      ? await this.factory.deployTokenWithParams(...args, params.launchConfig, {
+          value: deploymentFee,
+        })
+      : await this.factory.deployToken(...args, { value: deploymentFee });
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error("Transaction receipt is null");
+
+    const log = this.findLog(
+      receipt.logs,
+      await this.factory.getAddress(),
+      this.factory.interface,
+      "TokenDeployed"
+    );
+    if (!log) throw new Error("TokenDeployed event not found");
+
+    return {
+      hash: tx.hash,
+      receipt,
+      tokenAddress: log.args.tokenAddress,
+      bondingCurveAddress: log.args.bondingCurveAddress,
+      deploymentFee,
+    };
+  }
+
+  // Helpers
+
+  withSlippageUp(amount: bigint, slippageBasisPoints?: number): bigint {
+    const slippage = BigInt(slippageBasisPoints ?? this.slippageBasisPoints);
+    return (amount * (BASIS_POINTS + slippage)) / BASIS_POINTS;
+  }
+
+  withSlippageDown(amount: bigint, slippageBasisPoints?: number): bigint {
+    const slippage = BigInt(slippageBasisPoints ?? this.slippageBasisPoints);
+    return (amount * (BASIS_POINTS - slippage)) / BASIS_POINTS;
+  }
+
+  // Deadlines are relative to chain time rather than the local clock
+  async defaultDeadline(): Promise<bigint> {
+    const block = await this.signer.provider?.getBlock("latest");
+    if (!block) throw new Error("Signer is not connected to a provider");
+    return BigInt(block.timestamp + this.deadlineSeconds);
+  }
+
+  private async ensureAllowance(token: IERC20, amount: bigint): Promise<void> {
+    const owner = await this.signer.getAddress();
+    const spender = await this.router.getAddress();
+    const allowance = await token.allowance(owner, spender);
+    if (allowance < amount) {
+      const approveTx = await token.approve(spender, amount);
+      await approveTx.wait();
+    }
+  }
+
+  private async waitForEvent(
+    tx: ContractTransactionResponse,
+    eventName: string
+  ) {
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error("Transaction receipt is null");
+
+    const log = this.findLog(
+      receipt.logs,
+      await this.router.getAddress(),
+      this.router.interface,
+      eventName
+    );
+    if (!log) throw new Error(`${eventName} event not found`);
+
+    return { receipt, log };
+  }
+
+  // The router's trade event as a BuyResult or SellResult, which carry its
+  // fields but the token address
+  private async waitForTrade<
+    T extends TokensPurchasedEvent.OutputObject | TokensSoldEvent.OutputObject
+  >(
+    tx: ContractTransactionResponse,
+    eventName: "TokensPurchased" | "TokensSold"
+  ): Promise<Omit<T, "tokenAddress"> & Pick<BuyResult, "hash" | "receipt">> {
+    const { receipt, log } = await this.waitForEvent(tx, eventName);
+    const { tokenAddress, ...fields } = log.args.toObject() as T;
+    return { hash: tx.hash, receipt, ...fields };
+  }
+
+  // Decodes the first matching event emitted by the given contract
+  private findLog(
+    logs: ReadonlyArray<Log>,
+    emitter: string,
+    iface: Interface,
+    eventName: string
+  ): LogDescription | undefined {
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== emitter.toLowerCase()) continue;
+      const parsed = iface.parseLog(log);
+      if (parsed?.name === eventName) return parsed;
+    }
+    return undefined;
+  }
+}
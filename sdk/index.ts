@@ -0,0 +1,10 @@
+export {
+  StonkClient,
+  BASIS_POINTS,
+  DEFAULT_SLIPPAGE_BASIS_POINTS,
+  DEFAULT_DEADLINE_SECONDS,
+} from "./StonkClient";
+export * from "./types";
+export * from "./permit";
+export * from "./orders";
+export * from "./nyseCalendar";
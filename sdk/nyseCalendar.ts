@@ -0,0 +1,216 @@
+// Off-chain mirror of the holiday and half-day rules in TradingDaysLibrary. Ids
+// match the Solidity Holiday enum so results can be compared one to one.
+export enum Holiday {
+  NONE,
+  NEW_YEARS_DAY,
+  MLK_DAY,
+  PRESIDENTS_DAY,
+  GOOD_FRIDAY,
+  MEMORIAL_DAY,
+  JUNETEENTH,
+  INDEPENDENCE_DAY,
+  LABOR_DAY,
+  THANKSGIVING,
+  CHRISTMAS_DAY,
+}
+
+export const HOLIDAY_NAMES: Record<Holiday, string> = {
+  [Holiday.NONE]: "Not a Holiday",
+  [Holiday.NEW_YEARS_DAY]: "New Year's Day",
+  [Holiday.MLK_DAY]: "Martin Luther King Jr. Day",
+  [Holiday.PRESIDENTS_DAY]: "Presidents Day",
+  [Holiday.GOOD_FRIDAY]: "Good Friday",
+  [Holiday.MEMORIAL_DAY]: "Memorial Day",
+  [Holiday.JUNETEENTH]: "Juneteenth",
+  [Holiday.INDEPENDENCE_DAY]: "Independence Day",
+  [Holiday.LABOR_DAY]: "Labor Day",
+  [Holiday.THANKSGIVING]: "Thanksgiving",
+  [Holiday.CHRISTMAS_DAY]: "Christmas Day",
+};
+
+const JUNETEENTH_FIRST_YEAR = 2022;
+
+export interface HolidayInfo {
+  holiday: Holiday;
+  observed: boolean;
+}
+
+// Easter Sunday (anonymous Gregorian computus), month is 1-based
+export function easterDate(year: number): { month: number; day: number } {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - Math.floor(b / 4) - g + 15) % 30;
+  const l = (32 + 2 * (b % 4) + 2 * Math.floor(c / 4) - h - (c % 4)) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  return {
+    month: Math.floor((h + l - 7 * m + 114) / 31),
+    day: ((h + l - 7 * m + 114) % 31) + 1,
+  };
+}
+
+function nthWeekday(
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+): number {
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+}
+
+function lastWeekday(year: number, month: number, weekday: number): number {
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  return lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7);
+}
+
+/**
+ * Resolve the NYSE holiday for a calendar date (month is 1-based). Weekend
+ * holidays are reported on their calendar date and on the observed weekday.
+ */
+export function getHoliday(
+  year: number,
+  month: number,
+  day: number
+): HolidayInfo {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const weekday = date.getUTCDay();
+  const hasJuneteenth = year >= JUNETEENTH_FIRST_YEAR;
+  const is = (m: number, d: number) => month === m && day === d;
+  const actual = (holiday: Holiday) => ({ holiday, observed: false });
+  const observed = (holiday: Holiday) => ({ holiday, observed: true });
+
+  if (is(1, 1)) return actual(Holiday.NEW_YEARS_DAY);
+  if (is(6, 19) && hasJuneteenth) return actual(Holiday.JUNETEENTH);
+  if (is(7, 4)) return actual(Holiday.INDEPENDENCE_DAY);
+  if (is(12, 25)) return actual(Holiday.CHRISTMAS_DAY);
+
+  if (weekday === 5) {
+    // No Friday observance for New Year's Day: December 31 stays open
+    if (is(6, 18) && hasJuneteenth) return observed(Holiday.JUNETEENTH);
+    if (is(7, 3)) return observed(Holiday.INDEPENDENCE_DAY);
+    if (is(12, 24)) return observed(Holiday.CHRISTMAS_DAY);
+
+    const easter = easterDate(year);
+    const goodFriday = new Date(
+      Date.UTC(year, easter.month - 1, easter.day - 2)
+    );
+    if (
+      goodFriday.getUTCMonth() === month - 1 &&
+      goodFriday.getUTCDate() === day
+    ) {
+      return actual(Holiday.GOOD_FRIDAY);
+    }
+  }
+
+  if (weekday === 1) {
+    if (is(1, 2)) return observed(Holiday.NEW_YEARS_DAY);
+    if (is(6, 20) && hasJuneteenth) return observed(Holiday.JUNETEENTH);
+    if (is(7, 5)) return observed(Holiday.INDEPENDENCE_DAY);
+    if (is(12, 26)) return observed(Holiday.CHRISTMAS_DAY);
+  }
+
+  if (month === 1 && day === nthWeekday(year, 1, 1, 3))
+    return actual(Holiday.MLK_DAY);
+  if (month === 2 && day === nthWeekday(year, 2, 1, 3))
+    return actual(Holiday.PRESIDENTS_DAY);
+  if (month === 5 && day === lastWeekday(year, 5, 1))
+    return actual(Holiday.MEMORIAL_DAY);
+  if (month === 9 && day === nthWeekday(year, 9, 1, 1))
+    return actual(Holiday.LABOR_DAY);
+  if (month === 11 && day === nthWeekday(year, 11, 4, 4))
+    return actual(Holiday.THANKSGIVING);
+
+  return actual(Holiday.NONE);
+}
+
+/**
+ * NYSE half-days closing at 1:00 PM ET: the day before Independence Day, the
+ * day after Thanksgiving and Christmas Eve, when they are trading days.
+ */
+export function isEarlyClose(
+  year: number,
+  month: number,
+  day: number
+): boolean {
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (weekday === 0 || weekday === 6) return false;
+  if (getHoliday(year, month, day).holiday !== Holiday.NONE) return false;
+
+  if (month === 7 && day === 3) return true;
+  if (month === 12 && day === 24) return true;
+  return month === 11 && day === nthWeekday(year, 11, 4, 4) + 1;
+}
+
+// Same format as TradingDaysLibrary.getCurrentHoliday
+export function getHolidayName(info: HolidayInfo): string {
+  const name = HOLIDAY_NAMES[info.holiday];
+  return info.observed ? `${name} (Observed)` : name;
+}
+
+/**
+ * Weekday market closures for a year as YYYY-MM-DD strings, i.e. the days a
+ * trader would see in the published NYSE holiday schedule.
+ */
+export function getMarketHolidays(year: number): string[] {
+  const closures: string[] = [];
+  for (
+    let date = new Date(Date.UTC(year, 0, 1));
+    date.getUTCFullYear() === year;
+    date.setUTCDate(date.getUTCDate() + 1)
+  ) {
+    const weekday = date.getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const { holiday } = getHoliday(
+      year,
+      date.getUTCMonth() + 1,
+      date.getUTCDate()
+    );
+    if (holiday !== Holiday.NONE) {
+      closures.push(date.toISOString().slice(0, 10));
+    }
+  }
+  return closures;
+}
+
+// Eastern Time offset from UTC in seconds, using the US DST rules since 2007
+function easternOffset(timestamp: number): number {
+  const year = new Date(timestamp * 1000).getUTCFullYear();
+  // 2:00 AM local time: 7:00 UTC in March (EST), 6:00 UTC in November (EDT)
+  const dstStart = Date.UTC(year, 2, nthWeekday(year, 3, 0, 2), 7) / 1000;
+  const dstEnd = Date.UTC(year, 10, nthWeekday(year, 11, 0, 1), 6) / 1000;
+  return timestamp >= dstStart && timestamp < dstEnd ? -4 * 3600 : -5 * 3600;
+}
+
+/**
+ * Unix timestamp of the first 9:30 AM ET open strictly after `timestamp`,
+ * skipping weekends and holidays. Closures scheduled in a MarketCalendar are
+ * not taken into account.
+ */
+export function getNextMarketOpen(timestamp: number): number {
+  const eastern = new Date((timestamp + easternOffset(timestamp)) * 1000);
+  for (let offset = 0; ; offset++) {
+    const date = new Date(
+      Date.UTC(
+        eastern.getUTCFullYear(),
+        eastern.getUTCMonth(),
+        eastern.getUTCDate() + offset
+      )
+    );
+    const weekday = date.getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const { holiday } = getHoliday(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate()
+    );
+    if (holiday !== Holiday.NONE) continue;
+
+    // 9:30 AM is well past the 2:00 AM DST switch, so an EST guess is safe
+    const openEastern = date.getTime() / 1000 + (9 * 60 + 30) * 60;
+    const open = openEastern - easternOffset(openEastern + 5 * 3600);
+    if (open > timestamp) return open;
+  }
+}
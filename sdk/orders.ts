@@ -0,0 +1,100 @@
+import { StonkTradingRouter__factory } from "../typechain-types";
+import { Order, SignedOrder, TypedDataSigner } from "./types";
+
+export const ORDER_TYPES = {
+  Order: [
+    { name: "trader", type: "address" },
+    { name: "token", type: "address" },
+    { name: "isBuy", type: "bool" },
+    { name: "tokenAmount", type: "uint256" },
+    { name: "limitAmount", type: "uint256" },
+    { name: "relayerFee", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const ORDER_AMOUNT_FIELDS = [
+  "tokenAmount",
+  "limitAmount",
+  "relayerFee",
+  "nonce",
+  "deadline",
+] as const;
+
+/**
+ * Signs an order for StonkTradingRouter.executeOrder. The trader is the signer
+ * and, unless given, the nonce is the router's next one for them, so orders
+ * signed ahead of time must be relayed in nonce order.
+ */
+export async function signOrder(
+  signer: TypedDataSigner,
+  router: string,
+  order: Omit<Order, "trader" | "nonce"> & { nonce?: bigint }
+): Promise<SignedOrder> {
+  const contract = StonkTradingRouter__factory.connect(router, signer);
+  const trader = await signer.getAddress();
+  const [, name, version, chainId, verifyingContract] =
+    await contract.eip712Domain();
+  const nonce = order.nonce ?? (await contract.nonces(trader));
+  const signed: Order = { ...order, trader, nonce };
+
+  const signature = await signer.signTypedData(
+    { name, version, chainId, verifyingContract },
+    ORDER_TYPES,
+    signed
+  );
+  return { order: signed, signature };
+}
+
+// JSON has no bigints, so amounts travel to the relayer as decimal strings
+export function serializeSignedOrder({
+  order,
+  signature,
+}: SignedOrder): string {
+  const amounts = Object.fromEntries(
+    ORDER_AMOUNT_FIELDS.map((field) => [field, order[field].toString()])
+  );
+  return JSON.stringify({ order: { ...order, ...amounts }, signature });
+}
+
+export function parseSignedOrder(json: string): SignedOrder {
+  const { order, signature } = JSON.parse(json);
+  if (typeof order !== "object" || typeof signature !== "string") {
+    throw new Error("Expected { order, signature }");
+  }
+  // Coercing would read "false" as a buy
+  if (typeof order.isBuy !== "boolean") {
+    throw new Error("Expected a boolean isBuy");
+  }
+  const amounts = Object.fromEntries(
+    ORDER_AMOUNT_FIELDS.map((field) => [field, BigInt(order[field])])
+  );
+  return {
+    order: {
+      trader: String(order.trader),
+      token: String(order.token),
+      isBuy: order.isBuy,
+      ...amounts,
+    } as Order,
+    signature,
+  };
+}
+
+/**
+ * Posts a signed order to a relayer started with scripts/relayer.ts and
+ * returns the hash of the transaction that executed it.
+ */
+export async function submitOrder(
+  relayerUrl: string,
+  signedOrder: SignedOrder
+): Promise<string> {
+  const response = await fetch(new URL("/orders", relayerUrl), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: serializeSignedOrder(signedOrder),
+  });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error ?? response.statusText);
+  return body.hash;
+}
@@ -0,0 +1,83 @@
+import { randomBytes, Signature, toBigInt } from "ethers";
+import { ERC20Permit__factory } from "../typechain-types";
+import { Permit2Transfer, PermitSignature, TypedDataSigner } from "./types";
+
+// Uniswap's Permit2, deployed at the same address on every chain
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const PERMIT_TRANSFER_FROM_TYPES = {
+  PermitTransferFrom: [
+    { name: "permitted", type: "TokenPermissions" },
+    { name: "spender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  TokenPermissions: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+/**
+ * Signs an EIP-2612 permit letting `spender` pull `value` of `token` from the
+ * signer. The domain comes from the token's EIP-5267 eip712Domain(), so any
+ * OpenZeppelin ERC20Permit works, StonkToken included.
+ */
+export async function signPermit(
+  signer: TypedDataSigner,
+  token: string,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<PermitSignature> {
+  const contract = ERC20Permit__factory.connect(token, signer);
+  const owner = await signer.getAddress();
+  const [, name, version, chainId, verifyingContract] =
+    await contract.eip712Domain();
+  const nonce = await contract.nonces(owner);
+
+  const signature = Signature.from(
+    await signer.signTypedData(
+      { name, version, chainId, verifyingContract },
+      PERMIT_TYPES,
+      { owner, spender, value, nonce, deadline }
+    )
+  );
+  return { value, deadline, v: signature.v, r: signature.r, s: signature.s };
+}
+
+/**
+ * Signs a Permit2 signature transfer of up to `amount` of `token`, redeemable
+ * once by `spender`. Permit2 nonces are unordered, so a random one is used
+ * unless given. The signer must have approved Permit2 for the token.
+ */
+export async function signPermit2Transfer(
+  signer: TypedDataSigner,
+  token: string,
+  spender: string,
+  amount: bigint,
+  deadline: bigint,
+  nonce: bigint = toBigInt(randomBytes(32)),
+  permit2: string = PERMIT2_ADDRESS
+): Promise<Permit2Transfer> {
+  if (!signer.provider) throw new Error("Signer has no provider");
+  const { chainId } = await signer.provider.getNetwork();
+  const permit = { permitted: { token, amount }, nonce, deadline };
+
+  const signature = await signer.signTypedData(
+    { name: "Permit2", chainId, verifyingContract: permit2 },
+    PERMIT_TRANSFER_FROM_TYPES,
+    { ...permit, spender }
+  );
+  return { permit, signature };
+}
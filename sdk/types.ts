@@ -0,0 +1,180 @@
+import { ContractRunner, ContractTransactionReceipt, Signer } from "ethers";
+
+// Any runner that can sign, e.g. an ethers Wallet or a hardhat signer
+export type StonkSigner = ContractRunner & { getAddress(): Promise<string> };
+
+// A signer that can also sign EIP-712 typed data, for permits
+export type TypedDataSigner = StonkSigner & Pick<Signer, "signTypedData">;
+
+// Contract addresses the client talks to
+export interface StonkClientAddresses {
+  router: string;
+  factory: string;
+}
+
+export interface StonkClientOptions {
+  // Default slippage tolerance in basis points (500 = 5%)
+  slippageBasisPoints?: number;
+  // Default deadline offset in seconds from the latest block
+  deadlineSeconds?: number;
+}
+
+export interface TradeOptions {
+  // Overrides the client's default slippage for this trade
+  slippageBasisPoints?: number;
+  // Absolute unix deadline; defaults to latest block + deadlineSeconds
+  deadline?: bigint;
+}
+
+// Mirrors IStonkToken.MarketState
+export enum MarketState {
+  HOLIDAY,
+  WEEKEND,
+  AFTER_HOURS,
+  OPEN,
+  EARLY_CLOSE, // Open, but the session ends at 1:00 PM ET
+  PRE_MARKET, // Extended session from 4:00 AM ET until the open
+  POST_MARKET, // Extended session from the close until 8:00 PM ET
+  HALTED, // Trading paused by the limit-up/limit-down circuit breaker
+}
+
+// Mirrors IStonkToken.MarketHoursEnforcement
+export enum MarketHoursEnforcement {
+  OFF,
+  TRANSFERS_ONLY_TO_FROM_POOLS, // Pool and bonding curve trades only
+  ALL_TRANSFERS,
+}
+
+export interface TokenState {
+  tokenAddress: string;
+  graduated: boolean;
+  bondingCurve: string;
+  uniswapPair: string;
+  marketState: MarketState;
+  // Unix timestamp of today's close, 0 when the market does not open today
+  marketCloseTime: bigint;
+  // Which transfers the token holds to market hours
+  marketHoursEnforcement: MarketHoursEnforcement;
+  // Unix timestamp when the latest circuit breaker halt ends, 0 once trading resumes
+  haltedUntil: bigint;
+  // Bonding curve details, only populated before graduation
+  currentPrice?: bigint;
+  assetReserve?: bigint;
+  graduationThreshold?: bigint;
+}
+
+export interface BuyQuote {
+  tokenAmount: bigint;
+  assetAmount: bigint; // Price before fees
+  fee: bigint; // Bonding curve fee (Uniswap fees are included in assetAmount)
+  totalAssetAmount: bigint; // What the buyer pays
+  tax: bigint; // Tokens the project tax withholds from tokenAmount
+  isBondingCurve: boolean;
+}
+
+export interface SellQuote {
+  tokenAmount: bigint;
+  assetAmount: bigint; // Proceeds before fees, for tokenAmount less tax
+  fee: bigint;
+  netAssetAmount: bigint; // What the seller receives
+  tax: bigint; // Tokens the project tax withholds from tokenAmount
+  isBondingCurve: boolean;
+}
+
+export interface BuyResult {
+  hash: string;
+  receipt: ContractTransactionReceipt;
+  buyer: string;
+  tokenAmount: bigint; // Received, net of transfer tax
+  assetAmount: bigint; // Paid, fee included
+  fee: bigint;
+  tax: bigint;
+  priceAfter: bigint;
+  isBondingCurve: boolean;
+}
+
+export interface SellResult {
+  hash: string;
+  receipt: ContractTransactionReceipt;
+  seller: string;
+  tokenAmount: bigint; // Sent, transfer tax included
+  assetAmount: bigint; // Received, net of fee
+  fee: bigint;
+  tax: bigint;
+  priceAfter: bigint;
+  isBondingCurve: boolean;
+}
+
+export interface DeployTokenParams {
+  name: string;
+  symbol: string;
+  projectTaxRecipient: string;
+  projectBuyTaxBasisPoints: number;
+  projectSellTaxBasisPoints: number;
+  taxSwapThresholdBasisPoints: number;
+  // Approved curve strategy address; defaults to the factory's default
+  curveStrategy?: string;
+  // Allowlisted quote asset address; defaults to the factory's asset token
+  quoteAsset?: string;
+  // Must fall inside the factory's launch config bounds; defaults to the factory's default
+  launchConfig?: LaunchConfig;
+}
+
+// Per-token bonding curve parameters, mirroring BondingCurve.LaunchConfig. The
+// threshold and curve constant are priced in a $1, 6-decimal reference asset; the
+// factory converts them into the quote asset's units at deploy.
+export interface LaunchConfig {
+  graduationThreshold: bigint;
+  assetRate: bigint;
+  curveConstant: bigint;
+  totalSupply: bigint;
+}
+
+export interface DeployTokenResult {
+  hash: string;
+  receipt: ContractTransactionReceipt;
+  tokenAddress: string;
+  bondingCurveAddress: string;
+  deploymentFee: bigint;
+}
+
+// Mirrors StonkTradingRouter.PermitSignature
+export interface PermitSignature {
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// Mirrors ISignatureTransfer.PermitTransferFrom
+export interface Permit2TransferFrom {
+  permitted: { token: string; amount: bigint };
+  nonce: bigint;
+  deadline: bigint;
+}
+
+// A Permit2 signature transfer, passed to the router's *WithPermit2 functions
+export interface Permit2Transfer {
+  permit: Permit2TransferFrom;
+  signature: string;
+}
+
+// Mirrors StonkTradingRouter.Order. limitAmount is the most quote asset a buy
+// spends or the least a sell receives; relayerFee is paid in the quote asset
+export interface Order {
+  trader: string;
+  token: string;
+  isBuy: boolean;
+  tokenAmount: bigint;
+  limitAmount: bigint;
+  relayerFee: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+// An order with the trader's EIP-712 signature, ready for executeOrder
+export interface SignedOrder {
+  order: Order;
+  signature: string;
+}
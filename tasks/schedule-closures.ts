@@ -0,0 +1,101 @@
+import { task, types } from "hardhat/config";
+import * as fs from "fs";
+
+// Shape of the JSON file read by the schedule-closures task
+export interface MarketClosuresFile {
+  closures?: { date: string; reason: string }[];
+  sessionOverrides?: { date: string; open: string; close: string }[];
+}
+
+// "YYYY-MM-DD" to the Eastern Time midnight the MarketCalendar keys dates by
+export function parseCalendarDate(date: string): bigint {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+  }
+  const timestamp = Date.parse(`${date}T00:00:00Z`);
+  if (
+    Number.isNaN(timestamp) ||
+    new Date(timestamp).toISOString().slice(0, 10) !== date
+  ) {
+    throw new Error(`Invalid date "${date}"`);
+  }
+  return BigInt(timestamp / 1000);
+}
+
+// "HH:MM" Eastern Time to minutes after midnight
+export function parseSessionTime(time: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time "${time}", expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+task("schedule-closures", "Schedule market closures from a JSON file")
+  .addParam("calendar", "MarketCalendar contract address")
+  .addParam("file", "Path to the closures JSON file")
+  .addFlag("dryRun", "Print the changes without sending transactions")
+  .addOptionalParam("batchSize", "Closures per transaction", 20, types.int)
+  .setAction(async (args, hre) => {
+    const config: MarketClosuresFile = JSON.parse(
+      fs.readFileSync(args.file, "utf8")
+    );
+    const calendar = await hre.ethers.getContractAt(
+      "MarketCalendar",
+      args.calendar
+    );
+
+    // Skip closures already scheduled with the same reason
+    const scheduled = new Set<bigint>(await calendar.getScheduledClosures());
+    const closures: { date: bigint; reason: string }[] = [];
+    for (const closure of config.closures ?? []) {
+      const date = parseCalendarDate(closure.date);
+      if (
+        scheduled.has(date) &&
+        (await calendar.getClosureReason(date)) === closure.reason
+      ) {
+        console.log(`= ${closure.date} already closed: ${closure.reason}`);
+        continue;
+      }
+      console.log(`+ ${closure.date} closed: ${closure.reason}`);
+      closures.push({ date, reason: closure.reason });
+    }
+
+    const sessionOverrides = (config.sessionOverrides ?? []).map((session) => {
+      console.log(
+        `~ ${session.date} session ${session.open}-${session.close} ET`
+      );
+      return {
+        date: parseCalendarDate(session.date),
+        openMinute: parseSessionTime(session.open),
+        closeMinute: parseSessionTime(session.close),
+      };
+    });
+
+    if (args.dryRun) {
+      console.log("Dry run, no transactions sent");
+      return { closures, sessionOverrides };
+    }
+
+    for (let i = 0; i < closures.length; i += args.batchSize) {
+      const batch = closures.slice(i, i + args.batchSize);
+      const tx = await calendar.scheduleClosures(
+        batch.map((closure) => closure.date),
+        batch.map((closure) => closure.reason)
+      );
+      await tx.wait();
+      console.log(`Scheduled ${batch.length} closure(s) in ${tx.hash}`);
+    }
+
+    for (const session of sessionOverrides) {
+      const tx = await calendar.setSessionOverride(
+        session.date,
+        session.openMinute,
+        session.closeMinute
+      );
+      await tx.wait();
+      console.log(`Set session override in ${tx.hash}`);
+    }
+
+    return { closures, sessionOverrides };
+  });
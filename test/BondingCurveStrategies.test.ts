@@ -0,0 +1,418 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { EventLog } from "ethers";
+import {
+  CurveStrategy,
+  MockERC20,
+  StonkToken,
+  StonkTokenFactory,
+  StonkTradingRouter,
+} from "../typechain-types";
+import { getNextMarketOpen } from "../sdk";
+
+describe("Bonding curve strategies", function () {
+  let factory: StonkTokenFactory;
+  let router: StonkTradingRouter;
+  let assetToken: MockERC20;
+  let owner: SignerWithAddress;
+  let trader: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let snapshot: SnapshotRestorer;
+  let strategies: Record<string, CurveStrategy>;
+
+  const DEPLOYMENT_FEE = ethers.parseEther("0.1");
+  const BONDING_CURVE_FEE_BASIS_POINTS = 300;
+  const RESERVE = ethers.parseEther("1000000000"); // Factory token supply
+  const SCALE = 3_000_000_000_000n; // K normalised by the factory's asset rate
+  const WAD = ethers.parseEther("1");
+
+  // Deterministic xorshift so failures replay
+  function random(seed: bigint) {
+    let state = seed;
+    return (max: bigint) => {
+      state ^= (state << 13n) & 0xffffffffffffffffn;
+      state ^= state >> 7n;
+      state ^= (state << 17n) & 0xffffffffffffffffn;
+      return (state % max) + 1n;
+    };
+  }
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  beforeEach(async function () {
+    [owner, trader, treasury] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    assetToken = await MockERC20.deploy("Mock USDC", "USDC", 6);
+    const MockUniswapFactory = await ethers.getContractFactory(
+      "MockUniswapFactory"
+    );
+    const uniswapFactory = await MockUniswapFactory.deploy();
+    const MockUniswapRouter = await ethers.getContractFactory(
+      "MockUniswapRouter"
+    );
+    const uniswapRouter = await MockUniswapRouter.deploy(
+      await uniswapFactory.getAddress()
+    );
+
+    strategies = {
+      hyperbolic: await (
+        await ethers.getContractFactory("HyperbolicCurve")
+      ).deploy(),
+      "constant product": await (
+        await ethers.getContractFactory("ConstantProductCurve")
+      ).deploy(),
+      linear: await (
+        await ethers.getContractFactory("LinearCurve")
+      ).deploy(ethers.parseEther("9")),
+      exponential: await (
+        await ethers.getContractFactory("ExponentialCurve")
+      ).deploy(ethers.parseEther("5")),
+      sigmoid: await (
+        await ethers.getContractFactory("SigmoidCurve")
+      ).deploy(
+        ethers.parseEther("9"),
+        ethers.parseEther("40"),
+        ethers.parseEther("0.02")
+      ),
+      piecewise: await (
+        await ethers.getContractFactory("PiecewiseLinearCurve")
+      ).deploy(
+        [0n, ethers.parseEther("0.01"), ethers.parseEther("0.03")],
+        [WAD, ethers.parseEther("2"), ethers.parseEther("6")]
+      ),
+    };
+
+    const tokenDeployer = await (
+      await ethers.getContractFactory("StonkTokenDeployer")
+    ).deploy();
+    const bondingCurveDeployer = await (
+      await ethers.getContractFactory("BondingCurveDeployer")
+    ).deploy();
+    const StonkTokenFactory = await ethers.getContractFactory(
+      "StonkTokenFactory"
+    );
+    factory = await StonkTokenFactory.deploy(
+      treasury.address,
+      DEPLOYMENT_FEE,
+      await uniswapFactory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await assetToken.getAddress(),
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await strategies.hyperbolic.getAddress()
+    );
+    const StonkTradingRouter = await ethers.getContractFactory(
+      "StonkTradingRouter"
+    );
+    router = await StonkTradingRouter.deploy(
+      await factory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await uniswapFactory.getAddress(),
+      await assetToken.getAddress()
+    );
+    await factory.setTradingRouter(await router.getAddress());
+
+    for (const strategy of Object.values(strategies)) {
+      await factory.setCurveStrategyApproved(await strategy.getAddress(), true);
+    }
+
+    await assetToken.mint(trader.address, ethers.parseUnits("1000000", 6));
+    await assetToken
+      .connect(trader)
+      .approve(await router.getAddress(), ethers.MaxUint256);
+  });
+
+  async function deployWithStrategy(strategy: string) {
+    const tx = await factory.deployToken(
+      "Curve Token",
+      "CURVE",
+      treasury.address,
+      0, // No buy tax
+      0, // No sell tax
+      1000,
+      strategy,
+      ethers.ZeroAddress, // Default quote asset
+      { value: DEPLOYMENT_FEE }
+    );
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error("Transaction receipt is null");
+    const eventLog = receipt.logs.find(
+      (log: any): log is EventLog =>
+        log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+    );
+    if (!eventLog) throw new Error("TokenDeployed event not found");
+    const [tokenAddress, bondingCurveAddress] = eventLog.args;
+
+    const token = await ethers.getContractAt("StonkToken", tokenAddress);
+    await token
+      .connect(trader)
+      .approve(await router.getAddress(), ethers.MaxUint256);
+    return {
+      token,
+      bondingCurve: await ethers.getContractAt(
+        "BondingCurve",
+        bondingCurveAddress
+      ),
+    };
+  }
+
+  // Buys with a random budget, then sells everything back in up to three chunks
+  async function roundTrips(token: StonkToken, seed: bigint, trips: number) {
+    const next = random(seed);
+    const tokenAddress = await token.getAddress();
+
+    for (let i = 0; i < trips; i++) {
+      const deadline = (await time.latest()) + 300;
+      const assetBefore = await assetToken.balanceOf(trader.address);
+
+      await router
+        .connect(trader)
+        .buyTokensExactIn(
+          tokenAddress,
+          next(ethers.parseUnits("20000", 6)),
+          0,
+          deadline
+        );
+
+      let remaining = await token.balanceOf(trader.address);
+      for (let chunks = 0; remaining > 0n; chunks++) {
+        const chunk = chunks < 2 ? next(remaining) : remaining;
+        await router
+          .connect(trader)
+          .sellTokens(tokenAddress, chunk, 0, deadline);
+        remaining -= chunk;
+      }
+
+      const assetAfter = await assetToken.balanceOf(trader.address);
+      expect(assetAfter).to.be.lte(assetBefore);
+    }
+  }
+
+  describe("Strategy selection", function () {
+    it("should use the default strategy when none is given", async function () {
+      const { bondingCurve } = await deployWithStrategy(ethers.ZeroAddress);
+      expect(await bondingCurve.curveStrategy()).to.equal(
+        await factory.defaultCurveStrategy()
+      );
+    });
+
+    it("should reject strategies the owner has not approved", async function () {
+      const unapproved = await (
+        await ethers.getContractFactory("LinearCurve")
+      ).deploy(WAD);
+
+      await expect(
+        deployWithStrategy(await unapproved.getAddress())
+      ).to.be.revertedWithCustomError(factory, "CurveStrategyNotApproved");
+    });
+
+    it("should manage approvals and the default", async function () {
+      const linear = await strategies.linear.getAddress();
+      const hyperbolic = await strategies.hyperbolic.getAddress();
+
+      await expect(
+        factory.connect(trader).setCurveStrategyApproved(linear, false)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(
+        factory.setCurveStrategyApproved(hyperbolic, false)
+      ).to.be.revertedWithCustomError(factory, "CurveStrategyNotApproved");
+
+      await expect(factory.setDefaultCurveStrategy(linear))
+        .to.emit(factory, "DefaultCurveStrategyUpdated")
+        .withArgs(hyperbolic, linear);
+      await expect(factory.setCurveStrategyApproved(hyperbolic, false))
+        .to.emit(factory, "CurveStrategyApprovalUpdated")
+        .withArgs(hyperbolic, false);
+
+      const { bondingCurve } = await deployWithStrategy(ethers.ZeroAddress);
+      expect(await bondingCurve.curveStrategy()).to.equal(linear);
+    });
+
+    it("should validate curve parameters", async function () {
+      const ExponentialCurve = await ethers.getContractFactory(
+        "ExponentialCurve"
+      );
+      await expect(ExponentialCurve.deploy(0)).to.be.revertedWithCustomError(
+        ExponentialCurve,
+        "InvalidCurveParameters"
+      );
+
+      const PiecewiseLinearCurve = await ethers.getContractFactory(
+        "PiecewiseLinearCurve"
+      );
+      await expect(
+        PiecewiseLinearCurve.deploy([WAD, 0n], [WAD, WAD])
+      ).to.be.revertedWithCustomError(
+        PiecewiseLinearCurve,
+        "InvalidCurveParameters"
+      );
+      await expect(
+        PiecewiseLinearCurve.deploy([0n], [WAD, WAD])
+      ).to.be.revertedWithCustomError(
+        PiecewiseLinearCurve,
+        "InvalidCurveParameters"
+      );
+    });
+  });
+
+  describe("Pricing", function () {
+    it("should start at scale / reserve", async function () {
+      for (const [shape, strategy] of Object.entries(strategies)) {
+        // The logistic curve is already partway up at the start
+        if (shape === "sigmoid") continue;
+        expect(await strategy.spotPrice(0, RESERVE, SCALE), shape).to.equal(
+          (SCALE * WAD) / RESERVE
+        );
+      }
+    });
+
+    it("should charge the integral of the spot price", async function () {
+      const width = RESERVE / 1000n;
+      // An 18 decimal asset, so spot prices are not rounded to a few digits
+      const scale = SCALE * 10n ** 12n;
+
+      for (const [shape, strategy] of Object.entries(strategies)) {
+        for (const sold of [0n, RESERVE / 200n, RESERVE / 40n]) {
+          const before: bigint = await strategy.cumulativeCost(
+            sold,
+            RESERVE,
+            scale
+          );
+          const after: bigint = await strategy.cumulativeCost(
+            sold + width,
+            RESERVE,
+            scale
+          );
+          const cost = after - before;
+
+          // Simpson's rule on the spot price
+          const [start, middle, end]: bigint[] = await Promise.all(
+            [sold, sold + width / 2n, sold + width].map((x) =>
+              strategy.spotPrice(x, RESERVE, scale)
+            )
+          );
+          const simpson = ((start + 4n * middle + end) * width) / (6n * WAD);
+
+          const difference = cost > simpson ? cost - simpson : simpson - cost;
+          expect(difference * 100_000n, shape).to.be.lte(simpson);
+        }
+      }
+    });
+
+    it("should never quote more tokens than the cost covers", async function () {
+      const next = random(0x5eedn);
+
+      for (const [shape, strategy] of Object.entries(strategies)) {
+        for (let i = 0; i < 5; i++) {
+          const cost = next(SCALE / 10n);
+          const sold = await strategy.soldForCost(cost, RESERVE, SCALE);
+
+          expect(
+            await strategy.cumulativeCost(sold, RESERVE, SCALE),
+            shape
+          ).to.be.lte(cost);
+          expect(
+            await strategy.cumulativeCost(sold + 1n, RESERVE, SCALE),
+            shape
+          ).to.be.gte(await strategy.cumulativeCost(sold, RESERVE, SCALE));
+        }
+      }
+    });
+
+    it("should price the default curve at K / supply", async function () {
+      const strategy = strategies.hyperbolic;
+      const sold = RESERVE / 4n;
+      expect(await strategy.spotPrice(sold, RESERVE, SCALE)).to.equal(
+        (SCALE * WAD) / (RESERVE - sold)
+      );
+      // ln(4 / 3) of the scale for the first quarter of the reserve
+      expect(await strategy.cumulativeCost(sold, RESERVE, SCALE)).to.be.closeTo(
+        (SCALE * 287682072451780927n) / WAD,
+        1n
+      );
+    });
+
+    it("should invert the cost in closed form where the shape has one", async function () {
+      const next = random(0xc105edn);
+
+      for (const shape of ["hyperbolic", "constant product", "exponential"]) {
+        const strategy = strategies[shape];
+        for (let i = 0; i < 5; i++) {
+          const cost = next(SCALE / 10n);
+          const sold = await strategy.soldForCost(cost, RESERVE, SCALE);
+
+          // Within a millionth of the largest amount the cost covers, past
+          // the tokens one asset unit buys
+          const slack = sold / 1_000_000n + WAD / 1000n;
+          expect(
+            await strategy.cumulativeCost(sold + slack, RESERVE, SCALE),
+            shape
+          ).to.be.gt(cost);
+        }
+      }
+    });
+
+    it("should only buy back tokens the curve has sold", async function () {
+      const { bondingCurve } = await deployWithStrategy(ethers.ZeroAddress);
+
+      await expect(
+        bondingCurve.calculateSaleProceeds(1n)
+      ).to.be.revertedWithCustomError(bondingCurve, "InvalidAmount");
+    });
+  });
+
+  describe("Round trips", function () {
+    const SHAPES = [
+      "hyperbolic",
+      "constant product",
+      "linear",
+      "exponential",
+      "sigmoid",
+      "piecewise",
+    ];
+
+    for (const [index, shape] of SHAPES.entries()) {
+      it(`should never profit the trader on the ${shape} curve without fees`, async function () {
+        await factory.setBondingCurveFee(0);
+        const { token, bondingCurve } = await deployWithStrategy(
+          await strategies[shape].getAddress()
+        );
+
+        await roundTrips(token, BigInt(index + 1) * 0x9e3779b9n, 6);
+
+        // Everything sold back, so the curve is where it started
+        expect(await token.balanceOf(await bondingCurve.getAddress())).to.equal(
+          RESERVE
+        );
+      });
+
+      it(`should lose the fees on the ${shape} curve`, async function () {
+        const { token } = await deployWithStrategy(
+          await strategies[shape].getAddress()
+        );
+        const assetBefore = await assetToken.balanceOf(trader.address);
+
+        await roundTrips(token, BigInt(index + 7) * 0x85ebca6bn, 3);
+
+        expect(await assetToken.balanceOf(trader.address)).to.be.lt(
+          assetBefore
+        );
+      });
+    }
+  });
+});
@@ -0,0 +1,388 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { EventLog } from "ethers";
+import {
+  LimitOrderBook,
+  MockERC20,
+  StonkToken,
+  StonkTokenFactory,
+  StonkTradingRouter,
+} from "../typechain-types";
+import { getNextMarketOpen } from "../sdk";
+
+describe("LimitOrderBook", function () {
+  let factory: StonkTokenFactory;
+  let router: StonkTradingRouter;
+  let book: LimitOrderBook;
+  let assetToken: MockERC20;
+  let stonkToken: StonkToken;
+  let owner: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let tokenAddress: string;
+  let bookAddress: string;
+  let snapshot: SnapshotRestorer;
+
+  const DEPLOYMENT_FEE = ethers.parseEther("0.1"); // 0.1 ETH
+  const BONDING_CURVE_FEE_BASIS_POINTS = 300; // 3% fee
+  const TOKEN_AMOUNT = ethers.parseEther("1000000");
+  const BOUNTY = ethers.parseUnits("1", 6);
+
+  // Mirrors LimitOrderBook.TimeInForce and OrderStatus
+  const GOOD_TILL_CANCEL = 0;
+  const DAY = 1;
+  const OPEN = 1;
+  const FILLED = 2;
+  const CANCELLED = 3;
+
+  // One hour before the next open is pre-market, so the market is closed
+  async function moveToPreMarket() {
+    const nextOpen = getNextMarketOpen(await time.latest());
+    await time.increaseTo(nextOpen - 3600);
+    return nextOpen;
+  }
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  beforeEach(async function () {
+    [owner, buyer, seller, keeper, treasury] = await ethers.getSigners();
+
+    // Factory tokens hold bonding curve trades to market hours
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    assetToken = await MockERC20.deploy("Mock USDC", "USDC", 6);
+    await assetToken.mint(buyer.address, ethers.parseUnits("100000", 6));
+    await assetToken.mint(seller.address, ethers.parseUnits("100000", 6));
+
+    const MockUniswapFactory = await ethers.getContractFactory(
+      "MockUniswapFactory"
+    );
+    const uniswapFactory = await MockUniswapFactory.deploy();
+    const MockUniswapRouter = await ethers.getContractFactory(
+      "MockUniswapRouter"
+    );
+    const uniswapRouter = await MockUniswapRouter.deploy(
+      await uniswapFactory.getAddress()
+    );
+
+    const StonkTokenDeployer = await ethers.getContractFactory(
+      "StonkTokenDeployer"
+    );
+    const tokenDeployer = await StonkTokenDeployer.deploy();
+    const BondingCurveDeployer = await ethers.getContractFactory(
+      "BondingCurveDeployer"
+    );
+    const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+    const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+    const curveStrategy = await HyperbolicCurve.deploy();
+
+    const StonkTokenFactory = await ethers.getContractFactory(
+      "StonkTokenFactory"
+    );
+    factory = await StonkTokenFactory.deploy(
+      treasury.address,
+      DEPLOYMENT_FEE,
+      await uniswapFactory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await assetToken.getAddress(),
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await curveStrategy.getAddress()
+    );
+    const StonkTradingRouter = await ethers.getContractFactory(
+      "StonkTradingRouter"
+    );
+    router = await StonkTradingRouter.deploy(
+      await factory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await uniswapFactory.getAddress(),
+      await assetToken.getAddress()
+    );
+    await factory.setTradingRouter(await router.getAddress());
+
+    const LimitOrderBook = await ethers.getContractFactory("LimitOrderBook");
+    book = await LimitOrderBook.deploy(await router.getAddress());
+    bookAddress = await book.getAddress();
+
+    const tx = await factory.deployToken(
+      "Test Token",
+      "TEST",
+      treasury.address,
+      0, // No buy tax
+      0, // No sell tax
+      1000,
+      ethers.ZeroAddress, // Default curve strategy
+      ethers.ZeroAddress, // Default quote asset
+      { value: DEPLOYMENT_FEE }
+    );
+    const receipt = await tx.wait();
+    const eventLog = receipt?.logs.find(
+      (log): log is EventLog =>
+        log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+    );
+    if (!eventLog) throw new Error("TokenDeployed event not found");
+    tokenAddress = eventLog.args[0];
+    stonkToken = await ethers.getContractAt("StonkToken", tokenAddress);
+
+    // Give the seller an inventory while the market is open
+    await assetToken
+      .connect(seller)
+      .approve(await router.getAddress(), ethers.MaxUint256);
+    await router
+      .connect(seller)
+      .buyTokensExactIn(
+        tokenAddress,
+        ethers.parseUnits("1000", 6),
+        0,
+        (await time.latest()) + 300
+      );
+
+    await assetToken.connect(buyer).approve(bookAddress, ethers.MaxUint256);
+    await stonkToken.connect(seller).approve(bookAddress, ethers.MaxUint256);
+  });
+
+  async function placeBuy(limitAmount: bigint, timeInForce = GOOD_TILL_CANCEL) {
+    await book
+      .connect(buyer)
+      .placeOrder(
+        tokenAddress,
+        true,
+        TOKEN_AMOUNT,
+        limitAmount,
+        BOUNTY,
+        timeInForce
+      );
+    return (await book.nextOrderId()) - 1n;
+  }
+
+  describe("Placing orders", function () {
+    it("should escrow buy and sell orders", async function () {
+      const limitAmount = ethers.parseUnits("500", 6);
+      await expect(
+        book
+          .connect(buyer)
+          .placeOrder(
+            tokenAddress,
+            true,
+            TOKEN_AMOUNT,
+            limitAmount,
+            BOUNTY,
+            GOOD_TILL_CANCEL
+          )
+      )
+        .to.emit(book, "OrderPlaced")
+        .withArgs(
+          0,
+          buyer.address,
+          tokenAddress,
+          true,
+          TOKEN_AMOUNT,
+          limitAmount,
+          BOUNTY,
+          0
+        );
+      expect(await assetToken.balanceOf(bookAddress)).to.equal(
+        limitAmount + BOUNTY
+      );
+
+      const tokenAmount = (await stonkToken.balanceOf(seller.address)) / 2n;
+      await book
+        .connect(seller)
+        .placeOrder(
+          tokenAddress,
+          false,
+          tokenAmount,
+          limitAmount,
+          BOUNTY,
+          GOOD_TILL_CANCEL
+        );
+      expect(await stonkToken.balanceOf(bookAddress)).to.equal(tokenAmount);
+
+      const order = await book.getOrder(1);
+      expect(order.owner).to.equal(seller.address);
+      expect(order.isBuy).to.be.false;
+      expect(order.tokenAmount).to.equal(tokenAmount);
+      expect(order.status).to.equal(OPEN);
+    });
+
+    it("should reject zero amounts and unknown tokens", async function () {
+      await expect(
+        book
+          .connect(buyer)
+          .placeOrder(tokenAddress, true, 0, 1, 0, GOOD_TILL_CANCEL)
+      ).to.be.revertedWithCustomError(book, "InvalidAmount");
+      await expect(
+        book
+          .connect(buyer)
+          .placeOrder(tokenAddress, true, TOKEN_AMOUNT, 0, 0, GOOD_TILL_CANCEL)
+      ).to.be.revertedWithCustomError(book, "InvalidAmount");
+      await expect(
+        book
+          .connect(buyer)
+          .placeOrder(
+            await assetToken.getAddress(),
+            true,
+            TOKEN_AMOUNT,
+            1,
+            0,
+            GOOD_TILL_CANCEL
+          )
+      ).to.be.revertedWithCustomError(book, "TokenNotFound");
+    });
+  });
+
+  describe("Filling orders", function () {
+    it("should fill a buy at or below its limit and pay the keeper", async function () {
+      const cost = await router.calculateBuyPrice(tokenAddress, TOKEN_AMOUNT);
+      const limitAmount = cost * 2n;
+      const balanceBefore = await assetToken.balanceOf(buyer.address);
+      const orderId = await placeBuy(limitAmount);
+      const quote = await book.quoteOrder(orderId);
+      expect(await book.canFill(orderId)).to.be.true;
+
+      await expect(book.connect(keeper).fillOrder(orderId))
+        .to.emit(book, "OrderFilled")
+        .withArgs(orderId, keeper.address, quote, BOUNTY);
+
+      expect(await stonkToken.balanceOf(buyer.address)).to.equal(TOKEN_AMOUNT);
+      expect(await assetToken.balanceOf(buyer.address)).to.equal(
+        balanceBefore - quote - BOUNTY
+      );
+      expect(await assetToken.balanceOf(keeper.address)).to.equal(BOUNTY);
+      expect(await assetToken.balanceOf(bookAddress)).to.equal(0);
+      expect((await book.getOrder(orderId)).status).to.equal(FILLED);
+
+      await expect(
+        book.connect(keeper).fillOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "OrderNotOpen");
+    });
+
+    it("should rest a sell until the price crosses its limit", async function () {
+      const tokenAmount = (await stonkToken.balanceOf(seller.address)) / 2n;
+      const proceeds = await router.calculateSellProceeds(
+        tokenAddress,
+        tokenAmount
+      );
+      // Above today's net proceeds, which are after the 3% curve fee
+      const limitAmount = (proceeds * 99n) / 100n;
+      await book
+        .connect(seller)
+        .placeOrder(
+          tokenAddress,
+          false,
+          tokenAmount,
+          limitAmount,
+          BOUNTY,
+          GOOD_TILL_CANCEL
+        );
+
+      expect(await book.canFill(0)).to.be.false;
+      await expect(
+        book.connect(keeper).fillOrder(0)
+      ).to.be.revertedWithCustomError(book, "LimitNotReached");
+
+      // A large buy lifts the curve price past the limit
+      await assetToken
+        .connect(buyer)
+        .approve(await router.getAddress(), ethers.MaxUint256);
+      await router
+        .connect(buyer)
+        .buyTokensExactIn(
+          tokenAddress,
+          ethers.parseUnits("80000", 6),
+          0,
+          (await time.latest()) + 300
+        );
+      expect(await book.canFill(0)).to.be.true;
+
+      const balanceBefore = await assetToken.balanceOf(seller.address);
+      await book.connect(keeper).fillOrder(0);
+      const received =
+        (await assetToken.balanceOf(seller.address)) - balanceBefore;
+      expect(received).to.be.gte(limitAmount);
+      expect(await assetToken.balanceOf(keeper.address)).to.equal(BOUNTY);
+      expect(await stonkToken.balanceOf(bookAddress)).to.equal(0);
+    });
+
+    it("should fill orders placed before the open once the market opens", async function () {
+      const nextOpen = await moveToPreMarket();
+      const cost = await router.calculateBuyPrice(tokenAddress, TOKEN_AMOUNT);
+      const orderId = await placeBuy(cost * 2n, DAY);
+
+      expect(await book.canFill(orderId)).to.be.false;
+      await expect(
+        book.connect(keeper).fillOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "MarketClosed");
+
+      await time.increaseTo(nextOpen);
+      expect(await book.canFill(orderId)).to.be.true;
+      await book.connect(keeper).fillOrder(orderId);
+      expect(await stonkToken.balanceOf(buyer.address)).to.equal(TOKEN_AMOUNT);
+    });
+  });
+
+  describe("Expiry and cancellation", function () {
+    it("should expire day orders at the market close", async function () {
+      const cost = await router.calculateBuyPrice(tokenAddress, TOKEN_AMOUNT);
+      const balanceBefore = await assetToken.balanceOf(buyer.address);
+      const orderId = await placeBuy(cost * 2n, DAY);
+      const closeTime = await stonkToken.getMarketCloseTime();
+      expect((await book.getOrder(orderId)).expiry).to.equal(closeTime);
+
+      await time.increaseTo(closeTime);
+      expect(await book.canFill(orderId)).to.be.false;
+      await expect(
+        book.connect(keeper).fillOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "OrderExpired");
+
+      // Anyone may return an expired order's escrow to its owner
+      await expect(book.connect(keeper).cancelOrder(orderId))
+        .to.emit(book, "OrderCancelled")
+        .withArgs(orderId, keeper.address);
+      expect(await assetToken.balanceOf(buyer.address)).to.equal(balanceBefore);
+
+      // After the close there is no session left for a day order
+      await expect(
+        book
+          .connect(buyer)
+          .placeOrder(tokenAddress, true, TOKEN_AMOUNT, cost, 0, DAY)
+      ).to.be.revertedWithCustomError(book, "NoSessionToday");
+    });
+
+    it("should only let the owner cancel a live order", async function () {
+      const balanceBefore = await assetToken.balanceOf(buyer.address);
+      const orderId = await placeBuy(ethers.parseUnits("500", 6));
+
+      await expect(
+        book.connect(keeper).cancelOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "NotOrderOwner");
+
+      await book.connect(buyer).cancelOrder(orderId);
+      expect(await assetToken.balanceOf(buyer.address)).to.equal(balanceBefore);
+      expect((await book.getOrder(orderId)).status).to.equal(CANCELLED);
+
+      await expect(
+        book.connect(buyer).cancelOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "OrderNotOpen");
+      await expect(
+        book.connect(keeper).fillOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "OrderNotOpen");
+    });
+  });
+});
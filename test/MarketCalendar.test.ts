@@ -0,0 +1,316 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { MarketCalendar, StonkToken } from "../typechain-types";
+
+// Calendar dates are Eastern Time midnights encoded as UTC
+function calendarDate(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 1000;
+}
+
+describe("MarketCalendar", function () {
+  let calendar: MarketCalendar;
+  let token: StonkToken;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let snapshot: SnapshotRestorer;
+
+  const TAX_PARAMS = {
+    projectBuyTaxBasisPoints: 0,
+    projectSellTaxBasisPoints: 0,
+    taxSwapThresholdBasisPoints: 0,
+    projectTaxRecipient: ethers.ZeroAddress,
+  };
+
+  // Tests below move the chain clock; rewind it for the files that follow
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  beforeEach(async function () {
+    [owner, user1] = await ethers.getSigners();
+
+    const MarketCalendar = await ethers.getContractFactory("MarketCalendar");
+    calendar = await MarketCalendar.deploy(owner.address);
+
+    const StonkToken = await ethers.getContractFactory("StonkToken");
+    token = await StonkToken.deploy(
+      owner.address,
+      "NYSE Stock Token",
+      "NYSE",
+      ethers.parseEther("1000000"),
+      owner.address,
+      TAX_PARAMS,
+      await calendar.getAddress(),
+      2, // ALL_TRANSFERS
+      ethers.ZeroAddress, // no trading router
+      ethers.ZeroAddress // no market-wide circuit breaker
+    );
+  });
+
+  describe("Closures", function () {
+    it("should schedule and cancel a closure", async function () {
+      const date = calendarDate("2027-03-10");
+
+      await expect(calendar.scheduleClosure(date, "Day of Mourning"))
+        .to.emit(calendar, "ClosureScheduled")
+        .withArgs(date, "Day of Mourning");
+
+      expect(await calendar.isClosed(date + 11 * 3600)).to.be.true;
+      expect(await calendar.getClosureReason(date + 11 * 3600)).to.equal(
+        "Day of Mourning"
+      );
+      expect(await calendar.getScheduledClosures()).to.deep.equal([
+        BigInt(date),
+      ]);
+
+      await expect(calendar.cancelClosure(date))
+        .to.emit(calendar, "ClosureCancelled")
+        .withArgs(date);
+
+      expect(await calendar.isClosed(date)).to.be.false;
+      expect(await calendar.getScheduledClosures()).to.deep.equal([]);
+    });
+
+    it("should schedule closures in batches", async function () {
+      const dates = [calendarDate("2027-03-10"), calendarDate("2027-03-11")];
+
+      await calendar.scheduleClosures(dates, ["Storm", "Storm"]);
+
+      expect(await calendar.getScheduledClosures()).to.deep.equal(
+        dates.map(BigInt)
+      );
+      await expect(
+        calendar.scheduleClosures(dates, ["Storm"])
+      ).to.be.revertedWithCustomError(calendar, "ArraysLengthMismatch");
+    });
+
+    it("should reject dates that are not midnight", async function () {
+      await expect(
+        calendar.scheduleClosure(calendarDate("2027-03-10") + 1, "Storm")
+      ).to.be.revertedWithCustomError(calendar, "InvalidDate");
+    });
+
+    it("should revert when cancelling an unscheduled closure", async function () {
+      await expect(
+        calendar.cancelClosure(calendarDate("2027-03-10"))
+      ).to.be.revertedWithCustomError(calendar, "ClosureNotScheduled");
+    });
+
+    it("should only allow the owner to change the calendar", async function () {
+      const date = calendarDate("2027-03-10");
+
+      await expect(
+        calendar.connect(user1).scheduleClosure(date, "Storm")
+      ).to.be.revertedWithCustomError(calendar, "OwnableUnauthorizedAccount");
+      await expect(
+        calendar.connect(user1).setSessionOverride(date, 570, 780)
+      ).to.be.revertedWithCustomError(calendar, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Session overrides", function () {
+    it("should set and clear a session override", async function () {
+      const date = calendarDate("2027-03-12");
+
+      await expect(calendar.setSessionOverride(date, 660, 960))
+        .to.emit(calendar, "SessionOverrideSet")
+        .withArgs(date, 660, 960);
+
+      const [hasOverride, openMinute, closeMinute] =
+        await calendar.getSessionOverride(date + 12 * 3600);
+      expect(hasOverride).to.be.true;
+      expect(openMinute).to.equal(660);
+      expect(closeMinute).to.equal(960);
+      expect(await calendar.getSessionOverrideDates()).to.deep.equal([
+        BigInt(date),
+      ]);
+
+      await expect(calendar.clearSessionOverride(date))
+        .to.emit(calendar, "SessionOverrideCleared")
+        .withArgs(date);
+      expect((await calendar.getSessionOverride(date))[0]).to.be.false;
+    });
+
+    it("should reject empty or out of range sessions", async function () {
+      const date = calendarDate("2027-03-12");
+
+      await expect(
+        calendar.setSessionOverride(date, 960, 960)
+      ).to.be.revertedWithCustomError(calendar, "InvalidSession");
+      await expect(
+        calendar.setSessionOverride(date, 570, 24 * 60 + 1)
+      ).to.be.revertedWithCustomError(calendar, "InvalidSession");
+    });
+
+    it("should revert when clearing an unset override", async function () {
+      await expect(
+        calendar.clearSessionOverride(calendarDate("2027-03-12"))
+      ).to.be.revertedWithCustomError(calendar, "SessionOverrideNotSet");
+    });
+  });
+
+  describe("StonkToken market state - Time Mocked Tests", function () {
+    it("Should report an ad-hoc closure as a holiday", async function () {
+      await calendar.scheduleClosure(
+        calendarDate("2027-03-10"),
+        "National Day of Mourning"
+      );
+
+      // Wednesday, March 10, 2027, 11:00 AM ET (EST)
+      await time.increaseTo(
+        new Date("2027-03-10T16:00:00Z").getTime() / 1000 // 11 AM ET = 4 PM UTC
+      );
+
+      expect(Number(await token.getMarketState())).to.equal(0); // HOLIDAY
+      expect(await token.getCurrentHoliday()).to.equal(
+        "National Day of Mourning"
+      );
+      expect(await token.isMarketOpen()).to.be.false;
+      expect(await token.getMarketCloseTime()).to.equal(0);
+    });
+
+    it("Should trade normally once a closure is cancelled", async function () {
+      const date = calendarDate("2027-03-11");
+      await calendar.scheduleClosure(date, "Storm");
+      await calendar.cancelClosure(date);
+
+      // Thursday, March 11, 2027, 11:00 AM ET (EST)
+      await time.increaseTo(
+        new Date("2027-03-11T16:00:00Z").getTime() / 1000 // 11 AM ET = 4 PM UTC
+      );
+
+      expect(Number(await token.getMarketState())).to.equal(3); // OPEN
+      expect(await token.getCurrentHoliday()).to.equal("Not a Holiday");
+    });
+
+    it("Should open late when the session override delays the open", async function () {
+      // Friday, March 12, 2027: open at 11:00 AM ET instead of 9:30 AM
+      await calendar.setSessionOverride(calendarDate("2027-03-12"), 660, 960);
+
+      await time.increaseTo(
+        new Date("2027-03-12T15:30:00Z").getTime() / 1000 // 10:30 AM ET = 3:30 PM UTC
+      );
+      expect(Number(await token.getMarketState())).to.equal(5); // PRE_MARKET
+
+      await time.increaseTo(
+        new Date("2027-03-12T16:30:00Z").getTime() / 1000 // 11:30 AM ET = 4:30 PM UTC
+      );
+      expect(Number(await token.getMarketState())).to.equal(3); // OPEN
+      expect(await token.getMarketCloseTime()).to.equal(
+        new Date("2027-03-12T21:00:00Z").getTime() / 1000 // 4 PM ET
+      );
+    });
+
+    it("Should close early when the session override ends before 4:00 PM ET", async function () {
+      // Monday, March 15, 2027 (EDT): close at 12:00 PM ET
+      await calendar.setSessionOverride(calendarDate("2027-03-15"), 570, 720);
+
+      await time.increaseTo(
+        new Date("2027-03-15T15:00:00Z").getTime() / 1000 // 11 AM ET = 3 PM UTC
+      );
+      expect(Number(await token.getMarketState())).to.equal(4); // EARLY_CLOSE
+      expect(await token.getMarketCloseTime()).to.equal(
+        new Date("2027-03-15T16:00:00Z").getTime() / 1000 // 12 PM ET = 4 PM UTC
+      );
+
+      await time.increaseTo(
+        new Date("2027-03-15T16:30:00Z").getTime() / 1000 // 12:30 PM ET = 4:30 PM UTC
+      );
+      expect(Number(await token.getMarketState())).to.equal(6); // POST_MARKET
+    });
+
+    it("Should keep the rule-based holiday name on scheduled holidays", async function () {
+      await calendar.scheduleClosure(calendarDate("2027-03-26"), "Storm");
+
+      // Good Friday, March 26, 2027, 11:00 AM ET (EDT)
+      await time.increaseTo(
+        new Date("2027-03-26T15:00:00Z").getTime() / 1000 // 11 AM ET = 3 PM UTC
+      );
+
+      expect(Number(await token.getMarketState())).to.equal(0); // HOLIDAY
+      expect(await token.getCurrentHoliday()).to.equal("Good Friday");
+    });
+  });
+
+  describe("schedule-closures task", function () {
+    let closuresFile: string;
+
+    beforeEach(function () {
+      closuresFile = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "closures-")),
+        "closures.json"
+      );
+      fs.writeFileSync(
+        closuresFile,
+        JSON.stringify({
+          closures: [
+            { date: "2027-03-10", reason: "National Day of Mourning" },
+            { date: "2027-03-11", reason: "Storm" },
+          ],
+          sessionOverrides: [
+            { date: "2027-03-12", open: "11:00", close: "16:00" },
+          ],
+        })
+      );
+    });
+
+    it("should schedule closures and session overrides from JSON", async function () {
+      await hre.run("schedule-closures", {
+        calendar: await calendar.getAddress(),
+        file: closuresFile,
+      });
+
+      expect(await calendar.getScheduledClosures()).to.deep.equal([
+        BigInt(calendarDate("2027-03-10")),
+        BigInt(calendarDate("2027-03-11")),
+      ]);
+      expect(
+        await calendar.getClosureReason(calendarDate("2027-03-10"))
+      ).to.equal("National Day of Mourning");
+
+      const [hasOverride, openMinute, closeMinute] =
+        await calendar.getSessionOverride(calendarDate("2027-03-12"));
+      expect(hasOverride).to.be.true;
+      expect(openMinute).to.equal(660);
+      expect(closeMinute).to.equal(960);
+    });
+
+    it("should skip closures that are already scheduled", async function () {
+      await calendar.scheduleClosure(
+        calendarDate("2027-03-10"),
+        "National Day of Mourning"
+      );
+
+      const { closures } = await hre.run("schedule-closures", {
+        calendar: await calendar.getAddress(),
+        file: closuresFile,
+      });
+
+      expect(closures).to.have.length(1);
+      expect(closures[0].reason).to.equal("Storm");
+    });
+
+    it("should not send transactions on a dry run", async function () {
+      await hre.run("schedule-closures", {
+        calendar: await calendar.getAddress(),
+        file: closuresFile,
+        dryRun: true,
+      });
+
+      expect(await calendar.getScheduledClosures()).to.deep.equal([]);
+    });
+  });
+});
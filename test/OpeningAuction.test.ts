@@ -0,0 +1,577 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { EventLog } from "ethers";
+import {
+  BondingCurve,
+  MockERC20,
+  OpeningAuction,
+  StonkToken,
+  StonkTokenFactory,
+  StonkTradingRouter,
+} from "../typechain-types";
+import { getNextMarketOpen } from "../sdk";
+
+describe("OpeningAuction", function () {
+  let factory: StonkTokenFactory;
+  let router: StonkTradingRouter;
+  let auction: OpeningAuction;
+  let assetToken: MockERC20;
+  let stonkToken: StonkToken;
+  let bondingCurve: BondingCurve;
+  let owner: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let tokenAddress: string;
+  let auctionAddress: string;
+  let snapshot: SnapshotRestorer;
+
+  const DEPLOYMENT_FEE = ethers.parseEther("0.1"); // 0.1 ETH
+  const BONDING_CURVE_FEE_BASIS_POINTS = 300; // 3% fee
+  const PRECISION = ethers.parseEther("1");
+  // Limits that any clearing price meets
+  const ANY_BUY_PRICE = ethers.MaxUint256;
+  const ANY_SELL_PRICE = 0n;
+
+  // One hour before the next open is pre-market, so the market is closed
+  async function moveToPreMarket() {
+    const nextOpen = getNextMarketOpen(await time.latest());
+    await time.increaseTo(nextOpen - 3600);
+    return nextOpen;
+  }
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  beforeEach(async function () {
+    [owner, buyer, seller, treasury] = await ethers.getSigners();
+
+    // Factory tokens hold bonding curve trades to market hours
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    assetToken = await MockERC20.deploy("Mock USDC", "USDC", 6);
+    await assetToken.mint(buyer.address, ethers.parseUnits("100000", 6));
+    await assetToken.mint(seller.address, ethers.parseUnits("100000", 6));
+
+    const MockUniswapFactory = await ethers.getContractFactory(
+      "MockUniswapFactory"
+    );
+    const uniswapFactory = await MockUniswapFactory.deploy();
+    const MockUniswapRouter = await ethers.getContractFactory(
+      "MockUniswapRouter"
+    );
+    const uniswapRouter = await MockUniswapRouter.deploy(
+      await uniswapFactory.getAddress()
+    );
+
+    const StonkTokenDeployer = await ethers.getContractFactory(
+      "StonkTokenDeployer"
+    );
+    const tokenDeployer = await StonkTokenDeployer.deploy();
+    const BondingCurveDeployer = await ethers.getContractFactory(
+      "BondingCurveDeployer"
+    );
+    const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+    const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+    const curveStrategy = await HyperbolicCurve.deploy();
+
+    const StonkTokenFactory = await ethers.getContractFactory(
+      "StonkTokenFactory"
+    );
+    factory = await StonkTokenFactory.deploy(
+      treasury.address,
+      DEPLOYMENT_FEE,
+      await uniswapFactory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await assetToken.getAddress(),
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await curveStrategy.getAddress()
+    );
+    const StonkTradingRouter = await ethers.getContractFactory(
+      "StonkTradingRouter"
+    );
+    router = await StonkTradingRouter.deploy(
+      await factory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await uniswapFactory.getAddress(),
+      await assetToken.getAddress()
+    );
+    await factory.setTradingRouter(await router.getAddress());
+
+    const OpeningAuction = await ethers.getContractFactory("OpeningAuction");
+    auction = await OpeningAuction.deploy(await router.getAddress());
+    auctionAddress = await auction.getAddress();
+
+    const tx = await factory.deployToken(
+      "Test Token",
+      "TEST",
+      treasury.address,
+      0, // No buy tax
+      0, // No sell tax
+      1000,
+      ethers.ZeroAddress, // Default curve strategy
+      ethers.ZeroAddress, // Default quote asset
+      { value: DEPLOYMENT_FEE }
+    );
+    const receipt = await tx.wait();
+    const eventLog = receipt?.logs.find(
+      (log): log is EventLog =>
+        log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+    );
+    if (!eventLog) throw new Error("TokenDeployed event not found");
+    tokenAddress = eventLog.args[0];
+
+    stonkToken = await ethers.getContractAt("StonkToken", tokenAddress);
+    bondingCurve = await ethers.getContractAt(
+      "BondingCurve",
+      eventLog.args[1]
+    );
+
+    // Give the seller an inventory while the market is open
+    await assetToken
+      .connect(seller)
+      .approve(await router.getAddress(), ethers.MaxUint256);
+    await router
+      .connect(seller)
+      .buyTokensExactIn(
+        tokenAddress,
+        ethers.parseUnits("1000", 6),
+        0,
+        (await time.latest()) + 300
+      );
+
+    await assetToken.connect(buyer).approve(auctionAddress, ethers.MaxUint256);
+    await stonkToken.connect(seller).approve(auctionAddress, ethers.MaxUint256);
+  });
+
+  describe("Submitting intents", function () {
+    it("should escrow buy and sell intents while the market is closed", async function () {
+      await moveToPreMarket();
+      const tokenAmount = (await stonkToken.balanceOf(seller.address)) / 2n;
+      const assetAmount = ethers.parseUnits("500", 6);
+
+      await expect(
+        auction
+          .connect(buyer)
+          .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE)
+      )
+        .to.emit(auction, "BuyIntentSubmitted")
+        .withArgs(tokenAddress, 0, buyer.address, assetAmount, ANY_BUY_PRICE);
+      await expect(
+        auction
+          .connect(seller)
+          .submitSell(tokenAddress, tokenAmount, ANY_SELL_PRICE)
+      )
+        .to.emit(auction, "SellIntentSubmitted")
+        .withArgs(tokenAddress, 0, seller.address, tokenAmount, ANY_SELL_PRICE);
+
+      const state = await auction.getAuction(tokenAddress, 0);
+      expect(state.totalAssetIn).to.equal(assetAmount);
+      expect(state.totalTokensIn).to.equal(tokenAmount);
+      expect(state.cleared).to.be.false;
+      expect(await assetToken.balanceOf(auctionAddress)).to.equal(assetAmount);
+      expect(await stonkToken.balanceOf(auctionAddress)).to.equal(tokenAmount);
+    });
+
+    it("should reject intents while the market is open", async function () {
+      await expect(
+        auction.connect(buyer).submitBuy(tokenAddress, 1, ANY_BUY_PRICE)
+      ).to.be.revertedWithCustomError(auction, "MarketOpen");
+      await expect(
+        auction.connect(seller).submitSell(tokenAddress, 1, ANY_SELL_PRICE)
+      ).to.be.revertedWithCustomError(auction, "MarketOpen");
+    });
+
+    it("should reject intents worth less than the minimum", async function () {
+      await moveToPreMarket();
+      const minAmount = await auction.minIntentAmount(tokenAddress);
+      expect(minAmount).to.equal(ethers.parseUnits("100", 6));
+
+      await expect(
+        auction
+          .connect(buyer)
+          .submitBuy(tokenAddress, minAmount - 1n, ANY_BUY_PRICE)
+      ).to.be.revertedWithCustomError(auction, "IntentTooSmall");
+      await expect(
+        auction.connect(seller).submitSell(tokenAddress, 1, ANY_SELL_PRICE)
+      ).to.be.revertedWithCustomError(auction, "IntentTooSmall");
+      await expect(
+        auction.connect(buyer).submitBuy(tokenAddress, minAmount, ANY_BUY_PRICE)
+      ).to.emit(auction, "BuyIntentSubmitted");
+    });
+
+    it("should reject unknown tokens and zero amounts", async function () {
+      await moveToPreMarket();
+
+      await expect(
+        auction.connect(buyer).submitBuy(tokenAddress, 0, ANY_BUY_PRICE)
+      ).to.be.revertedWithCustomError(auction, "InvalidAmount");
+      await expect(
+        auction
+          .connect(buyer)
+          .submitBuy(await assetToken.getAddress(), 1, ANY_BUY_PRICE)
+      ).to.be.revertedWithCustomError(auction, "TokenNotFound");
+    });
+
+    it("should refund cancelled intents", async function () {
+      await moveToPreMarket();
+      const assetAmount = ethers.parseUnits("500", 6);
+      const balanceBefore = await assetToken.balanceOf(buyer.address);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+
+      await expect(auction.connect(buyer).cancel(tokenAddress))
+        .to.emit(auction, "IntentCancelled")
+        .withArgs(tokenAddress, 0, buyer.address, assetAmount, 0);
+
+      expect(await assetToken.balanceOf(buyer.address)).to.equal(
+        balanceBefore
+      );
+      expect((await auction.getAuction(tokenAddress, 0)).totalAssetIn).to.equal(
+        0
+      );
+      await expect(
+        auction.connect(buyer).cancel(tokenAddress)
+      ).to.be.revertedWithCustomError(auction, "NothingToCancel");
+    });
+  });
+
+  describe("Clearing", function () {
+    it("should not clear before the open", async function () {
+      await moveToPreMarket();
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, ethers.parseUnits("100", 6), ANY_BUY_PRICE);
+
+      await expect(
+        auction.clearAuction(tokenAddress)
+      ).to.be.revertedWithCustomError(auction, "MarketClosed");
+      await expect(
+        auction.connect(buyer).claim(tokenAddress, 0)
+      ).to.be.revertedWithCustomError(auction, "AuctionNotCleared");
+    });
+
+    it("should announce the open once per session", async function () {
+      const nextOpen = await moveToPreMarket();
+      await time.increaseTo(nextOpen);
+
+      await expect(auction.connect(buyer).clearAuction(tokenAddress))
+        .to.emit(stonkToken, "MarketOpened")
+        .withArgs(auctionAddress);
+      await expect(auction.clearAuction(tokenAddress)).not.to.emit(
+        stonkToken,
+        "MarketOpened"
+      );
+      await expect(stonkToken.openMarket()).not.to.emit(
+        stonkToken,
+        "MarketOpened"
+      );
+    });
+
+    it("should fill a buy-only book on the bonding curve", async function () {
+      const nextOpen = await moveToPreMarket();
+      const assetAmount = ethers.parseUnits("500", 6);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+      await time.increaseTo(nextOpen);
+
+      const expectedTokens = await bondingCurve.calculatePurchaseAmount(
+        assetAmount
+      );
+      // The imbalance trades through the router like any other buy
+      await expect(auction.clearAuction(tokenAddress))
+        .to.emit(auction, "AuctionCleared")
+        .and.to.emit(router, "TokensPurchased");
+      expect(await auction.currentAuctionId(tokenAddress)).to.equal(1);
+
+      const state = await auction.getAuction(tokenAddress, 0);
+      expect(state.cleared).to.be.true;
+      expect(state.buyerTokens).to.equal(expectedTokens);
+
+      await expect(auction.connect(buyer).claim(tokenAddress, 0))
+        .to.emit(auction, "Claimed")
+        .withArgs(
+          tokenAddress,
+          0,
+          buyer.address,
+          expectedTokens,
+          state.buyerAssetRefund
+        );
+      expect(await stonkToken.balanceOf(buyer.address)).to.equal(
+        expectedTokens
+      );
+      await expect(
+        auction.connect(buyer).claim(tokenAddress, 0)
+      ).to.be.revertedWithCustomError(auction, "NothingToClaim");
+    });
+
+    it("should cross both sides at one price and buy the imbalance", async function () {
+      const nextOpen = await moveToPreMarket();
+      const assetAmount = ethers.parseUnits("2000", 6);
+      const tokenAmount = (await stonkToken.balanceOf(seller.address)) / 4n;
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+      await auction
+        .connect(seller)
+        .submitSell(tokenAddress, tokenAmount, ANY_SELL_PRICE);
+      await time.increaseTo(nextOpen);
+
+      const spotPrice = await bondingCurve.getCurrentPrice();
+      // Claiming clears the auction on the first call of the session
+      await auction.connect(buyer).claim(tokenAddress, 0);
+
+      const state = await auction.getAuction(tokenAddress, 0);
+      expect(state.buyerTokens).to.be.gt(tokenAmount);
+      expect(state.clearingPrice).to.be.gt(spotPrice);
+      // Sellers receive the same price as buyers pay
+      const sellerPrice = (state.sellerAsset * PRECISION) / tokenAmount;
+      expect(sellerPrice).to.be.closeTo(
+        state.clearingPrice,
+        state.clearingPrice / 1000n
+      );
+
+      const sellerAssetBefore = await assetToken.balanceOf(seller.address);
+      await auction.connect(seller).claim(tokenAddress, 0);
+      expect(
+        (await assetToken.balanceOf(seller.address)) - sellerAssetBefore
+      ).to.equal(state.sellerAsset);
+      expect(await stonkToken.balanceOf(auctionAddress)).to.equal(0);
+      expect(await assetToken.balanceOf(auctionAddress)).to.equal(0);
+    });
+
+    it("should cross both sides at one price and sell the imbalance", async function () {
+      const nextOpen = await moveToPreMarket();
+      const assetAmount = ethers.parseUnits("100", 6);
+      const tokenAmount = await stonkToken.balanceOf(seller.address);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+      await auction
+        .connect(seller)
+        .submitSell(tokenAddress, tokenAmount, ANY_SELL_PRICE);
+      await time.increaseTo(nextOpen);
+
+      const spotPrice = await bondingCurve.getCurrentPrice();
+      await expect(auction.clearAuction(tokenAddress)).to.emit(
+        auction,
+        "AuctionCleared"
+      );
+
+      const state = await auction.getAuction(tokenAddress, 0);
+      expect(state.buyerTokens).to.be.gt(0);
+      expect(state.buyerTokens).to.be.lt(tokenAmount);
+      expect(state.clearingPrice).to.be.lt(spotPrice);
+      // Buyers pay the same price as sellers receive
+      const buyerPrice = (assetAmount * PRECISION) / state.buyerTokens;
+      expect(buyerPrice).to.be.closeTo(
+        state.clearingPrice,
+        state.clearingPrice / 1000n
+      );
+
+      await auction.connect(buyer).claim(tokenAddress, 0);
+      await auction.connect(seller).claim(tokenAddress, 0);
+      expect(await stonkToken.balanceOf(buyer.address)).to.equal(
+        state.buyerTokens
+      );
+      expect(await assetToken.balanceOf(auctionAddress)).to.equal(0);
+      expect(await stonkToken.balanceOf(auctionAddress)).to.equal(0);
+    });
+
+    it("should refund intents whose limit the reference price does not meet", async function () {
+      const nextOpen = await moveToPreMarket();
+      const referencePrice = await bondingCurve.getCurrentPrice();
+      const assetAmount = ethers.parseUnits("500", 6);
+      const assetBefore = await assetToken.balanceOf(buyer.address);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, referencePrice - 1n);
+      await time.increaseTo(nextOpen);
+
+      await expect(auction.clearAuction(tokenAddress)).not.to.emit(
+        router,
+        "TokensPurchased"
+      );
+      const state = await auction.getAuction(tokenAddress, 0);
+      expect(state.referencePrice).to.equal(referencePrice);
+      expect(state.matchedAssetIn).to.equal(0);
+
+      await expect(auction.connect(buyer).claim(tokenAddress, 0))
+        .to.emit(auction, "Claimed")
+        .withArgs(tokenAddress, 0, buyer.address, 0, assetAmount);
+      expect(await assetToken.balanceOf(buyer.address)).to.equal(assetBefore);
+    });
+
+    it("should cross at the reference price when the venue cannot fill within the limits", async function () {
+      const nextOpen = await moveToPreMarket();
+      const spotPrice = await bondingCurve.getCurrentPrice();
+      const assetAmount = ethers.parseUnits("2000", 6);
+      const tokenAmount = (await stonkToken.balanceOf(seller.address)) / 4n;
+      // Buying the imbalance on the curve would cost more than the limit
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, spotPrice);
+      await auction
+        .connect(seller)
+        .submitSell(tokenAddress, tokenAmount, ANY_SELL_PRICE);
+      await time.increaseTo(nextOpen);
+
+      await expect(auction.clearAuction(tokenAddress)).not.to.emit(
+        router,
+        "TokensPurchased"
+      );
+      const state = await auction.getAuction(tokenAddress, 0);
+      const sellerAsset = (tokenAmount * spotPrice) / PRECISION;
+      expect(state.clearingPrice).to.equal(spotPrice);
+      expect(state.buyerTokens).to.equal(tokenAmount);
+      expect(state.sellerAsset).to.equal(sellerAsset);
+      expect(state.buyerAssetRefund).to.equal(assetAmount - sellerAsset);
+
+      await auction.connect(buyer).claim(tokenAddress, 0);
+      await auction.connect(seller).claim(tokenAddress, 0);
+      expect(await stonkToken.balanceOf(buyer.address)).to.equal(tokenAmount);
+      expect(await assetToken.balanceOf(auctionAddress)).to.equal(0);
+    });
+
+    it("should pay out every unit of a side between its claimers", async function () {
+      const nextOpen = await moveToPreMarket();
+      await assetToken.mint(owner.address, ethers.parseUnits("1000", 6));
+      await assetToken
+        .connect(owner)
+        .approve(auctionAddress, ethers.MaxUint256);
+      await auction
+        .connect(owner)
+        .submitBuy(tokenAddress, ethers.parseUnits("100", 6), ANY_BUY_PRICE);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, ethers.parseUnits("233", 6), ANY_BUY_PRICE);
+      await time.increaseTo(nextOpen);
+      await auction.clearAuction(tokenAddress);
+
+      const state = await auction.getAuction(tokenAddress, 0);
+      await auction.connect(owner).claim(tokenAddress, 0);
+      await auction.connect(buyer).claim(tokenAddress, 0);
+      expect(
+        (await stonkToken.balanceOf(owner.address)) +
+          (await stonkToken.balanceOf(buyer.address))
+      ).to.equal(state.buyerTokens);
+      expect(await stonkToken.balanceOf(auctionAddress)).to.equal(0);
+    });
+
+    it("should list each account once per auction", async function () {
+      await moveToPreMarket();
+
+      const assetAmount = ethers.parseUnits("100", 6);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+      expect(await auction.getParticipants(tokenAddress, 0)).to.deep.equal([
+        buyer.address,
+      ]);
+    });
+
+    it("should free a cancelled account's place", async function () {
+      await moveToPreMarket();
+      const assetAmount = ethers.parseUnits("100", 6);
+      const tokenAmount = await stonkToken.balanceOf(seller.address);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+      await auction
+        .connect(seller)
+        .submitSell(tokenAddress, tokenAmount, ANY_SELL_PRICE);
+
+      await auction.connect(buyer).cancel(tokenAddress);
+      expect(await auction.getParticipants(tokenAddress, 0)).to.deep.equal([
+        seller.address,
+      ]);
+      const intent = await auction.getIntent(tokenAddress, 0, buyer.address);
+      expect(intent.listed).to.be.false;
+
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, ANY_BUY_PRICE);
+      expect(await auction.getParticipants(tokenAddress, 0)).to.deep.equal([
+        seller.address,
+        buyer.address,
+      ]);
+    });
+
+    it("should clear at the price recorded before the open", async function () {
+      const nextOpen = await moveToPreMarket();
+      const referencePrice = await bondingCurve.getCurrentPrice();
+      const assetAmount = ethers.parseUnits("500", 6);
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, assetAmount, referencePrice);
+      await time.increaseTo(nextOpen);
+
+      // A buy ahead of the clearing lifts the curve, not the auction's price
+      await assetToken.mint(owner.address, ethers.parseUnits("2000", 6));
+      await assetToken
+        .connect(owner)
+        .approve(await router.getAddress(), ethers.MaxUint256);
+      await router.buyTokensExactIn(
+        tokenAddress,
+        ethers.parseUnits("2000", 6),
+        0,
+        (await time.latest()) + 300
+      );
+      expect(await bondingCurve.getCurrentPrice()).to.be.gt(referencePrice);
+
+      await auction.clearAuction(tokenAddress);
+      const state = await auction.getAuction(tokenAddress, 0);
+      expect(state.referencePrice).to.equal(referencePrice);
+      expect(state.matchedAssetIn).to.equal(assetAmount);
+    });
+
+    it("should collect the next session's intents in a new auction", async function () {
+      let nextOpen = await moveToPreMarket();
+      await auction
+        .connect(buyer)
+        .submitBuy(tokenAddress, ethers.parseUnits("100", 6), ANY_BUY_PRICE);
+      await time.increaseTo(nextOpen);
+      await auction.clearAuction(tokenAddress);
+
+      nextOpen = await moveToPreMarket();
+      await expect(
+        auction
+          .connect(buyer)
+          .submitBuy(tokenAddress, ethers.parseUnits("100", 6), ANY_BUY_PRICE)
+      )
+        .to.emit(auction, "BuyIntentSubmitted")
+        .withArgs(
+          tokenAddress,
+          1,
+          buyer.address,
+          ethers.parseUnits("100", 6),
+          ANY_BUY_PRICE
+        );
+
+      await time.increaseTo(nextOpen);
+      await expect(auction.clearAuction(tokenAddress))
+        .to.emit(stonkToken, "MarketOpened")
+        .withArgs(auctionAddress);
+      expect(await auction.currentAuctionId(tokenAddress)).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
+import {
+  StonkTokenFactory,
+  StonkTradingRouter,
+  MockERC20,
+  MockUniswapFactory,
+  StonkToken__factory,
+} from "../typechain-types";
+import {
+  StonkClient,
+  MarketHoursEnforcement,
+  getNextMarketOpen,
+} from "../sdk";
+
+describe("StonkClient SDK", function () {
+  let factory: StonkTokenFactory;
+  let router: StonkTradingRouter;
+  let assetToken: MockERC20;
+  let uniswapFactory: MockUniswapFactory;
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let client: StonkClient;
+  let snapshot: SnapshotRestorer;
+
+  const DEPLOYMENT_FEE = ethers.parseEther("0.1"); // 0.1 ETH
+  const BONDING_CURVE_FEE_BASIS_POINTS = 300; // 3% fee
+  const TOKEN_PARAMS = {
+    name: "Test Token",
+    symbol: "TEST",
+    projectTaxRecipient: "", // Will be set in beforeEach
+    projectBuyTaxBasisPoints: 500,
+    projectSellTaxBasisPoints: 500,
+    taxSwapThresholdBasisPoints: 1000,
+  };
+
+  // Factory tokens hold pool and bonding curve trades to market hours
+  before(async function () {
+    snapshot = await takeSnapshot();
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  beforeEach(async function () {
+    [owner, user1, treasury] = await ethers.getSigners();
+    TOKEN_PARAMS.projectTaxRecipient = treasury.address;
+
+    // Deploy mock USDC
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    assetToken = await MockERC20.deploy("Mock USDC", "USDC", 6);
+    await assetToken.mint(user1.address, ethers.parseUnits("1000000", 6));
+
+    // Deploy mock Uniswap
+    const MockUniswapFactory = await ethers.getContractFactory(
+      "MockUniswapFactory"
+    );
+    uniswapFactory = await MockUniswapFactory.deploy();
+    const MockUniswapRouter = await ethers.getContractFactory(
+      "MockUniswapRouter"
+    );
+    const uniswapRouter = await MockUniswapRouter.deploy(
+      await uniswapFactory.getAddress()
+    );
+
+    // Deploy the token and bonding curve deployers used by the factory
+    const StonkTokenDeployer = await ethers.getContractFactory(
+      "StonkTokenDeployer"
+    );
+    const tokenDeployer = await StonkTokenDeployer.deploy();
+    const BondingCurveDeployer = await ethers.getContractFactory(
+      "BondingCurveDeployer"
+    );
+    const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+    const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+    const curveStrategy = await HyperbolicCurve.deploy();
+
+    // Deploy factory and router
+    const StonkTokenFactory = await ethers.getContractFactory(
+      "StonkTokenFactory"
+    );
+    factory = await StonkTokenFactory.deploy(
+      treasury.address,
+      DEPLOYMENT_FEE,
+      await uniswapFactory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await assetToken.getAddress(),
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await curveStrategy.getAddress()
+    );
+    const StonkTradingRouter = await ethers.getContractFactory(
+      "StonkTradingRouter"
+    );
+    router = await StonkTradingRouter.deploy(
+      await factory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await uniswapFactory.getAddress(),
+      await assetToken.getAddress()
+    );
+    await factory.setTradingRouter(await router.getAddress());
+
+    client = await StonkClient.fromRouter(user1, await router.getAddress());
+  });
+
+  describe("Deployment", function () {
+    it("should deploy a token and decode the TokenDeployed event", async function () {
+      const result = await client.deployToken(TOKEN_PARAMS);
+
+      expect(result.deploymentFee).to.equal(DEPLOYMENT_FEE);
+      expect(await router.getBondingCurveAddress(result.tokenAddress)).to.equal(
+        result.bondingCurveAddress
+      );
+
+      const token = StonkToken__factory.connect(result.tokenAddress, owner);
+      expect(await token.symbol()).to.equal("TEST");
+      expect(await token.owner()).to.equal(user1.address);
+    });
+
+    it("should deploy with a launch config", async function () {
+      const defaults = await factory.getDefaultLaunchConfig();
+      const launchConfig = {
+        graduationThreshold: defaults.graduationThreshold,
+        assetRate: defaults.assetRate,
+        curveConstant: defaults.curveConstant,
+        totalSupply: ethers.parseEther("500000000"),
+      };
+      await factory.setLaunchConfigBounds(
+        { ...launchConfig, totalSupply: ethers.parseEther("1000000") },
+        { ...launchConfig, totalSupply: defaults.totalSupply }
+      );
+
+      const result = await client.deployToken({
+        ...TOKEN_PARAMS,
+        launchConfig,
+      });
+
+      const token = StonkToken__factory.connect(result.tokenAddress, owner);
+      expect(await token.totalSupply()).to.equal(launchConfig.totalSupply);
+    });
+  });
+
+  describe("Bonding curve phase", function () {
+    let tokenAddress: string;
+
+    beforeEach(async function () {
+      ({ tokenAddress } = await client.deployToken(TOKEN_PARAMS));
+    });
+
+    it("should report bonding curve state", async function () {
+      const state = await client.getTokenState(tokenAddress);
+
+      expect(state.graduated).to.be.false;
+      expect(state.uniswapPair).to.equal(ethers.ZeroAddress);
+      expect(state.assetReserve).to.equal(0n);
+      expect(state.graduationThreshold).to.equal(
+        ethers.parseUnits("100000", 6)
+      );
+      expect(state.currentPrice).to.be.gt(0n);
+      expect(state.marketHoursEnforcement).to.equal(
+        MarketHoursEnforcement.TRANSFERS_ONLY_TO_FROM_POOLS
+      );
+      expect(state.haltedUntil).to.equal(0n);
+    });
+
+    it("should quote buys including the bonding curve fee", async function () {
+      const tokenAmount = ethers.parseEther("1000");
+      const quote = await client.quoteBuy(tokenAddress, tokenAmount);
+
+      expect(quote.isBondingCurve).to.be.true;
+      expect(quote.assetAmount).to.equal(
+        await router.calculateBuyPrice(tokenAddress, tokenAmount)
+      );
+      expect(quote.fee).to.equal((quote.assetAmount * 300n) / 10000n);
+      expect(quote.totalAssetAmount).to.equal(quote.assetAmount + quote.fee);
+      // The bonding curve is a taxed venue
+      expect(quote.tax).to.equal((tokenAmount * 500n) / 10000n);
+    });
+
+    it("should approve and buy in one call", async function () {
+      const tokenAmount = ethers.parseEther("1000");
+      const quote = await client.quoteBuy(tokenAddress, tokenAmount);
+      const balanceBefore = await assetToken.balanceOf(user1.address);
+
+      const result = await client.buy(tokenAddress, tokenAmount);
+
+      expect(result.buyer).to.equal(user1.address);
+      expect(result.tokenAmount).to.equal(tokenAmount - quote.tax);
+      expect(result.assetAmount).to.equal(quote.totalAssetAmount);
+      expect(result.fee).to.equal(quote.fee);
+      expect(result.tax).to.equal(quote.tax);
+      expect(result.isBondingCurve).to.be.true;
+
+      const token = StonkToken__factory.connect(tokenAddress, user1);
+      expect(await token.balanceOf(user1.address)).to.equal(
+        tokenAmount - quote.tax
+      );
+      // Excess above the quoted cost is refunded
+      expect(await assetToken.balanceOf(user1.address)).to.equal(
+        balanceBefore - quote.totalAssetAmount
+      );
+    });
+
+    it("should reuse an existing allowance", async function () {
+      await assetToken
+        .connect(user1)
+        .approve(await router.getAddress(), ethers.MaxUint256);
+
+      const result = await client.buy(tokenAddress, ethers.parseEther("1000"));
+
+      expect(
+        await assetToken.allowance(user1.address, await router.getAddress())
+      ).to.equal(ethers.MaxUint256);
+      expect(result.tokenAmount).to.equal(ethers.parseEther("950")); // Less tax
+    });
+
+    it("should buy with an exact asset input", async function () {
+      const assetAmountIn = ethers.parseUnits("250", 6);
+      const expectedTokens = await client.quoteBuyExactIn(
+        tokenAddress,
+        assetAmountIn
+      );
+
+      const result = await client.buyExactIn(tokenAddress, assetAmountIn);
+
+      expect(result.tokenAmount).to.equal(expectedTokens);
+      expect(result.isBondingCurve).to.be.true;
+    });
+
+    it("should sell with slippage protection", async function () {
+      await client.buy(tokenAddress, ethers.parseEther("1000"));
+
+      const sellAmount = ethers.parseEther("400");
+      const quote = await client.quoteSell(tokenAddress, sellAmount);
+      const balanceBefore = await assetToken.balanceOf(user1.address);
+
+      const result = await client.sell(tokenAddress, sellAmount);
+
+      expect(result.seller).to.equal(user1.address);
+      expect(result.tokenAmount).to.equal(sellAmount);
+      expect(result.assetAmount).to.equal(quote.netAssetAmount);
+      expect(result.fee).to.equal(quote.fee);
+      expect(result.tax).to.equal(quote.tax);
+      expect(result.isBondingCurve).to.be.true;
+      expect(await assetToken.balanceOf(user1.address)).to.equal(
+        balanceBefore + quote.netAssetAmount
+      );
+    });
+
+    it("should sell for an exact asset output", async function () {
+      await client.buy(tokenAddress, ethers.parseEther("1000000"));
+
+      const assetAmountOut = ethers.parseUnits("100", 6);
+      const expectedTokens = await client.quoteSellExactOut(
+        tokenAddress,
+        assetAmountOut
+      );
+      const balanceBefore = await assetToken.balanceOf(user1.address);
+
+      const result = await client.sellExactOut(tokenAddress, assetAmountOut);
+
+      // Tax rounding leaves dust, which the bonding curve refunds
+      expect(result.tokenAmount).to.be.lte(expectedTokens);
+      expect(result.assetAmount).to.equal(assetAmountOut);
+      expect(await assetToken.balanceOf(user1.address)).to.equal(
+        balanceBefore + assetAmountOut
+      );
+    });
+
+    it("should revert when the deadline has passed", async function () {
+      const block = await ethers.provider.getBlock("latest");
+      await expect(
+        client.buy(tokenAddress, ethers.parseEther("10"), {
+          deadline: BigInt(block!.timestamp - 1),
+        })
+      ).to.be.revertedWithCustomError(router, "DeadlinePassed");
+    });
+
+    it("should apply custom slippage", async function () {
+      const quote = await client.quoteBuy(tokenAddress, ethers.parseEther("1"));
+      expect(client.withSlippageUp(quote.totalAssetAmount, 100)).to.equal(
+        (quote.totalAssetAmount * 10100n) / 10000n
+      );
+      expect(client.withSlippageDown(quote.totalAssetAmount, 100)).to.equal(
+        (quote.totalAssetAmount * 9900n) / 10000n
+      );
+    });
+  });
+
+  describe("Uniswap phase", function () {
+    let tokenAddress: string;
+
+    beforeEach(async function () {
+      ({ tokenAddress } = await client.deployToken(TOKEN_PARAMS));
+      // ~107k USDC on the curve, above the 100k graduation threshold
+      await client.buy(tokenAddress, ethers.parseEther("35000000"));
+    });
+
+    it("should report graduated state", async function () {
+      const state = await client.getTokenState(tokenAddress);
+
+      expect(state.graduated).to.be.true;
+      expect(state.uniswapPair).to.equal(
+        await uniswapFactory.getPair(tokenAddress, await assetToken.getAddress())
+      );
+      expect(state.currentPrice).to.be.undefined;
+    });
+
+    it("should buy and sell through Uniswap", async function () {
+      const buyQuote = await client.quoteBuy(
+        tokenAddress,
+        ethers.parseEther("1000")
+      );
+      expect(buyQuote.isBondingCurve).to.be.false;
+      expect(buyQuote.fee).to.equal(0n);
+
+      const buyResult = await client.buy(
+        tokenAddress,
+        ethers.parseEther("1000")
+      );
+      expect(buyResult.isBondingCurve).to.be.false;
+      expect(buyResult.tokenAmount).to.equal(
+        ethers.parseEther("1000") - buyQuote.tax
+      );
+
+      const sellAmount = ethers.parseEther("100000");
+      const sellQuote = await client.quoteSell(tokenAddress, sellAmount);
+      const balanceBefore = await assetToken.balanceOf(user1.address);
+
+      const sellResult = await client.sell(tokenAddress, sellAmount);
+
+      expect(sellResult.isBondingCurve).to.be.false;
+      expect(sellResult.assetAmount).to.equal(sellQuote.netAssetAmount);
+      expect(await assetToken.balanceOf(user1.address)).to.equal(
+        balanceBefore + sellQuote.netAssetAmount
+      );
+    });
+  });
+});
@@ -1,6 +1,11 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
 import {
   StonkTokenFactory,
   StonkToken,
@@ -14,6 +19,8 @@ import {
   StonkTradingRouter__factory,
 } from "../typechain-types";
 import { ContractTransactionReceipt, EventLog } from "ethers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { getNextMarketOpen } from "../sdk";
 
 describe("StonkTokenFactory with TradingRouter", function () {
   let factory: StonkTokenFactory;
@@ -27,13 +34,25 @@ describe("StonkTokenFactory with TradingRouter", function () {
   let user1: SignerWithAddress;
   let user2: SignerWithAddress;
   let treasury: SignerWithAddress;
+  let snapshot: SnapshotRestorer;
 
   const INITIAL_SUPPLY = ethers.parseEther("1000000"); // 1M tokens
   const GRADUATION_THRESHOLD = ethers.parseUnits("100000", 6); // 100k USDC
+  const MIN_ASSET_LIQUIDITY = ethers.parseUnits("1", 6); // $1
   const DEPLOYMENT_FEE = ethers.parseEther("0.1"); // 0.1 ETH
-  const GLOBAL_TOKEN_SUPPLY = ethers.parseEther("1000000"); // 1M tokens
+  const GLOBAL_TOKEN_SUPPLY = ethers.parseEther("1000000000"); // Fixed 1B supply set by the factory
   const BONDING_CURVE_FEE_BASIS_POINTS = 300; // 3% fee
 
+  // Factory tokens hold pool and bonding curve trades to market hours
+  before(async function () {
+    snapshot = await takeSnapshot();
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
   beforeEach(async function () {
     [owner, user1, user2, treasury] = await ethers.getSigners();
 
@@ -57,6 +76,18 @@ describe("StonkTokenFactory with TradingRouter", function () {
       await uniswapFactory.getAddress()
     );
 
+    // Deploy the token and bonding curve deployers used by the factory
+    const StonkTokenDeployer = await ethers.getContractFactory(
+      "StonkTokenDeployer"
+    );
+    const tokenDeployer = await StonkTokenDeployer.deploy();
+    const BondingCurveDeployer = await ethers.getContractFactory(
+      "BondingCurveDeployer"
+    );
+    const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+    const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+    const curveStrategy = await HyperbolicCurve.deploy();
+
     // Deploy StonkTokenFactory
     const StonkTokenFactory = await ethers.getContractFactory(
       "StonkTokenFactory"
@@ -67,8 +98,10 @@ describe("StonkTokenFactory with TradingRouter", function () {
       await uniswapFactory.getAddress(),
       await uniswapRouter.getAddress(),
       await assetToken.getAddress(),
-      GLOBAL_TOKEN_SUPPLY,
-      BONDING_CURVE_FEE_BASIS_POINTS
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await curveStrategy.getAddress()
     );
 
     // Deploy StonkTradingRouter
@@ -95,6 +128,8 @@ describe("StonkTokenFactory with TradingRouter", function () {
         500, // 5% buy tax
         500, // 5% sell tax
         1000, // 10% swap threshold
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
         { value: DEPLOYMENT_FEE }
       );
 
@@ -127,6 +162,10 @@ describe("StonkTokenFactory with TradingRouter", function () {
       expect(await token.totalSupply()).to.equal(GLOBAL_TOKEN_SUPPLY);
       expect(await token.owner()).to.equal(owner.address);
 
+      // Bonding curve ownership is handed back to the factory by its deployer
+      expect(await bondingCurve.owner()).to.equal(await factory.getAddress());
+      expect(await bondingCurve.stonkToken()).to.equal(tokenAddress);
+
       // Check initial price
       const initialPrice = await bondingCurve.getCurrentPrice();
       console.log("Initial token price:", ethers.formatEther(initialPrice));
@@ -141,6 +180,8 @@ describe("StonkTokenFactory with TradingRouter", function () {
           500,
           500,
           1000,
+          ethers.ZeroAddress, // Default curve strategy
+          ethers.ZeroAddress, // Default quote asset
           { value: ethers.parseEther("0.05") } // Less than required fee
         )
       ).to.be.revertedWith("Insufficient fee");
@@ -157,6 +198,8 @@ describe("StonkTokenFactory with TradingRouter", function () {
         500,
         500,
         1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
         { value: DEPLOYMENT_FEE + excessFee }
       );
 
@@ -170,6 +213,79 @@ describe("StonkTokenFactory with TradingRouter", function () {
       // Initial balance - gas cost - deployment fee should equal final balance
       expect(balanceAfter).to.equal(initialBalance - gasCost - DEPLOYMENT_FEE);
     });
+
+    it("should hand the market calendar to new tokens", async function () {
+      const MarketCalendar = await ethers.getContractFactory("MarketCalendar");
+      const calendar = await MarketCalendar.deploy(owner.address);
+      const calendarAddress = await calendar.getAddress();
+
+      await expect(factory.setMarketCalendar(calendarAddress))
+        .to.emit(factory, "MarketCalendarUpdated")
+        .withArgs(ethers.ZeroAddress, calendarAddress);
+
+      const [tokenAddress] = await factory.deployToken.staticCall(
+        "Test Token",
+        "TEST",
+        treasury.address,
+        500,
+        500,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
+        { value: DEPLOYMENT_FEE }
+      );
+      await factory.deployToken(
+        "Test Token",
+        "TEST",
+        treasury.address,
+        500,
+        500,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
+        { value: DEPLOYMENT_FEE }
+      );
+
+      const token = StonkToken__factory.connect(tokenAddress, owner);
+      expect(await token.marketCalendar()).to.equal(calendarAddress);
+    });
+
+    it("should hand the market hours enforcement mode to new tokens", async function () {
+      expect(await factory.marketHoursEnforcement()).to.equal(1); // TRANSFERS_ONLY_TO_FROM_POOLS
+
+      await expect(factory.setMarketHoursEnforcement(2))
+        .to.emit(factory, "MarketHoursEnforcementUpdated")
+        .withArgs(1, 2);
+      await expect(
+        factory.connect(user1).setMarketHoursEnforcement(0)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+
+      const [tokenAddress] = await factory.deployToken.staticCall(
+        "Test Token",
+        "TEST",
+        treasury.address,
+        500,
+        500,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
+        { value: DEPLOYMENT_FEE }
+      );
+      await factory.deployToken(
+        "Test Token",
+        "TEST",
+        treasury.address,
+        500,
+        500,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
+        { value: DEPLOYMENT_FEE }
+      );
+
+      const token = StonkToken__factory.connect(tokenAddress, owner);
+      expect(await token.marketHoursEnforcement()).to.equal(2); // ALL_TRANSFERS
+    });
   });
 
   describe("TradingRouter Operations", function () {
@@ -185,6 +301,8 @@ describe("StonkTokenFactory with TradingRouter", function () {
         500,
         500,
         1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
         { value: DEPLOYMENT_FEE }
       );
 
@@ -224,7 +342,7 @@ describe("StonkTokenFactory with TradingRouter", function () {
     it("should allow buying tokens through router (bonding curve phase)", async function () {
       const buyAmount = ethers.parseEther("10");
       const maxAssetAmount = ethers.parseUnits("100", 6);
-      const deadline = Math.floor(Date.now() / 1000) + 300; // 5 minutes
+      const deadline = (await time.latest()) + 300; // 5 minutes
 
       // Check initial trading state
       const [graduated, bondingCurveAddr, uniswapPair] =
@@ -238,9 +356,11 @@ describe("StonkTokenFactory with TradingRouter", function () {
         .connect(user1)
         .buyTokens(tokenAddress, buyAmount, maxAssetAmount, deadline);
 
-      // Verify tokens were received
+      // Verify tokens were received, less the buy tax
+      const buyTax = await router.calculateTax(tokenAddress, buyAmount, true);
+      expect(buyTax).to.be.gt(0);
       const userBalance = await stonkToken.balanceOf(user1.address);
-      expect(userBalance).to.equal(buyAmount);
+      expect(userBalance).to.equal(buyAmount - buyTax);
     });
 
     it("should calculate buy price correctly", async function () {
@@ -263,15 +383,31 @@ describe("StonkTokenFactory with TradingRouter", function () {
     it("should calculate sell proceeds correctly", async function () {
       const sellAmount = ethers.parseEther("10");
 
+      // The curve only buys back tokens it has sold
+      await router
+        .connect(user1)
+        .buyTokens(
+          tokenAddress,
+          sellAmount,
+          ethers.parseUnits("100", 6),
+          (await time.latest()) + 300
+        );
+
       // Calculate proceeds through router
       const routerProceeds = await router.calculateSellProceeds(
         tokenAddress,
         sellAmount
       );
 
-      // Calculate proceeds directly through bonding curve
+      // Calculate proceeds directly through bonding curve, for what reaches
+      // it after the sell tax
+      const sellTax = await router.calculateTax(
+        tokenAddress,
+        sellAmount,
+        false
+      );
       const bondingCurveProceeds = await bondingCurve.calculateSaleProceeds(
-        sellAmount
+        sellAmount - sellTax
       );
 
       expect(routerProceeds).to.equal(bondingCurveProceeds);
@@ -281,7 +417,7 @@ describe("StonkTokenFactory with TradingRouter", function () {
       // First buy some tokens
       const buyAmount = ethers.parseEther("10");
       const maxAssetAmount = ethers.parseUnits("100", 6);
-      const deadline = Math.floor(Date.now() / 1000) + 300;
+      const deadline = (await time.latest()) + 300;
 
       await router
         .connect(user1)
@@ -290,15 +426,20 @@ describe("StonkTokenFactory with TradingRouter", function () {
       // Now sell some tokens
       const sellAmount = ethers.parseEther("5");
       // Calculate expected proceeds from bonding curve
+      const sellTax = await router.calculateTax(
+        tokenAddress,
+        sellAmount,
+        false
+      );
       const expectedProceeds = await bondingCurve.calculateSaleProceeds(
-        sellAmount
+        sellAmount - sellTax
       );
       // Calculate fee
       const feeBasisPoints = await bondingCurve.feeBasisPoints();
       const fee = (expectedProceeds * BigInt(feeBasisPoints)) / 10000n;
       const netProceeds = expectedProceeds - fee;
-      // Set minAssetAmount to netProceeds minus a small buffer (e.g., 1 USDC)
-      const minAssetAmount = netProceeds - ethers.parseUnits("1", 6);
+      // Set minAssetAmount to netProceeds minus a small buffer (1%)
+      const minAssetAmount = (netProceeds * 99n) / 100n;
 
       // Approve router to spend tokens
       await stonkToken
@@ -311,7 +452,593 @@ describe("StonkTokenFactory with TradingRouter", function () {
 
       // Verify tokens were sold
       const userTokenBalance = await stonkToken.balanceOf(user1.address);
-      expect(userTokenBalance).to.equal(buyAmount - sellAmount);
+      const buyTax = await router.calculateTax(tokenAddress, buyAmount, true);
+      expect(userTokenBalance).to.equal(buyAmount - buyTax - sellAmount);
+    });
+  });
+
+  describe("Market-wide Circuit Breaker", function () {
+    let token: StonkToken;
+
+    beforeEach(async function () {
+      const [tokenAddress] = await factory.deployToken.staticCall(
+        "Test Token",
+        "TEST",
+        treasury.address,
+        500,
+        500,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
+        { value: DEPLOYMENT_FEE }
+      );
+      await factory.deployToken(
+        "Test Token",
+        "TEST",
+        treasury.address,
+        500,
+        500,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
+        { value: DEPLOYMENT_FEE }
+      );
+      token = StonkToken__factory.connect(tokenAddress, owner);
+    });
+
+    it("should hand itself to new tokens as their market-wide circuit breaker", async function () {
+      expect(await token.marketCircuitBreaker()).to.equal(
+        await factory.getAddress()
+      );
+    });
+
+    it("should only let the guardian or owner halt and resume the market", async function () {
+      await expect(
+        factory.connect(user1).triggerMarketHalt(1)
+      ).to.be.revertedWithCustomError(factory, "NotHaltGuardian");
+      await expect(
+        factory.connect(user1).setHaltGuardian(user1.address)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+
+      await expect(factory.setHaltGuardian(user1.address))
+        .to.emit(factory, "HaltGuardianUpdated")
+        .withArgs(ethers.ZeroAddress, user1.address);
+
+      await expect(
+        factory.connect(user1).triggerMarketHalt(0)
+      ).to.be.revertedWithCustomError(factory, "InvalidHaltLevel");
+      await expect(factory.connect(user1).triggerMarketHalt(1)).to.emit(
+        factory,
+        "MarketWideHaltTriggered"
+      );
+      await expect(factory.connect(user1).resumeMarket())
+        .to.emit(factory, "MarketWideHaltLifted")
+        .withArgs(user1.address);
+      expect(await factory.marketHaltedUntil()).to.equal(0);
+    });
+
+    it("should halt every token and resume automatically", async function () {
+      expect(Number(await token.getMarketState())).to.equal(3); // OPEN
+
+      const tx = factory.triggerMarketHalt(1);
+      const haltedUntil = (await time.latest()) + 1 + 15 * 60;
+      await expect(tx)
+        .to.emit(factory, "MarketWideHaltTriggered")
+        .withArgs(1, haltedUntil, owner.address);
+      expect(await factory.marketHaltLevel()).to.equal(1);
+      expect(Number(await token.getMarketState())).to.equal(7); // HALTED
+      expect(await token.isMarketOpen()).to.be.false;
+
+      await time.increaseTo(haltedUntil);
+      expect(Number(await token.getMarketState())).to.equal(3); // OPEN
+    });
+
+    it("should halt for the rest of the day on level 3", async function () {
+      await factory.triggerMarketHalt(3);
+      const haltedUntil = await factory.marketHaltedUntil();
+
+      // Midnight Eastern Time is 4:00 or 5:00 UTC
+      expect([4n * 3600n, 5n * 3600n]).to.include(haltedUntil % 86400n);
+      expect(haltedUntil - BigInt(await time.latest())).to.be.lte(86400n);
+
+      // A later level 1 halt neither shortens nor downgrades it
+      await factory.triggerMarketHalt(1);
+      expect(await factory.marketHaltedUntil()).to.equal(haltedUntil);
+      expect(await factory.marketHaltLevel()).to.equal(3);
+    });
+
+    describe("Index-drop rule", function () {
+      let mockRouter: any;
+      const [tokenA, tokenB] = [
+        "0x000000000000000000000000000000000000000A",
+        "0x000000000000000000000000000000000000000b",
+      ];
+
+      beforeEach(async function () {
+        const MockReferencePriceRouter = await ethers.getContractFactory(
+          "MockReferencePriceRouter"
+        );
+        mockRouter = await MockReferencePriceRouter.deploy();
+        await factory.setTradingRouter(await mockRouter.getAddress());
+        await mockRouter.setReferencePrice(tokenA, 1000);
+        await mockRouter.setReferencePrice(tokenB, 1000);
+        await mockRouter.setQuoteAsset(tokenA, await assetToken.getAddress());
+        await mockRouter.setQuoteAsset(tokenB, await assetToken.getAddress());
+      });
+
+      // Moves to the hour before the next open, when the session is closed
+      async function moveToPreMarket() {
+        await time.increaseTo(getNextMarketOpen(await time.latest()));
+        const nextOpen = getNextMarketOpen(await time.latest());
+        await time.increaseTo(nextOpen - 3600);
+        return nextOpen;
+      }
+
+      it("should only accept registered tokens as constituents", async function () {
+        await expect(
+          factory.setIndexConstituents([tokenA, user1.address])
+        ).to.be.revertedWithCustomError(factory, "TokenNotFound");
+
+        // Constituents are checked against the router, so it must be set
+        const StonkTokenFactory = await ethers.getContractFactory(
+          "StonkTokenFactory"
+        );
+        const routerlessFactory = await StonkTokenFactory.deploy(
+          treasury.address,
+          DEPLOYMENT_FEE,
+          await uniswapFactory.getAddress(),
+          await uniswapRouter.getAddress(),
+          await assetToken.getAddress(),
+          BONDING_CURVE_FEE_BASIS_POINTS,
+          await factory.tokenDeployer(),
+          await factory.bondingCurveDeployer(),
+          await factory.defaultCurveStrategy()
+        );
+        await expect(
+          routerlessFactory.setIndexConstituents([tokenA])
+        ).to.be.revertedWithCustomError(
+          routerlessFactory,
+          "TradingRouterNotSet"
+        );
+        await expect(
+          factory.connect(user1).setIndexConstituents([tokenA])
+        ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+        await expect(factory.getIndexLevel()).to.be.revertedWithCustomError(
+          factory,
+          "NoIndexConstituents"
+        );
+      });
+
+      it("should only let the guardian record the reference outside the session", async function () {
+        await factory.setIndexConstituents([tokenA, tokenB]);
+        await expect(factory.checkIndexDrop()).to.be.revertedWithCustomError(
+          factory,
+          "IndexReferenceNotSet"
+        );
+
+        const nextOpen = await moveToPreMarket();
+        await expect(
+          factory.connect(user1).recordIndexReference()
+        ).to.be.revertedWithCustomError(factory, "NotHaltGuardian");
+        await factory.setHaltGuardian(user1.address);
+        await expect(factory.connect(user1).recordIndexReference())
+          .to.emit(factory, "IndexReferenceLevelUpdated")
+          .withArgs(2000);
+
+        // Prices move during the session, so the reference cannot be reset then
+        await time.increaseTo(nextOpen);
+        await expect(
+          factory.connect(user1).recordIndexReference()
+        ).to.be.revertedWithCustomError(factory, "MarketSessionOpen");
+
+        // New constituents need a new reference
+        await factory.setIndexConstituents([tokenA]);
+        expect(await factory.indexReferenceLevel()).to.equal(0);
+      });
+
+      it("should count a constituent without a reference price at its spot price", async function () {
+        await factory.setIndexConstituents([tokenA, tokenB]);
+
+        // A freshly graduated token has too little oracle history
+        await mockRouter.setReferencePrice(tokenB, 0);
+        await mockRouter.setSpotPrice(tokenB, 900);
+        expect(await factory.getIndexLevel()).to.equal(1900);
+      });
+
+      it("should escalate through the levels as the index falls", async function () {
+        await expect(factory.setIndexConstituents([tokenA, tokenB]))
+          .to.emit(factory, "IndexConstituentsUpdated")
+          .withArgs([tokenA, tokenB]);
+        expect(await factory.getIndexLevel()).to.equal(2000);
+
+        // The reference is recorded before the open
+        const nextOpen = await moveToPreMarket();
+        await expect(factory.recordIndexReference())
+          .to.emit(factory, "IndexReferenceLevelUpdated")
+          .withArgs(2000);
+        await time.increaseTo(nextOpen);
+
+        // 6.5% drop
+        await mockRouter.setReferencePrice(tokenA, 870);
+        await expect(factory.checkIndexDrop()).not.to.emit(
+          factory,
+          "MarketWideHaltTriggered"
+        );
+
+        // A single trade moves a curve price, so only the guardian checks
+        await mockRouter.setReferencePrice(tokenA, 850);
+        await expect(
+          factory.connect(user2).checkIndexDrop()
+        ).to.be.revertedWithCustomError(factory, "NotHaltGuardian");
+
+        // 7.5% drop
+        await factory.setHaltGuardian(user2.address);
+        await expect(factory.connect(user2).checkIndexDrop())
+          .to.emit(factory, "MarketWideHaltTriggered")
+          .withArgs(1, anyUint, user2.address);
+        expect(Number(await token.getMarketState())).to.equal(7); // HALTED
+
+        // Level 1 only fires once per day
+        await time.increase(15 * 60);
+        await expect(factory.checkIndexDrop()).not.to.emit(
+          factory,
+          "MarketWideHaltTriggered"
+        );
+
+        // 15% drop
+        await mockRouter.setReferencePrice(tokenA, 700);
+        await expect(factory.checkIndexDrop())
+          .to.emit(factory, "MarketWideHaltTriggered")
+          .withArgs(2, anyUint, owner.address);
+
+        // 21% drop
+        await mockRouter.setReferencePrice(tokenA, 580);
+        await expect(factory.checkIndexDrop())
+          .to.emit(factory, "MarketWideHaltTriggered")
+          .withArgs(3, anyUint, owner.address);
+      });
+    });
+  });
+
+  describe("Launch Config", function () {
+    const DEFAULT_CONFIG = {
+      graduationThreshold: GRADUATION_THRESHOLD,
+      assetRate: 10000n,
+      curveConstant: 3_000_000_000_000n,
+      totalSupply: GLOBAL_TOKEN_SUPPLY,
+    };
+    const MIN_CONFIG = {
+      graduationThreshold: ethers.parseUnits("10000", 6),
+      assetRate: 5000n,
+      curveConstant: 1_000_000_000_000n,
+      totalSupply: ethers.parseEther("1000000"),
+    };
+    const MAX_CONFIG = {
+      graduationThreshold: ethers.parseUnits("1000000", 6),
+      assetRate: 20000n,
+      curveConstant: 10_000_000_000_000n,
+      totalSupply: ethers.parseEther("10000000000"),
+    };
+
+    function deployWithConfig(config: typeof DEFAULT_CONFIG) {
+      return factory.deployTokenWithParams(
+        "Config Token",
+        "CONF",
+        treasury.address,
+        0,
+        0,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
+        config,
+        { value: DEPLOYMENT_FEE }
+      );
+    }
+
+    async function deployedCurve(tx: any) {
+      const receipt: ContractTransactionReceipt = await tx.wait();
+      const eventLog = receipt.logs.find(
+        (log): log is EventLog =>
+          log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+      );
+      if (!eventLog) throw new Error("TokenDeployed event not found");
+      return {
+        token: StonkToken__factory.connect(eventLog.args[0], owner),
+        curve: BondingCurve__factory.connect(eventLog.args[1], owner),
+      };
+    }
+
+    it("should store the default config on curves from deployToken", async function () {
+      await factory.setLaunchConfigBounds(MIN_CONFIG, MAX_CONFIG);
+      const { curve } = await deployedCurve(
+        await factory.deployToken(
+          "Test Token",
+          "TEST",
+          treasury.address,
+          0,
+          0,
+          1000,
+          ethers.ZeroAddress, // Default curve strategy
+          ethers.ZeroAddress, // Default quote asset
+          { value: DEPLOYMENT_FEE }
+        )
+      );
+
+      expect(await factory.getDefaultLaunchConfig()).to.deep.equal(
+        Object.values(DEFAULT_CONFIG)
+      );
+      expect(await curve.getLaunchConfig()).to.deep.equal(
+        Object.values(DEFAULT_CONFIG)
+      );
+    });
+
+    it("should start with bounds that only allow the default config", async function () {
+      await expect(deployWithConfig(DEFAULT_CONFIG)).to.not.be.reverted;
+      await expect(
+        deployWithConfig({ ...DEFAULT_CONFIG, assetRate: 10001n })
+      ).to.be.revertedWithCustomError(factory, "AssetRateOutOfBounds");
+    });
+
+    it("should let only the owner set valid bounds", async function () {
+      await expect(
+        factory.connect(user1).setLaunchConfigBounds(MIN_CONFIG, MAX_CONFIG)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(
+        factory.setLaunchConfigBounds(MAX_CONFIG, MIN_CONFIG)
+      ).to.be.revertedWithCustomError(factory, "InvalidLaunchConfigBounds");
+      await expect(
+        factory.setLaunchConfigBounds(
+          { ...MIN_CONFIG, assetRate: 0n },
+          MAX_CONFIG
+        )
+      ).to.be.revertedWithCustomError(factory, "InvalidLaunchConfigBounds");
+
+      await expect(factory.setLaunchConfigBounds(MIN_CONFIG, MAX_CONFIG))
+        .to.emit(factory, "LaunchConfigBoundsUpdated")
+        .withArgs(Object.values(MIN_CONFIG), Object.values(MAX_CONFIG));
+      expect(await factory.minLaunchConfig()).to.deep.equal(
+        Object.values(MIN_CONFIG)
+      );
+      expect(await factory.maxLaunchConfig()).to.deep.equal(
+        Object.values(MAX_CONFIG)
+      );
+    });
+
+    it("should reject configs outside the bounds", async function () {
+      await factory.setLaunchConfigBounds(MIN_CONFIG, MAX_CONFIG);
+
+      await expect(
+        deployWithConfig({
+          ...DEFAULT_CONFIG,
+          graduationThreshold: MIN_CONFIG.graduationThreshold - 1n,
+        })
+      ).to.be.revertedWithCustomError(
+        factory,
+        "GraduationThresholdOutOfBounds"
+      );
+      await expect(
+        deployWithConfig({
+          ...DEFAULT_CONFIG,
+          assetRate: MAX_CONFIG.assetRate + 1n,
+        })
+      ).to.be.revertedWithCustomError(factory, "AssetRateOutOfBounds");
+      await expect(
+        deployWithConfig({
+          ...DEFAULT_CONFIG,
+          curveConstant: MIN_CONFIG.curveConstant - 1n,
+        })
+      ).to.be.revertedWithCustomError(factory, "CurveConstantOutOfBounds");
+      await expect(
+        deployWithConfig({
+          ...DEFAULT_CONFIG,
+          totalSupply: MAX_CONFIG.totalSupply + 1n,
+        })
+      ).to.be.revertedWithCustomError(factory, "SupplyOutOfBounds");
+    });
+
+    it("should launch and graduate with a custom config", async function () {
+      await factory.setLaunchConfigBounds(MIN_CONFIG, MAX_CONFIG);
+      const config = {
+        graduationThreshold: MIN_CONFIG.graduationThreshold,
+        assetRate: 20000n,
+        curveConstant: 6_000_000_000_000n,
+        totalSupply: ethers.parseEther("100000000"),
+      };
+
+      const tx = deployWithConfig(config);
+      const { token, curve } = await deployedCurve(await tx);
+      await expect(tx)
+        .to.emit(factory, "TokenDeployed")
+        .withArgs(
+          await token.getAddress(),
+          await curve.getAddress(),
+          "Config Token",
+          "CONF",
+          config.totalSupply,
+          owner.address,
+          DEPLOYMENT_FEE
+        );
+
+      expect(await curve.getLaunchConfig()).to.deep.equal(
+        Object.values(config)
+      );
+      expect(await token.totalSupply()).to.equal(config.totalSupply);
+      expect(await token.balanceOf(await curve.getAddress())).to.equal(
+        config.totalSupply
+      );
+      // K normalised by the asset rate, over the supply
+      expect(await curve.getCurrentPrice()).to.equal(
+        (((config.curveConstant * 10000n) / config.assetRate) *
+          ethers.parseEther("1")) /
+          config.totalSupply
+      );
+
+      // A buy past the lower threshold graduates the curve
+      const tokenAddress = await token.getAddress();
+      await assetToken.transfer(user1.address, ethers.parseUnits("20000", 6));
+      await assetToken
+        .connect(user1)
+        .approve(await router.getAddress(), ethers.parseUnits("20000", 6));
+      await router
+        .connect(user1)
+        .buyTokensExactIn(
+          tokenAddress,
+          ethers.parseUnits("11000", 6),
+          0,
+          (await time.latest()) + 300
+        );
+
+      expect(await curve.isGraduated()).to.be.true;
+    });
+  });
+
+  describe("Quote Assets", function () {
+    let weth: MockERC20;
+    const WETH_RATE = 30_000_000n; // $3000 at ASSET_RATE = $1
+
+    beforeEach(async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      weth = await MockERC20.deploy("Mock WETH", "WETH", 18);
+      await weth.mint(user1.address, ethers.parseEther("100"));
+    });
+
+    async function deployQuotedIn(quoteAsset: string) {
+      const tx = await factory.deployToken(
+        "Quoted Token",
+        "QUOTE",
+        treasury.address,
+        0,
+        0,
+        1000,
+        ethers.ZeroAddress, // Default curve strategy
+        quoteAsset,
+        { value: DEPLOYMENT_FEE }
+      );
+      const receipt = (await tx.wait()) as ContractTransactionReceipt;
+      const eventLog = receipt.logs.find(
+        (log): log is EventLog =>
+          log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+      );
+      if (!eventLog) throw new Error("TokenDeployed event not found");
+      return {
+        token: StonkToken__factory.connect(eventLog.args[0], owner),
+        curve: BondingCurve__factory.connect(eventLog.args[1], owner),
+      };
+    }
+
+    it("should register the asset token as the default quote asset", async function () {
+      const quote = await factory.quoteAssets(await assetToken.getAddress());
+      expect(quote.allowed).to.be.true;
+      expect(quote.decimals).to.equal(6);
+      expect(quote.assetRate).to.equal(await factory.ASSET_RATE());
+
+      const { token, curve } = await deployQuotedIn(ethers.ZeroAddress);
+      expect(await curve.assetToken()).to.equal(await assetToken.getAddress());
+      expect(await router.getQuoteAsset(await token.getAddress())).to.equal(
+        await assetToken.getAddress()
+      );
+    });
+
+    it("should let only the owner manage the allowlist", async function () {
+      const wethAddress = await weth.getAddress();
+      await expect(
+        factory.connect(user1).setQuoteAsset(wethAddress, true, 18, WETH_RATE)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(
+        factory.setQuoteAsset(wethAddress, true, 18, 0)
+      ).to.be.revertedWithCustomError(factory, "InvalidQuoteAsset");
+      await expect(
+        factory.setQuoteAsset(await assetToken.getAddress(), false, 6, 10000)
+      ).to.be.revertedWithCustomError(factory, "InvalidQuoteAsset");
+
+      await expect(deployQuotedIn(wethAddress)).to.be.revertedWithCustomError(
+        factory,
+        "QuoteAssetNotAllowed"
+      );
+
+      await expect(factory.setQuoteAsset(wethAddress, true, 18, WETH_RATE))
+        .to.emit(factory, "QuoteAssetUpdated")
+        .withArgs(wethAddress, true, 18, WETH_RATE);
+      await expect(deployQuotedIn(wethAddress)).to.not.be.reverted;
+
+      // Existing tokens keep trading once an asset is disallowed
+      await factory.setQuoteAsset(wethAddress, false, 18, WETH_RATE);
+      await expect(deployQuotedIn(wethAddress)).to.be.revertedWithCustomError(
+        factory,
+        "QuoteAssetNotAllowed"
+      );
+    });
+
+    it("should price, trade and graduate against the chosen asset", async function () {
+      const wethAddress = await weth.getAddress();
+      await factory.setQuoteAsset(wethAddress, true, 18, WETH_RATE);
+
+      const usdcCurve = (await deployQuotedIn(ethers.ZeroAddress)).curve;
+      const { token, curve } = await deployQuotedIn(wethAddress);
+      const tokenAddress = await token.getAddress();
+      expect(await curve.assetToken()).to.equal(wethAddress);
+      expect(await router.getQuoteAsset(tokenAddress)).to.equal(wethAddress);
+
+      // The $100k threshold in WETH units
+      const threshold =
+        (GRADUATION_THRESHOLD * 10n ** 22n) / (WETH_RATE * 10n ** 6n);
+      expect(await curve.getGraduationThreshold()).to.equal(threshold);
+      // The $1 kept for graduation, in each asset's units
+      expect(await usdcCurve.minAssetLiquidity()).to.equal(
+        ethers.parseUnits("1", 6)
+      );
+      expect(await curve.minAssetLiquidity()).to.equal(
+        (MIN_ASSET_LIQUIDITY * 10n ** 22n) / (WETH_RATE * 10n ** 6n)
+      );
+
+      // Both curves start at the same reference price
+      expect(
+        await factory.toReferenceUnits(
+          wethAddress,
+          await router.getSpotPrice(tokenAddress)
+        )
+      ).to.be.closeTo(await usdcCurve.getCurrentPrice(), 1n);
+
+      await weth
+        .connect(user1)
+        .approve(await router.getAddress(), ethers.parseEther("100"));
+      await router
+        .connect(user1)
+        .buyTokensExactIn(
+          tokenAddress,
+          ethers.parseEther("1"),
+          0,
+          (await time.latest()) + 300
+        );
+      const tokens = await token.balanceOf(user1.address);
+      expect(tokens).to.be.gt(0n);
+      expect(await weth.balanceOf(await curve.getAddress())).to.be.gt(0n);
+
+      await token.connect(user1).approve(await router.getAddress(), tokens);
+      const wethBefore = await weth.balanceOf(user1.address);
+      await router
+        .connect(user1)
+        .sellTokens(tokenAddress, tokens / 2n, 0, (await time.latest()) + 300);
+      expect(await weth.balanceOf(user1.address)).to.be.gt(wethBefore);
+
+      // Crossing the WETH threshold graduates into a WETH pair
+      await router
+        .connect(user1)
+        .buyTokensExactIn(
+          tokenAddress,
+          threshold + ethers.parseEther("5"),
+          0,
+          (await time.latest()) + 300
+        );
+      expect(await curve.isGraduated()).to.be.true;
+
+      const pair = await uniswapFactory.getPair(tokenAddress, wethAddress);
+      expect(pair).to.not.equal(ethers.ZeroAddress);
+      const [graduated, , uniswapPair] = await router.getTokenTradingState(
+        tokenAddress
+      );
+      expect(graduated).to.be.true;
+      expect(uniswapPair).to.equal(pair);
     });
   });
 });
@@ -1,7 +1,23 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
 import { ContractTransactionReceipt, EventLog } from "ethers";
+import { AddressInfo } from "net";
+import {
+  getNextMarketOpen,
+  PERMIT2_ADDRESS,
+  serializeSignedOrder,
+  signOrder,
+  signPermit,
+  signPermit2Transfer,
+  submitOrder,
+} from "../sdk";
+import { createRelayerServer } from "../relayer/server";
 
 describe("StonkTradingRouter", function () {
   let factory: any;
@@ -11,15 +27,36 @@ describe("StonkTradingRouter", function () {
   let assetToken: any;
   let uniswapFactory: any;
   let uniswapRouter: any;
+  let weth: any;
   let owner: SignerWithAddress;
   let user1: SignerWithAddress;
   let user2: SignerWithAddress;
   let treasury: SignerWithAddress;
+  let snapshot: SnapshotRestorer;
 
   const INITIAL_SUPPLY = ethers.parseEther("1000000"); // 1M tokens
   const DEPLOYMENT_FEE = ethers.parseEther("0.1"); // 0.1 ETH
-  const GLOBAL_TOKEN_SUPPLY = ethers.parseEther("1000000"); // 1M tokens
+  const GLOBAL_TOKEN_SUPPLY = ethers.parseEther("1000000000"); // Fixed 1B supply set by the factory
   const BONDING_CURVE_FEE_BASIS_POINTS = 300; // 3% fee
+  const TAX_BASIS_POINTS = 500n; // The test token's buy and sell tax
+
+  // The bonding curve and Uniswap pair are taxed venues
+  const lessTax = (amount: bigint) =>
+    amount - (amount * TAX_BASIS_POINTS) / 10000n;
+  // Tokens to send so that amount arrives after the sell tax, rounded up
+  const withTax = (amount: bigint) =>
+    (amount * 10000n + 10000n - TAX_BASIS_POINTS - 1n) /
+    (10000n - TAX_BASIS_POINTS);
+
+  // Factory tokens hold pool and bonding curve trades to market hours
+  before(async function () {
+    snapshot = await takeSnapshot();
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
 
   beforeEach(async function () {
     [owner, user1, user2, treasury] = await ethers.getSigners();
@@ -44,6 +81,23 @@ describe("StonkTradingRouter", function () {
       await uniswapFactory.getAddress()
     );
 
+    // Deploy mock WETH; the trading router reads it from the Uniswap router
+    const MockWETH9 = await ethers.getContractFactory("MockWETH9");
+    weth = await MockWETH9.deploy();
+    await uniswapRouter.setWETH(await weth.getAddress());
+
+    // Deploy the token and bonding curve deployers used by the factory
+    const StonkTokenDeployer = await ethers.getContractFactory(
+      "StonkTokenDeployer"
+    );
+    const tokenDeployer = await StonkTokenDeployer.deploy();
+    const BondingCurveDeployer = await ethers.getContractFactory(
+      "BondingCurveDeployer"
+    );
+    const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+    const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+    const curveStrategy = await HyperbolicCurve.deploy();
+
     // Deploy StonkTokenFactory
     const StonkTokenFactory = await ethers.getContractFactory(
       "StonkTokenFactory"
@@ -54,8 +108,10 @@ describe("StonkTradingRouter", function () {
       await uniswapFactory.getAddress(),
       await uniswapRouter.getAddress(),
       await assetToken.getAddress(),
-      GLOBAL_TOKEN_SUPPLY,
-      BONDING_CURVE_FEE_BASIS_POINTS
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await curveStrategy.getAddress()
     );
 
     // Deploy StonkTradingRouter
@@ -83,6 +139,7 @@ describe("StonkTradingRouter", function () {
         await uniswapFactory.getAddress()
       );
       expect(await router.assetToken()).to.equal(await assetToken.getAddress());
+      expect(await router.weth()).to.equal(await weth.getAddress());
     });
 
     it("should have owner set correctly", async function () {
@@ -100,6 +157,8 @@ describe("StonkTradingRouter", function () {
         500, // 5% buy tax
         500, // 5% sell tax
         1000, // 10% swap threshold
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
         { value: DEPLOYMENT_FEE }
       );
 
@@ -135,6 +194,8 @@ describe("StonkTradingRouter", function () {
         500,
         500,
         1000,
+        ethers.ZeroAddress, // Default curve strategy
+        ethers.ZeroAddress, // Default quote asset
         { value: DEPLOYMENT_FEE }
       );
 
@@ -177,7 +238,7 @@ describe("StonkTradingRouter", function () {
     it("should allow buying tokens through router", async function () {
       const buyAmount = ethers.parseEther("10");
       const maxAssetAmount = ethers.parseUnits("100", 6);
-      const deadline = Math.floor(Date.now() / 1000) + 300; // 5 minutes
+      const deadline = (await time.latest()) + 300; // 5 minutes
 
       // Check bonding curve balances before purchase
       const bondingCurveTokenBalanceBefore = await stonkToken.balanceOf(
@@ -214,7 +275,7 @@ describe("StonkTradingRouter", function () {
 
       // Verify tokens were received
       const userBalance = await stonkToken.balanceOf(user1.address);
-      expect(userBalance).to.equal(buyAmount);
+      expect(userBalance).to.equal(lessTax(buyAmount));
     });
 
     it("should calculate buy price correctly", async function () {
@@ -237,6 +298,16 @@ describe("StonkTradingRouter", function () {
     it("should calculate sell proceeds correctly", async function () {
       const sellAmount = ethers.parseEther("10");
 
+      // The curve only buys back tokens it has sold
+      await router
+        .connect(user1)
+        .buyTokens(
+          tokenAddress,
+          sellAmount,
+          ethers.parseUnits("100", 6),
+          (await time.latest()) + 300
+        );
+
       // Calculate proceeds through router
       const routerProceeds = await router.calculateSellProceeds(
         tokenAddress,
@@ -245,17 +316,50 @@ describe("StonkTradingRouter", function () {
 
       // Calculate proceeds directly through bonding curve
       const bondingCurveProceeds = await bondingCurve.calculateSaleProceeds(
-        sellAmount
+        lessTax(sellAmount)
       );
 
       expect(routerProceeds).to.equal(bondingCurveProceeds);
     });
 
+    it("should quote what a sell pays out, curve fee included", async function () {
+      const deadline = (await time.latest()) + 300;
+      await router
+        .connect(user1)
+        .buyTokens(
+          tokenAddress,
+          ethers.parseEther("10"),
+          ethers.parseUnits("100", 6),
+          deadline
+        );
+
+      const sellAmount = ethers.parseEther("5");
+      const netProceeds = await router.calculateNetSellProceeds(
+        tokenAddress,
+        sellAmount
+      );
+      const [proceeds, fee] = await bondingCurve.calculateSellFee(
+        lessTax(sellAmount)
+      );
+      expect(netProceeds).to.equal(proceeds - fee);
+
+      await stonkToken
+        .connect(user1)
+        .approve(await router.getAddress(), sellAmount);
+      const balanceBefore = await assetToken.balanceOf(user1.address);
+      await router
+        .connect(user1)
+        .sellTokens(tokenAddress, sellAmount, netProceeds, deadline);
+      expect(
+        (await assetToken.balanceOf(user1.address)) - balanceBefore
+      ).to.equal(netProceeds);
+    });
+
     it("should allow selling tokens through router", async function () {
       // First buy some tokens
       const buyAmount = ethers.parseEther("10");
       const maxAssetAmount = ethers.parseUnits("100", 6);
-      const deadline = Math.floor(Date.now() / 1000) + 300;
+      const deadline = (await time.latest()) + 300;
 
       await router
         .connect(user1)
@@ -279,14 +383,14 @@ describe("StonkTradingRouter", function () {
       const sellAmount = ethers.parseEther("5");
       // Calculate expected proceeds from bonding curve
       const expectedProceeds = await bondingCurve.calculateSaleProceeds(
-        sellAmount
+        lessTax(sellAmount)
       );
       // Calculate fee
       const feeBasisPoints = await bondingCurve.feeBasisPoints();
       const fee = (expectedProceeds * BigInt(feeBasisPoints)) / 10000n;
       const netProceeds = expectedProceeds - fee;
-      // Set minAssetAmount to netProceeds minus a small buffer (e.g., 1 USDC)
-      const minAssetAmount = netProceeds - ethers.parseUnits("1", 6);
+      // Set minAssetAmount to netProceeds minus a small buffer (1%)
+      const minAssetAmount = (netProceeds * 99n) / 100n;
 
       // Approve router to spend tokens
       await stonkToken
@@ -313,7 +417,38 @@ describe("StonkTradingRouter", function () {
 
       // Verify tokens were sold
       const userTokenBalance = await stonkToken.balanceOf(user1.address);
-      expect(userTokenBalance).to.equal(buyAmount - sellAmount);
+      expect(userTokenBalance).to.equal(lessTax(buyAmount) - sellAmount);
+    });
+
+    it("should sell deposited tokens to a direct curve caller", async function () {
+      const deadline = (await time.latest()) + 300;
+      await router
+        .connect(user1)
+        .buyTokens(
+          tokenAddress,
+          ethers.parseEther("10"),
+          ethers.parseUnits("100", 6),
+          deadline
+        );
+      const deposit = await stonkToken.balanceOf(user1.address);
+      await stonkToken.connect(user1).transfer(bondingCurveAddress, deposit);
+      const received = lessTax(deposit);
+
+      await expect(
+        bondingCurve.connect(user1).sellTokens(user1.address, received + 1n, 0)
+      ).to.be.revertedWithCustomError(bondingCurve, "InsufficientTokenBalance");
+
+      const proceeds = await bondingCurve.calculateSaleProceeds(received);
+      const assetBefore = await assetToken.balanceOf(user1.address);
+      await expect(
+        bondingCurve.connect(user1).sellTokens(user1.address, received, 0)
+      ).to.emit(bondingCurve, "TokensSold");
+      expect(await assetToken.balanceOf(user1.address)).to.be.closeTo(
+        assetBefore +
+          proceeds -
+          (proceeds * BigInt(BONDING_CURVE_FEE_BASIS_POINTS)) / 10000n,
+        1n
+      );
     });
 
     it("should graduate token automatically when asset balance reaches threshold", async function () {
@@ -338,9 +473,9 @@ describe("StonkTradingRouter", function () {
       expect(initialBondingCurve).to.equal(bondingCurveAddress);
 
       // Buy enough tokens to accumulate asset balance above graduation threshold
-      const buyAmount = ethers.parseEther("10000"); // Buy 10k tokens instead of 50k
+      const buyAmount = ethers.parseEther("35000000"); // ~107k USDC on the curve, above the 100k threshold
       const maxAssetAmount = ethers.parseUnits("200000", 6); // Allow up to 200k USDC
-      const deadline = Math.floor(Date.now() / 1000) + 300;
+      const deadline = (await time.latest()) + 300;
 
       // This should trigger graduation since it will put >100k USDC in bonding curve
       await router
@@ -368,9 +503,9 @@ describe("StonkTradingRouter", function () {
         .connect(user1)
         .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
 
-      const buyAmount = ethers.parseEther("10000"); // Buy only 10k tokens instead of 50k
+      const buyAmount = ethers.parseEther("35000000"); // ~107k USDC on the curve, above the 100k threshold
       const maxAssetAmount = ethers.parseUnits("200000", 6);
-      const deadline = Math.floor(Date.now() / 1000) + 300;
+      const deadline = (await time.latest()) + 300;
 
       // Check bonding curve balances BEFORE any purchase (should have all tokens, no USDC)
       const bondingCurveTokenBalanceBefore = await stonkToken.balanceOf(
@@ -551,13 +686,14 @@ describe("StonkTradingRouter", function () {
       // First graduate the token
       const graduationThreshold = await bondingCurve.getGraduationThreshold();
       await assetToken.transfer(user1.address, ethers.parseUnits("200000", 6));
+      // Approve beyond the graduation buy so allowance remains for Uniswap trades
       await assetToken
         .connect(user1)
-        .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        .approve(await router.getAddress(), ethers.parseUnits("300000", 6));
 
-      const buyAmount = ethers.parseEther("10000"); // Buy 10k tokens instead of 50k
+      const buyAmount = ethers.parseEther("35000000"); // ~107k USDC on the curve, above the 100k threshold
       const maxAssetAmount = ethers.parseUnits("200000", 6);
-      const deadline = Math.floor(Date.now() / 1000) + 300;
+      const deadline = (await time.latest()) + 300;
 
       await router
         .connect(user1)
@@ -636,7 +772,7 @@ describe("StonkTradingRouter", function () {
       );
 
       // Try to sell tokens - should work through Uniswap
-      const sellAmount = ethers.parseEther("5");
+      const sellAmount = ethers.parseEther("100000"); // Enough to clear the 1 USDC minimum at pool prices
       await stonkToken
         .connect(user1)
         .approve(await router.getAddress(), sellAmount);
@@ -659,6 +795,2027 @@ describe("StonkTradingRouter", function () {
         ethers.formatUnits(finalUSDCBalance - initialUSDCBalance, 6)
       );
     });
+
+    describe("Trade Accounting", function () {
+      it("should report what a buy actually cost", async function () {
+        const tokenAmount = ethers.parseEther("1000000");
+        const maxAssetAmount = ethers.parseUnits("10000", 6);
+        const deadline = (await time.latest()) + 300;
+        const [price, fee] = await bondingCurve.calculateBuyFee(tokenAmount);
+        const usdcBefore = await assetToken.balanceOf(user1.address);
+
+        expect(
+          await router
+            .connect(user1)
+            .buyTokens.staticCall(
+              tokenAddress,
+              tokenAmount,
+              maxAssetAmount,
+              deadline
+            )
+        ).to.equal(lessTax(tokenAmount));
+        const tx = await router
+          .connect(user1)
+          .buyTokens(tokenAddress, tokenAmount, maxAssetAmount, deadline);
+
+        // The cost and fee, not maxAssetAmount
+        await expect(tx)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            lessTax(tokenAmount),
+            price + fee,
+            fee,
+            tokenAmount - lessTax(tokenAmount),
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+        expect(await assetToken.balanceOf(user1.address)).to.equal(
+          usdcBefore - price - fee
+        );
+      });
+
+      it("should return the sale proceeds rather than the seller's balance", async function () {
+        const deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("1000000"),
+            ethers.parseUnits("10000", 6),
+            deadline
+          );
+
+        const sellAmount = ethers.parseEther("500000");
+        const [proceeds, fee] = await bondingCurve.calculateSellFee(
+          lessTax(sellAmount)
+        );
+        expect(
+          await router
+            .connect(user1)
+            .sellTokens.staticCall(tokenAddress, sellAmount, 0, deadline)
+        ).to.equal(proceeds - fee);
+
+        const tx = await router
+          .connect(user1)
+          .sellTokens(tokenAddress, sellAmount, 0, deadline);
+        await expect(tx)
+          .to.emit(router, "TokensSold")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            sellAmount,
+            proceeds - fee,
+            fee,
+            sellAmount - lessTax(sellAmount),
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+      });
+
+      it("should report tokens withheld by the transfer tax", async function () {
+        // The bonding curve is a registered pool, so buys pay the buy tax
+        const tokenAmount = ethers.parseEther("1000000");
+        const tax =
+          (tokenAmount * (await stonkToken.totalBuyTaxBasisPoints())) / 10000n;
+        const [price, fee] = await bondingCurve.calculateBuyFee(tokenAmount);
+        const deadline = (await time.latest()) + 300;
+
+        const tx = await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            tokenAmount,
+            ethers.parseUnits("10000", 6),
+            deadline
+          );
+        await expect(tx)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            tokenAmount - tax,
+            price + fee,
+            fee,
+            tax,
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(
+          tokenAmount - tax
+        );
+      });
+
+      it("should report graduation once, from the bonding curve", async function () {
+        await assetToken.transfer(
+          user1.address,
+          ethers.parseUnits("200000", 6)
+        );
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        const deadline = (await time.latest()) + 300;
+
+        const tx = await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            deadline
+          );
+        const [, , pair] = await router.getTokenTradingState(tokenAddress);
+        const tokenReserve = await stonkToken.balanceOf(pair);
+        const assetReserve = await assetToken.balanceOf(pair);
+        expect(tokenReserve).to.be.gt(0);
+        expect(assetReserve).to.be.gt(0);
+        await expect(tx)
+          .to.emit(bondingCurve, "GraduationCompleted")
+          .withArgs(
+            tokenAddress,
+            pair,
+            await (
+              await ethers.getContractAt("MockUniswapPair", pair)
+            ).balanceOf(bondingCurveAddress),
+            tokenReserve,
+            assetReserve
+          );
+        expect(await router.getSpotPrice(tokenAddress)).to.equal(
+          (assetReserve * ethers.parseEther("1")) / tokenReserve
+        );
+
+        await expect(
+          router
+            .connect(user1)
+            .sellTokens(tokenAddress, ethers.parseEther("1000"), 0, deadline)
+        ).not.to.emit(bondingCurve, "GraduationCompleted");
+      });
+    });
+
+    describe("Taxed Venues", function () {
+      it("should tax trades with the bonding curve and the Uniswap pair", async function () {
+        expect(await stonkToken.isLiquidityPool(bondingCurveAddress)).to.be
+          .true;
+
+        await assetToken.transfer(
+          user1.address,
+          ethers.parseUnits("200000", 6)
+        );
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        const tokenAmount = ethers.parseEther("35000000");
+        const pendingBefore = await stonkToken.projectTaxPendingSwap();
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            tokenAmount,
+            ethers.parseUnits("200000", 6),
+            (await time.latest()) + 300
+          );
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+
+        // Only the buy is taxed, not the migration into the pair
+        const [, , pair] = await router.getTokenTradingState(tokenAddress);
+        expect(await stonkToken.isLiquidityPool(pair)).to.be.true;
+        expect(await stonkToken.projectTaxPendingSwap()).to.equal(
+          pendingBefore + tokenAmount - lessTax(tokenAmount)
+        );
+        expect(
+          await router.calculateTax(tokenAddress, tokenAmount, false)
+        ).to.equal(tokenAmount - lessTax(tokenAmount));
+      });
+
+      it("should complete graduation through the token's hook", async function () {
+        await assetToken.transfer(
+          user1.address,
+          ethers.parseUnits("200000", 6)
+        );
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+
+        const tx = await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            (await time.latest()) + 300
+          );
+        const [, , pairAddress] = await router.getTokenTradingState(
+          tokenAddress
+        );
+        const pair = await ethers.getContractAt("MockUniswapPair", pairAddress);
+        const liquidity = await pair.balanceOf(bondingCurveAddress);
+        expect(liquidity).to.be.gt(0);
+
+        await expect(tx)
+          .to.emit(bondingCurve, "GraduationCompleted")
+          .withArgs(
+            tokenAddress,
+            pairAddress,
+            liquidity,
+            await stonkToken.balanceOf(pairAddress),
+            await assetToken.balanceOf(pairAddress)
+          );
+        await expect(tx)
+          .to.emit(stonkToken, "LiquidityPoolAdded")
+          .withArgs(pairAddress);
+      });
+
+      it("should only take the graduation hook from the bonding curve", async function () {
+        await expect(
+          stonkToken.onGraduation(bondingCurveAddress)
+        ).to.be.revertedWithCustomError(stonkToken, "OnlyVault");
+      });
+
+      it("should quote untaxed trades once the venue is deregistered", async function () {
+        const tokenAmount = ethers.parseEther("1000000");
+        const assetAmountIn = ethers.parseUnits("1000", 6);
+        expect(
+          await router.calculateTax(tokenAddress, tokenAmount, true)
+        ).to.equal(tokenAmount - lessTax(tokenAmount));
+
+        await stonkToken.removeLiquidityPool(bondingCurveAddress);
+
+        expect(
+          await router.calculateTax(tokenAddress, tokenAmount, true)
+        ).to.equal(0);
+        expect(
+          await router.calculateBuyAmount(tokenAddress, assetAmountIn)
+        ).to.equal(await bondingCurve.calculatePurchaseAmount(assetAmountIn));
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            tokenAmount,
+            ethers.parseUnits("10000", 6),
+            (await time.latest()) + 300
+          );
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(tokenAmount);
+      });
+
+      it("should price the curve from its reserve, not its balance", async function () {
+        const deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("1000000"),
+            ethers.parseUnits("10000", 6),
+            deadline
+          );
+        const price = await bondingCurve.getCurrentPrice();
+        const reserve = await bondingCurve.tokenReserve();
+
+        // Tokens sent to the curve outside a sale do not move its price
+        await stonkToken
+          .connect(user1)
+          .transfer(bondingCurveAddress, ethers.parseEther("100000"));
+        expect(await bondingCurve.getCurrentPrice()).to.equal(price);
+        expect(await bondingCurve.tokenReserve()).to.equal(reserve);
+        expect(await stonkToken.balanceOf(bondingCurveAddress)).to.equal(
+          reserve + lessTax(ethers.parseEther("100000"))
+        );
+      });
+    });
+
+    describe("Exact Input Buys", function () {
+      it("should quote exact-input buys from the bonding curve", async function () {
+        const assetAmountIn = ethers.parseUnits("500", 6);
+
+        const routerQuote = await router.calculateBuyAmount(
+          tokenAddress,
+          assetAmountIn
+        );
+        const bondingCurveQuote = await bondingCurve.calculatePurchaseAmount(
+          assetAmountIn
+        );
+        // The router quotes what arrives after the buy tax
+        expect(routerQuote).to.equal(lessTax(bondingCurveQuote));
+
+        // The solved amount costs no more than the input, fee included
+        const [cost, fee] = await bondingCurve.calculateBuyFee(
+          bondingCurveQuote
+        );
+        expect(cost + fee).to.be.lte(assetAmountIn);
+        // ...and is tight: within 0.01% of the input
+        expect(cost + fee).to.be.gte((assetAmountIn * 9999n) / 10000n);
+      });
+
+      it("should spend exactly the input amount on the bonding curve", async function () {
+        const assetAmountIn = ethers.parseUnits("500", 6);
+        const deadline = (await time.latest()) + 300;
+        const expectedTokens = await router.calculateBuyAmount(
+          tokenAddress,
+          assetAmountIn
+        );
+        const tokensBought = await bondingCurve.calculatePurchaseAmount(
+          assetAmountIn
+        );
+        const [cost, fee] = await bondingCurve.calculateBuyFee(tokensBought);
+        const usdcBefore = await assetToken.balanceOf(user1.address);
+        const treasuryBefore = await assetToken.balanceOf(treasury.address);
+
+        const tx = await router
+          .connect(user1)
+          .buyTokensExactIn(
+            tokenAddress,
+            assetAmountIn,
+            expectedTokens,
+            deadline
+          );
+        // The event reports the measured cost, not the input
+        await expect(tx)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            expectedTokens,
+            cost + fee,
+            fee,
+            tokensBought - expectedTokens,
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(
+          expectedTokens
+        );
+        // Rounding dust is refunded, so the user pays exactly cost + fee
+        expect(await assetToken.balanceOf(user1.address)).to.equal(
+          usdcBefore - cost - fee
+        );
+        expect(await assetToken.balanceOf(treasury.address)).to.equal(
+          treasuryBefore + fee
+        );
+      });
+
+      it("should revert when fewer than minTokensOut would be received", async function () {
+        const assetAmountIn = ethers.parseUnits("500", 6);
+        const deadline = (await time.latest()) + 300;
+        const expectedTokens = await router.calculateBuyAmount(
+          tokenAddress,
+          assetAmountIn
+        );
+
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensExactIn(
+              tokenAddress,
+              assetAmountIn,
+              expectedTokens + 1n,
+              deadline
+            )
+        ).to.be.revertedWithCustomError(router, "SlippageTooHigh");
+      });
+
+      it("should reject zero input and expired deadlines", async function () {
+        const deadline = (await time.latest()) + 300;
+
+        await expect(
+          router.connect(user1).buyTokensExactIn(tokenAddress, 0, 0, deadline)
+        ).to.be.revertedWithCustomError(router, "InvalidAmount");
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensExactIn(tokenAddress, ethers.parseUnits("10", 6), 0, 0)
+        ).to.be.revertedWithCustomError(router, "DeadlinePassed");
+      });
+
+      it("should graduate when an exact-input buy crosses the threshold", async function () {
+        await assetToken.transfer(user1.address, ethers.parseUnits("200000", 6));
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        const deadline = (await time.latest()) + 300;
+
+        // 110k in, ~106.8k lands in the curve after the 3% fee
+        await router
+          .connect(user1)
+          .buyTokensExactIn(
+            tokenAddress,
+            ethers.parseUnits("110000", 6),
+            0,
+            deadline
+          );
+
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+      });
+
+      it("should route exact-input buys through Uniswap after graduation", async function () {
+        await assetToken.transfer(user1.address, ethers.parseUnits("200000", 6));
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("300000", 6));
+        const deadline = (await time.latest()) + 300;
+
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            deadline
+          );
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+
+        const assetAmountIn = ethers.parseUnits("100", 6);
+        const path = [await assetToken.getAddress(), tokenAddress];
+        // The pair is a taxed venue too
+        const [, tokensOut] = await uniswapRouter.getAmountsOut(
+          assetAmountIn,
+          path
+        );
+        const expectedTokens = lessTax(tokensOut);
+        expect(
+          await router.calculateBuyAmount(tokenAddress, assetAmountIn)
+        ).to.equal(expectedTokens);
+
+        const tokensBefore = await stonkToken.balanceOf(user1.address);
+        const usdcBefore = await assetToken.balanceOf(user1.address);
+
+        const tx = await router
+          .connect(user1)
+          .buyTokensExactIn(
+            tokenAddress,
+            assetAmountIn,
+            expectedTokens,
+            deadline
+          );
+        await expect(tx)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            expectedTokens,
+            assetAmountIn,
+            0,
+            tokensOut - expectedTokens,
+            await router.getSpotPrice(tokenAddress),
+            false
+          );
+
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(
+          tokensBefore + expectedTokens
+        );
+        expect(await assetToken.balanceOf(user1.address)).to.equal(
+          usdcBefore - assetAmountIn
+        );
+
+        // Uniswap enforces minTokensOut after graduation
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensExactIn(
+              tokenAddress,
+              assetAmountIn,
+              ethers.MaxUint256,
+              deadline
+            )
+        ).to.be.reverted;
+      });
+
+      it("should only spend asset deposited for the buy", async function () {
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("1000000"),
+            ethers.parseUnits("10000", 6),
+            (await time.latest()) + 300
+          );
+        const assetReserve = await bondingCurve.assetReserve();
+        expect(await assetToken.balanceOf(bondingCurveAddress)).to.equal(
+          assetReserve
+        );
+
+        // Calling the curve directly cannot spend its reserve
+        await expect(
+          bondingCurve
+            .connect(user1)
+            .buyTokensExactIn(user1.address, assetReserve, 0)
+        ).to.be.revertedWithCustomError(
+          bondingCurve,
+          "InsufficientAssetBalance"
+        );
+        await expect(
+          bondingCurve
+            .connect(user1)
+            .buyTokens(user1.address, ethers.parseEther("1000"), assetReserve)
+        ).to.be.revertedWithCustomError(
+          bondingCurve,
+          "InsufficientAssetBalance"
+        );
+      });
+    });
+
+    describe("Exact Output Sells", function () {
+      beforeEach(async function () {
+        const deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("1000000"),
+            ethers.parseUnits("10000", 6),
+            deadline
+          );
+      });
+
+      it("should quote the tokens needed for an exact output", async function () {
+        const assetAmountOut = ethers.parseUnits("1000", 6);
+
+        const tokensNeeded = await router.calculateSellAmount(
+          tokenAddress,
+          assetAmountOut
+        );
+        // Grossed up so that enough reaches the curve after the sell tax
+        expect(tokensNeeded).to.equal(
+          withTax(await bondingCurve.calculateSaleAmount(assetAmountOut))
+        );
+
+        // Selling the quoted amount clears the target after tax and fee
+        const [proceeds, fee] = await bondingCurve.calculateSellFee(
+          lessTax(tokensNeeded)
+        );
+        expect(proceeds - fee).to.be.gte(assetAmountOut);
+        // ...without overshooting by more than 0.01%
+        expect(proceeds - fee).to.be.lte((assetAmountOut * 10001n) / 10000n);
+      });
+
+      it("should pay exactly the requested amount and refund unused tokens", async function () {
+        const assetAmountOut = ethers.parseUnits("1000", 6);
+        const deadline = (await time.latest()) + 300;
+        const tokensNeeded = await router.calculateSellAmount(
+          tokenAddress,
+          assetAmountOut
+        );
+        const maxTokensIn = ethers.parseEther("500000");
+        const tokensUsed = await bondingCurve.calculateSaleAmount(
+          assetAmountOut
+        );
+        const [, fee] = await bondingCurve.calculateSellFee(tokensUsed);
+        // Rounding the tax up leaves dust, which the curve refunds, taxed
+        const refund = lessTax(tokensNeeded) - tokensUsed;
+        const tokensSold = tokensNeeded - lessTax(refund);
+        const tokensBefore = await stonkToken.balanceOf(user1.address);
+        const usdcBefore = await assetToken.balanceOf(user1.address);
+
+        const tx = await router
+          .connect(user1)
+          .sellTokensExactOut(
+            tokenAddress,
+            assetAmountOut,
+            maxTokensIn,
+            deadline
+          );
+        await expect(tx)
+          .to.emit(router, "TokensSold")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            tokensSold,
+            assetAmountOut,
+            fee,
+            tokensNeeded - lessTax(tokensNeeded) + refund - lessTax(refund),
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+
+        expect(await assetToken.balanceOf(user1.address)).to.equal(
+          usdcBefore + assetAmountOut
+        );
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(
+          tokensBefore - tokensSold
+        );
+        expect(await stonkToken.balanceOf(await router.getAddress())).to.equal(
+          0
+        );
+      });
+
+      it("should revert when more than maxTokensIn would be needed", async function () {
+        const assetAmountOut = ethers.parseUnits("1000", 6);
+        const deadline = (await time.latest()) + 300;
+        const tokensNeeded = await router.calculateSellAmount(
+          tokenAddress,
+          assetAmountOut
+        );
+
+        await expect(
+          router
+            .connect(user1)
+            .sellTokensExactOut(
+              tokenAddress,
+              assetAmountOut,
+              tokensNeeded - 1n,
+              deadline
+            )
+        ).to.be.revertedWithCustomError(router, "SlippageTooHigh");
+      });
+
+      it("should reject zero amounts and expired deadlines", async function () {
+        const deadline = (await time.latest()) + 300;
+
+        await expect(
+          router
+            .connect(user1)
+            .sellTokensExactOut(tokenAddress, 0, 1, deadline)
+        ).to.be.revertedWithCustomError(router, "InvalidAmount");
+        await expect(
+          router
+            .connect(user1)
+            .sellTokensExactOut(tokenAddress, 1, 0, deadline)
+        ).to.be.revertedWithCustomError(router, "InvalidAmount");
+        await expect(
+          router.connect(user1).sellTokensExactOut(tokenAddress, 1, 1, 0)
+        ).to.be.revertedWithCustomError(router, "DeadlinePassed");
+      });
+
+      it("should sell just enough on Uniswap after graduation", async function () {
+        await assetToken.transfer(user1.address, ethers.parseUnits("200000", 6));
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        let deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            deadline
+          );
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+
+        const assetAmountOut = ethers.parseUnits("10", 6);
+        const path = [tokenAddress, await assetToken.getAddress()];
+        // Taxed tokens cannot use swapTokensForExactTokens, so the router
+        // sells enough that the taxed remainder buys the output
+        const [tokensIn] = await uniswapRouter.getAmountsIn(
+          assetAmountOut,
+          path
+        );
+        const tokensNeeded = withTax(tokensIn);
+        expect(
+          await router.calculateSellAmount(tokenAddress, assetAmountOut)
+        ).to.equal(tokensNeeded);
+        const [, assetAmount] = await uniswapRouter.getAmountsOut(
+          lessTax(tokensNeeded),
+          path
+        );
+        expect(assetAmount).to.be.gte(assetAmountOut);
+
+        const maxTokensIn = tokensNeeded * 2n;
+        const tokensBefore = await stonkToken.balanceOf(user1.address);
+        const usdcBefore = await assetToken.balanceOf(user1.address);
+        deadline = (await time.latest()) + 300;
+
+        const tx = await router
+          .connect(user1)
+          .sellTokensExactOut(
+            tokenAddress,
+            assetAmountOut,
+            maxTokensIn,
+            deadline
+          );
+        await expect(tx)
+          .to.emit(router, "TokensSold")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            tokensNeeded,
+            assetAmount,
+            0,
+            tokensNeeded - lessTax(tokensNeeded),
+            await router.getSpotPrice(tokenAddress),
+            false
+          );
+
+        expect(await assetToken.balanceOf(user1.address)).to.equal(
+          usdcBefore + assetAmount
+        );
+        // Unused tokens are refunded by the router
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(
+          tokensBefore - tokensNeeded
+        );
+
+        // Uniswap enforces maxTokensIn after graduation
+        await expect(
+          router
+            .connect(user1)
+            .sellTokensExactOut(
+              tokenAddress,
+              assetAmountOut,
+              tokensNeeded / 2n,
+              deadline
+            )
+        ).to.be.reverted;
+      });
+    });
+
+    describe("Permits", function () {
+      const maxAssetAmount = ethers.parseUnits("10000", 6);
+      const tokenAmount = ethers.parseEther("1000000");
+      let deadline: bigint;
+
+      beforeEach(async function () {
+        // user2 trades without any prior approval to the router
+        await assetToken.transfer(user2.address, maxAssetAmount);
+        deadline = BigInt(await time.latest()) + 300n;
+      });
+
+      it("should buy and sell with EIP-2612 permits", async function () {
+        const routerAddress = await router.getAddress();
+        const buyPermit = await signPermit(
+          user2,
+          await assetToken.getAddress(),
+          routerAddress,
+          maxAssetAmount,
+          deadline
+        );
+        await expect(
+          router
+            .connect(user2)
+            .buyWithPermit(
+              tokenAddress,
+              tokenAmount,
+              maxAssetAmount,
+              deadline,
+              buyPermit
+            )
+        ).to.emit(router, "TokensPurchased");
+        expect(await stonkToken.balanceOf(user2.address)).to.equal(
+          lessTax(tokenAmount)
+        );
+        expect(await assetToken.nonces(user2.address)).to.equal(1n);
+
+        const sellAmount = tokenAmount / 2n;
+        const sellPermit = await signPermit(
+          user2,
+          tokenAddress,
+          routerAddress,
+          sellAmount,
+          deadline
+        );
+        await expect(
+          router
+            .connect(user2)
+            .sellWithPermit(tokenAddress, sellAmount, 0, deadline, sellPermit)
+        ).to.emit(router, "TokensSold");
+        expect(await stonkToken.balanceOf(user2.address)).to.equal(
+          lessTax(tokenAmount) - sellAmount
+        );
+        expect(await stonkToken.nonces(user2.address)).to.equal(1n);
+      });
+
+      it("should reject expired and replayed permits", async function () {
+        const routerAddress = await router.getAddress();
+        const expired = await signPermit(
+          user2,
+          await assetToken.getAddress(),
+          routerAddress,
+          maxAssetAmount,
+          BigInt(await time.latest()) - 1n
+        );
+        await expect(
+          router
+            .connect(user2)
+            .buyWithPermit(
+              tokenAddress,
+              tokenAmount,
+              maxAssetAmount,
+              deadline,
+              expired
+            )
+        ).to.be.revertedWithCustomError(assetToken, "ERC2612ExpiredSignature");
+
+        const permit = await signPermit(
+          user2,
+          await assetToken.getAddress(),
+          routerAddress,
+          maxAssetAmount,
+          deadline
+        );
+        await router
+          .connect(user2)
+          .buyWithPermit(
+            tokenAddress,
+            tokenAmount / 2n,
+            maxAssetAmount / 2n,
+            deadline,
+            permit
+          );
+
+        // The nonce has moved on, so the same signature recovers another signer
+        await expect(
+          router
+            .connect(user2)
+            .buyWithPermit(
+              tokenAddress,
+              tokenAmount / 2n,
+              maxAssetAmount / 2n,
+              deadline,
+              permit
+            )
+        ).to.be.revertedWithCustomError(assetToken, "ERC2612InvalidSigner");
+      });
+
+      describe("Permit2", function () {
+        let permit2: any;
+
+        beforeEach(async function () {
+          // Put the mock's code at the canonical address the router calls
+          const MockPermit2 = await ethers.getContractFactory("MockPermit2");
+          const deployed = await MockPermit2.deploy();
+          await ethers.provider.send("hardhat_setCode", [
+            PERMIT2_ADDRESS,
+            await ethers.provider.getCode(await deployed.getAddress()),
+          ]);
+          permit2 = MockPermit2.attach(PERMIT2_ADDRESS);
+          expect(await router.PERMIT2()).to.equal(PERMIT2_ADDRESS);
+
+          // One-time approvals to Permit2 rather than the router
+          await assetToken
+            .connect(user2)
+            .approve(PERMIT2_ADDRESS, ethers.MaxUint256);
+          await stonkToken
+            .connect(user2)
+            .approve(PERMIT2_ADDRESS, ethers.MaxUint256);
+        });
+
+        it("should buy and sell with signature transfers", async function () {
+          const routerAddress = await router.getAddress();
+          const buy = await signPermit2Transfer(
+            user2,
+            await assetToken.getAddress(),
+            routerAddress,
+            maxAssetAmount,
+            deadline
+          );
+          await expect(
+            router
+              .connect(user2)
+              .buyWithPermit2(
+                tokenAddress,
+                tokenAmount,
+                maxAssetAmount,
+                deadline,
+                buy.permit,
+                buy.signature
+              )
+          ).to.emit(router, "TokensPurchased");
+          expect(await stonkToken.balanceOf(user2.address)).to.equal(
+            lessTax(tokenAmount)
+          );
+          expect(await assetToken.balanceOf(routerAddress)).to.equal(0n);
+
+          const sellAmount = tokenAmount / 2n;
+          const [proceeds, fee] = await bondingCurve.calculateSellFee(
+            lessTax(sellAmount)
+          );
+          const usdcBefore = await assetToken.balanceOf(user2.address);
+          const sell = await signPermit2Transfer(
+            user2,
+            tokenAddress,
+            routerAddress,
+            sellAmount,
+            deadline
+          );
+          await router
+            .connect(user2)
+            .sellWithPermit2(
+              tokenAddress,
+              sellAmount,
+              0,
+              deadline,
+              sell.permit,
+              sell.signature
+            );
+          expect(await stonkToken.balanceOf(user2.address)).to.equal(
+            lessTax(tokenAmount) - sellAmount
+          );
+          expect(await assetToken.balanceOf(user2.address)).to.equal(
+            usdcBefore + proceeds - fee
+          );
+        });
+
+        it("should reject expired, replayed and mismatched transfers", async function () {
+          const routerAddress = await router.getAddress();
+          const assetAddress = await assetToken.getAddress();
+
+          const expired = await signPermit2Transfer(
+            user2,
+            assetAddress,
+            routerAddress,
+            maxAssetAmount,
+            BigInt(await time.latest()) - 1n
+          );
+          await expect(
+            router
+              .connect(user2)
+              .buyWithPermit2(
+                tokenAddress,
+                tokenAmount,
+                maxAssetAmount,
+                deadline,
+                expired.permit,
+                expired.signature
+              )
+          ).to.be.revertedWithCustomError(permit2, "SignatureExpired");
+
+          // Signed over the token, but a buy spends the quote asset
+          const wrongToken = await signPermit2Transfer(
+            user2,
+            tokenAddress,
+            routerAddress,
+            maxAssetAmount,
+            deadline
+          );
+          await expect(
+            router
+              .connect(user2)
+              .buyWithPermit2(
+                tokenAddress,
+                tokenAmount,
+                maxAssetAmount,
+                deadline,
+                wrongToken.permit,
+                wrongToken.signature
+              )
+          ).to.be.revertedWithCustomError(router, "InvalidPermitToken");
+
+          const transfer = await signPermit2Transfer(
+            user2,
+            assetAddress,
+            routerAddress,
+            maxAssetAmount,
+            deadline,
+            7n
+          );
+          await router
+            .connect(user2)
+            .buyWithPermit2(
+              tokenAddress,
+              tokenAmount / 2n,
+              maxAssetAmount / 2n,
+              deadline,
+              transfer.permit,
+              transfer.signature
+            );
+          await expect(
+            router
+              .connect(user2)
+              .buyWithPermit2(
+                tokenAddress,
+                tokenAmount / 2n,
+                maxAssetAmount / 2n,
+                deadline,
+                transfer.permit,
+                transfer.signature
+              )
+          ).to.be.revertedWithCustomError(permit2, "InvalidNonce");
+        });
+      });
+    });
+
+    describe("Signed Orders", function () {
+      const maxAssetAmount = ethers.parseUnits("10000", 6);
+      const tokenAmount = ethers.parseEther("1000000");
+      const relayerFee = ethers.parseUnits("1", 6);
+      let relayer: SignerWithAddress;
+      let routerAddress: string;
+      let deadline: bigint;
+
+      beforeEach(async function () {
+        relayer = (await ethers.getSigners())[4];
+        routerAddress = await router.getAddress();
+        deadline = BigInt(await time.latest()) + 300n;
+
+        // user2 approves once, then only signs
+        await assetToken.transfer(user2.address, maxAssetAmount);
+        await assetToken
+          .connect(user2)
+          .approve(routerAddress, ethers.MaxUint256);
+        await stonkToken
+          .connect(user2)
+          .approve(routerAddress, ethers.MaxUint256);
+      });
+
+      it("should execute signed buys and sells and pay the relayer", async function () {
+        const buy = await signOrder(user2, routerAddress, {
+          token: tokenAddress,
+          isBuy: true,
+          tokenAmount,
+          limitAmount: maxAssetAmount - relayerFee,
+          relayerFee,
+          deadline,
+        });
+        expect(buy.order.nonce).to.equal(0n);
+        const orderHash = await router.hashOrder(buy.order);
+
+        await expect(
+          router.connect(relayer).executeOrder(buy.order, buy.signature)
+        )
+          .to.emit(router, "OrderExecuted")
+          .withArgs(orderHash, user2.address, relayer.address, 0n, relayerFee)
+          .and.to.emit(router, "TokensPurchased");
+        expect(await stonkToken.balanceOf(user2.address)).to.equal(
+          lessTax(tokenAmount)
+        );
+        expect(await assetToken.balanceOf(relayer.address)).to.equal(
+          relayerFee
+        );
+        expect(await router.nonces(user2.address)).to.equal(1n);
+
+        const sellAmount = tokenAmount / 2n;
+        const [proceeds, fee]: bigint[] = await bondingCurve.calculateSellFee(
+          lessTax(sellAmount)
+        );
+        const usdcBefore = await assetToken.balanceOf(user2.address);
+        const sell = await signOrder(user2, routerAddress, {
+          token: tokenAddress,
+          isBuy: false,
+          tokenAmount: sellAmount,
+          limitAmount: 0n,
+          relayerFee,
+          deadline,
+        });
+        await router.connect(relayer).executeOrder(sell.order, sell.signature);
+        expect(await stonkToken.balanceOf(user2.address)).to.equal(
+          lessTax(tokenAmount) - sellAmount
+        );
+        expect(await assetToken.balanceOf(user2.address)).to.equal(
+          usdcBefore + proceeds - fee - relayerFee
+        );
+        expect(await assetToken.balanceOf(relayer.address)).to.equal(
+          relayerFee * 2n
+        );
+      });
+
+      it("should reject replayed, tampered and expired orders", async function () {
+        const signed = await signOrder(user2, routerAddress, {
+          token: tokenAddress,
+          isBuy: true,
+          tokenAmount: tokenAmount / 2n,
+          limitAmount: maxAssetAmount / 2n,
+          relayerFee,
+          deadline,
+        });
+
+        const tampered = { ...signed.order, relayerFee: relayerFee * 100n };
+        await expect(
+          router.connect(relayer).executeOrder(tampered, signed.signature)
+        ).to.be.revertedWithCustomError(router, "InvalidSignature");
+
+        await router
+          .connect(relayer)
+          .executeOrder(signed.order, signed.signature);
+        await expect(
+          router.connect(relayer).executeOrder(signed.order, signed.signature)
+        ).to.be.revertedWithCustomError(router, "InvalidAccountNonce");
+
+        const expired = await signOrder(user2, routerAddress, {
+          ...signed.order,
+          nonce: undefined,
+          deadline: BigInt(await time.latest()) - 1n,
+        });
+        await expect(
+          router.connect(relayer).executeOrder(expired.order, expired.signature)
+        ).to.be.revertedWithCustomError(router, "DeadlinePassed");
+      });
+
+      it("should relay orders through the relayer service", async function () {
+        const server = createRelayerServer(routerAddress, relayer, {
+          minRelayerFee: relayerFee,
+        });
+        await new Promise<void>((resolve) => server.listen(0, resolve));
+        const { port } = server.address() as AddressInfo;
+        const relayerUrl = `http://127.0.0.1:${port}`;
+
+        try {
+          const cheap = await signOrder(user2, routerAddress, {
+            token: tokenAddress,
+            isBuy: true,
+            tokenAmount,
+            limitAmount: maxAssetAmount,
+            relayerFee: relayerFee - 1n,
+            deadline,
+          });
+          await expect(submitOrder(relayerUrl, cheap)).to.be.rejectedWith(
+            "Relayer fee below"
+          );
+
+          const signed = await signOrder(user2, routerAddress, {
+            ...cheap.order,
+            limitAmount: maxAssetAmount - relayerFee,
+            relayerFee,
+          });
+          const hash = await submitOrder(relayerUrl, signed);
+          const receipt = await ethers.provider.getTransactionReceipt(hash);
+          expect(receipt?.from).to.equal(relayer.address);
+          expect(await stonkToken.balanceOf(user2.address)).to.equal(
+            lessTax(tokenAmount)
+          );
+
+          // Already executed, so the relayer turns it away without spending gas
+          await expect(submitOrder(relayerUrl, signed)).to.be.rejectedWith(
+            "Expected nonce 1"
+          );
+        } finally {
+          await new Promise((resolve) => server.close(resolve));
+        }
+      });
+
+      it("should turn away malformed and oversized requests", async function () {
+        const server = createRelayerServer(routerAddress, relayer);
+        await new Promise<void>((resolve) => server.listen(0, resolve));
+        const { port } = server.address() as AddressInfo;
+        const post = (body: string) =>
+          fetch(`http://127.0.0.1:${port}/orders`, { method: "POST", body });
+
+        try {
+          const signed = await signOrder(user2, routerAddress, {
+            token: tokenAddress,
+            isBuy: false,
+            tokenAmount,
+            limitAmount: 0n,
+            relayerFee,
+            deadline,
+          });
+          const serialized = JSON.parse(serializeSignedOrder(signed));
+          serialized.order.isBuy = "false";
+          const mistyped = await post(JSON.stringify(serialized));
+          expect(mistyped.status).to.equal(400);
+          expect((await mistyped.json()).error).to.equal(
+            "Expected a boolean isBuy"
+          );
+
+          const oversized = await post("x".repeat(64 * 1024));
+          expect(oversized.status).to.equal(413);
+        } finally {
+          await new Promise((resolve) => server.close(resolve));
+        }
+      });
+    });
+
+    describe("ETH Trading", function () {
+      beforeEach(async function () {
+        // WETH/USDC pool at 3000 USDC per ETH
+        await weth.deposit({ value: ethers.parseEther("100") });
+        await weth.approve(
+          await uniswapRouter.getAddress(),
+          ethers.parseEther("100")
+        );
+        await assetToken.approve(
+          await uniswapRouter.getAddress(),
+          ethers.parseUnits("300000", 6)
+        );
+        await uniswapRouter.addLiquidity(
+          await weth.getAddress(),
+          await assetToken.getAddress(),
+          ethers.parseEther("100"),
+          ethers.parseUnits("300000", 6),
+          0,
+          0,
+          owner.address,
+          (await time.latest()) + 300
+        );
+      });
+
+      it("should buy from the bonding curve with ETH and refund the rest", async function () {
+        const tokenAmount = ethers.parseEther("1000000");
+        const [price, fee] = await bondingCurve.calculateBuyFee(tokenAmount);
+        const [wethIn] = await uniswapRouter.getAmountsIn(price + fee, [
+          await weth.getAddress(),
+          await assetToken.getAddress(),
+        ]);
+        const deadline = (await time.latest()) + 300;
+
+        const tx = await router
+          .connect(user1)
+          .buyTokensWithETH(tokenAddress, tokenAmount, deadline, {
+            value: ethers.parseEther("10"),
+          });
+        await expect(tx)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            lessTax(tokenAmount),
+            price + fee,
+            fee,
+            tokenAmount - lessTax(tokenAmount),
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+        await expect(tx).to.changeEtherBalance(user1, -wethIn);
+
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(
+          lessTax(tokenAmount)
+        );
+        expect(
+          await ethers.provider.getBalance(await router.getAddress())
+        ).to.equal(0n);
+        expect(await weth.balanceOf(await router.getAddress())).to.equal(0n);
+
+        // Too little ETH for the USDC the curve needs
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensWithETH(tokenAddress, tokenAmount, deadline, {
+              value: wethIn / 2n,
+            })
+        ).to.be.reverted;
+      });
+
+      it("should sell to the bonding curve for ETH", async function () {
+        const deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("1000000"),
+            ethers.parseUnits("10000", 6),
+            deadline
+          );
+
+        const sellAmount = ethers.parseEther("500000");
+        const [proceeds, fee] = await bondingCurve.calculateSellFee(
+          lessTax(sellAmount)
+        );
+        const [, ethOut] = await uniswapRouter.getAmountsOut(proceeds - fee, [
+          await assetToken.getAddress(),
+          await weth.getAddress(),
+        ]);
+
+        await expect(
+          router
+            .connect(user1)
+            .sellTokensForETH(tokenAddress, sellAmount, ethOut + 1n, deadline)
+        ).to.be.revertedWith("UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+
+        const tx = await router
+          .connect(user1)
+          .sellTokensForETH(tokenAddress, sellAmount, ethOut, deadline);
+        await expect(tx)
+          .to.emit(router, "TokensSold")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            sellAmount,
+            proceeds - fee,
+            fee,
+            sellAmount - lessTax(sellAmount),
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+        await expect(tx).to.changeEtherBalance(user1, ethOut);
+        expect(await weth.balanceOf(await router.getAddress())).to.equal(0n);
+      });
+
+      it("should route ETH trades through both pairs after graduation", async function () {
+        await assetToken.transfer(
+          user1.address,
+          ethers.parseUnits("200000", 6)
+        );
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        const deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            deadline
+          );
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+
+        const path = [
+          await weth.getAddress(),
+          await assetToken.getAddress(),
+          tokenAddress,
+        ];
+        const tokenAmount = ethers.parseEther("10000");
+        const [wethIn, usdcIn] = await uniswapRouter.getAmountsIn(
+          tokenAmount,
+          path
+        );
+        const buy = await router
+          .connect(user1)
+          .buyTokensWithETH(tokenAddress, tokenAmount, deadline, {
+            value: wethIn * 2n,
+          });
+        await expect(buy)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            lessTax(tokenAmount),
+            usdcIn,
+            0,
+            tokenAmount - lessTax(tokenAmount),
+            await router.getSpotPrice(tokenAddress),
+            false
+          );
+        await expect(buy).to.changeEtherBalance(user1, -wethIn);
+
+        const sellAmount = ethers.parseEther("100000");
+        const [, usdcOut, ethOut] = await uniswapRouter.getAmountsOut(
+          lessTax(sellAmount),
+          [...path].reverse()
+        );
+        const sell = await router
+          .connect(user1)
+          .sellTokensForETH(tokenAddress, sellAmount, ethOut, deadline);
+        await expect(sell)
+          .to.emit(router, "TokensSold")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            sellAmount,
+            usdcOut,
+            0,
+            sellAmount - lessTax(sellAmount),
+            await router.getSpotPrice(tokenAddress),
+            false
+          );
+        await expect(sell).to.changeEtherBalance(user1, ethOut);
+      });
+
+      it("should skip the USDC hop for WETH-quoted tokens", async function () {
+        const wethAddress = await weth.getAddress();
+        await factory.setQuoteAsset(wethAddress, true, 18, 30_000_000);
+        const tx = await factory.deployToken(
+          "WETH Token",
+          "WTOK",
+          treasury.address,
+          0,
+          0,
+          1000,
+          ethers.ZeroAddress, // Default curve strategy
+          wethAddress,
+          { value: DEPLOYMENT_FEE }
+        );
+        const receipt = await tx.wait();
+        const eventLog = receipt.logs.find(
+          (log: any): log is EventLog =>
+            log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+        );
+        const [wethToken, wethCurveAddress] = eventLog.args;
+        const wethCurve = await ethers.getContractAt(
+          "BondingCurve",
+          wethCurveAddress
+        );
+        const token = await ethers.getContractAt("StonkToken", wethToken);
+        const deadline = (await time.latest()) + 300;
+
+        const tokenAmount = ethers.parseEther("1000000");
+        const [price, fee] = await wethCurve.calculateBuyFee(tokenAmount);
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensWithETH(wethToken, tokenAmount, deadline, {
+              value: price + fee - 1n,
+            })
+        ).to.be.revertedWithCustomError(router, "InsufficientETH");
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensWithETH(wethToken, tokenAmount, deadline, {
+              value: ethers.parseEther("10"),
+            })
+        ).to.changeEtherBalance(user1, -(price + fee));
+        expect(await weth.balanceOf(wethCurveAddress)).to.equal(price);
+
+        const [proceeds, sellFee] = await wethCurve.calculateSellFee(
+          tokenAmount
+        );
+        await token
+          .connect(user1)
+          .approve(await router.getAddress(), tokenAmount);
+        await expect(
+          router
+            .connect(user1)
+            .sellTokensForETH(wethToken, tokenAmount, 0, deadline)
+        ).to.changeEtherBalance(user1, proceeds - sellFee);
+      });
+
+      it("should only accept ETH from WETH", async function () {
+        await expect(
+          user1.sendTransaction({
+            to: await router.getAddress(),
+            value: 1n,
+          })
+        ).to.be.revertedWithCustomError(router, "OnlyWETH");
+      });
+    });
+
+    describe("Token Swaps", function () {
+      let otherToken: any;
+      let otherTokenAddress: string;
+      let deadline: number;
+
+      beforeEach(async function () {
+        const tx = await factory.deployToken(
+          "Other Token",
+          "OTHR",
+          treasury.address,
+          0,
+          0,
+          1000,
+          ethers.ZeroAddress, // Default curve strategy
+          ethers.ZeroAddress, // Default quote asset
+          { value: DEPLOYMENT_FEE }
+        );
+        const receipt = await tx.wait();
+        const eventLog = receipt.logs.find(
+          (log: any): log is EventLog =>
+            log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+        );
+        otherTokenAddress = eventLog.args[0];
+        otherToken = await ethers.getContractAt(
+          "StonkToken",
+          otherTokenAddress
+        );
+        await otherToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.MaxUint256);
+
+        deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("1000000"),
+            ethers.parseUnits("10000", 6),
+            deadline
+          );
+      });
+
+      it("should swap between bonding curve tokens in one transaction", async function () {
+        const amountIn = await stonkToken.balanceOf(user1.address);
+        const [assetAmount, amountOut] = await router.calculateSwapAmount(
+          tokenAddress,
+          otherTokenAddress,
+          amountIn
+        );
+        const [proceeds, fee] = await bondingCurve.calculateSellFee(
+          lessTax(amountIn)
+        );
+        expect(assetAmount).to.equal(proceeds - fee);
+        expect(amountOut).to.be.gt(0);
+        const otherCurve = await ethers.getContractAt(
+          "BondingCurve",
+          await router.getBondingCurveAddress(otherTokenAddress)
+        );
+        const [buyPrice, buyFee] = await otherCurve.calculateBuyFee(amountOut);
+
+        const swap = await router
+          .connect(user1)
+          .swapTokensForTokens(
+            tokenAddress,
+            otherTokenAddress,
+            amountIn,
+            amountOut,
+            deadline
+          );
+        await expect(swap)
+          .to.emit(router, "TokensSold")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            amountIn,
+            assetAmount,
+            fee,
+            amountIn - lessTax(amountIn),
+            await bondingCurve.getCurrentPrice(),
+            true
+          );
+        // Rounding dust from the exact-input buy is refunded to the trader
+        await expect(swap)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            otherTokenAddress,
+            user1.address,
+            amountOut,
+            buyPrice + buyFee,
+            buyFee,
+            0,
+            await otherCurve.getCurrentPrice(),
+            true
+          );
+        await expect(swap)
+          .to.emit(router, "TokensSwapped")
+          .withArgs(
+            user1.address,
+            tokenAddress,
+            otherTokenAddress,
+            amountIn,
+            assetAmount,
+            amountOut
+          );
+
+        expect(await stonkToken.balanceOf(user1.address)).to.equal(0);
+        expect(await otherToken.balanceOf(user1.address)).to.equal(amountOut);
+        expect(await assetToken.balanceOf(await router.getAddress())).to.equal(
+          0
+        );
+      });
+
+      it("should check one minimum output and one deadline", async function () {
+        const amountIn = ethers.parseEther("100000");
+        const [, amountOut] = await router.calculateSwapAmount(
+          tokenAddress,
+          otherTokenAddress,
+          amountIn
+        );
+
+        await expect(
+          router
+            .connect(user1)
+            .swapTokensForTokens(
+              tokenAddress,
+              otherTokenAddress,
+              amountIn,
+              amountOut + 1n,
+              deadline
+            )
+        ).to.be.revertedWithCustomError(bondingCurve, "SlippageTooHigh");
+        await expect(
+          router
+            .connect(user1)
+            .swapTokensForTokens(
+              tokenAddress,
+              otherTokenAddress,
+              amountIn,
+              0,
+              (await time.latest()) - 1
+            )
+        ).to.be.revertedWithCustomError(router, "DeadlinePassed");
+        await expect(
+          router
+            .connect(user1)
+            .swapTokensForTokens(
+              tokenAddress,
+              otherTokenAddress,
+              0,
+              0,
+              deadline
+            )
+        ).to.be.revertedWithCustomError(router, "InvalidAmount");
+      });
+
+      it("should reject swaps without a shared quote asset", async function () {
+        await expect(
+          router.calculateSwapAmount(tokenAddress, tokenAddress, 1n)
+        ).to.be.revertedWithCustomError(router, "InvalidSwapPath");
+
+        const wethAddress = await weth.getAddress();
+        await factory.setQuoteAsset(wethAddress, true, 18, 30_000_000);
+        const tx = await factory.deployToken(
+          "WETH Token",
+          "WTOK",
+          treasury.address,
+          0,
+          0,
+          1000,
+          ethers.ZeroAddress, // Default curve strategy
+          wethAddress,
+          { value: DEPLOYMENT_FEE }
+        );
+        const receipt = await tx.wait();
+        const eventLog = receipt.logs.find(
+          (log: any): log is EventLog =>
+            log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+        );
+        await expect(
+          router
+            .connect(user1)
+            .swapTokensForTokens(
+              tokenAddress,
+              eventLog.args[0],
+              ethers.parseEther("1000"),
+              0,
+              deadline
+            )
+        ).to.be.revertedWithCustomError(router, "InvalidSwapPath");
+      });
+
+      it("should route each leg to its own venue", async function () {
+        await assetToken.transfer(
+          user1.address,
+          ethers.parseUnits("200000", 6)
+        );
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            deadline
+          );
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+
+        // Graduated token into a bonding curve token
+        const amountIn = ethers.parseEther("100000");
+        const [, usdcOut] = await uniswapRouter.getAmountsOut(
+          lessTax(amountIn),
+          [tokenAddress, await assetToken.getAddress()]
+        );
+        const [assetAmount, amountOut] = await router.calculateSwapAmount(
+          tokenAddress,
+          otherTokenAddress,
+          amountIn
+        );
+        expect(assetAmount).to.equal(usdcOut);
+        await expect(
+          router
+            .connect(user1)
+            .swapTokensForTokens(
+              tokenAddress,
+              otherTokenAddress,
+              amountIn,
+              amountOut,
+              deadline
+            )
+        )
+          .to.emit(router, "TokensSwapped")
+          .withArgs(
+            user1.address,
+            tokenAddress,
+            otherTokenAddress,
+            amountIn,
+            assetAmount,
+            amountOut
+          );
+
+        // And back, buying the graduated token on Uniswap
+        const [backAsset, backOut] = await router.calculateSwapAmount(
+          otherTokenAddress,
+          tokenAddress,
+          amountOut
+        );
+        const [, backTokens] = await uniswapRouter.getAmountsOut(backAsset, [
+          await assetToken.getAddress(),
+          tokenAddress,
+        ]);
+        expect(backOut).to.equal(lessTax(backTokens));
+        const back = await router
+          .connect(user1)
+          .swapTokensForTokens(
+            otherTokenAddress,
+            tokenAddress,
+            amountOut,
+            backOut,
+            deadline
+          );
+        await expect(back)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            backOut,
+            backAsset,
+            0,
+            backTokens - backOut,
+            await router.getSpotPrice(tokenAddress),
+            false
+          );
+        expect(await otherToken.balanceOf(user1.address)).to.equal(0);
+      });
+    });
+
+    describe("Multicall", function () {
+      let otherTokenAddress: string;
+      let otherCurve: any;
+      let deadline: number;
+
+      function encode(method: string, args: any[]) {
+        return router.interface.encodeFunctionData(method, args);
+      }
+
+      beforeEach(async function () {
+        const tx = await factory.deployToken(
+          "Other Token",
+          "OTHR",
+          treasury.address,
+          0,
+          0,
+          1000,
+          ethers.ZeroAddress, // Default curve strategy
+          ethers.ZeroAddress, // Default quote asset
+          { value: DEPLOYMENT_FEE }
+        );
+        const receipt = await tx.wait();
+        const eventLog = receipt.logs.find(
+          (log: any): log is EventLog =>
+            log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+        );
+        otherTokenAddress = eventLog.args[0];
+        otherCurve = await ethers.getContractAt(
+          "BondingCurve",
+          eventLog.args[1]
+        );
+
+        // Graduate the first token so batches span both venues
+        await assetToken.transfer(
+          user1.address,
+          ethers.parseUnits("200000", 6)
+        );
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.MaxUint256);
+        deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            deadline
+          );
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+      });
+
+      it("should trade graduated and bonding curve tokens in one batch", async function () {
+        const buyAmount = ethers.parseEther("1000000");
+        const [price, fee] = await otherCurve.calculateBuyFee(buyAmount);
+        const sellAmount = ethers.parseEther("100000");
+        const proceeds = await router.calculateSellProceeds(
+          tokenAddress,
+          sellAmount
+        );
+
+        const data = [
+          encode("buyTokens", [
+            otherTokenAddress,
+            buyAmount,
+            price + fee,
+            deadline,
+          ]),
+          encode("sellTokens", [tokenAddress, sellAmount, proceeds, deadline]),
+        ];
+        const results = await router
+          .connect(user1)
+          .multicall.staticCall(data, false);
+        expect(results.map((result: any) => result.success)).to.deep.equal([
+          true,
+          true,
+        ]);
+        const [bought] = router.interface.decodeFunctionResult(
+          "buyTokens",
+          results[0].returnData
+        );
+        expect(bought).to.equal(buyAmount);
+        const [sold] = router.interface.decodeFunctionResult(
+          "sellTokens",
+          results[1].returnData
+        );
+        expect(sold).to.equal(proceeds);
+
+        const batch = await router.connect(user1).multicall(data, false);
+        await expect(batch)
+          .to.emit(router, "TokensPurchased")
+          .withArgs(
+            otherTokenAddress,
+            user1.address,
+            buyAmount,
+            price + fee,
+            fee,
+            0,
+            await otherCurve.getCurrentPrice(),
+            true
+          );
+        await expect(batch)
+          .to.emit(router, "TokensSold")
+          .withArgs(
+            tokenAddress,
+            user1.address,
+            sellAmount,
+            proceeds,
+            0,
+            sellAmount - lessTax(sellAmount),
+            await router.getSpotPrice(tokenAddress),
+            false
+          );
+      });
+
+      it("should revert the whole batch when one call fails", async function () {
+        const buyAmount = ethers.parseEther("1000000");
+        const data = [
+          encode("buyTokens", [
+            otherTokenAddress,
+            buyAmount,
+            ethers.parseUnits("10000", 6),
+            deadline,
+          ]),
+          encode("sellTokens", [tokenAddress, 0, 0, deadline]),
+        ];
+
+        await expect(
+          router.connect(user1).multicall(data, false)
+        ).to.be.revertedWithCustomError(router, "InvalidAmount");
+        const other = await ethers.getContractAt(
+          "StonkToken",
+          otherTokenAddress
+        );
+        expect(await other.balanceOf(user1.address)).to.equal(0);
+      });
+
+      it("should report failed calls and run the rest when failures are allowed", async function () {
+        const buyAmount = ethers.parseEther("1000000");
+        const data = [
+          encode("sellTokens", [tokenAddress, 0, 0, deadline]),
+          encode("buyTokens", [
+            otherTokenAddress,
+            buyAmount,
+            ethers.parseUnits("10000", 6),
+            deadline,
+          ]),
+        ];
+        const invalidAmount = router.interface.encodeErrorResult(
+          "InvalidAmount",
+          []
+        );
+
+        const results = await router
+          .connect(user1)
+          .multicall.staticCall(data, true);
+        expect(results[0].success).to.be.false;
+        expect(results[0].returnData).to.equal(invalidAmount);
+        expect(results[1].success).to.be.true;
+
+        await expect(router.connect(user1).multicall(data, true))
+          .to.emit(router, "CallFailed")
+          .withArgs(0, invalidAmount);
+        const other = await ethers.getContractAt(
+          "StonkToken",
+          otherTokenAddress
+        );
+        expect(await other.balanceOf(user1.address)).to.equal(buyAmount);
+      });
+
+      it("should keep the pause and ETH guards", async function () {
+        const data = [
+          encode("buyTokensWithETH", [
+            otherTokenAddress,
+            ethers.parseEther("1000"),
+            deadline,
+          ]),
+        ];
+
+        // Batched calls never see msg.value
+        await expect(
+          router.connect(user1).multicall(data, false)
+        ).to.be.revertedWithCustomError(router, "InvalidAmount");
+        await expect(
+          router.connect(user1).multicall(data, false, { value: 1n })
+        ).to.be.reverted;
+
+        await router.pause();
+        await expect(
+          router.connect(user1).multicall([], true)
+        ).to.be.revertedWithCustomError(router, "ContractPaused");
+      });
+    });
+
+    describe("Circuit Breaker", function () {
+      it("should hand the router to new tokens", async function () {
+        expect(await stonkToken.tradingRouter()).to.equal(
+          await router.getAddress()
+        );
+      });
+
+      it("should halt the token when a trade moves the price beyond the band", async function () {
+        // 0.1% band, 5 minute halt
+        await stonkToken.setCircuitBreaker(10, 300);
+        let deadline = (await time.latest()) + 300;
+
+        // The first trade sets the reference price
+        await router
+          .connect(user1)
+          .buyTokensExactIn(tokenAddress, ethers.parseUnits("10", 6), 0, deadline);
+        const referencePrice = await bondingCurve.getCurrentPrice();
+        expect(await stonkToken.referencePrice()).to.equal(referencePrice);
+
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensExactIn(
+              tokenAddress,
+              ethers.parseUnits("10000", 6),
+              0,
+              deadline
+            )
+        ).to.emit(stonkToken, "TradingHalted");
+        expect(Number(await stonkToken.getMarketState())).to.equal(7); // HALTED
+
+        deadline = (await time.latest()) + 300;
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensExactIn(tokenAddress, ethers.parseUnits("10", 6), 0, deadline)
+        ).to.be.revertedWithCustomError(router, "MarketHalted");
+
+        // Trading resumes once the halt runs out
+        await time.increase(300);
+        deadline = (await time.latest()) + 300;
+        await expect(
+          router
+            .connect(user1)
+            .sellTokens(tokenAddress, ethers.parseEther("1000"), 0, deadline)
+        ).to.emit(stonkToken, "TradingResumed");
+      });
+
+      it("should not report prices when the band is off", async function () {
+        const deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokensExactIn(
+            tokenAddress,
+            ethers.parseUnits("10000", 6),
+            0,
+            deadline
+          );
+        expect(await stonkToken.referencePrice()).to.equal(0);
+        expect(Number(await stonkToken.getMarketState())).to.not.equal(7);
+      });
+
+      it("should block bonding curve trades during a market-wide halt", async function () {
+        let deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokensExactIn(tokenAddress, ethers.parseUnits("10", 6), 0, deadline);
+
+        await factory.triggerMarketHalt(1); // LEVEL_1
+        expect(Number(await stonkToken.getMarketState())).to.equal(7); // HALTED
+
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensExactIn(tokenAddress, ethers.parseUnits("10", 6), 0, deadline)
+        ).to.be.revertedWithCustomError(router, "MarketHalted");
+        await expect(
+          router
+            .connect(user1)
+            .sellTokens(tokenAddress, ethers.parseEther("100"), 0, deadline)
+        ).to.be.revertedWithCustomError(router, "MarketHalted");
+
+        // Level 1 halts last 15 minutes
+        await time.increase(15 * 60);
+        deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .sellTokens(tokenAddress, ethers.parseEther("100"), 0, deadline);
+      });
+
+      it("should block Uniswap trades during a market-wide halt", async function () {
+        await assetToken.transfer(user1.address, ethers.parseUnits("200000", 6));
+        await assetToken
+          .connect(user1)
+          .approve(await router.getAddress(), ethers.parseUnits("200000", 6));
+        let deadline = (await time.latest()) + 300;
+        await router
+          .connect(user1)
+          .buyTokens(
+            tokenAddress,
+            ethers.parseEther("35000000"),
+            ethers.parseUnits("200000", 6),
+            deadline
+          );
+        expect(await bondingCurve.getGraduationStatus()).to.be.true;
+
+        await factory.triggerMarketHalt(3); // LEVEL_3
+        deadline = (await time.latest()) + 300;
+        await expect(
+          router
+            .connect(user1)
+            .buyTokensExactIn(tokenAddress, ethers.parseUnits("10", 6), 0, deadline)
+        ).to.be.revertedWithCustomError(router, "MarketHalted");
+        await expect(
+          router
+            .connect(user1)
+            .sellTokens(tokenAddress, ethers.parseEther("1000"), 0, deadline)
+        ).to.be.revertedWithCustomError(router, "MarketHalted");
+
+        await factory.resumeMarket();
+        await expect(
+          router
+            .connect(user1)
+            .sellTokens(tokenAddress, ethers.parseEther("1000"), 0, deadline)
+        ).to.emit(router, "TokensSold");
+      });
+    });
   });
 
   // Access Control tests removed - graduation functions have been removed
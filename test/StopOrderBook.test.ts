@@ -0,0 +1,475 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { EventLog } from "ethers";
+import {
+  MockERC20,
+  StonkToken,
+  StonkTokenFactory,
+  StonkTradingRouter,
+  StopOrderBook,
+  UniswapTwapOracle,
+} from "../typechain-types";
+import { getNextMarketOpen } from "../sdk";
+
+describe("StopOrderBook", function () {
+  let factory: StonkTokenFactory;
+  let router: StonkTradingRouter;
+  let book: StopOrderBook;
+  let assetToken: MockERC20;
+  let stonkToken: StonkToken;
+  let owner: SignerWithAddress;
+  let trader: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let tokenAddress: string;
+  let bookAddress: string;
+  let snapshot: SnapshotRestorer;
+
+  const DEPLOYMENT_FEE = ethers.parseEther("0.1"); // 0.1 ETH
+  const BONDING_CURVE_FEE_BASIS_POINTS = 300; // 3% fee
+  const BOUNTY = ethers.parseUnits("1", 6);
+  const MAX_SLIPPAGE_BASIS_POINTS = 500; // 5% below the trigger reference
+  const REFERENCE_PRICE_WINDOW = 1800;
+
+  // Mirrors StopOrderBook.StopType and OrderStatus
+  const STOP_LOSS = 0;
+  const TAKE_PROFIT = 1;
+  const OPEN = 1;
+  const TRIGGERED = 2;
+  const FILLED = 3;
+  const CANCELLED = 4;
+
+  async function deadline() {
+    return (await time.latest()) + 300;
+  }
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  beforeEach(async function () {
+    [owner, trader, seller, keeper, treasury] = await ethers.getSigners();
+
+    // Factory tokens hold bonding curve trades to market hours
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    assetToken = await MockERC20.deploy("Mock USDC", "USDC", 6);
+    await assetToken.mint(trader.address, ethers.parseUnits("200000", 6));
+    await assetToken.mint(seller.address, ethers.parseUnits("100000", 6));
+
+    const MockUniswapFactory = await ethers.getContractFactory(
+      "MockUniswapFactory"
+    );
+    const uniswapFactory = await MockUniswapFactory.deploy();
+    const MockUniswapRouter = await ethers.getContractFactory(
+      "MockUniswapRouter"
+    );
+    const uniswapRouter = await MockUniswapRouter.deploy(
+      await uniswapFactory.getAddress()
+    );
+
+    const StonkTokenDeployer = await ethers.getContractFactory(
+      "StonkTokenDeployer"
+    );
+    const tokenDeployer = await StonkTokenDeployer.deploy();
+    const BondingCurveDeployer = await ethers.getContractFactory(
+      "BondingCurveDeployer"
+    );
+    const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+    const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+    const curveStrategy = await HyperbolicCurve.deploy();
+
+    const StonkTokenFactory = await ethers.getContractFactory(
+      "StonkTokenFactory"
+    );
+    factory = await StonkTokenFactory.deploy(
+      treasury.address,
+      DEPLOYMENT_FEE,
+      await uniswapFactory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await assetToken.getAddress(),
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await curveStrategy.getAddress()
+    );
+    const StonkTradingRouter = await ethers.getContractFactory(
+      "StonkTradingRouter"
+    );
+    router = await StonkTradingRouter.deploy(
+      await factory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await uniswapFactory.getAddress(),
+      await assetToken.getAddress()
+    );
+    await factory.setTradingRouter(await router.getAddress());
+
+    const StopOrderBook = await ethers.getContractFactory("StopOrderBook");
+    book = await StopOrderBook.deploy(await router.getAddress());
+    bookAddress = await book.getAddress();
+
+    const tx = await factory.deployToken(
+      "Test Token",
+      "TEST",
+      treasury.address,
+      0, // No buy tax
+      0, // No sell tax
+      1000,
+      ethers.ZeroAddress, // Default curve strategy
+      ethers.ZeroAddress, // Default quote asset
+      { value: DEPLOYMENT_FEE }
+    );
+    const receipt = await tx.wait();
+    const eventLog = receipt?.logs.find(
+      (log): log is EventLog =>
+        log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+    );
+    if (!eventLog) throw new Error("TokenDeployed event not found");
+    tokenAddress = eventLog.args[0];
+    stonkToken = await ethers.getContractAt("StonkToken", tokenAddress);
+
+    // Give the seller an inventory to protect
+    const routerAddress = await router.getAddress();
+    await assetToken.connect(seller).approve(routerAddress, ethers.MaxUint256);
+    await router
+      .connect(seller)
+      .buyTokensExactIn(
+        tokenAddress,
+        ethers.parseUnits("1000", 6),
+        0,
+        await deadline()
+      );
+
+    await assetToken.connect(trader).approve(routerAddress, ethers.MaxUint256);
+    await stonkToken.connect(trader).approve(routerAddress, ethers.MaxUint256);
+    await stonkToken.connect(seller).approve(bookAddress, ethers.MaxUint256);
+  });
+
+  async function placeStop(
+    stopType: number,
+    triggerPrice: bigint,
+    limitAmount = 0n,
+    maxSlippageBasisPoints = MAX_SLIPPAGE_BASIS_POINTS
+  ) {
+    const tokenAmount = await stonkToken.balanceOf(seller.address);
+    await book
+      .connect(seller)
+      .placeOrder(
+        tokenAddress,
+        stopType,
+        tokenAmount,
+        triggerPrice,
+        limitAmount,
+        maxSlippageBasisPoints,
+        BOUNTY
+      );
+    return (await book.nextOrderId()) - 1n;
+  }
+
+  describe("Placing orders", function () {
+    it("should escrow the tokens behind a stop", async function () {
+      const tokenAmount = await stonkToken.balanceOf(seller.address);
+      const triggerPrice = await router.getSpotPrice(tokenAddress);
+
+      await expect(
+        book
+          .connect(seller)
+          .placeOrder(
+            tokenAddress,
+            STOP_LOSS,
+            tokenAmount,
+            triggerPrice,
+            0,
+            MAX_SLIPPAGE_BASIS_POINTS,
+            BOUNTY
+          )
+      )
+        .to.emit(book, "StopOrderPlaced")
+        .withArgs(
+          0,
+          seller.address,
+          tokenAddress,
+          STOP_LOSS,
+          tokenAmount,
+          triggerPrice,
+          0,
+          MAX_SLIPPAGE_BASIS_POINTS,
+          BOUNTY
+        );
+      expect(await stonkToken.balanceOf(bookAddress)).to.equal(tokenAmount);
+      expect((await book.getOrder(0)).status).to.equal(OPEN);
+    });
+
+    it("should reject zero amounts and unknown tokens", async function () {
+      await expect(
+        book.connect(seller).placeOrder(tokenAddress, STOP_LOSS, 0, 1, 0, 0, 0)
+      ).to.be.revertedWithCustomError(book, "InvalidAmount");
+      await expect(
+        book.connect(seller).placeOrder(tokenAddress, STOP_LOSS, 1, 0, 0, 0, 0)
+      ).to.be.revertedWithCustomError(book, "InvalidAmount");
+      await expect(
+        book
+          .connect(seller)
+          .placeOrder(await assetToken.getAddress(), STOP_LOSS, 1, 1, 0, 0, 0)
+      ).to.be.revertedWithCustomError(book, "TokenNotFound");
+    });
+
+    it("should require a slippage bound below 100%", async function () {
+      await expect(
+        book
+          .connect(seller)
+          .placeOrder(tokenAddress, STOP_LOSS, 1, 1, 0, 10000, 0)
+      ).to.be.revertedWithCustomError(book, "InvalidAmount");
+    });
+  });
+
+  describe("Before graduation", function () {
+    beforeEach(async function () {
+      await router
+        .connect(trader)
+        .buyTokensExactIn(
+          tokenAddress,
+          ethers.parseUnits("20000", 6),
+          0,
+          await deadline()
+        );
+    });
+
+    it("should sell a stop-loss once the curve price falls", async function () {
+      const price = await router.getSpotPrice(tokenAddress);
+      const orderId = await placeStop(STOP_LOSS, (price * 995n) / 1000n);
+
+      expect(await book.isTriggerable(orderId)).to.be.false;
+      await expect(
+        book.connect(keeper).fillOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "NotTriggered");
+
+      await router
+        .connect(trader)
+        .sellTokens(
+          tokenAddress,
+          await stonkToken.balanceOf(trader.address),
+          0,
+          await deadline()
+        );
+      const referencePrice = await router.getReferencePrice(tokenAddress);
+      expect(await book.isTriggerable(orderId)).to.be.true;
+
+      await expect(book.connect(keeper).triggerOrder(orderId))
+        .to.emit(book, "StopOrderTriggered")
+        .withArgs(orderId, keeper.address, referencePrice);
+
+      const balanceBefore = await assetToken.balanceOf(seller.address);
+      await expect(book.connect(keeper).fillOrder(orderId)).to.emit(
+        book,
+        "StopOrderFilled"
+      );
+
+      const received: bigint =
+        (await assetToken.balanceOf(seller.address)) - balanceBefore;
+      expect(received).to.be.gt(0);
+      expect(await assetToken.balanceOf(keeper.address)).to.equal(BOUNTY);
+      expect(await stonkToken.balanceOf(bookAddress)).to.equal(0);
+      expect((await book.getOrder(orderId)).status).to.equal(FILLED);
+    });
+
+    it("should bound a market stop by the reference price it triggered at", async function () {
+      // 4% covers the 3% curve fee and the order's own price impact
+      const maxSlippageBasisPoints = 400;
+      await router
+        .connect(trader)
+        .buyTokensExactIn(
+          tokenAddress,
+          ethers.parseUnits("80000", 6),
+          0,
+          await deadline()
+        );
+      const price = await router.getSpotPrice(tokenAddress);
+      const orderId = await placeStop(
+        STOP_LOSS,
+        (price * 995n) / 1000n,
+        0n,
+        maxSlippageBasisPoints
+      );
+
+      await router
+        .connect(trader)
+        .sellTokens(
+          tokenAddress,
+          (await stonkToken.balanceOf(trader.address)) / 2n,
+          0,
+          await deadline()
+        );
+      const referencePrice = await router.getReferencePrice(tokenAddress);
+      await book.connect(keeper).triggerOrder(orderId);
+
+      const order = await book.getOrder(orderId);
+      const value = (order.tokenAmount * referencePrice) / ethers.WeiPerEther;
+      expect(order.limitAmount).to.be.closeTo(
+        (value * BigInt(10000 - maxSlippageBasisPoints)) / 10000n,
+        1n
+      );
+
+      // A keeper dumping ahead of its own fill cannot push it past the bound
+      await router
+        .connect(trader)
+        .sellTokens(
+          tokenAddress,
+          await stonkToken.balanceOf(trader.address),
+          0,
+          await deadline()
+        );
+      await expect(
+        book.connect(keeper).fillOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "LimitNotReached");
+      expect((await book.getOrder(orderId)).status).to.equal(TRIGGERED);
+    });
+
+    it("should not fill a stop in the block that triggered it", async function () {
+      const price = await router.getSpotPrice(tokenAddress);
+      const orderId = await placeStop(STOP_LOSS, (price * 995n) / 1000n);
+      await router
+        .connect(trader)
+        .sellTokens(
+          tokenAddress,
+          await stonkToken.balanceOf(trader.address),
+          0,
+          await deadline()
+        );
+
+      // Trigger and fill land in one block, as a single transaction would
+      await ethers.provider.send("evm_setAutomine", [false]);
+      await book.connect(keeper).triggerOrder(orderId);
+      const fill = await book
+        .connect(keeper)
+        .fillOrder(orderId, { gasLimit: 1_000_000 });
+      await ethers.provider.send("evm_mine", []);
+      await ethers.provider.send("evm_setAutomine", [true]);
+
+      const receipt = await ethers.provider.getTransactionReceipt(fill.hash);
+      const order = await book.getOrder(orderId);
+      expect(receipt?.blockNumber).to.equal(order.triggerBlock);
+      expect(receipt?.status).to.equal(0);
+      expect(order.status).to.equal(TRIGGERED);
+      await expect(book.connect(keeper).fillOrder(orderId)).to.emit(
+        book,
+        "StopOrderFilled"
+      );
+    });
+
+    it("should hold a triggered stop-limit until its limit is met", async function () {
+      const price = await router.getSpotPrice(tokenAddress);
+      const orderId = await placeStop(
+        TAKE_PROFIT,
+        (price * 1005n) / 1000n,
+        ethers.parseUnits("1000000", 6)
+      );
+
+      await router
+        .connect(trader)
+        .buyTokensExactIn(
+          tokenAddress,
+          ethers.parseUnits("20000", 6),
+          0,
+          await deadline()
+        );
+      await expect(book.connect(keeper).triggerOrder(orderId)).to.emit(
+        book,
+        "StopOrderTriggered"
+      );
+      expect((await book.getOrder(orderId)).status).to.equal(TRIGGERED);
+      expect(await book.isTriggerable(orderId)).to.be.false;
+
+      await expect(
+        book.connect(keeper).fillOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "LimitNotReached");
+
+      const tokenAmount = (await book.getOrder(orderId)).tokenAmount;
+      await expect(
+        book.connect(keeper).cancelOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "NotOrderOwner");
+      await expect(book.connect(seller).cancelOrder(orderId))
+        .to.emit(book, "StopOrderCancelled")
+        .withArgs(orderId);
+      expect(await stonkToken.balanceOf(seller.address)).to.equal(tokenAmount);
+      expect((await book.getOrder(orderId)).status).to.equal(CANCELLED);
+    });
+  });
+
+  describe("After graduation", function () {
+    let oracle: UniswapTwapOracle;
+
+    beforeEach(async function () {
+      const UniswapTwapOracle = await ethers.getContractFactory(
+        "UniswapTwapOracle"
+      );
+      oracle = await UniswapTwapOracle.deploy(await router.getAddress());
+      await router.setPriceOracle(await oracle.getAddress());
+
+      // The graduating trade records the oracle's first observation
+      await router
+        .connect(trader)
+        .buyTokens(
+          tokenAddress,
+          ethers.parseEther("35000000"),
+          ethers.parseUnits("200000", 6),
+          await deadline()
+        );
+      expect(await router.isTokenGraduated(tokenAddress)).to.be.true;
+    });
+
+    it("should trigger off the TWAP rather than the spot price", async function () {
+      const spotPrice = await router.getSpotPrice(tokenAddress);
+      const orderId = await placeStop(STOP_LOSS, (spotPrice * 95n) / 100n);
+
+      await expect(
+        router.getReferencePrice(tokenAddress)
+      ).to.be.revertedWithCustomError(oracle, "InsufficientHistory");
+      expect(await book.isTriggerable(orderId)).to.be.false;
+
+      await time.increase(REFERENCE_PRICE_WINDOW);
+      await oracle.update(tokenAddress);
+      expect(await router.getReferencePrice(tokenAddress)).to.equal(spotPrice);
+
+      // Dumping on the pair moves the spot price straight through the trigger
+      await router
+        .connect(trader)
+        .sellTokens(
+          tokenAddress,
+          await stonkToken.balanceOf(trader.address),
+          0,
+          await deadline()
+        );
+      expect(await router.getSpotPrice(tokenAddress)).to.be.lt(
+        (spotPrice * 95n) / 100n
+      );
+      await expect(
+        book.connect(keeper).triggerOrder(orderId)
+      ).to.be.revertedWithCustomError(book, "NotTriggered");
+
+      // Held for a full window, the low price reaches the TWAP
+      await time.increase(REFERENCE_PRICE_WINDOW);
+      await book.connect(keeper).triggerOrder(orderId);
+      await expect(book.connect(keeper).fillOrder(orderId)).to.emit(
+        book,
+        "StopOrderFilled"
+      );
+      expect(await assetToken.balanceOf(keeper.address)).to.equal(BOUNTY);
+      expect(await router.getReferencePrice(tokenAddress)).to.be.lt(
+        (spotPrice * 95n) / 100n
+      );
+    });
+  });
+});
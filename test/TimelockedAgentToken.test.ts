@@ -2,7 +2,11 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { StonkToken } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
-import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
 
 describe("TimelockedAgentToken", function () {
   let token: StonkToken;
@@ -32,7 +36,11 @@ describe("TimelockedAgentToken", function () {
       "NYSE",
       INITIAL_SUPPLY,
       owner.address, // vault
-      TAX_PARAMS
+      TAX_PARAMS,
+      ethers.ZeroAddress, // no market calendar
+      2, // ALL_TRANSFERS
+      ethers.ZeroAddress, // no trading router
+      ethers.ZeroAddress // no market-wide circuit breaker
     )) as StonkToken;
 
     await token.waitForDeployment();
@@ -64,7 +72,7 @@ describe("TimelockedAgentToken", function () {
   describe("Market Hours Functionality", function () {
     it("Should return market state", async function () {
       const marketState = await token.getMarketState();
-      expect(Number(marketState)).to.be.oneOf([0, 1, 2, 3]); // HOLIDAY, WEEKEND, AFTER_HOURS, OPEN
+      expect(Number(marketState)).to.be.oneOf([0, 1, 2, 3, 4, 5, 6]); // HOLIDAY, WEEKEND, AFTER_HOURS, OPEN, EARLY_CLOSE, PRE_MARKET, POST_MARKET
     });
 
     it("Should check if market is open", async function () {
@@ -122,17 +130,10 @@ describe("TimelockedAgentToken", function () {
         const date = new Date(currentTime * 1000);
         const dayOfWeek = date.getUTCDay();
         const daysToSunday = dayOfWeek === 0 ? 7 : (7 - dayOfWeek) % 7; // If already Sunday, move to next Sunday
-        await time.increase(daysToSunday * 24 * 60 * 60 + 1); // Add 1 second to avoid same timestamp
 
-        // Reset to start of day and then set to 3 PM UTC (10 AM ET) to ensure we're clearly on Sunday
-        const newTime = await time.latest();
-        const newDate = new Date(newTime * 1000);
+        // Start of that Sunday (UTC), then 3 PM UTC (10 AM ET) to ensure we're clearly on Sunday
         const startOfDay =
-          new Date(
-            newDate.getUTCFullYear(),
-            newDate.getUTCMonth(),
-            newDate.getUTCDate()
-          ).getTime() / 1000;
+          Math.floor(currentTime / 86400) * 86400 + daysToSunday * 86400;
         await time.increaseTo(startOfDay + 15 * 60 * 60); // 3 PM UTC (10 AM ET)
 
         const transferAmount = ethers.parseEther("100");
@@ -238,21 +239,14 @@ describe("TimelockedAgentToken", function () {
         ).to.be.revertedWithCustomError(token, "MarketClosedAfterHours");
 
         const marketState = await token.getMarketState();
-        expect(Number(marketState)).to.equal(2); // AFTER_HOURS
+        expect(Number(marketState)).to.equal(5); // PRE_MARKET
       });
 
       it("Should block transfers after market close (evening)", async function () {
-        // Move to next weekday, 5:00 PM ET (after 4:00 PM market close)
-        const currentTime = await time.latest();
-        const date = new Date(currentTime * 1000);
-        const dayOfWeek = date.getUTCDay();
-        let daysToWeekday = 0;
-        if (dayOfWeek === 0) daysToWeekday = 1; // Sunday -> Monday
-        else if (dayOfWeek === 6) daysToWeekday = 2; // Saturday -> Monday
-        else daysToWeekday = 1; // Move to next day
-
-        await time.increase(daysToWeekday * 24 * 60 * 60);
-        await time.increase(22 * 60 * 60); // Set to 10 PM UTC (5 PM ET)
+        // Wednesday, March 14, 2029, 9:00 PM ET (after the post-market session)
+        const eveningTimestamp =
+          new Date("2029-03-15T01:00:00Z").getTime() / 1000; // 9 PM ET = 1 AM UTC
+        await time.increaseTo(eveningTimestamp);
 
         const transferAmount = ethers.parseEther("100");
 
@@ -277,7 +271,7 @@ describe("TimelockedAgentToken", function () {
         ).to.be.revertedWithCustomError(token, "MarketClosedAfterHours");
 
         const marketState = await token.getMarketState();
-        expect(Number(marketState)).to.equal(2); // AFTER_HOURS
+        expect(Number(marketState)).to.equal(6); // POST_MARKET
       });
     });
 
@@ -499,6 +493,474 @@ describe("TimelockedAgentToken", function () {
         );
       });
     });
+
+    describe("Early Close Sessions", function () {
+      let snapshot: SnapshotRestorer;
+
+      // Rewind the clock afterwards so later tests see the same chain time as before
+      before(async function () {
+        snapshot = await takeSnapshot();
+      });
+
+      after(async function () {
+        await snapshot.restore();
+      });
+
+      it("Should close at 4:00 PM ET on a regular trading day", async function () {
+        // Tuesday, November 23, 2032, 10:00 AM ET
+        const regularDayTimestamp =
+          new Date("2032-11-23T15:00:00Z").getTime() / 1000; // 10 AM ET = 3 PM UTC
+        await time.increaseTo(regularDayTimestamp);
+
+        expect(Number(await token.getMarketState())).to.equal(3); // OPEN
+        expect(await token.getMarketCloseTime()).to.equal(
+          new Date("2032-11-23T21:00:00Z").getTime() / 1000 // 4 PM ET
+        );
+      });
+
+      it("Should report no close time on holidays", async function () {
+        // Thanksgiving, November 25, 2032
+        const thanksgivingTimestamp =
+          new Date("2032-11-25T17:00:00Z").getTime() / 1000; // 12 PM ET = 5 PM UTC
+        await time.increaseTo(thanksgivingTimestamp);
+
+        expect(Number(await token.getMarketState())).to.equal(0); // HOLIDAY
+        expect(await token.getMarketCloseTime()).to.equal(0);
+      });
+
+      it("Should trade in an early close session on Black Friday morning", async function () {
+        // Friday, November 26, 2032, 12:00 PM ET
+        const blackFridayTimestamp =
+          new Date("2032-11-26T17:00:00Z").getTime() / 1000; // 12 PM ET = 5 PM UTC
+        await time.increaseTo(blackFridayTimestamp);
+
+        expect(Number(await token.getMarketState())).to.equal(4); // EARLY_CLOSE
+        expect(await token.isMarketOpen()).to.be.true;
+        expect(await token.getMarketCloseTime()).to.equal(
+          new Date("2032-11-26T18:00:00Z").getTime() / 1000 // 1 PM ET
+        );
+
+        const transferAmount = ethers.parseEther("100");
+        const initialBalance2 = await token.balanceOf(user2.address);
+        await token.connect(user1).transfer(user2.address, transferAmount);
+        expect(await token.balanceOf(user2.address)).to.equal(
+          initialBalance2 + transferAmount
+        );
+      });
+
+      it("Should be in the post-market session from 1:00 PM ET on Black Friday", async function () {
+        // Friday, November 26, 2032, 1:30 PM ET
+        const afterEarlyCloseTimestamp =
+          new Date("2032-11-26T18:30:00Z").getTime() / 1000; // 1:30 PM ET = 6:30 PM UTC
+        await time.increaseTo(afterEarlyCloseTimestamp);
+
+        expect(Number(await token.getMarketState())).to.equal(6); // POST_MARKET
+        expect(await token.isMarketOpen()).to.be.false;
+      });
+
+      it("Should close early on the day before Independence Day", async function () {
+        // Monday, July 3, 2034, 10:00 AM ET (DST)
+        const july3Timestamp =
+          new Date("2034-07-03T14:00:00Z").getTime() / 1000; // 10 AM ET = 2 PM UTC
+        await time.increaseTo(july3Timestamp);
+
+        expect(Number(await token.getMarketState())).to.equal(4); // EARLY_CLOSE
+        expect(await token.getMarketCloseTime()).to.equal(
+          new Date("2034-07-03T17:00:00Z").getTime() / 1000 // 1 PM ET = 5 PM UTC
+        );
+      });
+
+      it("Should be in the post-market session at exactly 1:00 PM ET on Christmas Eve", async function () {
+        // Monday, December 24, 2035, 1:00 PM ET
+        const christmasEveTimestamp =
+          new Date("2035-12-24T18:00:00Z").getTime() / 1000; // 1 PM ET = 6 PM UTC
+        await time.increaseTo(christmasEveTimestamp);
+
+        expect(Number(await token.getMarketState())).to.equal(6); // POST_MARKET
+      });
+    });
+
+    describe("Market Hours Enforcement Modes", function () {
+      let snapshot: SnapshotRestorer;
+      let poolAddress: string;
+
+      // Rewind the clock afterwards so later tests see the same chain time as before
+      before(async function () {
+        snapshot = await takeSnapshot();
+      });
+
+      after(async function () {
+        await snapshot.restore();
+      });
+
+      beforeEach(async function () {
+        // Any contract can be registered as a pool
+        const MockPool = await ethers.getContractFactory("StonkToken");
+        const pool = await MockPool.deploy(
+          owner.address,
+          "Mock Pool",
+          "POOL",
+          ethers.parseEther("1000"),
+          owner.address,
+          TAX_PARAMS,
+          ethers.ZeroAddress,
+          0, // OFF
+          ethers.ZeroAddress,
+          ethers.ZeroAddress
+        );
+        poolAddress = await pool.getAddress();
+        await token.addLiquidityPool(poolAddress);
+      });
+
+      it("Should allow every transfer on weekends when enforcement is OFF", async function () {
+        await token.setMarketHoursEnforcement(0); // OFF
+
+        // Saturday, March 5, 2033, 2:00 PM ET
+        await time.increaseTo(
+          new Date("2033-03-05T19:00:00Z").getTime() / 1000 // 2 PM ET = 7 PM UTC
+        );
+        expect(Number(await token.getMarketState())).to.equal(1); // WEEKEND
+
+        const transferAmount = ethers.parseEther("100");
+        await token.connect(user1).transfer(user2.address, transferAmount);
+        await token.connect(user1).transfer(poolAddress, transferAmount);
+
+        expect(await token.balanceOf(user2.address)).to.equal(transferAmount);
+        expect(await token.balanceOf(poolAddress)).to.be.gt(0n);
+      });
+
+      it("Should only block pool and vault transfers on weekends in pool mode", async function () {
+        await token.setMarketHoursEnforcement(1); // TRANSFERS_ONLY_TO_FROM_POOLS
+
+        // Sunday, March 6, 2033, 10:00 AM ET
+        await time.increaseTo(
+          new Date("2033-03-06T15:00:00Z").getTime() / 1000 // 10 AM ET = 3 PM UTC
+        );
+
+        const transferAmount = ethers.parseEther("100");
+        await token.connect(user1).transfer(user2.address, transferAmount);
+        expect(await token.balanceOf(user2.address)).to.equal(transferAmount);
+
+        await expect(
+          token.connect(user1).transfer(poolAddress, transferAmount)
+        ).to.be.revertedWithCustomError(token, "MarketClosedForWeekend");
+
+        // The vault is where bonding curve trades settle
+        await expect(
+          token.connect(owner).transfer(user2.address, transferAmount)
+        ).to.be.revertedWithCustomError(token, "MarketClosedForWeekend");
+
+        await token.connect(user1).approve(user2.address, transferAmount);
+        await expect(
+          token
+            .connect(user2)
+            .transferFrom(user1.address, poolAddress, transferAmount)
+        ).to.be.revertedWithCustomError(token, "MarketClosedForWeekend");
+      });
+
+      it("Should allow pool transfers during market hours in pool mode", async function () {
+        await token.setMarketHoursEnforcement(1); // TRANSFERS_ONLY_TO_FROM_POOLS
+
+        // Tuesday, March 8, 2033, 10:00 AM ET
+        await time.increaseTo(
+          new Date("2033-03-08T15:00:00Z").getTime() / 1000 // 10 AM ET = 3 PM UTC
+        );
+        expect(Number(await token.getMarketState())).to.equal(3); // OPEN
+
+        await token
+          .connect(user1)
+          .transfer(poolAddress, ethers.parseEther("100"));
+        expect(await token.balanceOf(poolAddress)).to.be.gt(0n);
+      });
+
+      it("Should block wallet to wallet transfers after hours in ALL_TRANSFERS mode", async function () {
+        expect(await token.marketHoursEnforcement()).to.equal(2); // ALL_TRANSFERS
+
+        // Tuesday, March 8, 2033, 6:00 PM ET
+        await time.increaseTo(
+          new Date("2033-03-08T23:00:00Z").getTime() / 1000 // 6 PM ET = 11 PM UTC
+        );
+
+        await expect(
+          token.connect(user1).transfer(user2.address, ethers.parseEther("100"))
+        ).to.be.revertedWithCustomError(token, "MarketClosedAfterHours");
+      });
+
+      it("Should let exempt senders trade with pools after hours in pool mode", async function () {
+        await token.setMarketHoursEnforcement(1); // TRANSFERS_ONLY_TO_FROM_POOLS
+        await token.addTimelockExemption(user1.address);
+
+        // Tuesday, March 8, 2033, 7:00 PM ET
+        await time.increaseTo(
+          new Date("2033-03-09T00:00:00Z").getTime() / 1000 // 7 PM ET = 12 AM UTC
+        );
+
+        await token
+          .connect(user1)
+          .transfer(poolAddress, ethers.parseEther("100"));
+        expect(await token.balanceOf(poolAddress)).to.be.gt(0n);
+      });
+    });
+
+    describe("Extended Hours Sessions", function () {
+      let snapshot: SnapshotRestorer;
+      let poolAddress: string;
+
+      // Rewind the clock afterwards so later tests see the same chain time as before
+      before(async function () {
+        snapshot = await takeSnapshot();
+      });
+
+      after(async function () {
+        await snapshot.restore();
+      });
+
+      beforeEach(async function () {
+        // Any contract can be registered as a pool
+        const MockPool = await ethers.getContractFactory("StonkToken");
+        const pool = await MockPool.deploy(
+          owner.address,
+          "Mock Pool",
+          "POOL",
+          ethers.parseEther("1000"),
+          owner.address,
+          TAX_PARAMS,
+          ethers.ZeroAddress,
+          0, // OFF
+          ethers.ZeroAddress,
+          ethers.ZeroAddress
+        );
+        poolAddress = await pool.getAddress();
+        await token.addLiquidityPool(poolAddress);
+      });
+
+      it("Should only allow pre-market transfers once the token opts in", async function () {
+        // Tuesday, April 12, 2033, 8:00 AM ET (EDT)
+        await time.increaseTo(
+          new Date("2033-04-12T12:00:00Z").getTime() / 1000 // 8 AM ET = 12 PM UTC
+        );
+        expect(Number(await token.getMarketState())).to.equal(5); // PRE_MARKET
+        expect(await token.isExtendedSession()).to.be.true;
+        expect(await token.isMarketOpen()).to.be.false;
+
+        const transferAmount = ethers.parseEther("100");
+        await expect(
+          token.connect(user1).transfer(user2.address, transferAmount)
+        ).to.be.revertedWithCustomError(token, "MarketClosedAfterHours");
+
+        await expect(token.setExtendedHoursTrading(true))
+          .to.emit(token, "ExtendedHoursTradingUpdated")
+          .withArgs(true);
+
+        await token.connect(user1).transfer(user2.address, transferAmount);
+        expect(await token.balanceOf(user2.address)).to.equal(transferAmount);
+      });
+
+      it("Should allow post-market transfers until 8:00 PM ET", async function () {
+        await token.setExtendedHoursTrading(true);
+
+        // Tuesday, April 12, 2033, 7:59 PM ET
+        await time.increaseTo(
+          new Date("2033-04-12T23:59:00Z").getTime() / 1000 // 7:59 PM ET = 11:59 PM UTC
+        );
+        expect(Number(await token.getMarketState())).to.equal(6); // POST_MARKET
+
+        const transferAmount = ethers.parseEther("100");
+        await token.connect(user1).transfer(user2.address, transferAmount);
+
+        // Tuesday, April 12, 2033, 8:00 PM ET
+        await time.increaseTo(
+          new Date("2033-04-13T00:00:00Z").getTime() / 1000 // 8 PM ET = 12 AM UTC
+        );
+        expect(Number(await token.getMarketState())).to.equal(2); // AFTER_HOURS
+        await expect(
+          token.connect(user1).transfer(user2.address, transferAmount)
+        ).to.be.revertedWithCustomError(token, "MarketClosedAfterHours");
+      });
+
+      it("Should stay closed before 4:00 AM ET", async function () {
+        await token.setExtendedHoursTrading(true);
+
+        // Wednesday, April 13, 2033, 3:59 AM ET
+        await time.increaseTo(
+          new Date("2033-04-13T07:59:00Z").getTime() / 1000 // 3:59 AM ET = 7:59 AM UTC
+        );
+        expect(Number(await token.getMarketState())).to.equal(2); // AFTER_HOURS
+
+        await time.increaseTo(
+          new Date("2033-04-13T08:00:00Z").getTime() / 1000 // 4 AM ET = 8 AM UTC
+        );
+        expect(Number(await token.getMarketState())).to.equal(5); // PRE_MARKET
+      });
+
+      it("Should only charge the surcharge during extended sessions", async function () {
+        await token.setExtendedHoursTrading(true);
+        await expect(token.setExtendedHoursSurcharges(200, 300))
+          .to.emit(token, "ExtendedHoursSurchargesChanged")
+          .withArgs(0, 200, 0, 300);
+
+        // Wednesday, April 13, 2033, 10:00 AM ET
+        await time.increaseTo(
+          new Date("2033-04-13T14:00:00Z").getTime() / 1000 // 10 AM ET = 2 PM UTC
+        );
+        expect(await token.totalBuyTaxBasisPoints()).to.equal(300);
+        expect(await token.totalSellTaxBasisPoints()).to.equal(500);
+
+        const sellAmount = ethers.parseEther("100");
+        await token.connect(user1).transfer(poolAddress, sellAmount);
+        expect(await token.balanceOf(poolAddress)).to.equal(
+          (sellAmount * 9500n) / 10000n // 5% sell tax
+        );
+
+        // Wednesday, April 13, 2033, 5:00 PM ET
+        await time.increaseTo(
+          new Date("2033-04-13T21:00:00Z").getTime() / 1000 // 5 PM ET = 9 PM UTC
+        );
+        expect(await token.totalBuyTaxBasisPoints()).to.equal(500);
+        expect(await token.totalSellTaxBasisPoints()).to.equal(800);
+
+        const poolBalance = await token.balanceOf(poolAddress);
+        await token.connect(user1).transfer(poolAddress, sellAmount);
+        expect(await token.balanceOf(poolAddress)).to.equal(
+          poolBalance + (sellAmount * 9200n) / 10000n // 5% sell tax + 3% surcharge
+        );
+        expect(await token.projectTaxPendingSwap()).to.equal(
+          (sellAmount * 1300n) / 10000n
+        );
+      });
+    });
+
+    describe("Circuit Breaker Halts", function () {
+      let snapshot: SnapshotRestorer;
+      let haltedToken: StonkToken;
+      let router: SignerWithAddress;
+
+      // Rewind the clock afterwards so later tests see the same chain time as before
+      before(async function () {
+        snapshot = await takeSnapshot();
+      });
+
+      after(async function () {
+        await snapshot.restore();
+      });
+
+      beforeEach(async function () {
+        // user2 stands in for the trading router
+        router = user2;
+        const StonkToken = await ethers.getContractFactory("StonkToken");
+        haltedToken = (await StonkToken.deploy(
+          owner.address,
+          "Halted Token",
+          "HALT",
+          INITIAL_SUPPLY,
+          owner.address,
+          TAX_PARAMS,
+          ethers.ZeroAddress,
+          2, // ALL_TRANSFERS
+          router.address,
+          ethers.ZeroAddress
+        )) as StonkToken;
+        await haltedToken.addTimelockExemption(owner.address);
+        await haltedToken.transfer(user1.address, ethers.parseEther("1000"));
+        await haltedToken.removeTimelockExemption(owner.address);
+
+        await expect(haltedToken.setCircuitBreaker(500, 300))
+          .to.emit(haltedToken, "CircuitBreakerUpdated")
+          .withArgs(500, 300);
+
+        // Tuesday, May 10, 2033, 10:00 AM ET (EDT)
+        const tenAm = new Date("2033-05-10T14:00:00Z").getTime() / 1000;
+        if ((await time.latest()) < tenAm) {
+          await time.increaseTo(tenAm);
+        }
+      });
+
+      it("Should only accept prices from the trading router", async function () {
+        await expect(
+          haltedToken.connect(user1).recordTradePrice(1000)
+        ).to.be.revertedWithCustomError(haltedToken, "OnlyTradingRouter");
+      });
+
+      it("Should halt when a trade moves the price beyond the band", async function () {
+        await haltedToken.connect(router).recordTradePrice(1000);
+        expect(await haltedToken.referencePrice()).to.equal(1000);
+
+        // 4% move stays inside the 5% band
+        await haltedToken.connect(router).recordTradePrice(1040);
+        expect(Number(await haltedToken.getMarketState())).to.equal(3); // OPEN
+
+        const tx = haltedToken.connect(router).recordTradePrice(1060);
+        const haltedUntil = (await time.latest()) + 1 + 300;
+        await expect(tx)
+          .to.emit(haltedToken, "TradingHalted")
+          .withArgs(1060, 1000, haltedUntil);
+
+        expect(await haltedToken.haltedUntil()).to.equal(haltedUntil);
+        expect(await haltedToken.referencePrice()).to.equal(1060);
+        expect(Number(await haltedToken.getMarketState())).to.equal(7); // HALTED
+        expect(await haltedToken.isMarketOpen()).to.be.false;
+
+        await expect(
+          haltedToken.connect(user1).transfer(user2.address, 1)
+        )
+          .to.be.revertedWithCustomError(haltedToken, "MarketHalted")
+          .withArgs(haltedUntil);
+      });
+
+      it("Should halt on limit-down moves", async function () {
+        await haltedToken.connect(router).recordTradePrice(1000);
+        await expect(
+          haltedToken.connect(router).recordTradePrice(940)
+        ).to.emit(haltedToken, "TradingHalted");
+      });
+
+      it("Should resume once the halt runs out", async function () {
+        await haltedToken.connect(router).recordTradePrice(1000);
+        await haltedToken.connect(router).recordTradePrice(2000);
+
+        await expect(
+          haltedToken.connect(user1).resumeTrading()
+        ).to.be.revertedWithCustomError(haltedToken, "HaltNotExpired");
+
+        await time.increase(300);
+        expect(Number(await haltedToken.getMarketState())).to.equal(3); // OPEN
+        await haltedToken.connect(user1).transfer(user2.address, 1);
+
+        // The next reported trade announces the resume
+        await expect(haltedToken.connect(router).recordTradePrice(2010))
+          .to.emit(haltedToken, "TradingResumed")
+          .withArgs(2000);
+        expect(await haltedToken.haltedUntil()).to.equal(0);
+      });
+
+      it("Should let the owner lift a halt early", async function () {
+        await haltedToken.connect(router).recordTradePrice(1000);
+        await haltedToken.connect(router).recordTradePrice(2000);
+
+        await expect(haltedToken.resumeTrading())
+          .to.emit(haltedToken, "TradingResumed")
+          .withArgs(2000);
+        expect(Number(await haltedToken.getMarketState())).to.equal(3); // OPEN
+        await expect(
+          haltedToken.resumeTrading()
+        ).to.be.revertedWithCustomError(haltedToken, "NotHalted");
+      });
+
+      it("Should roll the reference price forward after five minutes", async function () {
+        await haltedToken.connect(router).recordTradePrice(1000);
+        await haltedToken.connect(router).recordTradePrice(1040);
+        expect(await haltedToken.referencePrice()).to.equal(1000);
+
+        await time.increase(5 * 60);
+        await haltedToken.connect(router).recordTradePrice(1040);
+        expect(await haltedToken.referencePrice()).to.equal(1040);
+
+        // 1080 is within 5% of the new reference
+        await expect(
+          haltedToken.connect(router).recordTradePrice(1080)
+        ).not.to.emit(haltedToken, "TradingHalted");
+      });
+    });
   });
 
   describe("Trading Hours Restrictions", function () {
@@ -514,8 +976,8 @@ describe("TimelockedAgentToken", function () {
       const transferAmount = ethers.parseEther("100");
 
       // If market is not open, transfers should be blocked
-      if (Number(marketState) !== 3) {
-        // 3 = OPEN
+      if (Number(marketState) !== 3 && Number(marketState) !== 4) {
+        // 3 = OPEN, 4 = EARLY_CLOSE
         await expect(
           token.connect(user1).transfer(user2.address, transferAmount)
         ).to.be.reverted;
@@ -558,8 +1020,8 @@ describe("TimelockedAgentToken", function () {
       const marketState = await token.getMarketState();
       const transferAmount = ethers.parseEther("100");
 
-      if (Number(marketState) === 2) {
-        // AFTER_HOURS
+      if ([2, 5, 6].includes(Number(marketState))) {
+        // AFTER_HOURS, PRE_MARKET or POST_MARKET
         await expect(
           token.connect(user1).transfer(user2.address, transferAmount)
         ).to.be.revertedWithCustomError(token, "MarketClosedAfterHours");
@@ -570,8 +1032,8 @@ describe("TimelockedAgentToken", function () {
       const marketState = await token.getMarketState();
       const transferAmount = ethers.parseEther("100");
 
-      if (Number(marketState) === 3) {
-        // OPEN
+      if (Number(marketState) === 3 || Number(marketState) === 4) {
+        // OPEN or EARLY_CLOSE
         const initialBalance1 = await token.balanceOf(user1.address);
         const initialBalance2 = await token.balanceOf(user2.address);
 
@@ -616,8 +1078,8 @@ describe("TimelockedAgentToken", function () {
       await token.removeTimelockExemption(user1.address); // Remove exemption
 
       // If market is not open, transferFrom should be blocked
-      if (Number(marketState) !== 3) {
-        // 3 = OPEN
+      if (Number(marketState) !== 3 && Number(marketState) !== 4) {
+        // 3 = OPEN, 4 = EARLY_CLOSE
         await expect(
           token
             .connect(user2)
@@ -654,6 +1116,60 @@ describe("TimelockedAgentToken", function () {
     });
   });
 
+  describe("Market Hours Enforcement", function () {
+    it("Should start with the mode passed to the constructor", async function () {
+      expect(await token.marketHoursEnforcement()).to.equal(2); // ALL_TRANSFERS
+    });
+
+    it("Should allow owner to change the enforcement mode", async function () {
+      await expect(token.setMarketHoursEnforcement(1))
+        .to.emit(token, "MarketHoursEnforcementUpdated")
+        .withArgs(2, 1);
+      expect(await token.marketHoursEnforcement()).to.equal(1); // TRANSFERS_ONLY_TO_FROM_POOLS
+
+      await expect(token.setMarketHoursEnforcement(0))
+        .to.emit(token, "MarketHoursEnforcementUpdated")
+        .withArgs(1, 0);
+      expect(await token.marketHoursEnforcement()).to.equal(0); // OFF
+    });
+
+    it("Should not allow non-owner to change the enforcement mode", async function () {
+      await expect(
+        token.connect(user1).setMarketHoursEnforcement(0)
+      ).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should keep extended hours trading off by default", async function () {
+      expect(await token.extendedHoursTradingEnabled()).to.be.false;
+      expect(await token.extendedHoursBuySurchargeBasisPoints()).to.equal(0);
+      expect(await token.extendedHoursSellSurchargeBasisPoints()).to.equal(0);
+    });
+
+    it("Should leave the circuit breaker off by default", async function () {
+      expect(await token.luldBandBasisPoints()).to.equal(0);
+      expect(await token.haltDuration()).to.equal(300);
+      expect(await token.haltedUntil()).to.equal(0);
+    });
+
+    it("Should only allow owner to configure the circuit breaker", async function () {
+      await expect(
+        token.connect(user1).setCircuitBreaker(500, 300)
+      ).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+      await expect(
+        token.setCircuitBreaker(10001, 300)
+      ).to.be.revertedWithCustomError(token, "InvalidBandWidth");
+    });
+
+    it("Should not allow non-owner to configure extended hours", async function () {
+      await expect(
+        token.connect(user1).setExtendedHoursTrading(true)
+      ).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+      await expect(
+        token.connect(user1).setExtendedHoursSurcharges(100, 100)
+      ).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+    });
+  });
+
   describe("Timelock Exemptions", function () {
     it("Should allow owner to add timelock exemption", async function () {
       await token.addTimelockExemption(user1.address);
@@ -692,7 +1208,11 @@ describe("TimelockedAgentToken", function () {
         "MOCK",
         ethers.parseEther("1000"),
         owner.address,
-        TAX_PARAMS
+        TAX_PARAMS,
+        ethers.ZeroAddress,
+        0, // OFF
+        ethers.ZeroAddress,
+        ethers.ZeroAddress
       );
       await mockContract.waitForDeployment();
       const mockContractAddress = await mockContract.getAddress();
@@ -701,6 +1221,56 @@ describe("TimelockedAgentToken", function () {
       expect(await token.isLiquidityPool(mockContractAddress)).to.be.true;
     });
 
+    it("Should not allow others to add liquidity pools", async function () {
+      await expect(
+        token.connect(user1).addLiquidityPool(await token.getAddress())
+      ).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should register a contract vault as a liquidity pool", async function () {
+      // A contract vault is a bonding curve, so trades with it are taxed
+      const StonkToken = await ethers.getContractFactory("StonkToken");
+      const vault = await token.getAddress();
+      const curveToken = await StonkToken.deploy(
+        owner.address,
+        "Curve Token",
+        "CURVE",
+        ethers.parseEther("1000"),
+        vault,
+        TAX_PARAMS,
+        ethers.ZeroAddress,
+        0, // OFF
+        ethers.ZeroAddress,
+        ethers.ZeroAddress
+      );
+      await curveToken.waitForDeployment();
+
+      expect(await curveToken.isLiquidityPool(vault)).to.be.true;
+      // An externally owned vault is not a pool
+      expect(await token.isLiquidityPool(owner.address)).to.be.false;
+    });
+
+    it("Should register the pair on graduation", async function () {
+      // The pair only needs to be a contract here
+      const pair = await token.getAddress();
+      await expect(
+        token.connect(user1).onGraduation(pair)
+      ).to.be.revertedWithCustomError(token, "OnlyVault");
+
+      // The vault is the owner in these tests
+      await expect(token.onGraduation(pair))
+        .to.emit(token, "LiquidityPoolAdded")
+        .withArgs(pair);
+      expect(await token.isLiquidityPool(pair)).to.be.true;
+      expect(await token.isExemptFromTimelock(owner.address)).to.be.false;
+
+      // Repeating it changes nothing
+      await expect(token.onGraduation(pair)).not.to.emit(
+        token,
+        "LiquidityPoolAdded"
+      );
+    });
+
     it("Should not allow adding zero address as liquidity pool", async function () {
       await expect(
         token.addLiquidityPool(ethers.ZeroAddress)
@@ -732,6 +1302,22 @@ describe("TimelockedAgentToken", function () {
       expect(await token.totalSellTaxBasisPoints()).to.equal(400);
     });
 
+    it("Should cap the project tax plus the extended hours surcharge", async function () {
+      const maxTax = await token.MAX_TAX_BASIS_POINTS();
+      await expect(
+        token.setProjectTaxRates(Number(maxTax) + 1, 400)
+      ).to.be.revertedWithCustomError(token, "TaxTooHigh");
+
+      // 5% sell tax, so the sell surcharge may take it up to the cap
+      await token.setExtendedHoursSurcharges(0, Number(maxTax) - 500);
+      await expect(
+        token.setExtendedHoursSurcharges(0, Number(maxTax) - 499)
+      ).to.be.revertedWithCustomError(token, "TaxTooHigh");
+      await expect(
+        token.setProjectTaxRates(300, 501)
+      ).to.be.revertedWithCustomError(token, "TaxTooHigh");
+    });
+
     it("Should allow owner to set swap threshold", async function () {
       await token.setSwapThresholdBasisPoints(100); // 1%
       expect(await token.swapThresholdBasisPoints()).to.equal(100);
@@ -0,0 +1,257 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TradingDaysLibraryHarness } from "../typechain-types";
+import {
+  Holiday,
+  easterDate,
+  getHoliday,
+  getHolidayName,
+  getMarketHolidays,
+  isEarlyClose,
+} from "../sdk";
+import goldenHolidays from "./fixtures/nyse-holidays.json";
+
+// Midday UTC keeps the timestamp on the intended calendar day
+function dateToTimestamp(date: string): number {
+  return Date.parse(`${date}T12:00:00Z`) / 1000;
+}
+
+// "EST" or "EDT" for a unix timestamp, from the runtime's tz database
+function easternZone(timestamp: bigint): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/New_York",
+    timeZoneName: "short",
+  })
+    .format(new Date(Number(timestamp) * 1000))
+    .split(" ")[1];
+}
+
+// Library functions take Eastern Time, encoded as if it were UTC
+function easternTimestamp(dateTime: string): number {
+  return Date.parse(`${dateTime}Z`) / 1000;
+}
+
+describe("TradingDaysLibrary", function () {
+  let harness: TradingDaysLibraryHarness;
+
+  before(async function () {
+    const TradingDaysLibraryHarness = await ethers.getContractFactory(
+      "TradingDaysLibraryHarness"
+    );
+    harness = await TradingDaysLibraryHarness.deploy();
+  });
+
+  describe("Reference calendar", function () {
+    it("should match the published NYSE closures for 2020-2040", function () {
+      for (const [year, closures] of Object.entries(goldenHolidays)) {
+        expect(getMarketHolidays(Number(year)), year).to.deep.equal(closures);
+      }
+    });
+
+    it("should compute Easter on both sides of the March/April boundary", function () {
+      expect(easterDate(2024)).to.deep.equal({ month: 3, day: 31 });
+      expect(easterDate(2029)).to.deep.equal({ month: 4, day: 1 });
+      expect(easterDate(2038)).to.deep.equal({ month: 4, day: 25 });
+    });
+  });
+
+  describe("On-chain calendar", function () {
+    it("should compute Easter like the reference calendar", async function () {
+      for (let year = 2020; year <= 2040; year++) {
+        const [month, day] = await harness.getEasterDate(year);
+        expect(
+          { month: Number(month), day: Number(day) },
+          `${year}`
+        ).to.deep.equal(easterDate(year));
+      }
+    });
+
+    it("should agree with the reference calendar on every day of 2020-2040", async function () {
+      this.timeout(120000);
+      for (let year = 2020; year <= 2040; year++) {
+        // One call per month keeps each traced call small
+        for (let month = 1; month <= 12; month++) {
+          const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+          const [holidays, observed] = await harness.getHolidays(
+            Date.UTC(year, month - 1, 1) / 1000,
+            daysInMonth
+          );
+
+          for (let day = 1; day <= daysInMonth; day++) {
+            const expected = getHoliday(year, month, day);
+            const label = `${year}-${month}-${day}`;
+
+            expect(Number(holidays[day - 1]), label).to.equal(expected.holiday);
+            expect(observed[day - 1], label).to.equal(expected.observed);
+          }
+        }
+      }
+    });
+
+    it("should close for Good Friday", async function () {
+      const [holiday, observed] = await harness.getHoliday(
+        dateToTimestamp("2024-03-29")
+      );
+      expect(holiday).to.equal(Holiday.GOOD_FRIDAY);
+      expect(observed).to.be.false;
+    });
+
+    it("should close for Juneteenth from 2022 only", async function () {
+      expect(
+        (await harness.getHoliday(dateToTimestamp("2021-06-18")))[0]
+      ).to.equal(Holiday.NONE);
+      expect(
+        await harness.getHolidayName(dateToTimestamp("2022-06-20"))
+      ).to.equal("Juneteenth (Observed)");
+      expect(
+        await harness.getHolidayName(dateToTimestamp("2025-06-19"))
+      ).to.equal("Juneteenth");
+    });
+
+    it("should observe Saturday holidays on Friday and Sunday holidays on Monday", async function () {
+      expect(
+        await harness.getHolidayName(dateToTimestamp("2026-07-03"))
+      ).to.equal("Independence Day (Observed)");
+      expect(
+        await harness.getHolidayName(dateToTimestamp("2022-12-26"))
+      ).to.equal("Christmas Day (Observed)");
+      expect(
+        await harness.getHolidayName(dateToTimestamp("2023-01-02"))
+      ).to.equal("New Year's Day (Observed)");
+    });
+
+    it("should stay open on December 31 when New Year's Day is a Saturday", async function () {
+      const timestamp = dateToTimestamp("2021-12-31");
+      expect((await harness.getHoliday(timestamp))[0]).to.equal(Holiday.NONE);
+      expect(await harness.getHolidayName(timestamp)).to.equal("Not a Holiday");
+    });
+
+    it("should still name weekend holidays on their calendar date", async function () {
+      expect(
+        await harness.getHolidayName(dateToTimestamp("2027-12-25"))
+      ).to.equal("Christmas Day");
+      // The Friday before is also closed as the observed date
+      expect(
+        await harness.getHolidayName(dateToTimestamp("2027-12-24"))
+      ).to.equal(getHolidayName(getHoliday(2027, 12, 24)));
+    });
+  });
+
+  describe("Daylight saving time", function () {
+    it("should switch offsets at the same instants as America/New_York for 2020-2040", async function () {
+      for (let year = 2020; year <= 2040; year++) {
+        const dstStart = await harness.getDSTStart(year);
+        const dstEnd = await harness.getDSTEnd(year);
+
+        expect(easternZone(dstStart - 1n), `${year} start`).to.equal("EST");
+        expect(easternZone(dstStart), `${year} start`).to.equal("EDT");
+        expect(easternZone(dstEnd - 1n), `${year} end`).to.equal("EDT");
+        expect(easternZone(dstEnd), `${year} end`).to.equal("EST");
+      }
+    });
+  });
+
+  describe("Early close sessions", function () {
+    // Published NYSE 1:00 PM closes
+    const PUBLISHED_EARLY_CLOSES = [
+      "2023-07-03",
+      "2023-11-24",
+      "2024-07-03",
+      "2024-11-29",
+      "2024-12-24",
+      "2025-07-03",
+      "2025-11-28",
+      "2025-12-24",
+    ];
+
+    it("should match the published NYSE half-days for 2023-2025", function () {
+      const earlyCloses: string[] = [];
+      for (let year = 2023; year <= 2025; year++) {
+        for (const [month, days] of [
+          [7, [2, 3]],
+          [11, [22, 23, 24, 25, 26, 27, 28, 29]],
+          [12, [23, 24]],
+        ] as [number, number[]][]) {
+          for (const day of days) {
+            if (isEarlyClose(year, month, day)) {
+              earlyCloses.push(
+                new Date(Date.UTC(year, month - 1, day))
+                  .toISOString()
+                  .slice(0, 10)
+              );
+            }
+          }
+        }
+      }
+      expect(earlyCloses).to.deep.equal(PUBLISHED_EARLY_CLOSES);
+    });
+
+    it("should agree with the reference calendar around every half-day of 2020-2040", async function () {
+      for (let year = 2020; year <= 2040; year++) {
+        const dates: [number, number][] = [
+          [7, 2],
+          [7, 3],
+          [11, 22],
+          [11, 23],
+          [11, 24],
+          [11, 25],
+          [11, 26],
+          [11, 27],
+          [11, 28],
+          [11, 29],
+          [12, 23],
+          [12, 24],
+        ];
+        const earlyCloses = await harness.areEarlyCloses(
+          dates.map(([month, day]) => Date.UTC(year, month - 1, day, 12) / 1000)
+        );
+
+        dates.forEach(([month, day], i) => {
+          expect(earlyCloses[i], `${year}-${month}-${day}`).to.equal(
+            isEarlyClose(year, month, day)
+          );
+        });
+      }
+    });
+
+    it("should not shorten the session when the eve is a holiday or weekend", async function () {
+      // Christmas 2027 is a Saturday, so December 24th is the observed holiday
+      expect(await harness.isEarlyClose(dateToTimestamp("2027-12-24"))).to.be
+        .false;
+      // July 3rd 2027 is a Saturday
+      expect(await harness.isEarlyClose(dateToTimestamp("2027-07-03"))).to.be
+        .false;
+    });
+
+    it("should close at 1:00 PM ET on half-days", async function () {
+      expect(
+        await harness.getMarketCloseTime(
+          easternTimestamp("2024-11-29T10:00:00")
+        )
+      ).to.equal(easternTimestamp("2024-11-29T13:00:00"));
+      expect(
+        await harness.isCoreTradingHours(
+          easternTimestamp("2024-11-29T12:59:00")
+        )
+      ).to.be.true;
+      expect(
+        await harness.isCoreTradingHours(
+          easternTimestamp("2024-11-29T13:00:00")
+        )
+      ).to.be.false;
+    });
+
+    it("should close at 4:00 PM ET on regular days", async function () {
+      expect(
+        await harness.getMarketCloseTime(
+          easternTimestamp("2024-11-27T10:00:00")
+        )
+      ).to.equal(easternTimestamp("2024-11-27T16:00:00"));
+      expect(
+        await harness.isCoreTradingHours(
+          easternTimestamp("2024-11-27T15:59:00")
+        )
+      ).to.be.true;
+    });
+  });
+});
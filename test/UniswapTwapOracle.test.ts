@@ -0,0 +1,253 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  time,
+  takeSnapshot,
+  SnapshotRestorer,
+} from "@nomicfoundation/hardhat-network-helpers";
+import { EventLog } from "ethers";
+import {
+  MockERC20,
+  StonkToken,
+  StonkTokenFactory,
+  StonkTradingRouter,
+  UniswapTwapOracle,
+} from "../typechain-types";
+import { getNextMarketOpen } from "../sdk";
+
+describe("UniswapTwapOracle", function () {
+  let factory: StonkTokenFactory;
+  let router: StonkTradingRouter;
+  let oracle: UniswapTwapOracle;
+  let assetToken: MockERC20;
+  let stonkToken: StonkToken;
+  let owner: SignerWithAddress;
+  let trader: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let tokenAddress: string;
+  let oracleAddress: string;
+  let snapshot: SnapshotRestorer;
+
+  const DEPLOYMENT_FEE = ethers.parseEther("0.1"); // 0.1 ETH
+  const BONDING_CURVE_FEE_BASIS_POINTS = 300; // 3% fee
+  const MIN_OBSERVATION_INTERVAL = 300;
+  const REFERENCE_PRICE_WINDOW = 1800;
+
+  async function deadline() {
+    return (await time.latest()) + 300;
+  }
+
+  async function graduate() {
+    await router
+      .connect(trader)
+      .buyTokens(
+        tokenAddress,
+        ethers.parseEther("35000000"),
+        ethers.parseUnits("200000", 6),
+        await deadline()
+      );
+    expect(await router.isTokenGraduated(tokenAddress)).to.be.true;
+  }
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  beforeEach(async function () {
+    [owner, trader, treasury] = await ethers.getSigners();
+
+    // Factory tokens hold bonding curve trades to market hours
+    await time.increaseTo(getNextMarketOpen(await time.latest()));
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    assetToken = await MockERC20.deploy("Mock USDC", "USDC", 6);
+    await assetToken.mint(trader.address, ethers.parseUnits("200000", 6));
+
+    const MockUniswapFactory = await ethers.getContractFactory(
+      "MockUniswapFactory"
+    );
+    const uniswapFactory = await MockUniswapFactory.deploy();
+    const MockUniswapRouter = await ethers.getContractFactory(
+      "MockUniswapRouter"
+    );
+    const uniswapRouter = await MockUniswapRouter.deploy(
+      await uniswapFactory.getAddress()
+    );
+
+    const StonkTokenDeployer = await ethers.getContractFactory(
+      "StonkTokenDeployer"
+    );
+    const tokenDeployer = await StonkTokenDeployer.deploy();
+    const BondingCurveDeployer = await ethers.getContractFactory(
+      "BondingCurveDeployer"
+    );
+    const bondingCurveDeployer = await BondingCurveDeployer.deploy();
+    const HyperbolicCurve = await ethers.getContractFactory("HyperbolicCurve");
+    const curveStrategy = await HyperbolicCurve.deploy();
+
+    const StonkTokenFactory = await ethers.getContractFactory(
+      "StonkTokenFactory"
+    );
+    factory = await StonkTokenFactory.deploy(
+      treasury.address,
+      DEPLOYMENT_FEE,
+      await uniswapFactory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await assetToken.getAddress(),
+      BONDING_CURVE_FEE_BASIS_POINTS,
+      await tokenDeployer.getAddress(),
+      await bondingCurveDeployer.getAddress(),
+      await curveStrategy.getAddress()
+    );
+    const StonkTradingRouter = await ethers.getContractFactory(
+      "StonkTradingRouter"
+    );
+    router = await StonkTradingRouter.deploy(
+      await factory.getAddress(),
+      await uniswapRouter.getAddress(),
+      await uniswapFactory.getAddress(),
+      await assetToken.getAddress()
+    );
+    await factory.setTradingRouter(await router.getAddress());
+
+    const UniswapTwapOracle = await ethers.getContractFactory(
+      "UniswapTwapOracle"
+    );
+    oracle = await UniswapTwapOracle.deploy(await router.getAddress());
+    oracleAddress = await oracle.getAddress();
+
+    const tx = await factory.deployToken(
+      "Test Token",
+      "TEST",
+      treasury.address,
+      0, // No buy tax
+      0, // No sell tax
+      1000,
+      ethers.ZeroAddress, // Default curve strategy
+      ethers.ZeroAddress, // Default quote asset
+      { value: DEPLOYMENT_FEE }
+    );
+    const receipt = await tx.wait();
+    const eventLog = receipt?.logs.find(
+      (log): log is EventLog =>
+        log instanceof EventLog && log.fragment?.name === "TokenDeployed"
+    );
+    if (!eventLog) throw new Error("TokenDeployed event not found");
+    tokenAddress = eventLog.args[0];
+    stonkToken = await ethers.getContractAt("StonkToken", tokenAddress);
+
+    const routerAddress = await router.getAddress();
+    await assetToken.connect(trader).approve(routerAddress, ethers.MaxUint256);
+    await stonkToken.connect(trader).approve(routerAddress, ethers.MaxUint256);
+  });
+
+  describe("Router", function () {
+    it("should only let the owner set the oracle", async function () {
+      await expect(
+        router.connect(trader).setPriceOracle(oracleAddress)
+      ).to.be.revertedWithCustomError(router, "OwnableUnauthorizedAccount");
+      await expect(router.setPriceOracle(oracleAddress))
+        .to.emit(router, "PriceOracleUpdated")
+        .withArgs(oracleAddress);
+      expect(await router.priceOracle()).to.equal(oracleAddress);
+    });
+
+    it("should use the bonding curve price before graduation", async function () {
+      await router.setPriceOracle(oracleAddress);
+      const bondingCurve = await ethers.getContractAt(
+        "BondingCurve",
+        await router.getBondingCurveAddress(tokenAddress)
+      );
+
+      expect(await router.getReferencePrice(tokenAddress)).to.equal(
+        await bondingCurve.getCurrentPrice()
+      );
+      await expect(oracle.update(tokenAddress)).to.be.revertedWithCustomError(
+        oracle,
+        "NotGraduated"
+      );
+      await expect(
+        oracle.consult(tokenAddress, REFERENCE_PRICE_WINDOW)
+      ).to.be.revertedWithCustomError(oracle, "NotGraduated");
+    });
+
+    it("should need an oracle after graduation", async function () {
+      await graduate();
+      await expect(
+        router.getReferencePrice(tokenAddress)
+      ).to.be.revertedWithCustomError(router, "PriceOracleNotSet");
+    });
+  });
+
+  describe("Observations", function () {
+    beforeEach(async function () {
+      await router.setPriceOracle(oracleAddress);
+      // The graduating trade records the first observation
+      await graduate();
+    });
+
+    it("should record at most one observation per interval", async function () {
+      expect(await oracle.observationCount(tokenAddress)).to.equal(1);
+
+      await expect(oracle.update(tokenAddress)).not.to.emit(
+        oracle,
+        "ObservationRecorded"
+      );
+      expect(await oracle.observationCount(tokenAddress)).to.equal(1);
+
+      await time.increase(MIN_OBSERVATION_INTERVAL);
+      await expect(oracle.update(tokenAddress)).to.emit(
+        oracle,
+        "ObservationRecorded"
+      );
+      expect(await oracle.observationCount(tokenAddress)).to.equal(2);
+    });
+
+    it("should average the pair price over the window", async function () {
+      const startPrice = await router.getSpotPrice(tokenAddress);
+      await expect(
+        oracle.consult(tokenAddress, REFERENCE_PRICE_WINDOW)
+      ).to.be.revertedWithCustomError(oracle, "InsufficientHistory");
+      await expect(
+        oracle.consult(tokenAddress, 0)
+      ).to.be.revertedWithCustomError(oracle, "InvalidWindow");
+
+      await time.increase(REFERENCE_PRICE_WINDOW);
+      await oracle.update(tokenAddress);
+      expect(
+        await oracle.consult(tokenAddress, REFERENCE_PRICE_WINDOW)
+      ).to.equal(startPrice);
+
+      await router
+        .connect(trader)
+        .sellTokens(
+          tokenAddress,
+          await stonkToken.balanceOf(trader.address),
+          0,
+          await deadline()
+        );
+      const endPrice = await router.getSpotPrice(tokenAddress);
+      // The TWAP has not moved with the spot price
+      expect(await router.getReferencePrice(tokenAddress)).to.equal(startPrice);
+
+      await time.increase(REFERENCE_PRICE_WINDOW);
+      const recent = await oracle.consult(tokenAddress, REFERENCE_PRICE_WINDOW);
+      expect(recent).to.be.closeTo(endPrice, endPrice / 50n + 1n);
+      expect(await router.getReferencePrice(tokenAddress)).to.equal(recent);
+
+      // Two windows back, the average spans both prices
+      const average = (startPrice + endPrice) / 2n;
+      expect(
+        await oracle.consult(tokenAddress, REFERENCE_PRICE_WINDOW * 2)
+      ).to.be.closeTo(average, average / 50n + 1n);
+      await expect(
+        oracle.consult(tokenAddress, REFERENCE_PRICE_WINDOW * 3)
+      ).to.be.revertedWithCustomError(oracle, "InsufficientHistory");
+    });
+  });
+});